@@ -0,0 +1,223 @@
+#!/usr/bin/env ts-node
+
+import { Wallet } from 'xrpl';
+import { getDataDir } from '../src/config';
+import { createKeystore, importAccount, keystoreExists, listAccounts, unlockAccount } from '../src/utils/keystore';
+import { encryptIssuerKeys } from '../src/utils/issuer_keystore';
+
+/**
+ * 🔐 RWA.build Keystore Utilities
+ *
+ * Manage the encrypted keystore that holds operator and issuer seeds.
+ * The passphrase is read from XRPL_KEYSTORE_PASSPHRASE or prompted for.
+ * Secrets are never taken as arguments: prompts don't echo, and when stdin
+ * is not a terminal they are read from it one line each, in prompt order.
+ */
+
+let pipedLines: Promise<string[]> | null = null;
+
+// Next line of piped stdin, e.g. `printf '%s\n' "$SEED" | npm run keystore import operator`
+function readPipedLine(): Promise<string> {
+    pipedLines = pipedLines || new Promise((resolve, reject) => {
+        let data = '';
+        process.stdin.setEncoding('utf8');
+        process.stdin.on('data', chunk => data += chunk);
+        process.stdin.on('end', () => resolve(data.split(/\r?\n/)));
+        process.stdin.on('error', reject);
+    });
+
+    return pipedLines.then(lines => lines.shift() || '');
+}
+
+// Prompt without echoing what is typed
+function readHidden(question: string): Promise<string> {
+    if (!process.stdin.isTTY) {
+        return readPipedLine();
+    }
+
+    return new Promise((resolve, reject) => {
+        const stdin = process.stdin;
+        let value = '';
+
+        const finish = (error?: Error) => {
+            stdin.setRawMode(false);
+            stdin.pause();
+            stdin.removeListener('data', onData);
+            process.stdout.write('\n');
+            error ? reject(error) : resolve(value);
+        };
+
+        const onData = (chunk: string) => {
+            for (const char of chunk) {
+                if (char === '\r' || char === '\n' || char === '\u0004') {
+                    return finish();
+                }
+                if (char === '\u0003') {
+                    return finish(new Error('Cancelled'));
+                }
+                value = char === '\u007f' || char === '\b' ? value.slice(0, -1) : value + char;
+            }
+        };
+
+        process.stdout.write(question);
+        stdin.setRawMode(true);
+        stdin.setEncoding('utf8');
+        stdin.on('data', onData);
+        stdin.resume();
+    });
+}
+
+async function getPassphrase(confirm: boolean = false): Promise<string> {
+    if (process.env.XRPL_KEYSTORE_PASSPHRASE) {
+        return process.env.XRPL_KEYSTORE_PASSPHRASE;
+    }
+
+    const passphrase = await readHidden('🔑 Keystore passphrase: ');
+    if (!passphrase) {
+        throw new Error('Passphrase cannot be empty');
+    }
+
+    if (confirm && (await readHidden('🔑 Confirm passphrase: ')) !== passphrase) {
+        throw new Error('Passphrases do not match');
+    }
+
+    return passphrase;
+}
+
+// Create an empty keystore
+export async function create(dataDir: string) {
+    const passphrase = await getPassphrase(true);
+    createKeystore(dataDir, passphrase);
+
+    console.log(`✅ Keystore created in ${dataDir}`);
+    console.log('   Next: npm run keystore import <name>');
+}
+
+// Import an existing seed (read without echo), or generate a new one, under a name
+export async function importSeed(dataDir: string, name: string, generate: boolean) {
+    const passphrase = await getPassphrase();
+    const seed = generate ? Wallet.generate().seed! : (await readHidden('🌱 Seed to import: ')).trim();
+
+    if (!seed) {
+        throw new Error('Seed cannot be empty (use --generate to create a new account)');
+    }
+
+    const address = importAccount(dataDir, passphrase, name, seed);
+
+    console.log(`✅ Account '${name}' ${generate ? 'generated' : 'imported'}`);
+    console.log(`   Address: ${address}`);
+    if (generate) {
+        console.log('   Fund this address before using it on-ledger');
+    }
+}
+
+// List account names and addresses (no passphrase needed)
+export function list(dataDir: string) {
+    const accounts = listAccounts(dataDir);
+
+    if (accounts.length === 0) {
+        console.log('ℹ️  Keystore is empty');
+        return;
+    }
+
+    console.log(`📋 ${accounts.length} account(s) in ${dataDir}:`);
+    for (const account of accounts) {
+        console.log(`   • ${account.name.padEnd(20)} ${account.address}  (added ${account.createdAt})`);
+    }
+}
+
+// Verify the passphrase for an account and optionally reveal its seed
+export async function unlock(dataDir: string, name: string, showSeed: boolean) {
+    const passphrase = await getPassphrase();
+    const wallet = unlockAccount(dataDir, passphrase, name);
+
+    console.log(`✅ Account '${name}' unlocked`);
+    console.log(`   Address: ${wallet.address}`);
+    if (showSeed) {
+        console.log(`   Seed:    ${wallet.seed}`);
+    }
+    console.log('');
+    console.log('📝 TO USE WITH RWA.BUILD:');
+    console.log(`   XRPL_KEYSTORE_ACCOUNT=${name}`);
+    console.log('   XRPL_KEYSTORE_PASSPHRASE=<your passphrase>');
+}
+
+// Encrypt issuer seeds that were saved in plaintext
+export async function encryptIssuers(dataDir: string) {
+    const passphrase = await getPassphrase();
+    const count = encryptIssuerKeys(dataDir, passphrase);
+
+    console.log(count > 0
+        ? `✅ Encrypted ${count} issuer key(s)`
+        : 'ℹ️  No plaintext issuer keys found');
+}
+
+// CLI interface
+async function main() {
+    const command = process.argv[2];
+    const args = process.argv.slice(3).filter(arg => !arg.startsWith('--'));
+    const dataDir = getDataDir();
+
+    console.log('🔐 RWA.build Keystore\n');
+
+    try {
+        switch (command) {
+            case 'create':
+                await create(dataDir);
+                break;
+
+            case 'import':
+                if (!args[0]) {
+                    console.log('❌ Account name required');
+                    console.log('Usage: npm run keystore import <name> [--generate]');
+                    process.exit(1);
+                }
+                if (args[1]) {
+                    console.log('❌ Seeds are not accepted as arguments, where they would end up in shell history');
+                    console.log('   Run without the seed and enter it at the prompt, or pipe it on stdin');
+                    process.exit(1);
+                }
+                if (!keystoreExists(dataDir)) {
+                    console.log('❌ No keystore found - run: npm run keystore create');
+                    process.exit(1);
+                }
+                await importSeed(dataDir, args[0], process.argv.includes('--generate'));
+                break;
+
+            case 'list':
+                list(dataDir);
+                break;
+
+            case 'unlock':
+                if (!args[0]) {
+                    console.log('❌ Account name required');
+                    console.log('Usage: npm run keystore unlock <name> [--show-seed]');
+                    process.exit(1);
+                }
+                await unlock(dataDir, args[0], process.argv.includes('--show-seed'));
+                break;
+
+            case 'encrypt-issuers':
+                await encryptIssuers(dataDir);
+                break;
+
+            default:
+                console.log('🔧 Available commands:');
+                console.log('   npm run keystore create                     # Create an encrypted keystore');
+                console.log('   npm run keystore import <name> [--generate] # Import a seed from a prompt (or generate one)');
+                console.log('   npm run keystore list                       # List stored accounts');
+                console.log('   npm run keystore unlock <name> [--show-seed] # Verify passphrase for an account');
+                console.log('   npm run keystore encrypt-issuers            # Encrypt plaintext issuer keys');
+                console.log('');
+                console.log(`💾 Keystore location: ${dataDir} (set RWA_DATA_DIR to change)`);
+                break;
+        }
+    } catch (error: any) {
+        console.error('\n❌ Command failed:', error.message);
+        process.exit(1);
+    }
+}
+
+if (require.main === module) {
+    main();
+}
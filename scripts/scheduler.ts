@@ -0,0 +1,76 @@
+#!/usr/bin/env ts-node
+
+import { RWAAgent } from '../src/agent';
+
+/**
+ * ⏰ RWA.build Distribution Scheduler
+ *
+ * Long-running mode for schedules created with rwa_schedule_distribution.
+ * Wakes up every --interval minutes (default 60), pays whatever is due and
+ * records each run. Use --once to run a single pass (e.g. from cron).
+ * Uses the same wallet configuration as the MCP server.
+ */
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+async function runOnce(agent: RWAAgent) {
+    try {
+        await agent.connect();
+        const report = await agent.runScheduledDistributions({ trigger: 'scheduler' });
+        const runs = report.flatMap(entry => entry.runs);
+
+        if (runs.length === 0) {
+            console.log(`ℹ️  ${new Date().toISOString()} - nothing due`);
+        }
+
+        for (const entry of report) {
+            for (const run of entry.runs) {
+                const icon = run.status === 'success' ? '✅' : run.status === 'partial' ? '⚠️ ' : '❌';
+                console.log(`${icon} ${entry.assetId} period ${run.periodDate.slice(0, 10)}: ${run.status}` +
+                    (run.error ? ` - ${run.error}` : ` - ${run.totalDistributed} to ${run.recipientCount} holder(s)`));
+            }
+            if (entry.nextPayment) {
+                console.log(`   Next payment for ${entry.assetId}: ${entry.nextPayment}`);
+            }
+        }
+    } catch (error: any) {
+        console.error('❌ Scheduler pass failed:', error.message);
+    } finally {
+        await agent.disconnect();
+    }
+}
+
+async function main() {
+    const intervalArg = process.argv.find(arg => arg.startsWith('--interval='));
+    const intervalMinutes = intervalArg ? Number(intervalArg.split('=')[1]) : DEFAULT_INTERVAL_MINUTES;
+
+    if (!Number.isFinite(intervalMinutes) || intervalMinutes <= 0) {
+        console.log('❌ --interval must be a positive number of minutes');
+        process.exit(1);
+    }
+
+    console.log('⏰ RWA.build Distribution Scheduler\n');
+
+    const agent = new RWAAgent();
+    await runOnce(agent);
+
+    if (process.argv.includes('--once')) {
+        return;
+    }
+
+    console.log(`\n💤 Checking every ${intervalMinutes} minute(s) - Ctrl+C to stop`);
+    const timer = setInterval(() => runOnce(agent), intervalMinutes * 60 * 1000);
+
+    process.on('SIGINT', () => {
+        clearInterval(timer);
+        console.log('\n👋 Scheduler stopped');
+        process.exit(0);
+    });
+}
+
+if (require.main === module) {
+    main().catch(error => {
+        console.error('❌ Scheduler failed to start:', error.message);
+        process.exit(1);
+    });
+}
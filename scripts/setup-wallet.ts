@@ -3,6 +3,8 @@
 import { Client, Wallet } from 'xrpl';
 import * as fs from 'fs';
 import * as path from 'path';
+import { getDataDir } from '../src/config';
+import { createKeystore, importAccount, keystoreExists } from '../src/utils/keystore';
 
 /**
  * 🚀 Complete RWA.build Setup Script
@@ -10,7 +12,8 @@ import * as path from 'path';
  * One-command setup for RWA.build development:
  * 1. Generates XRPL testnet wallet
  * 2. Funds via faucet
- * 3. Creates .env configuration
+ * 3. Creates .env configuration (seed goes to the encrypted keystore
+ *    instead when XRPL_KEYSTORE_PASSPHRASE is set)
  * 4. Verifies setup
  * 5. Ready to build!
  */
@@ -76,11 +79,24 @@ async function setupRWABuild() {
         console.log('📄 STEP 4: Creating .env configuration...');
 
         const envPath = path.join(process.cwd(), '.env');
+        const passphrase = process.env.XRPL_KEYSTORE_PASSPHRASE;
+        let walletConfig = `XRPL_PRIVATE_KEY=${wallet.seed}`;
+
+        if (passphrase) {
+            const dataDir = getDataDir();
+            if (!keystoreExists(dataDir)) {
+                createKeystore(dataDir, passphrase);
+            }
+            importAccount(dataDir, passphrase, 'operator', wallet.seed!);
+            walletConfig = `XRPL_KEYSTORE_ACCOUNT=operator\n# XRPL_KEYSTORE_PASSPHRASE must be provided at runtime`;
+            console.log(`🔐 Seed stored in encrypted keystore (${dataDir}) as 'operator'`);
+        }
+
         const envContent = `# RWA.build Configuration - Generated ${new Date().toISOString()}
 # XRPL Testnet Setup
 
 # Wallet Configuration
-XRPL_PRIVATE_KEY=${wallet.seed}
+${walletConfig}
 XRPL_NETWORK=testnet
 XRPL_SERVER=${TESTNET_SERVER}
 
@@ -93,7 +109,9 @@ XRPL_SERVER=${TESTNET_SERVER}
 `;
 
         fs.writeFileSync(envPath, envContent);
-        console.log('✅ .env file created with your credentials\n');
+        console.log(passphrase
+            ? '✅ .env file created (no plaintext seed)\n'
+            : '✅ .env file created with your credentials\n');
 
         // STEP 5: Verify setup
         console.log('🔍 STEP 5: Verifying setup...');
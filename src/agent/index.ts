@@ -1,12 +1,34 @@
-import { Client, Wallet, AccountSetAsfFlags, AccountSetTfFlags, xrpToDrops, TrustSet, AccountSet, Payment, convertStringToHex, convertHexToString } from 'xrpl';
+import { Client, Wallet, AccountSetAsfFlags, AccountSetTfFlags, TrustSetFlags, xrpToDrops, TrustSet, AccountSet, Payment, Clawback, MPTokenIssuanceCreate, MPTokenIssuanceCreateFlags, MPTokenAuthorize, convertStringToHex, convertHexToString, parseAccountRootFlags, rippleTimeToISOTime, unixTimeToRippleTime, SubmittableTransaction, TicketCreate, CredentialCreate, CredentialAccept, CredentialDelete, PermissionedDomainSet, PermissionedDomainDelete, DepositPreauth, SignerListSet, TxResponse, multisign, hashes, encode, decode, AccountLinesTrustline, AccountObjectType } from 'xrpl';
 import { getRWAConfig } from '../config';
-import { TokenizeAssetInput, TokenizationResult, RWAAsset } from '../types';
-import { createRWAMemo, findRWATokenizationTx, getColdWallet } from '../utils/xrpl_helpers';
+import { TokenizeAssetInput, TokenizationResult, RWAAsset, DistributionResult, DistributionRecipient, AssetAmendment, DistributionSchedule, DistributionRunRecord, OutstandingDistributionPayment, HolderSnapshot, WithholdingReport, WithholdingReportLine, BulkIssuanceProgress, BulkIssuanceResult, BatchSubmissionOutcome, AcquisitionLot, LockupStatus, InvestorCapCheck, ComplianceAction, ComplianceEvaluation, AcceptedCredential, InvestorCredential, PermissionedDomainInfo, SignerListEntry, SignerListInfo, MultisigProposal, PreparedTransaction, PlannedTransaction, SimulationResult, TokenizationPlan } from '../types';
+import { applyRWAAmendments, computeMPTIssuanceId, createMemo, createTrustlineAmount, createMPTMetadata, createInitialMetadataVersion, createRWAAmendmentMemo, createRWAMemo, decodeCurrencyCode, findRWAAmendments, findRWATokenizationTx, fromMPTValue, generateCurrencyCode, generateDistributionReference, getAssetIssuer, getMPTIssuer, getTokenBalanceChange, isMPTokenId, normalizeAssetId, parseMPTMetadata, splitAssetId, toMPTValue } from '../utils/xrpl_helpers';
+import { cacheAmendments, cacheMetadata, getCachedMetadata } from '../utils/metadata_cache';
+import { acquireSchedulerLock, canDeriveAmountIn, loadSchedules, readDistributionRuns, recordDistributionRun, refreshSchedulerLock, releaseSchedulerLock, saveSchedule } from '../utils/distribution_schedule';
+import { decodeCredentialType, encodeCredentialType, findQualifyingCredential, parseCredentialEntry } from '../utils/credentials';
+import { ComplianceFacts, describeComplianceFailures, evaluateCompliance, getJurisdictionProfile } from '../utils/jurisdictions';
+import { applyBalanceChange, getHolderAcquisitions, saveHolderAcquisitions, summarizeLockup } from '../utils/acquisitions';
+import { generateBatchId, IssuanceListEntry, loadIssuanceProgress, saveIssuanceProgress } from '../utils/bulk_issuance';
+import { generateSnapshotId, getSnapshot, saveSnapshot } from '../utils/holder_snapshots';
+import { getRegisteredAsset, listRegisteredAssets, registerAsset, registryEntryToAsset, updateRegisteredAsset } from '../utils/asset_registry';
+import { createIssuerKeyEntry, findIssuerKey, issuerWalletFromEntry, moveIssuerKey, saveIssuerKey } from '../utils/issuer_keystore';
+import { keystoreExists, listAccounts, unlockAccount } from '../utils/keystore';
+import { writeAuditRecord } from '../utils/audit_log';
+import { extractBalanceChanges } from '../utils/simulation';
+import { getWithholdingRules, loadTaxProfiles, recordWithholdingReport, resolveWithholdingRate } from '../utils/withholding';
+import { BATCH_SUBMISSION, CREDENTIALS, DEFAULTS, ISSUER_ACCOUNT, JURISDICTION, METADATA_LOOKUP, MPT, MULTISIG, OFFLINE_SIGNING, VALUATION } from '../constants';
+import { calculateDistributionPeriodDate, calculateDuePeriods, calculateProRataDistribution, calculateWithholding, calculateYieldDistribution } from '../utils/calculations';
+import { evaluateInvestorCap, validateDistributionAmount, validateSignerList } from '../utils/validation';
+import { generateProposalId, getMultisigProposal, getSignedWeight, saveMultisigProposal, selectSigners, verifyMultisigBlob } from '../utils/multisig';
 
 export class RWAAgent {
     public client: Client;
-    public wallet: Wallet;
+    public address: string; // Operator account
     public network: 'testnet' | 'mainnet' | 'devnet';
+    public dataDir: string;
+    public prepareOnly: boolean;
+    private operatorWallet?: Wallet;
+    private keystorePassphrase?: string;
+    private complianceAccount?: string;
 
     constructor() {
         const config = getRWAConfig();
@@ -14,12 +36,30 @@ export class RWAAgent {
         // Initialize XRPL client
         this.client = new Client(config.server);
         this.network = config.network;
-
-        // Initialize wallet from seed/private key
-        this.wallet = Wallet.fromSeed(config.privateKey);
+        this.dataDir = config.dataDir;
+        this.keystorePassphrase = config.keystorePassphrase;
+        this.complianceAccount = config.complianceAccount;
+        this.prepareOnly = config.prepareOnly;
+
+        // Initialize wallet from seed/private key, or unlock it from the encrypted keystore. Without either,
+        // the operator account is only an address and nothing is signed here.
+        this.operatorWallet = config.privateKey
+            ? Wallet.fromSeed(config.privateKey)
+            : config.keystoreAccount
+                ? unlockAccount(config.dataDir, config.keystorePassphrase!, config.keystoreAccount)
+                : undefined;
+        this.address = this.operatorWallet?.address || config.account!;
 
         console.error(`🏗️ RWA Agent initialized on ${this.network}`);
-        console.error(`📍 Wallet address: ${this.wallet.address}`);
+        console.error(`📍 Wallet address: ${this.address}${this.prepareOnly ? ' (prepare-only: transactions are returned unsigned)' : ''}`);
+    }
+
+    // Operator signing key; absent when the server runs with an address only
+    get wallet(): Wallet {
+        if (!this.operatorWallet) {
+            throw new Error(`No signing key for ${this.address} on this server. Prepare the transaction for offline signing and submit it with rwa_submit_signed`);
+        }
+        return this.operatorWallet;
     }
 
     async connect(): Promise<void> {
@@ -45,7 +85,7 @@ export class RWAAgent {
         try {
             const response = await this.client.request({
                 command: 'account_info',
-                account: this.wallet.address,
+                account: this.address,
                 ledger_index: 'validated'
             });
             return response.result;
@@ -55,254 +95,2937 @@ export class RWAAgent {
         }
     }
  
+    // Look up the issuer wallet for an asset (or issuer address) from the local keystore
+    getIssuerWallet(assetIdOrIssuer: string): Wallet {
+        const entry = findIssuerKey(this.dataDir, assetIdOrIssuer);
+
+        if (!entry) {
+            throw new Error(`No issuer key found for ${assetIdOrIssuer}. Import the issuer seed before signing as issuer.`);
+        }
+
+        return issuerWalletFromEntry(entry, this.keystorePassphrase);
+    }
+
+    // Make sure a new issuer account exists on-ledger, funding it from the operator wallet if needed
+    async activateIssuerAccount(issuerAddress: string, fundingXrp: number): Promise<string | null> {
+        if (await this.getAccountSequence(issuerAddress) !== null) {
+            return null; // Already active
+        }
+
+        const result: any = await this.submitAs(this.buildIssuerFunding(issuerAddress, fundingXrp), this.wallet);
+        if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
+            throw new Error(`Issuer funding failed: ${result.result.meta?.TransactionResult}`);
+        }
+
+        console.error(`✅ Issuer account ${issuerAddress} activated with ${fundingXrp} XRP: ${result.result.hash}`);
+        return result.result.hash;
+    }
+
+    private buildIssuerFunding(issuerAddress: string, fundingXrp: number): Payment {
+        return {
+            TransactionType: 'Payment',
+            Account: this.address,
+            Destination: issuerAddress,
+            Amount: xrpToDrops(fundingXrp),
+            Fee: '12'
+        };
+    }
+
+    // Next Sequence of an account, or null when it has not been funded yet
+    private async getAccountSequence(address: string): Promise<number | null> {
+        try {
+            const accountInfo = await this.client.request({
+                command: 'account_info',
+                account: address,
+                ledger_index: 'current'
+            });
+            return accountInfo.result.account_data.Sequence;
+        } catch (error: any) {
+            if (!error.message?.includes('actNotFound') && error.data?.error !== 'actNotFound') {
+                throw error;
+            }
+            return null;
+        }
+    }
+
+    // Read the issuer's account flags (RequireAuth, GlobalFreeze, etc.)
+    async getIssuerFlags(issuer: string) {
+        const accountInfo = await this.client.request({
+            command: 'account_info',
+            account: issuer,
+            ledger_index: 'validated'
+        });
+
+        return parseAccountRootFlags(accountInfo.result.account_data.Flags);
+    }
+
+    // Approve a holder's trustline as the asset issuer (TrustSet with tfSetfAuth)
+    async authorizeTrustline(assetId: string, holderAddress: string): Promise<string> {
+        const result: any = await this.submitAs(this.buildTrustlineAuthorization(assetId, holderAddress));
+        if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
+            throw new Error(`Trustline authorization failed: ${result.result.meta?.TransactionResult}`);
+        }
+
+        console.error(`✅ Authorized ${decodeCurrencyCode(splitAssetId(assetId)[0])} trustline for ${holderAddress}: ${result.result.hash}`);
+        return result.result.hash;
+    }
+
+    buildTrustlineAuthorization(assetId: string, holderAddress: string): TrustSet {
+        const [currency, issuer] = splitAssetId(assetId);
+
+        return {
+            TransactionType: 'TrustSet',
+            Account: issuer,
+            LimitAmount: {
+                currency: currency,
+                issuer: holderAddress,
+                value: '0'
+            },
+            Flags: TrustSetFlags.tfSetfAuth,
+            Fee: '12'
+        };
+    }
+
+    // Every trustline to an asset's issuer in the asset's currency, page by page
+    private async getAssetTrustlines(assetId: string): Promise<AccountLinesTrustline[]> {
+        const [currency, issuer] = splitAssetId(assetId);
+        const lines: AccountLinesTrustline[] = [];
+        let marker: unknown = undefined;
+
+        do {
+            const accountLines = await this.client.request({
+                command: 'account_lines',
+                account: issuer,
+                ledger_index: 'validated',
+                limit: 400,
+                ...(marker ? { marker } : {})
+            });
+
+            lines.push(...accountLines.result.lines.filter(line => line.currency === currency));
+            marker = accountLines.result.marker;
+        } while (marker);
+
+        return lines;
+    }
+
+    // Every ledger object of one type owned by an account, page by page
+    private async getAccountObjects(account: string, type: AccountObjectType): Promise<any[]> {
+        const objects: any[] = [];
+        let marker: unknown = undefined;
+
+        do {
+            const response = await this.client.request({
+                command: 'account_objects',
+                account,
+                type,
+                ledger_index: 'validated',
+                limit: 400,
+                ...(marker ? { marker } : {})
+            });
+
+            objects.push(...response.result.account_objects);
+            marker = response.result.marker;
+        } while (marker);
+
+        return objects;
+    }
+
+    // List holder trustlines for an asset with their authorization state
+    async getTrustlineAuthorizations(assetId: string): Promise<Array<{
+        address: string;
+        balance: number;
+        limit: string;
+        authorized: boolean;
+    }>> {
+        // From the issuer's side, `authorized` means the issuer has approved the holder's line
+        return (await this.getAssetTrustlines(assetId))
+            .map(line => ({
+                address: line.account,
+                balance: Math.abs(parseFloat(line.balance)),
+                limit: line.limit_peer,
+                authorized: !!line.authorized
+            }));
+    }
+
+    // Freeze or unfreeze a single holder's trustline as the asset issuer
+    async setTrustlineFreeze(assetId: string, holderAddress: string, freeze: boolean): Promise<string> {
+        const result: any = await this.submitAs(this.buildTrustlineFreeze(assetId, holderAddress, freeze));
+        if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
+            throw new Error(`Trustline ${freeze ? 'freeze' : 'unfreeze'} failed: ${result.result.meta?.TransactionResult}`);
+        }
+
+        console.error(`${freeze ? '🧊' : '🔥'} ${freeze ? 'Froze' : 'Unfroze'} ${decodeCurrencyCode(splitAssetId(assetId)[0])} trustline for ${holderAddress}: ${result.result.hash}`);
+        return result.result.hash;
+    }
+
+    buildTrustlineFreeze(assetId: string, holderAddress: string, freeze: boolean): TrustSet {
+        const [currency, issuer] = splitAssetId(assetId);
+
+        return {
+            TransactionType: 'TrustSet',
+            Account: issuer,
+            LimitAmount: {
+                currency: currency,
+                issuer: holderAddress,
+                value: '0'
+            },
+            Flags: freeze ? TrustSetFlags.tfSetFreeze : TrustSetFlags.tfClearFreeze,
+            Fee: '12'
+        };
+    }
+
+    // Turn global freeze on or off for every token from an issuer
+    async setGlobalFreeze(assetIdOrIssuer: string, enabled: boolean): Promise<string> {
+        const issuer = getAssetIssuer(assetIdOrIssuer);
+
+        const result: any = await this.submitAs(this.buildGlobalFreeze(issuer, enabled));
+        if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
+            throw new Error(`Global freeze update failed: ${result.result.meta?.TransactionResult}`);
+        }
+
+        console.error(`${enabled ? '🧊 Global freeze enabled' : '🔥 Global freeze disabled'} for ${issuer}: ${result.result.hash}`);
+
+        for (const asset of listRegisteredAssets(this.dataDir, { issuer })) {
+            if (asset.status !== 'retired') {
+                updateRegisteredAsset(this.dataDir, asset.assetId, { status: enabled ? 'frozen' : 'active' });
+            }
+        }
+
+        return result.result.hash;
+    }
+
+    buildGlobalFreeze(assetIdOrIssuer: string, enabled: boolean): AccountSet {
+        return {
+            TransactionType: 'AccountSet',
+            Account: getAssetIssuer(assetIdOrIssuer),
+            ...(enabled
+                ? { SetFlag: AccountSetAsfFlags.asfGlobalFreeze }
+                : { ClearFlag: AccountSetAsfFlags.asfGlobalFreeze }),
+            Fee: '12'
+        };
+    }
+
+    // Report issuer-level and per-holder freeze state for an asset
+    async getFreezeStatus(assetId: string): Promise<{
+        globalFreeze: boolean;
+        noFreeze: boolean;
+        frozenHolders: Array<{ address: string; balance: number }>;
+        totalTrustlines: number;
+    }> {
+        const issuerFlags = await this.getIssuerFlags(splitAssetId(assetId)[1]);
+        const lines = await this.getAssetTrustlines(assetId);
+
+        return {
+            globalFreeze: !!issuerFlags.lsfGlobalFreeze,
+            noFreeze: !!issuerFlags.lsfNoFreeze,
+            // From the issuer's side, `freeze` means the issuer froze the holder's line
+            frozenHolders: lines
+                .filter(line => line.freeze)
+                .map(line => ({ address: line.account, balance: Math.abs(parseFloat(line.balance)) })),
+            totalTrustlines: lines.length
+        };
+    }
+
+    // Recover tokens from a holder as the issuer; every attempt is written to the audit log
+    async clawbackTokens(
+        assetId: string,
+        holderAddress: string,
+        amount: number,
+        details: { reason: string; reference?: string }
+    ): Promise<string> {
+        const currency = isMPTokenId(assetId) ? assetId : splitAssetId(assetId)[0];
+
+        const audit = {
+            action: 'clawback',
+            assetId,
+            operator: this.address,
+            target: holderAddress,
+            amount,
+            reason: details.reason,
+            reference: details.reference
+        };
+
+        try {
+            const clawback = await this.buildClawback(assetId, holderAddress, amount);
+
+            const result: any = await this.submitAs(clawback);
+            if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
+                throw new Error(`Clawback failed: ${result.result.meta?.TransactionResult}`);
+            }
+
+            writeAuditRecord(this.dataDir, { ...audit, status: 'success', transactionHash: result.result.hash });
+            console.error(`⚖️ Clawed back ${amount} ${decodeCurrencyCode(currency)} from ${holderAddress}: ${result.result.hash}`);
+            return result.result.hash;
+
+        } catch (error: any) {
+            writeAuditRecord(this.dataDir, { ...audit, status: 'failed', error: error.message });
+            throw error;
+        }
+    }
+
+    // Clawback transaction for an asset, after checking the issuer enabled clawback for it
+    async buildClawback(assetId: string, holderAddress: string, amount: number): Promise<Clawback> {
+        if (isMPTokenId(assetId)) {
+            const issuer = getMPTIssuer(assetId);
+            const issuance = await this.getMPTIssuance(assetId);
+            if (!(issuance.Flags & MPT.ISSUANCE_FLAGS.CAN_CLAWBACK)) {
+                throw new Error(`Issuer ${issuer} does not have trustline clawback enabled for this MPT`);
+            }
+
+            return {
+                TransactionType: 'Clawback',
+                Account: issuer,
+                Amount: {
+                    mpt_issuance_id: assetId,
+                    value: toMPTValue(amount, issuance.AssetScale || 0)
+                },
+                Holder: holderAddress,
+                Fee: '12'
+            };
+        }
+
+        const [currency, issuer] = splitAssetId(assetId);
+        const issuerFlags = await this.getIssuerFlags(issuer);
+        if (!issuerFlags.lsfAllowTrustLineClawback) {
+            throw new Error(`Issuer ${issuer} does not have trustline clawback enabled`);
+        }
+
+        // For trustline tokens the Amount issuer field names the holder being clawed back from
+        return {
+            TransactionType: 'Clawback',
+            Account: issuer,
+            Amount: {
+                currency: currency,
+                issuer: holderAddress,
+                value: amount.toString()
+            },
+            Fee: '12'
+        };
+    }
+
+    // Fetch the MPTokenIssuance ledger object for an MPT issuance ID
+    async getMPTIssuance(mptIssuanceId: string, ledgerIndex: number | 'validated' = 'validated'): Promise<any> {
+        const response: any = await this.client.request({
+            command: 'ledger_entry',
+            mpt_issuance: mptIssuanceId,
+            ledger_index: ledgerIndex
+        });
+
+        return response.result.node;
+    }
+
+    // List every holder of an MPT (uses the Clio `mpt_holders` API, available on public servers)
+    async getMPTHolders(
+        mptIssuanceId: string,
+        ledgerIndex: number | 'validated' = 'validated'
+    ): Promise<Array<{ account: string; amount: number; locked: boolean }>> {
+        const issuance = await this.getMPTIssuance(mptIssuanceId, ledgerIndex);
+        const assetScale = issuance.AssetScale || 0;
+        const holders: Array<{ account: string; amount: number; locked: boolean }> = [];
+        let marker: any = undefined;
+
+        do {
+            const response: any = await this.client.request({
+                command: 'mpt_holders',
+                mpt_issuance_id: mptIssuanceId,
+                ledger_index: ledgerIndex,
+                ...(marker && { marker })
+            } as any);
+
+            for (const token of response.result.mptokens || []) {
+                holders.push({
+                    account: token.account,
+                    amount: fromMPTValue(token.mpt_amount || '0', assetScale),
+                    locked: !!(token.flags & MPT.TOKEN_FLAGS.LOCKED) || !!(issuance.Flags & MPT.ISSUANCE_FLAGS.LOCKED)
+                });
+            }
+
+            marker = response.result.marker;
+        } while (marker);
+
+        return holders;
+    }
+
     // Helper method to retrieve asset metadata from transaction history
-    async getAssetMetadataFromMemos(assetId: string): Promise<any> {
+    async getAssetMetadataFromMemos(
+        assetId: string,
+        options: { startLedger?: number; refresh?: boolean } = {}
+    ): Promise<any> {
+        try {
+            const cacheKey = normalizeAssetId(assetId);
+            const cached = getCachedMetadata(this.dataDir, cacheKey);
+
+            if (cached && !options.refresh) {
+                return cached.metadata;
+            }
+
+            // MPT metadata lives on the issuance object itself rather than in a memo
+            if (isMPTokenId(assetId)) {
+                const issuance = await this.getMPTIssuance(assetId);
+                const metadata = parseMPTMetadata(issuance.MPTokenMetadata);
+
+                if (!metadata?.assetDetails) {
+                    return null;
+                }
+
+                cacheMetadata(this.dataDir, cacheKey, { ...metadata, mptIssuanceId: assetId, ledgerIndex: cached?.ledgerIndex });
+                return { ...metadata, mptIssuanceId: assetId };
+            }
+
+            const [currency, issuer] = splitAssetId(assetId);
+
+            // Walk the issuer history oldest-first: the tokenization memo is on one of its first transactions.
+            // A known tokenization ledger lets the scan start right there.
+            const startLedger = options.startLedger ?? cached?.ledgerIndex ?? -1;
+            let marker: unknown = undefined;
+            let pages = 0;
+
+            do {
+                const transactions = await this.client.request({
+                    command: 'account_tx',
+                    account: issuer,
+                    limit: METADATA_LOOKUP.PAGE_SIZE,
+                    ledger_index_min: startLedger,
+                    ledger_index_max: -1,
+                    forward: true,
+                    ...(marker ? { marker } : {})
+                });
+
+                // Use helper function to find RWA tokenization transaction
+                const metadata = findRWATokenizationTx(transactions.result.transactions, currency);
+                if (metadata) {
+                    cacheMetadata(this.dataDir, cacheKey, metadata);
+                    return metadata;
+                }
+
+                marker = transactions.result.marker;
+                pages++;
+            } while (marker && pages < METADATA_LOOKUP.MAX_PAGES);
+
+            return null;
+
+        } catch (error: any) {
+            console.error('Failed to retrieve asset metadata:', error);
+            return null;
+        }
+    }
+
+    // Amendment memos anchored by the issuer after tokenization, oldest first. Scans resume where the last one stopped.
+    async getAssetAmendments(assetId: string): Promise<AssetAmendment[]> {
+        const cacheKey = normalizeAssetId(assetId);
+        const issuer = isMPTokenId(cacheKey) ? getMPTIssuer(cacheKey) : splitAssetId(cacheKey)[1];
+
+        if (!getCachedMetadata(this.dataDir, cacheKey) && !(await this.getAssetMetadataFromMemos(cacheKey))) {
+            return [];
+        }
+
+        const cached = getCachedMetadata(this.dataDir, cacheKey)!;
+        const amendments = [...(cached.amendments || [])];
+        const startLedger = cached.amendmentsScannedTo !== undefined
+            ? cached.amendmentsScannedTo + 1
+            : cached.ledgerIndex ?? -1;
+
+        let marker: unknown = undefined;
+        let scannedTo = cached.amendmentsScannedTo ?? 0;
+
+        do {
+            const transactions = await this.client.request({
+                command: 'account_tx',
+                account: issuer,
+                limit: METADATA_LOOKUP.PAGE_SIZE,
+                ledger_index_min: startLedger,
+                ledger_index_max: -1,
+                forward: true,
+                ...(marker ? { marker } : {})
+            });
+
+            amendments.push(...findRWAAmendments(transactions.result.transactions, cacheKey, issuer));
+            scannedTo = transactions.result.ledger_index_max;
+            marker = transactions.result.marker;
+        } while (marker);
+
+        cacheAmendments(this.dataDir, cacheKey, amendments, scannedTo);
+        return amendments;
+    }
+
+    // Anchor a versioned amendment (e.g. a revaluation) to the asset's on-ledger metadata
+    async updateAssetMetadata(
+        assetId: string,
+        changes: AssetAmendment['changes'],
+        options: { reason: string; effectiveDate?: string }
+    ): Promise<{ version: number; transactionHash: string; previous: RWAAsset; current: RWAAsset }> {
+        const { amendment, previous, transaction: accountSet } = await this.buildMetadataAmendment(assetId, changes, options);
+
+        const audit = {
+            action: 'metadata_amendment',
+            assetId: amendment.assetId,
+            operator: this.address,
+            reason: options.reason
+        };
+
+        try {
+            const result = await this.submitAs(accountSet);
+            const meta = result.result.meta as any;
+
+            if (meta?.TransactionResult !== 'tesSUCCESS') {
+                throw new Error(`Amendment failed: ${meta?.TransactionResult}`);
+            }
+
+            console.error(`📝 ${previous.tokenSymbol} metadata amended to v${amendment.version}: ${result.result.hash}`);
+            writeAuditRecord(this.dataDir, { ...audit, status: 'success', transactionHash: result.result.hash });
+
+            const registered = getRegisteredAsset(this.dataDir, amendment.assetId);
+            if (registered) {
+                updateRegisteredAsset(this.dataDir, amendment.assetId, {
+                    history: [...registered.history, { ...amendment, transactionHash: result.result.hash, ledgerIndex: result.result.ledger_index }]
+                });
+            }
+
+            const current = await this.getAssetInfo(assetId);
+
+            return {
+                version: amendment.version,
+                transactionHash: result.result.hash,
+                previous,
+                current: current!
+            };
+        } catch (error: any) {
+            writeAuditRecord(this.dataDir, { ...audit, status: 'failed', error: error.message });
+            throw error;
+        }
+    }
+
+    // The next metadata version of an asset and the memo-carrying AccountSet that anchors it
+    async buildMetadataAmendment(
+        assetId: string,
+        changes: AssetAmendment['changes'],
+        options: { reason: string; effectiveDate?: string }
+    ): Promise<{ amendment: AssetAmendment; previous: RWAAsset; transaction: AccountSet }> {
+        const previous = await this.getAssetInfo(assetId);
+
+        if (!previous?.version) {
+            throw new Error(`No tokenization metadata found for ${assetId}`);
+        }
+
+        const amendment: AssetAmendment = {
+            assetId: normalizeAssetId(assetId),
+            version: previous.version + 1,
+            timestamp: Date.now(),
+            changes,
+            reason: options.reason,
+            effectiveDate: options.effectiveDate
+        };
+
+        return {
+            amendment,
+            previous,
+            transaction: {
+                TransactionType: 'AccountSet',
+                Account: getAssetIssuer(assetId),
+                Fee: '12',
+                Memos: [createRWAAmendmentMemo(amendment)]
+            }
+        };
+    }
+
+    async getAssetInfo(assetId: string): Promise<RWAAsset | null> {
         try {
-            const [currency, issuer] = assetId.split('.');
+            // Assets this operator tokenized are answered from the local registry without touching the network
+            const registered = getRegisteredAsset(this.dataDir, normalizeAssetId(assetId));
+            if (registered && registered.network === this.network) {
+                return registryEntryToAsset(registered);
+            }
+
+            // Next, try to get metadata from memos
+            const tokenization = await this.getAssetMetadataFromMemos(assetId);
+
+            if (tokenization) {
+                // Fold any later amendments into the current view
+                const amendments = await this.getAssetAmendments(assetId);
+                const metadata = applyRWAAmendments(tokenization, amendments);
+
+                return {
+                    id: assetId,
+                    type: metadata.assetDetails.type,
+                    name: metadata.assetDetails.name,
+                    totalValue: metadata.assetDetails.totalValue,
+                    tokenSymbol: metadata.assetDetails.tokenSymbol,
+                    totalSupply: metadata.assetDetails.totalSupply,
+                    yieldRate: metadata.assetDetails.yieldRate,
+                    version: metadata.version,
+                    history: [createInitialMetadataVersion(normalizeAssetId(assetId), tokenization), ...amendments]
+                };
+            }
+
+            if (isMPTokenId(assetId)) {
+                const issuance = await this.getMPTIssuance(assetId);
+
+                return {
+                    id: assetId,
+                    type: "real_estate", // Would need metadata to determine
+                    name: `MPT ${assetId.substring(0, 8)}`,
+                    totalValue: 0,
+                    tokenSymbol: 'MPT',
+                    totalSupply: issuance.MaximumAmount ? fromMPTValue(issuance.MaximumAmount, issuance.AssetScale || 0) : 0,
+                    yieldRate: 0
+                };
+            }
+
+            // Fallback: parse asset ID for basic info
+            const [currency, issuer] = splitAssetId(assetId);
+
+            // Get basic account information
+            const accountInfo = await this.client.request({
+                command: 'account_info',
+                account: issuer,
+                ledger_index: 'validated'
+            });
+
+            // Check if Domain field has metadata URL
+            if (accountInfo.result.account_data.Domain) {
+                const domain = convertHexToString(accountInfo.result.account_data.Domain);
+                console.error(`📍 Domain found for metadata: ${domain}`);
+                // Here you could fetch from the domain URL if needed
+            }
+
+            // Return basic asset information
+            return {
+                id: assetId,
+                type: "real_estate", // Would need metadata to determine
+                name: `Asset ${decodeCurrencyCode(currency)}`,
+                totalValue: 0, // Would need metadata to determine
+                tokenSymbol: decodeCurrencyCode(currency),
+                totalSupply: 0, // Would need to calculate from trustlines
+                yieldRate: 0 // Would need metadata to determine
+            };
+
+        } catch (error: any) {
+            console.error('Failed to get asset info:', error);
+            return null;
+        }
+    }
+
+    // Issue tokens from the operator treasury to a list of investors. Progress is persisted per batch, and every
+    // payment's hash is recorded before it is submitted, so re-running the same list after a crash looks up
+    // in-flight payments and skips those already made instead of issuing twice.
+    async issueTokensToInvestors(
+        assetId: string,
+        distributions: IssuanceListEntry[],
+        options: { skipNotReady?: boolean; memo?: string; window?: number; batchLabel?: string; resume?: boolean } = {}
+    ): Promise<BulkIssuanceResult> {
+        const tokenId = normalizeAssetId(assetId);
+        const isMPT = isMPTokenId(tokenId);
+        const batchId = generateBatchId(tokenId, distributions, options.batchLabel);
+        const symbol = isMPT ? 'MPT' : decodeCurrencyCode(splitAssetId(tokenId)[0]);
+        const saved = loadIssuanceProgress(this.dataDir, batchId);
+
+        // Issuing a list that was issued before must be a deliberate resume, never a silent no-op or repeat
+        if (saved && !options.resume) {
+            const issued = saved.entries.filter(entry => entry.status === 'success').length;
+            throw new Error(`Batch ${batchId} already has saved progress (${issued}/${saved.entries.length} issued). ` +
+                'Resume it to finish an interrupted run, or give this issuance a new batch label to issue the list again');
+        }
+
+        if (!saved && options.resume) {
+            throw new Error(`No saved progress for batch ${batchId}; check the list and batch label match the run being resumed`);
+        }
+
+        const progress: BulkIssuanceProgress = saved || {
+            batchId,
+            ...(options.batchLabel && { label: options.batchLabel }),
+            assetId: tokenId,
+            network: this.network,
+            entries: distributions.map(entry => ({ ...entry, status: 'pending' })),
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString()
+        };
+        const save = () => saveIssuanceProgress(this.dataDir, progress);
+
+        // A crashed run may have left payments in flight; settle them before deciding what is left to pay
+        for (const entry of progress.entries.filter(e => e.status === 'submitted')) {
+            const outcome = await this.lookupSubmittedTransaction(entry.hash!, entry.lastLedgerSequence!);
+            if (outcome === 'tesSUCCESS') {
+                entry.status = 'success';
+                entry.completedAt = new Date().toISOString();
+            } else {
+                entry.status = 'failed';
+                entry.error = outcome ? `Previous attempt failed: ${outcome}` : 'Previous attempt expired without being validated';
+            }
+            save();
+        }
+
+        const previouslyIssued = progress.entries.filter(entry => entry.status === 'success').length;
+        const remaining = progress.entries.filter(entry => entry.status !== 'success');
+
+        // Every recipient needs a usable trustline (or MPT holding) before anything is sent
+        const readiness = isMPT
+            ? await this.checkMPTRecipients(tokenId, remaining)
+            : await this.checkPayoutTrustlines(remaining, tokenId);
+        const notReady = remaining.filter(entry => readiness.get(entry.address));
+
+        for (const entry of remaining) {
+            const reason = readiness.get(entry.address);
+            entry.status = reason ? 'skipped' : 'pending';
+            entry.error = reason || undefined;
+        }
+        save();
+
+        const result = (status: BulkIssuanceResult['status'], message: string, issuedThisRun: number): BulkIssuanceResult => ({
+            status,
+            batchId,
+            message,
+            entries: progress.entries,
+            issuedThisRun,
+            previouslyIssued,
+            totalIssued: progress.entries.filter(e => e.status === 'success').reduce((sum, e) => sum + e.amount, 0)
+        });
+
+        if (notReady.length > 0 && !options.skipNotReady) {
+            return result('error', `${notReady.length} recipient(s) cannot receive ${symbol} yet; nothing was issued`, 0);
+        }
+
+        const toIssue = remaining.filter(entry => entry.status === 'pending');
+
+        // The asset's jurisdiction rules (investor cap, authorized holders) must allow issuing to these investors
+        const compliance = await this.checkCompliance(tokenId, 'issue', { recipients: toIssue.map(entry => entry.address) });
+        if (!compliance.allowed) {
+            return {
+                ...result('error', `${describeComplianceFailures(compliance)}; nothing was issued`, 0),
+                compliance
+            };
+        }
+
+        const required = toIssue.reduce((sum, entry) => sum + entry.amount, 0);
+        const treasury = (await this.getRWATokenBalances()).rwa_tokens.find(token => token.asset_id === tokenId);
+
+        if ((treasury?.balance || 0) < required) {
+            return result('error', `Treasury holds ${treasury?.balance || 0} ${symbol}, ${required} needed for the remaining recipients`, 0);
+        }
+
+        const assetScale = isMPT ? (await this.getMPTIssuance(tokenId)).AssetScale || 0 : 0;
+        let issuedThisRun = 0;
+
+        console.error(`💰 Issuing ${symbol} to ${toIssue.length} investors (batch ${batchId}, ${previouslyIssued} already issued)...`);
+
+        const payments = toIssue.map(entry => ({
+            id: String(entry.row),
+            transaction: this.buildIssuancePayment(tokenId, batchId, entry, assetScale, options.memo)
+        }));
+        const entryFor = (id: string) => toIssue.find(entry => String(entry.row) === id)!;
+
+        await this.submitBatch(payments, {
+            window: options.window,
+            // The hash is on disk before the payment is submitted
+            onSigned: (id, hash, lastLedgerSequence) => {
+                Object.assign(entryFor(id), { status: 'submitted', hash, lastLedgerSequence, error: undefined });
+                save();
+            },
+            onOutcome: outcome => {
+                const entry = entryFor(outcome.id);
+
+                if (outcome.status === 'success') {
+                    entry.status = 'success';
+                    entry.completedAt = new Date().toISOString();
+                    issuedThisRun++;
+                    console.error(`✅ Sent ${entry.amount} ${symbol} to ${entry.address.substring(0, 8)}...`);
+                } else if (outcome.status === 'failed') {
+                    entry.status = 'failed';
+                    entry.error = outcome.error;
+                    console.error(`❌ Failed to send to ${entry.address}: ${outcome.error}`);
+                } else {
+                    // Left as 'submitted' so the next run looks the payment up before paying again
+                    entry.error = `Outcome unknown: ${outcome.error}`;
+                }
+                save();
+            }
+        });
+
+        const successCount = progress.entries.filter(e => e.status === 'success').length;
+        const status = successCount === progress.entries.length ? 'success' : successCount > 0 ? 'partial' : 'error';
+
+        return {
+            ...result(status, `Issued ${symbol} to ${successCount}/${progress.entries.length} investors (${issuedThisRun} this run)`, issuedThisRun),
+            compliance
+        };
+    }
+
+    // Dry run of a bulk issuance: every payment simulated against the current ledger on its own, so
+    // treasury balance across the whole list is not checked here
+    async simulateIssuance(
+        assetId: string,
+        entries: IssuanceListEntry[],
+        memo?: string,
+        batchLabel?: string
+    ): Promise<Array<{ entry: IssuanceListEntry; simulation: SimulationResult }>> {
+        const payments = await this.buildIssuancePayments(assetId, entries, memo, batchLabel);
+        const results: Array<{ entry: IssuanceListEntry; simulation: SimulationResult }> = [];
+
+        for (const [index, entry] of entries.entries()) {
+            const simulation = await this.simulateTransaction(payments[index]);
+            results.push({ entry, simulation });
+        }
+
+        return results;
+    }
+
+    // Bulk issuance payments prepared for offline signing, in list order. They are not recorded in the batch
+    // progress, so a later run of the same list can't tell they were paid.
+    async prepareIssuance(assetId: string, entries: IssuanceListEntry[], memo?: string, batchLabel?: string): Promise<PreparedTransaction[]> {
+        return this.prepareTransactions(await this.buildIssuancePayments(assetId, entries, memo, batchLabel));
+    }
+
+    private async buildIssuancePayments(assetId: string, entries: IssuanceListEntry[], memo?: string, batchLabel?: string): Promise<Payment[]> {
+        const tokenId = normalizeAssetId(assetId);
+        const batchId = generateBatchId(tokenId, entries, batchLabel);
+        const assetScale = isMPTokenId(tokenId) ? (await this.getMPTIssuance(tokenId)).AssetScale || 0 : 0;
+
+        return entries.map(entry => this.buildIssuancePayment(tokenId, batchId, entry, assetScale, memo));
+    }
+
+    private buildIssuancePayment(tokenId: string, batchId: string, entry: IssuanceListEntry, assetScale: number, memo?: string): Payment {
+        return {
+            TransactionType: 'Payment',
+            Account: this.address,
+            Destination: entry.address,
+            Amount: isMPTokenId(tokenId)
+                ? { mpt_issuance_id: tokenId, value: toMPTValue(entry.amount, assetScale) }
+                : createTrustlineAmount(entry.amount, ...splitAssetId(tokenId)),
+            Fee: '12',
+            Memos: [createMemo(memo ? `BULK-${batchId}: ${memo}` : `BULK-${batchId}`)]
+        };
+    }
+
+    // Check each address holds an authorized, unlocked MPToken for the issuance. Returns the reason it can't receive, or null.
+    async checkMPTRecipients(mptIssuanceId: string, recipients: Array<{ address: string }>): Promise<Map<string, string | null>> {
+        const issuance = await this.getMPTIssuance(mptIssuanceId);
+        const readiness = new Map<string, string | null>();
+
+        for (const recipient of recipients) {
+            try {
+                const response: any = await this.client.request({
+                    command: 'ledger_entry',
+                    mptoken: { mpt_issuance_id: mptIssuanceId, account: recipient.address },
+                    ledger_index: 'validated'
+                });
+                const flags = response.result.node.Flags || 0;
+
+                if (flags & MPT.TOKEN_FLAGS.LOCKED || issuance.Flags & MPT.ISSUANCE_FLAGS.LOCKED) {
+                    readiness.set(recipient.address, 'MPT holding is locked by the issuer');
+                } else if (issuance.Flags & MPT.ISSUANCE_FLAGS.REQUIRE_AUTH && !(flags & MPT.TOKEN_FLAGS.AUTHORIZED)) {
+                    readiness.set(recipient.address, 'MPT holding is awaiting issuer authorization');
+                } else {
+                    readiness.set(recipient.address, null);
+                }
+            } catch (error: any) {
+                readiness.set(recipient.address, error.data?.error === 'entryNotFound' || error.message.includes('entryNotFound')
+                    ? 'Has not opted in to this MPT (MPTokenAuthorize)'
+                    : error.message);
+            }
+        }
+
+        return readiness;
+    }
+
+    // Find out what happened to a transaction submitted earlier. Returns its result code, or null once its
+    // LastLedgerSequence has passed without it being validated (it can then never succeed).
+    private async lookupSubmittedTransaction(hash: string, lastLedgerSequence: number): Promise<string | null> {
+        for (;;) {
+            const validatedLedger = await this.client.getLedgerIndex();
+
+            try {
+                const response: any = await this.client.request({ command: 'tx', transaction: hash });
+                if (response.result.validated) {
+                    return response.result.meta?.TransactionResult || null;
+                }
+            } catch (error: any) {
+                if (error.data?.error !== 'txnNotFound' && !error.message?.includes('txnNotFound')) {
+                    throw error;
+                }
+            }
+
+            if (validatedLedger > lastLedgerSequence) {
+                return null;
+            }
+
+            await new Promise(resolve => setTimeout(resolve, 4000));
+        }
+    }
+
+    // Ticket sequences the operator account holds and has not used yet
+    async getTicketSequences(): Promise<number[]> {
+        const tickets: number[] = [];
+        let marker: unknown = undefined;
+
+        do {
+            const response = await this.client.request({
+                command: 'account_objects',
+                account: this.address,
+                type: 'ticket',
+                ledger_index: 'validated',
+                limit: 400,
+                ...(marker ? { marker } : {})
+            });
+
+            for (const object of response.result.account_objects as any[]) {
+                tickets.push(object.TicketSequence);
+            }
+
+            marker = response.result.marker;
+        } while (marker);
+
+        return tickets.sort((a, b) => a - b);
+    }
+
+    // Make sure up to `count` tickets are available, limited by the ledger's ticket cap and the XRP the
+    // owner reserve leaves free after `spendXrp`. Returns every available ticket sequence.
+    async reserveTickets(count: number, spendXrp: number = 0): Promise<number[]> {
+        const existing = await this.getTicketSequences();
+        const wanted = Math.min(count, BATCH_SUBMISSION.MAX_TICKETS_PER_ACCOUNT) - existing.length;
+
+        if (wanted <= 0) {
+            return existing;
+        }
+
+        const [serverInfo, accountInfo] = await Promise.all([
+            this.client.request({ command: 'server_info' }),
+            this.client.request({ command: 'account_info', account: this.address, ledger_index: 'validated' })
+        ]);
+        const ledgerReserves = serverInfo.result.info.validated_ledger;
+        const baseReserve = ledgerReserves?.reserve_base_xrp ?? 1;
+        const ownerReserve = ledgerReserves?.reserve_inc_xrp ?? 0.2;
+        const balance = Number(accountInfo.result.account_data.Balance) / 1000000;
+        const locked = baseReserve + (accountInfo.result.account_data.OwnerCount + 1) * ownerReserve;
+        const affordable = Math.floor((balance - locked - spendXrp - 1) / ownerReserve);
+        const ticketCount = Math.min(wanted, affordable);
+
+        if (ticketCount <= 0) {
+            return existing;
+        }
+
+        const ticketCreate: TicketCreate = {
+            TransactionType: 'TicketCreate',
+            Account: this.address,
+            TicketCount: ticketCount,
+            Fee: '12'
+        };
+
+        const result: any = await this.submitAs(ticketCreate, this.wallet);
+        if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
+            throw new Error(`TicketCreate failed: ${result.result.meta?.TransactionResult}`);
+        }
+
+        console.error(`🎟️ Reserved ${ticketCount} tickets (${(ticketCount * ownerReserve).toFixed(1)} XRP held in reserve until used)`);
+        return this.getTicketSequences();
+    }
+
+    // Submit many transactions from the operator wallet. Batches are signed against Tickets and kept
+    // `window` transactions in flight at once, so they don't wait on each other's validation. Each
+    // transaction's hash is reported through onSigned before it is submitted. Transactions rejected
+    // locally or expiring unvalidated are re-signed and retried; everything else settles exactly once.
+    // A treasury controlled by a signer list has every transaction multi-signed with the keys held here.
+    async submitBatch(
+        items: Array<{ id: string; transaction: SubmittableTransaction }>,
+        options: {
+            window?: number;
+            spendXrp?: number; // XRP the batch itself pays out, kept free of ticket reserves
+            onSigned?: (id: string, hash: string, lastLedgerSequence: number) => void;
+            onOutcome?: (outcome: BatchSubmissionOutcome) => void;
+        } = {}
+    ): Promise<Map<string, BatchSubmissionOutcome>> {
+        this.assertSigningAllowed(`Batch of ${items.length} transactions`);
+
+        const window = Math.min(Math.max(options.window ?? BATCH_SUBMISSION.DEFAULT_WINDOW, 1), BATCH_SUBMISSION.MAX_WINDOW);
+        const outcomes = new Map<string, BatchSubmissionOutcome>();
+        const attempts = new Map<string, number>();
+        let queue = [...items];
+
+        const signerList = await this.getSignerList(this.address);
+        const signers = signerList.multisigRequired
+            ? selectSigners(this.getLocalSigners(signerList), signerList.quorum)?.map(signer => signer.wallet)
+            : undefined;
+
+        if (signerList.multisigRequired && !signers) {
+            throw new Error(`${this.address} is controlled by a signer list and the signer keys held here do not meet its quorum of ${signerList.quorum}`);
+        }
+
+        const settle = (outcome: BatchSubmissionOutcome) => {
+            outcomes.set(outcome.id, outcome);
+            options.onOutcome?.(outcome);
+        };
+
+        while (queue.length > 0) {
+            const useTickets = window > 1 && queue.length >= BATCH_SUBMISSION.MIN_BATCH_FOR_TICKETS;
+            const tickets = useTickets ? await this.reserveTickets(queue.length, options.spendXrp) : [];
+            const ticketed = tickets.length > 0;
+            const retry: typeof queue = [];
+
+            if (useTickets && !ticketed) {
+                console.error('⚠️ No tickets available (reserve too low); submitting one at a time');
+            }
+
+            const worker = async () => {
+                while (queue.length > 0) {
+                    const ticket = tickets.shift();
+                    if (ticketed && ticket === undefined) {
+                        return; // Out of tickets this round; the rest is picked up after the next reservation
+                    }
+
+                    const item = queue.shift()!;
+                    const attempt = (attempts.get(item.id) || 0) + 1;
+                    attempts.set(item.id, attempt);
+
+                    const result = await this.submitBatchItem(item, ticket, options.onSigned, signers);
+
+                    if (result.ticketUnused && ticket !== undefined) {
+                        tickets.push(ticket);
+                    }
+
+                    if (result.retry && attempt < BATCH_SUBMISSION.MAX_ATTEMPTS) {
+                        retry.push(item);
+                        continue;
+                    }
+
+                    settle({
+                        id: item.id,
+                        status: result.unknown ? 'unknown' : result.engineResult === 'tesSUCCESS' ? 'success' : 'failed',
+                        hash: result.hash,
+                        ticketSequence: ticket,
+                        engineResult: result.engineResult,
+                        error: result.engineResult === 'tesSUCCESS' ? undefined : result.error || result.engineResult,
+                        attempts: attempt
+                    });
+                }
+            };
+
+            await Promise.all(Array.from({ length: ticketed ? window : 1 }, () => worker()));
+
+            if (retry.length > 0) {
+                await new Promise(resolve => setTimeout(resolve, BATCH_SUBMISSION.RETRY_DELAY_MS));
+            }
+            queue = [...queue, ...retry];
+        }
+
+        return outcomes;
+    }
+
+    // Sign, submit and follow one transaction of a batch until it is validated or can no longer be
+    private async submitBatchItem(
+        item: { id: string; transaction: SubmittableTransaction },
+        ticket: number | undefined,
+        onSigned?: (id: string, hash: string, lastLedgerSequence: number) => void,
+        signers?: Wallet[]
+    ): Promise<{ engineResult?: string; hash?: string; error?: string; retry: boolean; ticketUnused: boolean; unknown?: boolean }> {
+        let hash: string | undefined;
+
+        try {
+            const transaction = {
+                ...item.transaction,
+                ...(ticket !== undefined && { Sequence: 0, TicketSequence: ticket })
+            } as SubmittableTransaction;
+            const signed = signers
+                ? await this.multisignTransaction(transaction, signers)
+                : await this.signAsOperator(transaction);
+            hash = signed.hash;
+            onSigned?.(item.id, signed.hash, signed.lastLedgerSequence);
+
+            const submitted = await this.client.submit(signed.txBlob);
+            const preliminary = submitted.result.engine_result;
+
+            // tel: rejected by this server only (e.g. queue full), never relayed, safe to re-sign
+            if (preliminary.startsWith('tel')) {
+                return { hash, engineResult: preliminary, retry: true, ticketUnused: true };
+            }
+
+            // tem/tef: malformed or can never apply; the ticket is untouched unless it no longer exists
+            if (preliminary.startsWith('tem') || preliminary.startsWith('tef')) {
+                return { hash, engineResult: preliminary, retry: false, ticketUnused: preliminary !== 'tefNO_TICKET' };
+            }
+
+            const engineResult = await this.lookupSubmittedTransaction(signed.hash, signed.lastLedgerSequence);
+
+            if (engineResult === null) {
+                return { hash, error: 'Expired without being validated', retry: true, ticketUnused: true };
+            }
+
+            return { hash, engineResult, retry: false, ticketUnused: false };
+        } catch (error: any) {
+            // Once signed, the transaction may have reached the network, so its outcome is unknown rather than failed
+            return { hash, error: error.message, retry: false, ticketUnused: hash === undefined, unknown: hash !== undefined };
+        }
+    }
+
+    // Check actual token supply on XRPL. Errors are thrown rather than reported as an empty supply,
+    // since investor cap checks rely on the holder count.
+    async getActualTokenSupply(assetId: string): Promise<{
+        totalIssued: number;
+        holderCount: number;
+        issuerBalance: number;
+        circulatingSupply: number;
+    }> {
+        if (isMPTokenId(assetId)) {
+            const issuance = await this.getMPTIssuance(assetId);
+            const holders = await this.getMPTHolders(assetId);
+            const outstanding = fromMPTValue(issuance.OutstandingAmount || '0', issuance.AssetScale || 0);
+
+            // MPT issuers cannot hold their own token, so everything outstanding is circulating
+            return {
+                totalIssued: outstanding,
+                holderCount: holders.filter(holder => holder.amount > 0).length,
+                issuerBalance: 0,
+                circulatingSupply: outstanding
+            };
+        }
+
+        const [currency, issuer] = splitAssetId(assetId);
+
+        let totalIssued = 0;
+        let holderCount = 0;
+        let issuerBalance = 0;
+        let marker: unknown = undefined;
+
+        // Analyze all trustlines for this currency, page by page
+        do {
+            const accountLines = await this.client.request({
+                command: 'account_lines',
+                account: issuer,
+                ledger_index: 'validated',
+                limit: 400,
+                ...(marker ? { marker } : {})
+            });
+
+            for (const line of accountLines.result.lines) {
+                if (line.currency === currency) {
+                    const balance = Math.abs(parseFloat(line.balance));
+
+                    if (line.account === issuer) {
+                        // This is the issuer's own balance
+                        issuerBalance = balance;
+                    } else if (balance > 0) {
+                        // This is a holder with tokens
+                        totalIssued += balance;
+                        holderCount++;
+                    }
+                }
+            }
+
+            marker = accountLines.result.marker;
+        } while (marker);
+
+        // Calculate circulating supply (tokens not held by issuer)
+        const circulatingSupply = totalIssued;
+
+        return {
+            totalIssued: totalIssued + issuerBalance, // Total tokens created
+            holderCount,
+            issuerBalance, // Tokens still held by issuer
+            circulatingSupply // Tokens held by investors
+        };
+    }
+
+    // Count how many of the given addresses would become new holders and check the result against the
+    // asset's investor cap. The issuer and operator treasury are not investors and never count. Throws when
+    // the holder count can't be read, so issuance and authorization are blocked rather than let through.
+    async checkInvestorCap(assetId: string, addresses: string[]): Promise<InvestorCapCheck> {
+        const tokenId = normalizeAssetId(assetId);
+        const metadata = await this.getAssetMetadataFromMemos(tokenId);
+        const operator = metadata?.issuer?.operator;
+        const issuer = isMPTokenId(tokenId) ? getMPTIssuer(tokenId) : splitAssetId(tokenId)[1];
+        const jurisdiction = metadata?.compliance?.jurisdiction || JURISDICTION.DEFAULT;
+        const profile = getJurisdictionProfile(this.dataDir, jurisdiction);
+        const supply = await this.getActualTokenSupply(tokenId);
+
+        const treasuryHolds = operator && operator !== issuer && await this.getHolderBalance(tokenId, operator) > 0;
+        const currentHolders = Math.max(0, supply.holderCount - (treasuryHolds ? 1 : 0));
+
+        const newHolders: string[] = [];
+        for (const address of new Set(addresses)) {
+            if (address !== issuer && address !== operator && await this.getHolderBalance(tokenId, address) <= 0) {
+                newHolders.push(address);
+            }
+        }
+
+        return {
+            assetId: tokenId,
+            ...evaluateInvestorCap(metadata?.compliance, currentHolders, newHolders.length, profile
+                ? { ...profile.investorCap, regime: profile.regime }
+                : { regime: `${jurisdiction} (no profile)` }),
+            currentHolders,
+            newHolders
+        };
+    }
+
+    // Address of the compliance account, found without unlocking its key
+    getComplianceAddress(): string {
+        if (!this.complianceAccount) {
+            return this.address;
+        }
+
+        const entry = keystoreExists(this.dataDir)
+            ? listAccounts(this.dataDir).find(account => account.name === this.complianceAccount)
+            : undefined;
+        if (!entry) {
+            throw new Error(`Compliance account '${this.complianceAccount}' not found in the keystore`);
+        }
+
+        return entry.address;
+    }
+
+    // Wallet that issues and revokes investor credentials: a dedicated keystore account when configured, else the operator
+    getComplianceWallet(): Wallet {
+        if (!this.complianceAccount) {
+            return this.wallet;
+        }
+
+        if (!this.keystorePassphrase) {
+            throw new Error('XRPL_KEYSTORE_PASSPHRASE is required to unlock the compliance account');
+        }
+
+        return unlockAccount(this.dataDir, this.keystorePassphrase, this.complianceAccount);
+    }
+
+    // Issue an XLS-70 credential to an investor. It only counts once the investor accepts it.
+    async issueCredential(
+        subject: string,
+        credentialType: string,
+        options: { expiration?: string; uri?: string } = {}
+    ): Promise<string> {
+        const result: any = await this.submitAs(this.buildCredentialCreate(subject, credentialType, options), this.getComplianceWallet());
+        if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
+            throw new Error(`Credential issuance failed: ${result.result.meta?.TransactionResult}`);
+        }
+
+        console.error(`🪪 Issued ${credentialType} credential to ${subject}: ${result.result.hash}`);
+        return result.result.hash;
+    }
+
+    buildCredentialCreate(subject: string, credentialType: string, options: { expiration?: string; uri?: string } = {}): CredentialCreate {
+        const credentialCreate: CredentialCreate = {
+            TransactionType: 'CredentialCreate',
+            Account: this.getComplianceAddress(),
+            Subject: subject,
+            CredentialType: encodeCredentialType(credentialType),
+            Fee: '12'
+        };
+
+        if (options.expiration) {
+            credentialCreate.Expiration = unixTimeToRippleTime(new Date(options.expiration).getTime());
+        }
+        if (options.uri) {
+            credentialCreate.URI = convertStringToHex(options.uri);
+        }
+
+        return credentialCreate;
+    }
+
+    // Accept a credential issued to this wallet (investors accept their own with the same transaction)
+    async acceptCredential(issuer: string, credentialType: string): Promise<string> {
+        const result: any = await this.submitAs(this.buildCredentialAccept(issuer, credentialType), this.wallet);
+        if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
+            throw new Error(`Credential acceptance failed: ${result.result.meta?.TransactionResult}`);
+        }
+
+        console.error(`🪪 Accepted ${credentialType} credential from ${issuer}: ${result.result.hash}`);
+        return result.result.hash;
+    }
+
+    buildCredentialAccept(issuer: string, credentialType: string): CredentialAccept {
+        return {
+            TransactionType: 'CredentialAccept',
+            Account: this.address,
+            Issuer: issuer,
+            CredentialType: encodeCredentialType(credentialType),
+            Fee: '12'
+        };
+    }
+
+    // Revoke (delete) a credential the compliance account issued
+    async revokeCredential(subject: string, credentialType: string): Promise<string> {
+        const result: any = await this.submitAs(this.buildCredentialDelete(subject, credentialType), this.getComplianceWallet());
+        if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
+            throw new Error(`Credential revocation failed: ${result.result.meta?.TransactionResult}`);
+        }
+
+        console.error(`🗑️ Revoked ${credentialType} credential of ${subject}: ${result.result.hash}`);
+        return result.result.hash;
+    }
+
+    buildCredentialDelete(subject: string, credentialType: string): CredentialDelete {
+        const complianceIssuer = this.getComplianceAddress();
+
+        return {
+            TransactionType: 'CredentialDelete',
+            Account: complianceIssuer,
+            Subject: subject,
+            Issuer: complianceIssuer,
+            CredentialType: encodeCredentialType(credentialType),
+            Fee: '12'
+        };
+    }
+
+    // Credentials an account has issued or holds (both sides share the ledger entry)
+    async getCredentials(account: string): Promise<InvestorCredential[]> {
+        const credentials: InvestorCredential[] = [];
+        let marker: unknown = undefined;
+
+        do {
+            const response: any = await this.client.request({
+                command: 'account_objects',
+                account,
+                type: 'credential',
+                ledger_index: 'validated',
+                limit: 400,
+                ...(marker ? { marker } : {})
+            });
+
+            credentials.push(...response.result.account_objects.map((entry: any) => parseCredentialEntry(entry)));
+            marker = response.result.marker;
+        } while (marker);
+
+        return credentials;
+    }
+
+    // Create a permissioned domain, or replace the accepted credentials of an existing one
+    async setPermissionedDomain(acceptedCredentials: AcceptedCredential[], domainId?: string): Promise<{ hash: string; domainId: string }> {
+        const result: any = await this.submitAs(this.buildPermissionedDomainSet(acceptedCredentials, domainId), this.getComplianceWallet());
+        if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
+            throw new Error(`Permissioned domain ${domainId ? 'update' : 'creation'} failed: ${result.result.meta?.TransactionResult}`);
+        }
+
+        // A new domain's ID is the index of the PermissionedDomain entry it created
+        const createdId = result.result.meta.AffectedNodes
+            .find((node: any) => node.CreatedNode?.LedgerEntryType === 'PermissionedDomain')?.CreatedNode.LedgerIndex;
+
+        console.error(`🏛️ ${domainId ? 'Updated' : 'Created'} permissioned domain ${domainId || createdId}: ${result.result.hash}`);
+        return { hash: result.result.hash, domainId: domainId || createdId };
+    }
+
+    buildPermissionedDomainSet(acceptedCredentials: AcceptedCredential[], domainId?: string): PermissionedDomainSet {
+        const domainSet: PermissionedDomainSet = {
+            TransactionType: 'PermissionedDomainSet',
+            Account: this.getComplianceAddress(),
+            AcceptedCredentials: acceptedCredentials.map(credential => ({
+                Credential: {
+                    Issuer: credential.issuer,
+                    CredentialType: encodeCredentialType(credential.credentialType)
+                }
+            })),
+            Fee: '12'
+        };
+
+        if (domainId) {
+            domainSet.DomainID = domainId;
+        }
+
+        return domainSet;
+    }
+
+    async deletePermissionedDomain(domainId: string): Promise<string> {
+        const result: any = await this.submitAs(this.buildPermissionedDomainDelete(domainId), this.getComplianceWallet());
+        if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
+            throw new Error(`Permissioned domain deletion failed: ${result.result.meta?.TransactionResult}`);
+        }
+
+        console.error(`🗑️ Deleted permissioned domain ${domainId}: ${result.result.hash}`);
+        return result.result.hash;
+    }
+
+    buildPermissionedDomainDelete(domainId: string): PermissionedDomainDelete {
+        return {
+            TransactionType: 'PermissionedDomainDelete',
+            Account: this.getComplianceAddress(),
+            DomainID: domainId,
+            Fee: '12'
+        };
+    }
+
+    async getPermissionedDomain(domainId: string): Promise<PermissionedDomainInfo | null> {
+        try {
+            const response: any = await this.client.request({
+                command: 'ledger_entry',
+                index: domainId,
+                ledger_index: 'validated'
+            });
+            const node = response.result.node;
+
+            if (node.LedgerEntryType !== 'PermissionedDomain') {
+                return null;
+            }
+
+            return {
+                domainId: response.result.index,
+                owner: node.Owner,
+                acceptedCredentials: node.AcceptedCredentials.map((entry: any) => ({
+                    issuer: entry.Credential.Issuer,
+                    credentialType: decodeCredentialType(entry.Credential.CredentialType)
+                }))
+            };
+        } catch (error: any) {
+            if (error.data?.error === 'entryNotFound' || error.message.includes('entryNotFound')) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async getPermissionedDomains(owner: string): Promise<PermissionedDomainInfo[]> {
+        const domains = await this.getAccountObjects(owner, 'permissioned_domain');
+
+        return domains.map((node: any) => ({
+            domainId: node.index,
+            owner: node.Owner,
+            acceptedCredentials: node.AcceptedCredentials.map((entry: any) => ({
+                issuer: entry.Credential.Issuer,
+                credentialType: decodeCredentialType(entry.Credential.CredentialType)
+            }))
+        }));
+    }
+
+    // Credentials that qualify a holder of an accredited-only asset: those of the asset's permissioned
+    // domain when it has one, otherwise an accredited-investor credential from the compliance account
+    async getRequiredCredentials(assetId: string): Promise<AcceptedCredential[]> {
+        const metadata = await this.getAssetMetadataFromMemos(normalizeAssetId(assetId));
+        const domainId = metadata?.compliance?.permissionedDomainId;
+
+        if (domainId) {
+            const domain = await this.getPermissionedDomain(domainId);
+            if (!domain) {
+                throw new Error(`Permissioned domain ${domainId} of ${assetId} no longer exists`);
+            }
+            return domain.acceptedCredentials;
+        }
+
+        return [{ issuer: this.getComplianceAddress(), credentialType: CREDENTIALS.ACCREDITED_INVESTOR }];
+    }
+
+    // Addresses that hold no accepted, unexpired credential from the required set
+    async findAddressesWithoutCredential(required: AcceptedCredential[], addresses: string[]): Promise<string[]> {
+        const missing: string[] = [];
+
+        for (const address of new Set(addresses)) {
+            if (!findQualifyingCredential(await this.getCredentials(address), required)) {
+                missing.push(address);
+            }
+        }
+
+        return missing;
+    }
+
+    // Wallet for an account this server manages: the operator (default), the compliance account, an asset
+    // issuer or any other account in the encrypted keystore (e.g. an escrow account)
+    getManagedWallet(address?: string): Wallet {
+        if (!address || address === this.address) {
+            return this.wallet;
+        }
+
+        if (this.complianceAccount && this.getComplianceAddress() === address) {
+            return this.getComplianceWallet();
+        }
+
+        if (findIssuerKey(this.dataDir, address)) {
+            return this.getIssuerWallet(address);
+        }
+
+        const keystoreEntry = keystoreExists(this.dataDir)
+            ? listAccounts(this.dataDir).find(account => account.address === address)
+            : undefined;
+        if (keystoreEntry && this.keystorePassphrase) {
+            return unlockAccount(this.dataDir, this.keystorePassphrase, keystoreEntry.name);
+        }
+
+        throw new Error(`${address} is not managed by this server. Import its seed into the keystore first.`);
+    }
+
+    // Turn Deposit Authorization on or off, so the account only receives funds from preauthorized senders
+    async setDepositAuth(address: string | undefined, enabled: boolean): Promise<string> {
+        const wallet = this.getManagedWallet(address);
+
+        const result: any = await this.submitAs(this.buildDepositAuth(wallet.address, enabled), wallet);
+        if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
+            throw new Error(`Deposit authorization update failed: ${result.result.meta?.TransactionResult}`);
+        }
+
+        console.error(`${enabled ? '🔒 Deposit authorization enabled' : '🔓 Deposit authorization disabled'} for ${wallet.address}: ${result.result.hash}`);
+        return result.result.hash;
+    }
+
+    buildDepositAuth(address: string, enabled: boolean): AccountSet {
+        return {
+            TransactionType: 'AccountSet',
+            Account: address,
+            ...(enabled
+                ? { SetFlag: AccountSetAsfFlags.asfDepositAuth }
+                : { ClearFlag: AccountSetAsfFlags.asfDepositAuth }),
+            Fee: '12'
+        };
+    }
+
+    // Add or remove a preauthorization for a sender address, or for anyone holding a set of credentials
+    async setDepositPreauth(
+        address: string | undefined,
+        preauth: { sender?: string; credentials?: AcceptedCredential[] },
+        remove: boolean = false
+    ): Promise<string> {
+        const wallet = this.getManagedWallet(address);
+
+        const result: any = await this.submitAs(this.buildDepositPreauth(wallet.address, preauth, remove), wallet);
+        if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
+            throw new Error(`Deposit preauthorization ${remove ? 'removal' : 'update'} failed: ${result.result.meta?.TransactionResult}`);
+        }
+
+        console.error(`${remove ? '➖ Removed' : '➕ Added'} deposit preauthorization on ${wallet.address}: ${result.result.hash}`);
+        return result.result.hash;
+    }
+
+    buildDepositPreauth(
+        address: string,
+        preauth: { sender?: string; credentials?: AcceptedCredential[] },
+        remove: boolean = false
+    ): DepositPreauth {
+        const credentials = preauth.credentials?.map(credential => ({
+            Credential: {
+                Issuer: credential.issuer,
+                CredentialType: encodeCredentialType(credential.credentialType)
+            }
+        }));
+
+        return {
+            TransactionType: 'DepositPreauth',
+            Account: address,
+            ...(preauth.sender
+                ? (remove ? { Unauthorize: preauth.sender } : { Authorize: preauth.sender })
+                : (remove ? { UnauthorizeCredentials: credentials } : { AuthorizeCredentials: credentials })),
+            Fee: '12'
+        };
+    }
+
+    // Deposit Authorization state of an account and the senders or credential sets it has preauthorized
+    async getDepositPreauths(address: string): Promise<{
+        depositAuth: boolean;
+        preauths: Array<{ sender?: string; credentials?: AcceptedCredential[] }>;
+    }> {
+        const accountInfo = await this.client.request({
+            command: 'account_info',
+            account: address,
+            ledger_index: 'validated'
+        });
+        const objects = await this.getAccountObjects(address, 'deposit_preauth');
+
+        return {
+            depositAuth: !!parseAccountRootFlags(accountInfo.result.account_data.Flags).lsfDepositAuth,
+            preauths: objects.map((entry: any) => entry.Authorize
+                ? { sender: entry.Authorize }
+                : {
+                    credentials: entry.AuthorizeCredentials.map((item: any) => ({
+                        issuer: item.Credential.Issuer,
+                        credentialType: decodeCredentialType(item.Credential.CredentialType)
+                    }))
+                })
+        };
+    }
+
+    // Whether this wallet may pay a destination. When the destination only accepts preauthorized senders,
+    // credentials this wallet holds are tried as well; their IDs must then be attached to the payment.
+    async checkDepositAuthorization(destination: string): Promise<{
+        required: boolean;
+        authorized: boolean;
+        credentialIds?: string[];
+    }> {
+        let preauthInfo;
+        try {
+            preauthInfo = await this.getDepositPreauths(destination);
+        } catch (error: any) {
+            // An unfunded destination has no settings yet; the payment itself reports whether it can be created
+            if (error.data?.error === 'actNotFound' || error.message.includes('actNotFound')) {
+                return { required: false, authorized: true };
+            }
+            throw error;
+        }
+        const { depositAuth, preauths } = preauthInfo;
+
+        if (!depositAuth || destination === this.address) {
+            return { required: depositAuth, authorized: true };
+        }
+
+        if (preauths.some(preauth => preauth.sender === this.address)) {
+            return { required: true, authorized: true };
+        }
+
+        const held = (await this.getCredentials(this.address))
+            .filter(credential => credential.subject === this.address);
+
+        for (const preauth of preauths.filter(p => p.credentials)) {
+            const matching = preauth.credentials!.map(required => findQualifyingCredential(held, [required]));
+
+            if (matching.every(Boolean)) {
+                const credentialIds = matching.map(credential => credential!.index);
+                const response = await this.client.request({
+                    command: 'deposit_authorized',
+                    source_account: this.address,
+                    destination_account: destination,
+                    credentials: credentialIds,
+                    ledger_index: 'validated'
+                });
+
+                if (response.result.deposit_authorized) {
+                    return { required: true, authorized: true, credentialIds };
+                }
+            }
+        }
+
+        return { required: true, authorized: false };
+    }
+
+    // Signer list of an account. With the master key disabled as well, only the signer list can sign for it.
+    async getSignerList(address: string): Promise<SignerListInfo> {
+        const response = await this.client.request({
+            command: 'account_info',
+            account: address,
+            signer_lists: true,
+            ledger_index: 'validated'
+        });
+        const signerList = response.result.signer_lists?.[0];
+        const masterDisabled = !!parseAccountRootFlags(response.result.account_data.Flags).lsfDisableMaster;
+
+        return {
+            account: address,
+            quorum: signerList?.SignerQuorum || 0,
+            signers: (signerList?.SignerEntries || []).map(entry => ({
+                address: entry.SignerEntry.Account,
+                weight: entry.SignerEntry.SignerWeight
+            })),
+            masterDisabled,
+            multisigRequired: !!signerList && masterDisabled
+        };
+    }
+
+    // Members of a signer list whose keys this server holds (operator, issuer or keystore accounts)
+    getLocalSigners(signerList: SignerListInfo): Array<SignerListEntry & { wallet: Wallet }> {
+        return signerList.signers.flatMap(signer => {
+            try {
+                return [{ ...signer, wallet: this.getManagedWallet(signer.address) }];
+            } catch {
+                return [];
+            }
+        });
+    }
+
+    // Sign a transaction with each signer for multi-signing and combine the signatures. Fees grow with the
+    // number of signatures, so any fee already set is replaced.
+    private async multisignTransaction(
+        tx: SubmittableTransaction,
+        signers: Wallet[]
+    ): Promise<{ txBlob: string; hash: string; lastLedgerSequence: number }> {
+        const { Fee, ...unpriced } = tx;
+        const prepared = await this.client.autofill(unpriced as SubmittableTransaction, signers.length);
+        const txBlob = multisign(signers.map(signer => signer.sign(prepared, true).tx_blob));
+
+        return { txBlob, hash: hashes.hashSignedTx(txBlob), lastLedgerSequence: prepared.LastLedgerSequence! };
+    }
+
+    private async signAsOperator(tx: SubmittableTransaction): Promise<{ txBlob: string; hash: string; lastLedgerSequence: number }> {
+        const prepared = await this.client.autofill(tx);
+        const signed = this.wallet.sign(prepared);
+
+        return { txBlob: signed.tx_blob, hash: signed.hash, lastLedgerSequence: prepared.LastLedgerSequence! };
+    }
+
+    // Submit a transaction for its Account and wait for validation. Accounts controlled by a signer list are
+    // multi-signed with the signer keys held here; when those fall short of the quorum, the transaction is
+    // saved as a multisig proposal for the other signers and an error names it. Other accounts sign with
+    // `wallet`, or the managed key for the account.
+    async submitAs(tx: SubmittableTransaction, wallet?: Wallet): Promise<TxResponse> {
+        this.assertSigningAllowed(tx.TransactionType);
+
+        const signerList = await this.getSignerList(tx.Account);
+
+        if (!signerList.multisigRequired) {
+            return this.client.submitAndWait(tx, { wallet: wallet || this.getManagedWallet(tx.Account) });
+        }
+
+        const signers = selectSigners(this.getLocalSigners(signerList), signerList.quorum);
+
+        if (!signers) {
+            const proposal = await this.proposeMultisigTransaction(tx, `${tx.TransactionType} for ${tx.Account}`, { submit: false });
+            const weight = getSignedWeight(signerList.signers, proposal.signatures.map(signature => signature.signer));
+            throw new Error(
+                `${tx.Account} needs signer weight ${signerList.quorum}; keys held here provide ${weight}. ` +
+                `Saved as multisig proposal ${proposal.id} - collect the remaining signatures with rwa_sign_multisig_transaction`
+            );
+        }
+
+        const { txBlob } = await this.multisignTransaction(tx, signers.map(signer => signer.wallet));
+        console.error(`🖊️ ${tx.TransactionType} for ${tx.Account} multi-signed by ${signers.map(signer => signer.address).join(', ')}`);
+        return this.client.submitAndWait(txBlob);
+    }
+
+    private assertSigningAllowed(what: string): void {
+        if (this.prepareOnly) {
+            throw new Error(
+                `${what} not submitted: this server is in prepare-only mode. ` +
+                `Export it unsigned with rwa_prepare_transaction, sign it offline and submit it with rwa_submit_signed`
+            );
+        }
+    }
+
+    // Autofill a transaction for signing elsewhere. LastLedgerSequence is pushed out far enough for an
+    // offline signing round trip; the blob is the unsigned binary encoding of the returned JSON.
+    async prepareTransaction(tx: SubmittableTransaction): Promise<PreparedTransaction> {
+        const prepared = await this.client.autofill(tx);
+        if (tx.LastLedgerSequence === undefined) {
+            prepared.LastLedgerSequence = await this.client.getLedgerIndex() + OFFLINE_SIGNING.LEDGER_WINDOW;
+        }
+
+        return {
+            transaction: prepared,
+            txBlob: encode(prepared),
+            account: prepared.Account,
+            fee: prepared.Fee!,
+            sequence: prepared.Sequence!,
+            lastLedgerSequence: prepared.LastLedgerSequence!
+        };
+    }
+
+    // Prepare transactions that are signed and submitted in the given order. Transactions from the same account
+    // take consecutive Sequence numbers, and all of them share one LastLedgerSequence.
+    async prepareTransactions(txs: SubmittableTransaction[]): Promise<PreparedTransaction[]> {
+        const lastLedgerSequence = await this.client.getLedgerIndex() + OFFLINE_SIGNING.LEDGER_WINDOW;
+        const nextSequence = new Map<string, number>();
+        const prepared: PreparedTransaction[] = [];
+
+        for (const tx of txs) {
+            const sequence = nextSequence.get(tx.Account);
+            const result = await this.prepareTransaction({
+                ...tx,
+                LastLedgerSequence: lastLedgerSequence,
+                ...(sequence !== undefined && { Sequence: sequence })
+            } as SubmittableTransaction);
+
+            nextSequence.set(tx.Account, result.sequence + 1);
+            prepared.push(result);
+        }
+
+        return prepared;
+    }
+
+    // Submit a transaction signed elsewhere and wait for validation
+    async submitSigned(txBlob: string): Promise<TxResponse> {
+        let decoded: Record<string, any>;
+        try {
+            decoded = decode(txBlob);
+        } catch (error: any) {
+            throw new Error(`Not a valid transaction blob: ${error.message}`);
+        }
+
+        if (!decoded.TxnSignature && !decoded.Signers) {
+            throw new Error('Transaction blob is not signed; sign it offline before submitting');
+        }
+
+        const result: any = await this.client.submitAndWait(txBlob);
+        console.error(`📨 Signed ${decoded.TransactionType} from ${decoded.Account} submitted (${result.result.meta?.TransactionResult}): ${result.result.hash}`);
+        return result;
+    }
+
+    // Dry run: autofill a transaction and run it through the ledger's simulate RPC without submitting it.
+    // Servers without simulate (rippled before 2.4) give a local estimate: the autofilled fee and no result.
+    async simulateTransaction(tx: SubmittableTransaction): Promise<SimulationResult> {
+        const prepared = await this.client.autofill(tx);
+
+        try {
+            const response = await this.client.simulate(prepared);
+            return {
+                method: 'simulate',
+                engineResult: response.result.engine_result,
+                engineResultMessage: response.result.engine_result_message,
+                transaction: prepared,
+                fee: prepared.Fee!,
+                balanceChanges: response.result.meta ? extractBalanceChanges(response.result.meta) : [],
+                ledgerIndex: response.result.ledger_index
+            };
+        } catch (error: any) {
+            if (!['unknownCmd', 'notImpl'].includes(error.data?.error)) {
+                throw error;
+            }
+        }
+
+        console.error('⚠️ Server does not support simulate; returning a local estimate');
+        return { method: 'estimate', transaction: prepared, fee: prepared.Fee!, balanceChanges: [] };
+    }
+
+    // Dry run of transactions that are submitted in order. Each is simulated on its own against the current ledger;
+    // steps that need earlier ones applied first are not simulated (null).
+    async simulateTransactions<T extends { transaction: SubmittableTransaction; dependsOnEarlierSteps?: boolean }>(
+        steps: T[]
+    ): Promise<Array<T & { simulation: SimulationResult | null }>> {
+        const results: Array<T & { simulation: SimulationResult | null }> = [];
+
+        for (const step of steps) {
+            results.push({ ...step, simulation: step.dependsOnEarlierSteps ? null : await this.simulateTransaction(step.transaction) });
+        }
+
+        return results;
+    }
+
+    // Replace an account's signer list (quorum 0 with no signers removes it). Disabling the master key
+    // afterwards leaves the signer list as the only way to sign for the account.
+    async setSignerList(
+        address: string | undefined,
+        quorum: number,
+        signers: SignerListEntry[],
+        options: { disableMasterKey?: boolean } = {}
+    ): Promise<{ signerListHash: string; disableMasterHash?: string }> {
+        const account = address || this.address;
+        const [signerListSet, disableMaster] = this.buildSignerListTransactions(account, quorum, signers, options);
+
+        const result: any = await this.submitAs(signerListSet);
+        if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
+            throw new Error(`SignerListSet failed: ${result.result.meta?.TransactionResult}`);
+        }
+
+        console.error(`🖊️ Signer list for ${account} ${quorum > 0 ? `set to ${signers.length} signers, quorum ${quorum}` : 'removed'}: ${result.result.hash}`);
+
+        if (!disableMaster) {
+            return { signerListHash: result.result.hash };
+        }
+
+        const disableResult: any = await this.submitAs(disableMaster);
+        if (disableResult.result.meta?.TransactionResult !== 'tesSUCCESS') {
+            throw new Error(`Disabling the master key failed: ${disableResult.result.meta?.TransactionResult}`);
+        }
+
+        console.error(`🔐 Master key disabled for ${account}; only its signer list can sign: ${disableResult.result.hash}`);
+        return { signerListHash: result.result.hash, disableMasterHash: disableResult.result.hash };
+    }
+
+    // The SignerListSet, followed by the AccountSet that disables the master key when requested
+    buildSignerListTransactions(
+        account: string,
+        quorum: number,
+        signers: SignerListEntry[],
+        options: { disableMasterKey?: boolean } = {}
+    ): SubmittableTransaction[] {
+        if (quorum > 0) {
+            const validation = validateSignerList(account, quorum, signers);
+            if (!validation.valid) {
+                throw new Error(validation.error);
+            }
+        }
+
+        const signerListSet: SignerListSet = {
+            TransactionType: 'SignerListSet',
+            Account: account,
+            SignerQuorum: quorum,
+            ...(quorum > 0 && {
+                SignerEntries: signers.map(signer => ({
+                    SignerEntry: { Account: signer.address, SignerWeight: signer.weight }
+                }))
+            }),
+            Fee: '12'
+        };
+
+        if (!options.disableMasterKey || quorum === 0) {
+            return [signerListSet];
+        }
+
+        const disableMaster: AccountSet = {
+            TransactionType: 'AccountSet',
+            Account: account,
+            SetFlag: AccountSetAsfFlags.asfDisableMaster,
+            Fee: '12'
+        };
+
+        return [signerListSet, disableMaster];
+    }
+
+    // Save a transaction for multi-signing and sign it with the signer keys held here. It carries no
+    // LastLedgerSequence so the remaining signatures can take their time; once the quorum is met it is
+    // submitted unless `submit` is false.
+    async proposeMultisigTransaction(
+        tx: SubmittableTransaction,
+        description: string,
+        options: { submit?: boolean } = {}
+    ): Promise<MultisigProposal> {
+        const signerList = await this.getSignerList(tx.Account);
+
+        if (signerList.quorum === 0) {
+            throw new Error(`${tx.Account} has no signer list; set one with rwa_set_signer_list first`);
+        }
+
+        // The fee is set for the whole signer list, since it is not known yet who will sign
+        const { Fee, ...unpriced } = tx;
+        const { LastLedgerSequence, ...prepared } = await this.client.autofill(unpriced as SubmittableTransaction, signerList.signers.length);
+        const id = generateProposalId(prepared);
+
+        const proposal: MultisigProposal = getMultisigProposal(this.dataDir, id) || {
+            id,
+            account: tx.Account,
+            description,
+            transaction: prepared,
+            quorum: signerList.quorum,
+            signatures: [],
+            status: 'pending',
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString()
+        };
+        saveMultisigProposal(this.dataDir, proposal);
+
+        return this.signMultisigProposal(id, options);
+    }
+
+    // Add signatures to a pending proposal: an externally signed blob when given, otherwise every signer key
+    // held here that has not signed yet. Submits once the quorum is met unless `submit` is false.
+    async signMultisigProposal(
+        proposalId: string,
+        options: { signedBlob?: string; submit?: boolean } = {}
+    ): Promise<MultisigProposal> {
+        const proposal = getMultisigProposal(this.dataDir, proposalId);
+
+        if (!proposal) {
+            throw new Error(`Multisig proposal ${proposalId} not found`);
+        }
+        if (proposal.status !== 'pending') {
+            throw new Error(`Multisig proposal ${proposalId} is already ${proposal.status}`);
+        }
+
+        const signerList = await this.getSignerList(proposal.account);
+        const signed = proposal.signatures.map(signature => signature.signer);
+        const weightOf = (address: string) => signerList.signers.find(signer => signer.address === address)?.weight || 0;
+
+        if (options.signedBlob) {
+            const signer = verifyMultisigBlob(proposal.transaction, options.signedBlob, signerList.signers);
+            proposal.signatures = [
+                ...proposal.signatures.filter(signature => signature.signer !== signer),
+                { signer, weight: weightOf(signer), txBlob: options.signedBlob, source: 'imported', signedAt: new Date().toISOString() }
+            ];
+            console.error(`🖊️ Imported signature from ${signer} for ${proposalId}`);
+        } else {
+            for (const signer of this.getLocalSigners(signerList).filter(s => !signed.includes(s.address))) {
+                proposal.signatures.push({
+                    signer: signer.address,
+                    weight: signer.weight,
+                    txBlob: signer.wallet.sign(proposal.transaction as SubmittableTransaction, true).tx_blob,
+                    source: 'local',
+                    signedAt: new Date().toISOString()
+                });
+                console.error(`🖊️ Signed ${proposalId} as ${signer.address}`);
+            }
+        }
+
+        saveMultisigProposal(this.dataDir, proposal);
+
+        const weight = getSignedWeight(signerList.signers, proposal.signatures.map(signature => signature.signer));
+        if (weight >= signerList.quorum && options.submit !== false) {
+            return this.submitMultisigProposal(proposalId);
+        }
+
+        return proposal;
+    }
+
+    // Combine a proposal's signatures and submit it
+    async submitMultisigProposal(proposalId: string): Promise<MultisigProposal> {
+        const proposal = getMultisigProposal(this.dataDir, proposalId);
+
+        if (!proposal) {
+            throw new Error(`Multisig proposal ${proposalId} not found`);
+        }
+        if (proposal.status !== 'pending') {
+            throw new Error(`Multisig proposal ${proposalId} is already ${proposal.status}`);
+        }
+
+        // Signers removed from the list since they signed no longer count
+        const signerList = await this.getSignerList(proposal.account);
+        const signatures = proposal.signatures.filter(signature => signerList.signers.some(signer => signer.address === signature.signer));
+        const weight = getSignedWeight(signerList.signers, signatures.map(signature => signature.signer));
+
+        if (weight < signerList.quorum) {
+            throw new Error(`Proposal ${proposalId} has signer weight ${weight} of the ${signerList.quorum} required`);
+        }
+
+        // Proposals carry no LastLedgerSequence, which submitAndWait insists on, so submit and then watch for
+        // validation. Submitting the same signatures again is harmless: the transaction can only apply once.
+        const txBlob = multisign(signatures.map(signature => signature.txBlob));
+        const hash = hashes.hashSignedTx(txBlob);
+        const submitted = await this.client.submit(txBlob);
+        const preliminary = submitted.result.engine_result;
+
+        if (/^(tef|tem|tel)/.test(preliminary)) {
+            // An earlier submission may have been validated after we stopped waiting for it
+            const earlier = preliminary === 'tefPAST_SEQ' ? await this.lookupSubmittedTransaction(hash, 0) : null;
+
+            if (earlier) {
+                this.recordProposalResult(proposal, hash, earlier);
+            } else if (/^tem|tefPAST_SEQ|tefMAX_LEDGER/.test(preliminary)) {
+                // Malformed, or the sequence is used up: this transaction can never succeed
+                proposal.status = 'failed';
+                proposal.error = `${preliminary}: ${submitted.result.engine_result_message}`;
+            } else {
+                throw new Error(`Multisig proposal ${proposalId} was not accepted (${preliminary}): ${submitted.result.engine_result_message}`);
+            }
+        } else {
+            const engineResult = await this.lookupSubmittedTransaction(hash, await this.client.getLedgerIndex() + MULTISIG.SUBMIT_WAIT_LEDGERS);
+
+            if (engineResult) {
+                this.recordProposalResult(proposal, hash, engineResult);
+            } else {
+                proposal.transactionHash = hash;
+                proposal.error = `Submitted but not validated within ${MULTISIG.SUBMIT_WAIT_LEDGERS} ledgers; submit it again to check`;
+                console.error(`⏳ Multisig proposal ${proposalId} submitted but not validated yet: ${hash}`);
+            }
+        }
+
+        saveMultisigProposal(this.dataDir, proposal);
+        return proposal;
+    }
+
+    private recordProposalResult(proposal: MultisigProposal, hash: string, engineResult: string): void {
+        proposal.status = engineResult === 'tesSUCCESS' ? 'submitted' : 'failed';
+        proposal.transactionHash = hash;
+        proposal.engineResult = engineResult;
+        proposal.error = undefined;
+        console.error(`${engineResult === 'tesSUCCESS' ? '✅' : '❌'} Multisig proposal ${proposal.id} submitted (${engineResult}): ${hash}`);
+    }
+
+    // Run the asset's jurisdiction rules for an issuance, transfer or distribution. Transfers are checked
+    // from `from` (default: this wallet) to the single recipient; issuance may cover many recipients.
+    // Deposits into an AMM pass `pool`: the pool is the recipient, or a new holder when it doesn't exist yet.
+    async checkCompliance(
+        assetId: string,
+        action: Exclude<ComplianceAction, 'tokenize'>,
+        options: { from?: string; recipients?: string[]; amount?: number; pool?: { account?: string } } = {}
+    ): Promise<ComplianceEvaluation> {
+        const tokenId = normalizeAssetId(assetId);
+        const metadata = await this.getAssetMetadataFromMemos(tokenId);
+        const jurisdiction = metadata?.compliance?.jurisdiction || JURISDICTION.DEFAULT;
+        const facts: ComplianceFacts = { compliance: metadata?.compliance, poolDeposit: !!options.pool };
+
+        if (action === 'issue' || action === 'transfer') {
+            const poolAccount = options.pool?.account;
+            const investorCap = await this.checkInvestorCap(tokenId, [...(options.recipients || []), ...(poolAccount ? [poolAccount] : [])]);
+            facts.currentHolders = investorCap.currentHolders;
+            facts.newHolders = investorCap.newHolders.length + (options.pool && !poolAccount ? 1 : 0);
+
+            // Accredited-only assets need every recipient except the issuer and treasury to hold a valid credential
+            if (metadata?.compliance?.accreditedOnly) {
+                const issuer = isMPTokenId(tokenId) ? getMPTIssuer(tokenId) : splitAssetId(tokenId)[1];
+                const recipients = (options.recipients || []).filter(address => address !== issuer && address !== metadata?.issuer?.operator);
+                facts.recipientsWithoutCredential = await this.findAddressesWithoutCredential(await this.getRequiredCredentials(tokenId), recipients);
+            }
+        }
+
+        if (action === 'transfer') {
+            const lockup = await this.getLockupStatus(tokenId, options.from || this.address);
+            facts.amount = options.amount;
+            facts.unlockedBalance = lockup.unlockedBalance;
+            facts.lockupExempt = lockup.exempt;
+        }
+
+        if (action === 'distribute') {
+            facts.currentHolders = (await this.checkInvestorCap(tokenId, [])).currentHolders;
+            facts.withholdingConfigured = getWithholdingRules(this.dataDir, jurisdiction) !== null;
+        }
+
+        return evaluateCompliance(getJurisdictionProfile(this.dataDir, jurisdiction), jurisdiction, action, facts);
+    }
+
+    // Get token holders list (live, or as of a past ledger when ledgerIndex is given)
+    async getTokenHolders(assetId: string, options: { ledgerIndex?: number } = {}): Promise<Array<{
+        address: string;
+        balance: number;
+        percentage: number;
+        frozen: boolean;
+    }>> {
+        try {
+            return await this.fetchTokenHolders(assetId, options.ledgerIndex ?? 'validated');
+        } catch (error: any) {
+            console.error('Failed to get token holders:', error);
+            return [];
+        }
+    }
+
+    private async fetchTokenHolders(assetId: string, ledgerIndex: number | 'validated'): Promise<Array<{
+        address: string;
+        balance: number;
+        percentage: number;
+        frozen: boolean;
+    }>> {
+        if (isMPTokenId(assetId)) {
+            const mptHolders = (await this.getMPTHolders(assetId, ledgerIndex)).filter(holder => holder.amount > 0);
+            const mptSupply = mptHolders.reduce((sum, holder) => sum + holder.amount, 0);
+
+            return mptHolders
+                .map(holder => ({
+                    address: holder.account,
+                    balance: holder.amount,
+                    percentage: mptSupply > 0 ? (holder.amount / mptSupply) * 100 : 0,
+                    frozen: holder.locked
+                }))
+                .sort((a, b) => b.balance - a.balance);
+        }
+
+        const [currency, issuer] = splitAssetId(assetId);
+        const lines: Array<{ account: string; balance: number; freeze: boolean }> = [];
+        let marker: unknown = undefined;
+
+        // Get all accounts that have trustlines to this issuer, page by page
+        do {
+            const accountLines = await this.client.request({
+                command: 'account_lines',
+                account: issuer,
+                ledger_index: ledgerIndex,
+                limit: 400,
+                ...(marker ? { marker } : {})
+            });
+
+            for (const line of accountLines.result.lines) {
+                const balance = Math.abs(parseFloat(line.balance));
+                if (line.currency === currency && balance > 0) {
+                    lines.push({ account: line.account, balance, freeze: !!line.freeze });
+                }
+            }
+
+            marker = accountLines.result.marker;
+        } while (marker);
+
+        const totalSupply = lines.reduce((sum, line) => sum + line.balance, 0);
+
+        // Sort by balance descending
+        return lines
+            .map(line => ({
+                address: line.account,
+                balance: line.balance,
+                percentage: totalSupply > 0 ? (line.balance / totalSupply) * 100 : 0,
+                frozen: line.freeze
+            }))
+            .sort((a, b) => b.balance - a.balance);
+    }
+
+    // Find the last validated ledger that closed at or before `time` (binary search over the server's history)
+    async findLedgerByCloseTime(time: Date): Promise<{ ledgerIndex: number; closeTime: string }> {
+        const target = unixTimeToRippleTime(time.getTime());
+        const serverInfo = await this.client.request({ command: 'server_info' });
+        const completeLedgers = serverInfo.result.info.complete_ledgers || '';
+        const lastRange = completeLedgers.split(',').pop()!.split('-').map(Number);
+
+        if (lastRange.length !== 2 || lastRange.some(isNaN)) {
+            throw new Error(`Server has no usable ledger history (${completeLedgers || 'empty'})`);
+        }
+
+        const closeTimeOf = async (ledgerIndex: number) => {
+            const response = await this.client.request({ command: 'ledger', ledger_index: ledgerIndex });
+            return response.result.ledger.close_time;
+        };
+
+        let [low, high] = lastRange;
+
+        if (await closeTimeOf(low) > target) {
+            throw new Error(`${time.toISOString()} is before the earliest ledger this server holds (${low}); use a full-history server`);
+        }
+
+        if (await closeTimeOf(high) <= target) {
+            throw new Error(`${time.toISOString()} is after the latest validated ledger`);
+        }
+
+        while (high - low > 1) {
+            const mid = Math.floor((low + high) / 2);
+            if (await closeTimeOf(mid) <= target) {
+                low = mid;
+            } else {
+                high = mid;
+            }
+        }
+
+        return { ledgerIndex: low, closeTime: rippleTimeToISOTime(await closeTimeOf(low)) };
+    }
+
+    // Capture holders and balances at a ledger index or close time (latest validated ledger by default)
+    async createHolderSnapshot(
+        assetId: string,
+        options: { ledgerIndex?: number; closeTime?: Date; label?: string } = {}
+    ): Promise<HolderSnapshot> {
+        const normalizedId = normalizeAssetId(assetId);
+        let ledgerIndex: number;
+        let closeTime: string;
+
+        if (options.closeTime) {
+            ({ ledgerIndex, closeTime } = await this.findLedgerByCloseTime(options.closeTime));
+        } else {
+            const response = await this.client.request({
+                command: 'ledger',
+                ledger_index: options.ledgerIndex ?? 'validated'
+            });
+
+            if (!response.result.validated) {
+                throw new Error(`Ledger ${options.ledgerIndex} is not validated yet`);
+            }
+
+            ledgerIndex = response.result.ledger_index;
+            closeTime = rippleTimeToISOTime(response.result.ledger.close_time);
+        }
+
+        const holders = await this.fetchTokenHolders(normalizedId, ledgerIndex);
+
+        const snapshot: HolderSnapshot = {
+            id: generateSnapshotId(normalizedId, ledgerIndex),
+            assetId: normalizedId,
+            network: this.network,
+            ledgerIndex,
+            ledgerCloseTime: closeTime,
+            label: options.label,
+            totalBalance: holders.reduce((sum, holder) => sum + holder.balance, 0),
+            holders,
+            createdAt: new Date().toISOString()
+        };
+
+        saveSnapshot(this.dataDir, snapshot);
+        console.error(`📸 Snapshot ${snapshot.id}: ${holders.length} holders at ledger ${ledgerIndex} (${closeTime})`);
+        return snapshot;
+    }
+
+    // Current balance of an asset held by any account (0 without a trustline or MPT holding)
+    async getHolderBalance(assetId: string, address: string): Promise<number> {
+        if (isMPTokenId(assetId)) {
+            try {
+                const response: any = await this.client.request({
+                    command: 'ledger_entry',
+                    mptoken: { mpt_issuance_id: assetId, account: address },
+                    ledger_index: 'validated'
+                });
+                const issuance = await this.getMPTIssuance(assetId);
+                return fromMPTValue(response.result.node.MPTAmount || '0', issuance.AssetScale || 0);
+            } catch (error: any) {
+                if (error.data?.error === 'entryNotFound' || error.message.includes('entryNotFound')) {
+                    return 0;
+                }
+                throw error;
+            }
+        }
+
+        const [currency, issuer] = splitAssetId(assetId);
+        const response = await this.client.request({
+            command: 'account_lines',
+            account: address,
+            peer: issuer,
+            ledger_index: 'validated'
+        });
+
+        return Number(response.result.lines.find(line => line.currency === currency)?.balance || 0);
+    }
+
+    // Tokens a holder still holds, grouped by the transaction that brought them in. Resumes from the
+    // last scanned ledger, so only new transactions are fetched after the first call.
+    async getHolderAcquisitionLots(assetId: string, address: string): Promise<AcquisitionLot[]> {
+        const tokenId = normalizeAssetId(assetId);
+        const record = getHolderAcquisitions(this.dataDir, tokenId, address);
+        const assetScale = isMPTokenId(tokenId) ? (await this.getMPTIssuance(tokenId)).AssetScale || 0 : 0;
+        let lots = record?.lots || [];
+        let scannedToLedger = record?.scannedToLedger || 0;
+        let marker: unknown = undefined;
+
+        // Nothing new to scan until another ledger has been validated
+        if (scannedToLedger > 0 && scannedToLedger >= await this.client.getLedgerIndex()) {
+            return lots;
+        }
+
+        do {
+            const response: any = await this.client.request({
+                command: 'account_tx',
+                account: address,
+                ledger_index_min: scannedToLedger > 0 ? scannedToLedger + 1 : -1,
+                ledger_index_max: -1,
+                forward: true,
+                limit: METADATA_LOOKUP.PAGE_SIZE,
+                ...(marker ? { marker } : {})
+            });
+
+            for (const entry of response.result.transactions) {
+                const tx = entry.tx_json || entry.tx;
+                const change = getTokenBalanceChange(entry.meta, address, tokenId, assetScale);
+
+                if (!entry.validated || change === 0) {
+                    continue;
+                }
+
+                lots = applyBalanceChange(lots, change, {
+                    acquiredAt: entry.close_time_iso || rippleTimeToISOTime(tx.date),
+                    hash: entry.hash || tx.hash,
+                    ledgerIndex: entry.ledger_index ?? tx.ledger_index
+                });
+            }
+
+            marker = response.result.marker;
+            if (!marker) {
+                scannedToLedger = Math.max(scannedToLedger, response.result.ledger_index_max);
+            }
+        } while (marker);
+
+        saveHolderAcquisitions(this.dataDir, { assetId: tokenId, address, lots, scannedToLedger, updatedAt: new Date().toISOString() });
+        return lots;
+    }
+
+    // Locked and unlocked balance of a holder under the asset's holding period
+    async getLockupStatus(assetId: string, address: string = this.address, options: { balance?: number } = {}): Promise<LockupStatus> {
+        const tokenId = normalizeAssetId(assetId);
+        const metadata = await this.getAssetMetadataFromMemos(tokenId);
+        const profile = getJurisdictionProfile(this.dataDir, metadata?.compliance?.jurisdiction || JURISDICTION.DEFAULT);
+        // The jurisdiction's minimum lockup applies even to assets tokenized with a shorter one
+        const holdingPeriodDays = Math.max(
+            metadata?.compliance?.holdingPeriodDays || DEFAULTS.HOLDING_PERIOD_DAYS,
+            profile?.minHoldingPeriodDays || 0
+        );
+        // Only the issuer is exempt: its payments create new tokens rather than move acquired ones. The treasury's
+        // tokens are locked like any holder's; primary issuance from it goes through the issuance tools, which skip this check.
+        const issuer = isMPTokenId(tokenId) ? getMPTIssuer(tokenId) : splitAssetId(tokenId)[1];
+        const exempt = address === issuer;
+        const balance = options.balance ?? await this.getHolderBalance(tokenId, address);
+
+        const lots = exempt || holdingPeriodDays <= 0 ? [] : await this.getHolderAcquisitionLots(tokenId, address);
+        return { ...summarizeLockup(tokenId, address, lots, balance, holdingPeriodDays), exempt };
+    }
+
+    // Throw when a transfer would move tokens that are still inside the asset's holding period
+    async assertTransferable(assetId: string, amount: number, address: string = this.address): Promise<LockupStatus> {
+        const status = await this.getLockupStatus(assetId, address);
+
+        if (!status.exempt && amount > status.unlockedBalance + 1e-9) {
+            throw new Error(
+                `${status.lockedBalance} of ${status.balance} tokens are still in their ${status.holdingPeriodDays}-day holding period` +
+                ` (next unlock ${status.nextUnlock?.slice(0, 10)}); at most ${status.unlockedBalance} can be transferred now`
+            );
+        }
+
+        return status;
+    }
+
+    // Multiplier covering the payout issuer's transfer fee (1 when there is none or we are the issuer)
+    async getPayoutSendMaxFactor(payoutAssetId: string): Promise<number> {
+        const [, issuer] = splitAssetId(payoutAssetId);
+
+        if (issuer === this.address) {
+            return 1;
+        }
+
+        const accountInfo = await this.client.request({
+            command: 'account_info',
+            account: issuer,
+            ledger_index: 'validated'
+        });
+
+        const transferRate = accountInfo.result.account_data.TransferRate;
+        return transferRate ? transferRate / 1000000000 : 1;
+    }
+
+    // Check which accounts can receive an IOU payment: each needs an unfrozen, authorized trustline with enough headroom.
+    // Returns the reason an account can't receive, or null when it can.
+    async checkPayoutTrustlines(
+        payments: Array<{ address: string; amount: number }>,
+        payoutAssetId: string
+    ): Promise<Map<string, string | null>> {
+        const [currency, issuer] = splitAssetId(payoutAssetId);
+        const issuerFlags = await this.getIssuerFlags(issuer);
+        const readiness = new Map<string, string | null>();
+
+        for (const payment of payments) {
+            if (payment.address === issuer) {
+                readiness.set(payment.address, null);
+                continue;
+            }
+
+            try {
+                const response = await this.client.request({
+                    command: 'account_lines',
+                    account: payment.address,
+                    peer: issuer,
+                    ledger_index: 'validated'
+                });
+
+                const line = response.result.lines.find(l => l.currency === currency);
+
+                if (!line) {
+                    readiness.set(payment.address, `No trustline to ${decodeCurrencyCode(currency)}.${issuer}`);
+                } else if (line.freeze_peer || issuerFlags.lsfGlobalFreeze) {
+                    readiness.set(payment.address, 'Trustline is frozen by the issuer');
+                } else if (issuerFlags.lsfRequireAuth && !line.peer_authorized) {
+                    readiness.set(payment.address, 'Trustline is awaiting issuer authorization');
+                } else if (Number(line.limit) - Number(line.balance) < payment.amount) {
+                    readiness.set(payment.address, `Trustline limit too low (${line.limit}, holds ${line.balance})`);
+                } else {
+                    readiness.set(payment.address, null);
+                }
+            } catch (error: any) {
+                readiness.set(payment.address, error.message.includes('actNotFound') ? 'Account not found' : error.message);
+            }
+        }
+
+        return readiness;
+    }
+
+    // Work out a yield distribution without paying anything: every holder's share after withholding, and a payment
+    // for each holder who can be paid. Holders who can't are left 'skipped' with the reason.
+    async planDistribution(
+        assetId: string,
+        totalAmount: number,
+        options: { excludeAddresses?: string[]; memo?: string; payoutAsset?: string; snapshotId?: string; reference?: string } = {}
+    ) {
+        const reference = options.reference || generateDistributionReference(assetId);
+        const payoutAsset = options.payoutAsset && options.payoutAsset !== 'XRP' ? normalizeAssetId(options.payoutAsset) : null;
+        const [currency, issuer] = isMPTokenId(assetId) ? ['MPT', getMPTIssuer(assetId)] : splitAssetId(assetId);
+        const symbol = decodeCurrencyCode(currency);
+
+        // The paying wallet and the issuer never receive yield
+        const excluded = new Set([this.address, issuer, ...(options.excludeAddresses || [])]);
+        const snapshot = options.snapshotId ? getSnapshot(this.dataDir, options.snapshotId) : null;
+
+        if (options.snapshotId && !snapshot) {
+            throw new Error(`Holder snapshot ${options.snapshotId} not found`);
+        }
+
+        if (snapshot && snapshot.assetId !== normalizeAssetId(assetId)) {
+            throw new Error(`Holder snapshot ${snapshot.id} is for ${snapshot.assetId}, not ${assetId}`);
+        }
+
+        const holders = (snapshot ? snapshot.holders : await this.getTokenHolders(assetId))
+            .filter(holder => !excluded.has(holder.address));
+
+        if (holders.length === 0) {
+            return { reference, payoutAsset, symbol, snapshot, sourceJurisdiction: JURISDICTION.DEFAULT, withholdingRules: null, applyWithholding: false, shares: [], recipients: [], payments: [] };
+        }
+
+        const eligibleSupply = holders.reduce((sum, holder) => sum + holder.balance, 0);
+        const amountValidation = validateDistributionAmount(totalAmount, eligibleSupply);
+        if (!amountValidation.valid) {
+            throw new Error(amountValidation.error);
+        }
+
+        // Withhold tax per holder using the rules for the asset's source jurisdiction and each holder's tax profile
+        const sourceJurisdiction = (await this.getAssetMetadataFromMemos(assetId))?.compliance?.jurisdiction || JURISDICTION.DEFAULT;
+        const withholdingRules = getWithholdingRules(this.dataDir, sourceJurisdiction);
+        const taxProfiles = loadTaxProfiles(this.dataDir);
+
+        const shares = calculateProRataDistribution(holders, totalAmount).map(share => {
+            const profile = taxProfiles[share.address] || null;
+            const { rate, source } = resolveWithholdingRate(profile, withholdingRules);
+            const { withheldAmount, netAmount } = calculateWithholding(share.amount, rate);
+
+            return {
+                ...share,
+                amount: netAmount,
+                grossAmount: share.amount,
+                withheldAmount,
+                withholdingRate: rate,
+                rateSource: source,
+                jurisdiction: profile?.jurisdiction
+            };
+        });
+        const applyWithholding = !!withholdingRules || shares.some(share => share.rateSource !== 'none');
+        const recipients: DistributionRecipient[] = [];
+        const payments: Array<{ id: string; transaction: Payment }> = [];
+
+        // IOU payouts need every holder to trust the payout currency; holders who can't receive keep their share unpaid
+        const readiness = payoutAsset
+            ? await this.checkPayoutTrustlines(shares, payoutAsset)
+            : new Map<string, string | null>();
+        const sendMax = payoutAsset ? await this.getPayoutSendMaxFactor(payoutAsset) : 1;
+
+        for (const share of shares) {
+            const recipient: DistributionRecipient = {
+                address: share.address,
+                tokenBalance: share.balance,
+                sharePercentage: share.sharePercentage,
+                amount: share.amount,
+                ...(applyWithholding && {
+                    grossAmount: share.grossAmount,
+                    withheldAmount: share.withheldAmount,
+                    withholdingRate: share.withholdingRate
+                }),
+                status: 'skipped'
+            };
+
+            if (share.amount <= 0) {
+                recipient.error = share.grossAmount > 0
+                    ? 'Share is fully withheld'
+                    : payoutAsset ? 'Share rounds down to zero' : 'Share rounds down to zero drops';
+                recipients.push(recipient);
+                continue;
+            }
+
+            if (readiness.get(share.address)) {
+                recipient.error = readiness.get(share.address)!;
+                recipients.push(recipient);
+                console.error(`⏭️ Skipping ${share.address.substring(0, 8)}...: ${recipient.error}`);
+                continue;
+            }
+
+            const payment = this.buildDistributionPayment(share.address, share.amount, payoutAsset, sendMax, options.memo ? `${reference}: ${options.memo}` : reference);
 
-            // Get transaction history for the issuer
-            const transactions = await this.client.request({
-                command: 'account_tx',
-                account: issuer,
-                limit: 100, // Look through recent transactions
-                ledger_index_min: -1,
-                ledger_index_max: -1
-            });
+            payments.push({ id: String(recipients.length), transaction: payment });
+            recipients.push(recipient);
+        }
 
-            // Use helper function to find RWA tokenization transaction
-            return findRWATokenizationTx(transactions.result.transactions, currency);
 
-        } catch (error: any) {
-            console.error('Failed to retrieve asset metadata:', error);
-            return null;
+        return { reference, payoutAsset, symbol, snapshot, sourceJurisdiction, withholdingRules, applyWithholding, shares, recipients, payments };
+    }
+
+    // One yield payment from the operator wallet, in XRP or an issued payout currency
+    private buildDistributionPayment(destination: string, amount: number, payoutAsset: string | null, sendMax: number, memo: string): Payment {
+        const payment: Payment = {
+            TransactionType: 'Payment',
+            Account: this.address,
+            Destination: destination,
+            Amount: payoutAsset
+                ? createTrustlineAmount(amount, ...splitAssetId(payoutAsset))
+                : xrpToDrops(amount.toFixed(6)),
+            Fee: '12',
+            Memos: [createMemo(memo)]
+        };
+
+        // Issuer transfer fees are charged on top of the amount delivered
+        if (payoutAsset && sendMax > 1) {
+            payment.SendMax = createTrustlineAmount(Math.ceil(amount * sendMax * 1000000) / 1000000, ...splitAssetId(payoutAsset));
         }
+
+        return payment;
     }
 
-    async getAssetInfo(assetId: string): Promise<RWAAsset | null> {
+    // Distribute yield to token holders pro-rata to their balances, live or as of a holder snapshot
+    async distributeYield(
+        assetId: string,
+        totalAmount: number,
+        options: {
+            excludeAddresses?: string[];
+            memo?: string;
+            payoutAsset?: string;
+            snapshotId?: string;
+            window?: number;
+            onSigned?: (recipient: DistributionRecipient, recipients: DistributionRecipient[]) => void; // Called with each payment's hash before it is submitted
+            onPayment?: (recipient: DistributionRecipient) => void; // Called as each payment settles
+        } = {}
+    ): Promise<DistributionResult> {
+        const reference = generateDistributionReference(assetId);
+        const payoutAsset = options.payoutAsset && options.payoutAsset !== 'XRP' ? normalizeAssetId(options.payoutAsset) : null;
+        const payoutCurrency = payoutAsset ? decodeCurrencyCode(splitAssetId(payoutAsset)[0]) : 'XRP';
+        let planned: DistributionRecipient[] = [];
+
         try {
-            // First, try to get metadata from memos
-            const metadata = await this.getAssetMetadataFromMemos(assetId);
+            const { symbol, snapshot, sourceJurisdiction, withholdingRules, applyWithholding, shares, recipients, payments } =
+                await this.planDistribution(assetId, totalAmount, { ...options, reference });
+            planned = recipients;
 
-            if (metadata) {
+            if (recipients.length === 0) {
                 return {
-                    id: assetId,
-                    type: metadata.assetDetails.type,
-                    name: metadata.assetDetails.name,
-                    totalValue: metadata.assetDetails.totalValue,
-                    tokenSymbol: metadata.assetDetails.tokenSymbol,
-                    totalSupply: metadata.assetDetails.totalSupply,
-                    yieldRate: metadata.assetDetails.yieldRate
+                    status: 'error',
+                    totalDistributed: 0,
+                    recipientCount: 0,
+                    transactionHashes: [],
+                    message: `No eligible ${symbol} holders found for distribution`,
+                    assetId,
+                    reference,
+                    payoutCurrency: payoutAsset || 'XRP',
+                    recipients: []
                 };
             }
 
-            // Fallback: parse asset ID for basic info
-            const [currency, issuer] = assetId.split('.');
+            console.error(`💸 Distributing ${totalAmount} ${payoutCurrency} yield to ${shares.length} ${symbol} holders...`);
 
-            // Get basic account information
-            const accountInfo = await this.client.request({
-                command: 'account_info',
-                account: issuer,
-                ledger_index: 'validated'
+            // Payments go out in parallel against Tickets; each recipient is updated as its payment settles
+            await this.submitBatch(payments, {
+                window: options.window,
+                spendXrp: payoutAsset ? 0 : totalAmount,
+                onSigned: (id, hash, lastLedgerSequence) => {
+                    Object.assign(recipients[Number(id)], { hash, lastLedgerSequence });
+                    options.onSigned?.(recipients[Number(id)], recipients);
+                },
+                onOutcome: outcome => {
+                    const recipient = recipients[Number(outcome.id)];
+                    recipient.hash = outcome.hash;
+
+                    if (outcome.status === 'success') {
+                        recipient.status = 'success';
+                        console.error(`✅ Paid ${recipient.amount} ${payoutCurrency} to ${recipient.address.substring(0, 8)}...`);
+                    } else {
+                        recipient.status = 'failed';
+                        recipient.error = outcome.status === 'unknown'
+                            ? `Outcome unknown, check ${outcome.hash} before paying again: ${outcome.error}`
+                            : outcome.error;
+                        console.error(`❌ Failed to pay ${recipient.address}: ${recipient.error}`);
+                    }
+
+                    options.onPayment?.(recipient);
+                }
             });
 
-            // Check if Domain field has metadata URL
-            if (accountInfo.result.account_data.Domain) {
-                const domain = convertHexToString(accountInfo.result.account_data.Domain);
-                console.error(`📍 Domain found for metadata: ${domain}`);
-                // Here you could fetch from the domain URL if needed
+            const paid = recipients.filter(r => r.status === 'success');
+            const totalDistributed = paid.reduce((sum, r) => sum + r.amount, 0);
+            const status = paid.length === recipients.length ? 'success' : paid.length > 0 ? 'partial' : 'error';
+
+            let withholding: WithholdingReport | undefined;
+
+            if (applyWithholding) {
+                const lines: WithholdingReportLine[] = shares.map((share, index) => ({
+                    address: share.address,
+                    jurisdiction: share.jurisdiction,
+                    rate: share.withholdingRate,
+                    rateSource: share.rateSource,
+                    grossAmount: share.grossAmount,
+                    withheldAmount: share.withheldAmount,
+                    netAmount: share.amount,
+                    paymentStatus: recipients[index].status
+                }));
+                const paidLines = lines.filter(line => line.paymentStatus === 'success');
+                const sum = (values: number[]) => Math.round(values.reduce((total, value) => total + value, 0) * 1000000) / 1000000;
+
+                withholding = {
+                    reference,
+                    assetId: normalizeAssetId(assetId),
+                    sourceJurisdiction,
+                    payoutCurrency: payoutAsset || 'XRP',
+                    ruleSetUpdatedAt: withholdingRules?.updatedAt,
+                    totalGross: sum(paidLines.map(line => line.grossAmount)),
+                    totalWithheld: sum(paidLines.map(line => line.withheldAmount)),
+                    totalNet: sum(paidLines.map(line => line.netAmount)),
+                    lines,
+                    createdAt: new Date().toISOString()
+                };
+
+                recordWithholdingReport(this.dataDir, withholding);
+                console.error(`🧾 Withheld ${withholding.totalWithheld} ${payoutCurrency} (${sourceJurisdiction} rules) - report ${reference}`);
             }
 
-            // Return basic asset information
             return {
-                id: assetId,
-                type: "real_estate", // Would need metadata to determine
-                name: `Asset ${currency}`,
-                totalValue: 0, // Would need metadata to determine
-                tokenSymbol: currency,
-                totalSupply: 0, // Would need to calculate from trustlines
-                yieldRate: 0 // Would need metadata to determine
+                status,
+                totalDistributed,
+                recipientCount: paid.length,
+                transactionHashes: paid.map(r => r.hash!),
+                message: `Distributed ${totalDistributed} ${payoutCurrency} to ${paid.length}/${recipients.length} ${symbol} holders`,
+                assetId,
+                reference,
+                payoutCurrency: payoutAsset || 'XRP',
+                ...(snapshot && { snapshotId: snapshot.id, recordLedgerIndex: snapshot.ledgerIndex }),
+                recipients,
+                ...(withholding && { withholding })
             };
 
         } catch (error: any) {
-            console.error('Failed to get asset info:', error);
-            return null;
+            console.error('Yield distribution failed:', error);
+
+            // Payments may already be on the ledger, so report every recipient as far as it got
+            const paid = planned.filter(r => r.status === 'success');
+            return {
+                status: paid.length > 0 ? 'partial' : 'error',
+                totalDistributed: paid.reduce((sum, r) => sum + r.amount, 0),
+                recipientCount: paid.length,
+                transactionHashes: paid.map(r => r.hash!),
+                message: `Failed to distribute yield: ${error.message}`,
+                assetId,
+                reference,
+                payoutCurrency: payoutAsset || 'XRP',
+                ...(options.snapshotId && { snapshotId: options.snapshotId }),
+                ...(planned.length > 0 && { recipients: planned })
+            };
         }
     }
 
-    // Issue tokens to specific investors
-    // async issueTokensToInvestors(
-    //     assetId: string,
-    //     distributions: Array<{ address: string, amount: number }>
-    // ): Promise<any> {
-    //     try {
-    //         const [currency, issuer] = assetId.split('.');
-    //         const results = [];
-
-    //         console.error(`💰 Issuing ${currency} tokens to ${distributions.length} investors...`);
-
-    //         for (const distribution of distributions) {
-    //             try {
-    //                 const payment: Payment = {
-    //                     TransactionType: 'Payment',
-    //                     Account: this.wallet.address,
-    //                     Destination: distribution.address,
-    //                     Amount: {
-    //                         currency: currency,
-    //                         issuer: this.wallet.address,
-    //                         value: distribution.amount.toString()
-    //                     },
-    //                     Fee: '12'
-    //                 };
-
-    //                 const result = await this.client.submitAndWait(payment, { wallet: this.wallet });
-    //                 results.push({
-    //                     address: distribution.address,
-    //                     amount: distribution.amount,
-    //                     hash: result.result.hash,
-    //                     status: 'success'
-    //                 });
-
-    //                 console.error(`✅ Sent ${distribution.amount} ${currency} to ${distribution.address.substring(0, 8)}...`);
-
-    //             } catch (error: any) {
-    //                 results.push({
-    //                     address: distribution.address,
-    //                     amount: distribution.amount,
-    //                     status: 'failed',
-    //                     error: error.message
-    //                 });
-    //                 console.error(`❌ Failed to send to ${distribution.address}: ${error.message}`);
-    //             }
-    //         }
-
-    //         const successCount = results.filter(r => r.status === 'success').length;
-
-    //         return {
-    //             status: successCount === distributions.length ? 'success' : 'partial',
-    //             message: `Issued tokens to ${successCount}/${distributions.length} investors`,
-    //             distributions: results,
-    //             summary: {
-    //                 total_investors: distributions.length,
-    //                 successful: successCount,
-    //                 failed: distributions.length - successCount,
-    //                 total_tokens_distributed: results
-    //                     .filter(r => r.status === 'success')
-    //                     .reduce((sum, r) => sum + r.amount, 0)
-    //             }
-    //         };
-
-    //     } catch (error: any) {
-    //         throw new Error(`Failed to issue tokens: ${error.message}`);
-    //     }
-    // }
-
-    // Check actual token supply on XRPL
-    async getActualTokenSupply(assetId: string): Promise<{
-        totalIssued: number;
-        holderCount: number;
-        issuerBalance: number;
-        circulatingSupply: number;
-    }> {
-        try {
-            const [currency, issuer] = assetId.split('.');
+    // Create or replace the recurring distribution schedule for an asset
+    async scheduleDistribution(
+        assetId: string,
+        options: {
+            frequency: 'monthly' | 'quarterly';
+            type: 'rental' | 'interest' | 'dividend';
+            rate?: number;
+            amountPerPeriod?: number;
+            payoutCurrency?: string;
+            startDate?: string;
+            memo?: string;
+        }
+    ): Promise<DistributionSchedule> {
+        const asset = await this.getAssetInfo(assetId);
+        if (!asset) {
+            throw new Error(`Asset ${assetId} not found`);
+        }
 
-            // Get all account lines for the issuer
-            const accountLines = await this.client.request({
-                command: 'account_lines',
-                account: issuer,
-                ledger_index: 'validated'
-            });
+        const rate = options.rate ?? asset.yieldRate ?? 0;
+        if (!options.amountPerPeriod && rate <= 0) {
+            throw new Error('A yield rate or a fixed amount per period is required');
+        }
 
-            let totalIssued = 0;
-            let holderCount = 0;
-            let issuerBalance = 0;
+        const payoutCurrency = options.payoutCurrency ? normalizeAssetId(options.payoutCurrency) : 'XRP';
+        if (!options.amountPerPeriod && !canDeriveAmountIn(payoutCurrency)) {
+            throw new Error(`Asset values are in ${VALUATION.CURRENCY}, so paying in ${payoutCurrency} needs a fixed amount per period`);
+        }
 
-            // Analyze all trustlines for this currency
-            for (const line of accountLines.result.lines) {
-                if (line.currency === currency) {
-                    const balance = Math.abs(parseFloat(line.balance));
+        // Default to the first day of next month
+        const now = new Date();
+        const startDate = options.startDate
+            ? new Date(options.startDate)
+            : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+        const schedule: DistributionSchedule = {
+            assetId: normalizeAssetId(assetId),
+            type: options.type,
+            frequency: options.frequency,
+            rate,
+            amountPerPeriod: options.amountPerPeriod,
+            payoutCurrency,
+            startDate: startDate.toISOString(),
+            nextPeriodIndex: 0,
+            nextPayment: startDate.toISOString(),
+            status: 'active',
+            memo: options.memo,
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString()
+        };
+
+        saveSchedule(this.dataDir, schedule);
+        console.error(`⏰ ${schedule.frequency} distribution scheduled for ${schedule.assetId}, first payment ${schedule.nextPayment}`);
+        return schedule;
+    }
 
-                    if (line.account === issuer) {
-                        // This is the issuer's own balance
-                        issuerBalance = balance;
-                    } else if (balance > 0) {
-                        // This is a holder with tokens
-                        totalIssued += balance;
-                        holderCount++;
+    // Pay the holders that earlier runs of a schedule left unpaid. Attempts whose outcome was unknown are looked
+    // up first, and holders who still can't receive stay outstanding. Returns one run record per period retried.
+    private async retryOutstandingPayments(schedule: DistributionSchedule, trigger: 'tool' | 'scheduler'): Promise<DistributionRunRecord[]> {
+        const outstanding = schedule.outstandingPayments || [];
+        const payoutAsset = schedule.payoutCurrency === 'XRP' ? null : schedule.payoutCurrency;
+
+        const paid = new Set<OutstandingDistributionPayment>();
+
+        for (const entry of outstanding.filter(e => e.hash && e.lastLedgerSequence)) {
+            const outcome = await this.lookupSubmittedTransaction(entry.hash!, entry.lastLedgerSequence!);
+
+            if (outcome === 'tesSUCCESS') {
+                paid.add(entry);
+            } else {
+                Object.assign(entry, {
+                    hash: undefined,
+                    lastLedgerSequence: undefined,
+                    error: outcome ? `Previous attempt failed: ${outcome}` : 'Previous attempt expired without being validated'
+                });
+            }
+        }
+
+        const unsettled = outstanding.filter(entry => !paid.has(entry));
+        const readiness = payoutAsset ? await this.checkPayoutTrustlines(unsettled, payoutAsset) : new Map<string, string | null>();
+        const sendMax = payoutAsset ? await this.getPayoutSendMaxFactor(payoutAsset) : 1;
+        const toPay = unsettled.filter(entry => !readiness.get(entry.address));
+
+        for (const entry of unsettled.filter(e => readiness.get(e.address))) {
+            entry.error = readiness.get(entry.address)!;
+        }
+
+        if (toPay.length > 0) {
+            await this.submitBatch(toPay.map((entry, index) => ({
+                id: String(index),
+                transaction: this.buildDistributionPayment(entry.address, entry.amount, payoutAsset, sendMax, `${entry.reference || schedule.assetId}: retry for ${entry.periodDate.slice(0, 10)}`)
+            })), {
+                spendXrp: payoutAsset ? 0 : toPay.reduce((sum, entry) => sum + entry.amount, 0),
+                onSigned: (id, hash, lastLedgerSequence) => {
+                    Object.assign(toPay[Number(id)], { hash, lastLedgerSequence });
+                    saveSchedule(this.dataDir, schedule);
+                },
+                onOutcome: outcome => {
+                    const entry = toPay[Number(outcome.id)];
+
+                    if (outcome.status === 'success') {
+                        paid.add(entry);
+                        console.error(`✅ Paid outstanding ${entry.amount} to ${entry.address.substring(0, 8)}...`);
+                    } else {
+                        entry.error = outcome.error;
+                        // A failed payment can be sent again; an unknown one is looked up on the next run
+                        if (outcome.status === 'failed') {
+                            Object.assign(entry, { hash: undefined, lastLedgerSequence: undefined });
+                        }
                     }
+                    refreshSchedulerLock(this.dataDir);
                 }
-            }
+            });
+        }
 
-            // Calculate circulating supply (tokens not held by issuer)
-            const circulatingSupply = totalIssued;
+        schedule.outstandingPayments = outstanding.filter(entry => !paid.has(entry));
 
-            return {
-                totalIssued: totalIssued + issuerBalance, // Total tokens created
-                holderCount,
-                issuerBalance, // Tokens still held by issuer
-                circulatingSupply // Tokens held by investors
-            };
+        return [...new Set(outstanding.map(entry => entry.periodIndex))].map(periodIndex => {
+            const entries = outstanding.filter(entry => entry.periodIndex === periodIndex);
+            const settled = entries.filter(entry => paid.has(entry));
+            const unpaid = entries.filter(entry => !paid.has(entry));
 
-        } catch (error: any) {
-            console.error('Failed to get actual token supply:', error);
             return {
-                totalIssued: 0,
-                holderCount: 0,
-                issuerBalance: 0,
-                circulatingSupply: 0
+                assetId: schedule.assetId,
+                periodIndex,
+                periodDate: entries[0].periodDate,
+                executedAt: new Date().toISOString(),
+                trigger,
+                status: unpaid.length === 0 ? 'success' : settled.length > 0 ? 'partial' : 'error',
+                amount: entries.reduce((sum, entry) => sum + entry.amount, 0),
+                payoutCurrency: schedule.payoutCurrency,
+                totalDistributed: settled.reduce((sum, entry) => sum + entry.amount, 0),
+                recipientCount: settled.length,
+                reference: entries[0].reference,
+                retry: true,
+                ...(unpaid.length > 0 && {
+                    unpaidRecipients: unpaid.map(entry => ({ address: entry.address, amount: entry.amount, error: entry.error }))
+                }),
+                ...(settled.length === 0 && { error: 'No outstanding holder could be paid' })
             };
-        }
+        });
     }
 
-    // Get token holders list
-    async getTokenHolders(assetId: string): Promise<Array<{
-        address: string;
-        balance: number;
-        percentage: number;
+    // Pay every due period of the active schedules. Missed periods are caught up in order; a period where
+    // nothing went out stays due and is retried on the next run. Holders a paid period left unpaid are kept
+    // on the schedule and retried first on every run, and problems from the previous run are reported back.
+    async runScheduledDistributions(options: { assetId?: string; now?: Date; trigger?: 'tool' | 'scheduler' } = {}): Promise<Array<{
+        assetId: string;
+        duePeriods: number;
+        runs: DistributionRunRecord[];
+        previousIssues: DistributionRunRecord[];
+        nextPayment: string;
     }>> {
-        try {
-            const [currency, issuer] = assetId.split('.');
-            const holders = [];
-
-            // Get all accounts that have trustlines to this issuer
-            const accountLines = await this.client.request({
-                command: 'account_lines',
-                account: issuer,
-                ledger_index: 'validated'
-            });
+        const now = options.now || new Date();
 
-            let totalSupply = 0;
+        if (!acquireSchedulerLock(this.dataDir)) {
+            throw new Error('Another scheduled distribution run is in progress');
+        }
 
-            // First pass: calculate total supply
-            for (const line of accountLines.result.lines) {
-                if (line.currency === currency) {
-                    const balance = Math.abs(parseFloat(line.balance));
-                    if (balance > 0) {
-                        totalSupply += balance;
+        try {
+            const schedules = Object.values(loadSchedules(this.dataDir)).filter(schedule =>
+                schedule.status === 'active' &&
+                (!options.assetId || schedule.assetId === normalizeAssetId(options.assetId))
+            );
+            const report = [];
+
+            for (const schedule of schedules) {
+                const startDate = new Date(schedule.startDate);
+                const duePeriods = calculateDuePeriods(startDate, schedule.frequency, schedule.nextPeriodIndex, now);
+                const previousIssues = schedule.lastRunAt
+                    ? readDistributionRuns(this.dataDir, { assetId: schedule.assetId, since: schedule.lastRunAt })
+                        .filter(run => run.status !== 'success')
+                    : [];
+                const runs: DistributionRunRecord[] = [];
+
+                if (schedule.outstandingPayments?.length) {
+                    try {
+                        for (const run of await this.retryOutstandingPayments(schedule, options.trigger || 'tool')) {
+                            recordDistributionRun(this.dataDir, run);
+                            runs.push(run);
+                        }
+                    } catch (error: any) {
+                        console.error(`❌ ${schedule.assetId} outstanding payments could not be retried: ${error.message}`);
                     }
+                    saveSchedule(this.dataDir, schedule);
                 }
-            }
 
-            // Second pass: collect holder information
-            for (const line of accountLines.result.lines) {
-                if (line.currency === currency) {
-                    const balance = Math.abs(parseFloat(line.balance));
-                    if (balance > 0) {
-                        holders.push({
-                            address: line.account,
-                            balance: balance,
-                            percentage: totalSupply > 0 ? (balance / totalSupply) * 100 : 0
+                for (const periodIndex of duePeriods) {
+                    const periodDate = calculateDistributionPeriodDate(startDate, schedule.frequency, periodIndex);
+                    let amount = schedule.amountPerPeriod || 0;
+                    let run: DistributionRunRecord;
+
+                    try {
+                        if (!amount) {
+                            // Derived amounts are in the valuation currency and are never converted
+                            if (!canDeriveAmountIn(schedule.payoutCurrency)) {
+                                throw new Error(`Asset values are in ${VALUATION.CURRENCY}, so paying in ${schedule.payoutCurrency} needs a fixed amount per period; recreate the schedule with one`);
+                            }
+
+                            // Derived amounts follow the current (possibly revalued) asset value
+                            const asset = await this.getAssetInfo(schedule.assetId);
+                            amount = calculateYieldDistribution(asset?.totalValue || 0, schedule.rate, schedule.frequency).amountPerPeriod;
+                        }
+
+                        const periodLabel = periodDate.toISOString().slice(0, 10);
+                        const owed = new Map<string, OutstandingDistributionPayment>();
+                        const result = await this.distributeYield(schedule.assetId, amount, {
+                            payoutAsset: schedule.payoutCurrency,
+                            memo: schedule.memo ? `${schedule.memo} (${periodLabel})` : `${schedule.type} for period ${periodLabel}`,
+                            // Once the first payment is signed the period is settled holder by holder: every holder is
+                            // owed until paid and each hash is saved before submission, so a failed or crashed run is
+                            // picked up by the outstanding payment retry and never pays the period twice
+                            onSigned: (recipient, recipients) => {
+                                if (owed.size === 0) {
+                                    for (const r of recipients.filter(r => r.amount > 0)) {
+                                        owed.set(r.address, {
+                                            periodIndex,
+                                            periodDate: periodDate.toISOString(),
+                                            address: r.address,
+                                            amount: r.amount,
+                                            error: r.error
+                                        });
+                                    }
+                                    schedule.outstandingPayments = [...(schedule.outstandingPayments || []), ...owed.values()];
+                                    schedule.nextPeriodIndex = periodIndex + 1;
+                                }
+                                Object.assign(owed.get(recipient.address)!, { hash: recipient.hash, lastLedgerSequence: recipient.lastLedgerSequence });
+                                saveSchedule(this.dataDir, schedule);
+                            },
+                            onPayment: recipient => {
+                                const entry = owed.get(recipient.address);
+                                if (entry && recipient.status === 'success') {
+                                    schedule.outstandingPayments = schedule.outstandingPayments!.filter(e => e !== entry);
+                                } else if (entry) {
+                                    entry.error = recipient.error;
+                                }
+                                refreshSchedulerLock(this.dataDir);
+                            }
                         });
+                        const unpaid = (result.recipients || []).filter(r => r.status !== 'success' && r.amount > 0);
+                        owed.forEach(entry => entry.reference = result.reference);
+
+                        run = {
+                            assetId: schedule.assetId,
+                            periodIndex,
+                            periodDate: periodDate.toISOString(),
+                            executedAt: new Date().toISOString(),
+                            trigger: options.trigger || 'tool',
+                            status: result.status,
+                            amount,
+                            payoutCurrency: schedule.payoutCurrency,
+                            totalDistributed: result.totalDistributed,
+                            recipientCount: result.recipientCount,
+                            reference: result.reference,
+                            ...(unpaid.length > 0 && {
+                                unpaidRecipients: unpaid.map(r => ({ address: r.address, amount: r.amount, error: r.error }))
+                            }),
+                            ...(result.status === 'error' && { error: result.message })
+                        };
+                    } catch (error: any) {
+                        run = {
+                            assetId: schedule.assetId,
+                            periodIndex,
+                            periodDate: periodDate.toISOString(),
+                            executedAt: new Date().toISOString(),
+                            trigger: options.trigger || 'tool',
+                            status: 'error',
+                            amount,
+                            payoutCurrency: schedule.payoutCurrency,
+                            totalDistributed: 0,
+                            recipientCount: 0,
+                            error: error.message
+                        };
                     }
+
+                    recordDistributionRun(this.dataDir, run);
+                    refreshSchedulerLock(this.dataDir);
+                    runs.push(run);
+
+                    // Nothing went out, so leave the period due for the next run
+                    if (run.status === 'error' && !schedule.outstandingPayments?.some(entry => entry.periodIndex === periodIndex)) {
+                        console.error(`❌ ${schedule.assetId} period ${periodIndex + 1} failed: ${run.error}`);
+                        break;
+                    }
+
+                    schedule.nextPeriodIndex = periodIndex + 1;
                 }
-            }
 
-            // Sort by balance descending
-            return holders.sort((a, b) => b.balance - a.balance);
+                schedule.nextPayment = calculateDistributionPeriodDate(startDate, schedule.frequency, schedule.nextPeriodIndex).toISOString();
+                schedule.lastRunAt = now.toISOString();
+                saveSchedule(this.dataDir, schedule);
 
-        } catch (error: any) {
-            console.error('Failed to get token holders:', error);
-            return [];
+                report.push({
+                    assetId: schedule.assetId,
+                    duePeriods: duePeriods.length,
+                    runs,
+                    previousIssues,
+                    nextPayment: schedule.nextPayment
+                });
+            }
+
+            return report;
+        } finally {
+            releaseSchedulerLock(this.dataDir);
         }
     }
 
@@ -315,6 +3038,7 @@ export class RWAAgent {
             issuer: string;
             balance: number;
             asset_id: string;
+            token_standard: 'trustline' | 'mpt';
             is_rwa_token: boolean;
             asset_metadata?: any;
             estimated_value?: number;
@@ -326,7 +3050,7 @@ export class RWAAgent {
         portfolio_summary: any;
     }> {
         try {
-            const targetAddress = accountAddress || this.wallet.address;
+            const targetAddress = accountAddress || this.address;
 
             // Get XRP balance using account_info (similar to XRPL example pattern)
             const accountInfo = await this.client.request({
@@ -343,7 +3067,7 @@ export class RWAAgent {
                 ledger_index: 'validated'
             });
 
-            const rwaTokens = [];
+            const rwaTokens: any[] = [];
             let totalRWAValue = 0;
 
             // Process each trust line to identify RWA tokens
@@ -375,6 +3099,7 @@ export class RWAAgent {
                     issuer: line.account,
                     balance: balance,
                     asset_id: assetId,
+                    token_standard: 'trustline',
                     is_rwa_token: isRWAToken,
                     asset_metadata: assetMetadata,
                     estimated_value: tokenValue,
@@ -384,6 +3109,45 @@ export class RWAAgent {
                 });
             }
 
+            // MPT positions are MPToken ledger objects rather than trust lines
+            const mptObjects = await this.client.request({
+                command: 'account_objects',
+                account: targetAddress,
+                type: 'mptoken',
+                ledger_index: 'validated'
+            });
+
+            for (const mptoken of mptObjects.result.account_objects as any[]) {
+                const assetId: string = mptoken.MPTokenIssuanceID;
+                let assetMetadata = null;
+                let balance = 0;
+
+                try {
+                    const issuance = await this.getMPTIssuance(assetId);
+                    balance = fromMPTValue(mptoken.MPTAmount || '0', issuance.AssetScale || 0);
+                    assetMetadata = await this.getAssetMetadataFromMemos(assetId);
+                } catch (error) {
+                    console.error(`Could not retrieve metadata for ${assetId}:`, error);
+                }
+
+                let tokenValue = 0;
+                if (assetMetadata && assetMetadata.assetDetails) {
+                    tokenValue = balance * (assetMetadata.assetDetails.totalValue / assetMetadata.assetDetails.totalSupply);
+                    totalRWAValue += tokenValue;
+                }
+
+                rwaTokens.push({
+                    currency: assetMetadata?.assetDetails?.tokenSymbol || 'MPT',
+                    issuer: getMPTIssuer(assetId),
+                    balance: balance,
+                    asset_id: assetId,
+                    token_standard: 'mpt',
+                    is_rwa_token: !!assetMetadata,
+                    asset_metadata: assetMetadata,
+                    estimated_value: tokenValue
+                });
+            }
+
             // Generate portfolio summary
             const rwaTokensOnly = rwaTokens.filter(token => token.is_rwa_token);
             const portfolioSummary = {
@@ -418,111 +3182,104 @@ export class RWAAgent {
         try {
 
             // Generate currency code from token symbol
-            const currency = input.tokenSymbol.toUpperCase().padEnd(3, '0').substring(0, 3);
-
-            // STEP 1: Create asset metadata object
-            const assetMetadata = {
-                version: "1.0",
-                timestamp: Date.now(),
-                assetDetails: {
-                    name: input.name,
-                    type: input.type,
-                    totalValue: input.totalValue,
-                    tokenSymbol: input.tokenSymbol,
-                    totalSupply: input.totalSupply,
-                    yieldRate: input.yieldRate || 0,
-                    pricePerToken: input.totalValue / input.totalSupply
-                },
-                compliance: {
-                    accreditedOnly: input.accreditedOnly || false,
-                    jurisdiction: "US",
-                    tokenizationDate: new Date().toISOString()
-                },
-                issuer: {
-                    address: this.wallet.address,
-                    network: this.network
-                }
-            };
+            const currency = generateCurrencyCode(input.tokenSymbol);
 
-            // STEP 2: Create memo with asset metadata using helper function
-            const rwaMemo = createRWAMemo(assetMetadata);
+            // Every asset gets its own issuer account; the seed is stored before anything is funded. An issuer
+            // controlled by a signer list has no seed here, and every issuer transaction is multi-signed.
+            const coldWallet = input.issuerAddress ? undefined : input.issuerSeed ? Wallet.fromSeed(input.issuerSeed) : Wallet.generate();
+            const issuerAddress = input.issuerAddress || coldWallet!.address;
+            const assetId = `${currency}.${issuerAddress}`;
 
-            const coldWallet = getColdWallet()
+            if (input.issuerAddress && !(await this.getSignerList(input.issuerAddress)).multisigRequired) {
+                throw new Error(`${input.issuerAddress} is not controlled by a signer list with its master key disabled; pass its seed instead`);
+            }
 
-            // STEP 3: Enable issuing capabilities with metadata memo
-            const accountSet: AccountSet = {
-                TransactionType: 'AccountSet',
-                Account: coldWallet.address,
-                SetFlag: AccountSetAsfFlags.asfDefaultRipple,
-                Flags: (AccountSetTfFlags.tfDisallowXRP | AccountSetTfFlags.tfRequireDestTag),
-                Fee: '12',
-                Memos: [rwaMemo]
-            };
+            this.validateIssuerSigners(issuerAddress, input);
 
-            const accountSetResult = await this.client.submitAndWait(accountSet, { wallet: coldWallet });
-            console.error(`✅ Account set for issuing with metadata: ${accountSetResult.result.hash}`);
+            if (coldWallet && !findIssuerKey(this.dataDir, assetId)) {
+                saveIssuerKey(this.dataDir, createIssuerKeyEntry(assetId, coldWallet, input.issuerSeed ? 'imported' : 'generated', this.keystorePassphrase));
+                console.error(`🔑 Issuer key for ${assetId} saved to local keystore`);
+            }
 
-            console.error(`🎨 Starting token issuance for ${input.totalSupply} ${currency} tokens...`);
+            const fundingXrp = this.getIssuerFundingXrp(input);
+            const fundingTxHash = await this.activateIssuerAccount(issuerAddress, fundingXrp);
 
-            // Create a trustline to treasury to hold all tokens initially
-            const trustline: TrustSet = {
-                TransactionType: 'TrustSet',
-                Account: this.wallet.address,
-                LimitAmount: {
-                    currency: currency,
-                    issuer: coldWallet.address,
-                    value: input.totalSupply.toString()
-                },
-                Fee: '12'
-            };
+            // STEP 1: Create asset metadata object
+            const assetMetadata = this.buildAssetMetadata(input, issuerAddress);
 
-            const trustlineResult = await this.client.submitAndWait(trustline, { wallet: this.wallet });
-            console.error(`✅ Trustline created: ${trustlineResult.result.hash}`);
+            // STEP 2: Create memo with asset metadata using helper function
+            const rwaMemo = createRWAMemo(assetMetadata);
 
-            // Issue all tokens to issuer (this creates the token supply)
-            const issuancePayment: Payment = {
-                TransactionType: 'Payment',
-                Account: coldWallet.address,
-                Destination: this.wallet.address,
-                DestinationTag: 1,
-                Amount: {
-                    currency: currency,
-                    issuer: coldWallet.address,
-                    value: input.totalSupply.toString()
-                },
-                Fee: '12'
-            };
+            // MPT assets are issued from the same dedicated issuer but skip the trustline setup entirely
+            if (input.tokenStandard === 'mpt') {
+                return await this.tokenizeAssetAsMPT(input, issuerAddress, coldWallet, assetMetadata, rwaMemo, fundingTxHash ? { hash: fundingTxHash, amount: fundingXrp } : null);
+            }
 
-            const issuanceResult = await this.client.submitAndWait(issuancePayment, { wallet: coldWallet });
-            console.error(`✅ ${input.totalSupply} ${currency} tokens issued: ${issuanceResult.result.hash}`);
+            // STEP 3: Enable issuing capabilities with metadata memo, then issue the supply to the treasury
+            console.error(`🎨 Starting token issuance for ${input.totalSupply} ${decodeCurrencyCode(currency)} tokens...`);
 
             let issuanceResults: Array<{ type: string, hash: string, amount: number, destination: string }> = [];
 
-            issuanceResults.push({
-                type: 'trustline_creation',
-                hash: trustlineResult.result.hash,
-                amount: input.totalSupply,
-                destination: this.wallet.address
-            });
+            if (fundingTxHash) {
+                issuanceResults.push({
+                    type: 'issuer_activation',
+                    hash: fundingTxHash,
+                    amount: fundingXrp,
+                    destination: issuerAddress
+                });
+            }
 
-            issuanceResults.push({
-                type: 'token_issuance',
-                hash: issuanceResult.result.hash,
-                amount: input.totalSupply,
-                destination: this.wallet.address
-            });
+            const setupResults = await this.submitTokenizationSteps(
+                this.buildTrustlineTokenizationSteps(input, issuerAddress, rwaMemo),
+                issuerAddress,
+                coldWallet
+            );
+            const accountSetResult = setupResults.shift()!.result;
+            issuanceResults.push(...setupResults.map(({ step, result }) => ({
+                type: step.type,
+                hash: result.result.hash,
+                amount: step.amount,
+                destination: step.destination
+            })));
 
             const tokensIssued = true;
-            console.error(`✨ SUCCESS: ${input.totalSupply} ${currency} tokens now exist on XRPL!`);
+            console.error(`✨ SUCCESS: ${input.totalSupply} ${decodeCurrencyCode(currency)} tokens now exist on XRPL!`);
 
             const tokenizationTxHash = accountSetResult.result.hash;
-            const successMessage = `Successfully tokenized and issued ${input.totalSupply} ${currency} tokens for ${input.name}`
+
+            // Seed the metadata cache so lookups never need to scan for the tokenization memo
+            const tokenizationMetadata = {
+                ...assetMetadata,
+                tokenizationTxHash,
+                ledgerIndex: accountSetResult.result.ledger_index
+            };
+            cacheMetadata(this.dataDir, assetId, tokenizationMetadata);
+
+            registerAsset(this.dataDir, {
+                assetId,
+                tokenStandard: 'trustline',
+                tokenSymbol: input.tokenSymbol,
+                currency,
+                issuer: issuerAddress,
+                operator: this.address,
+                network: this.network,
+                tokenizationTxHash,
+                ledgerIndex: accountSetResult.result.ledger_index,
+                metadata: assetMetadata,
+                history: [createInitialMetadataVersion(assetId, tokenizationMetadata)],
+                status: 'active'
+            });
+            console.error(`📚 ${assetId} added to the local asset registry`);
+
+            issuanceResults.push(...await this.handOverIssuerToSigners(issuerAddress, input));
+            const successMessage = `Successfully tokenized and issued ${input.totalSupply} ${decodeCurrencyCode(currency)} tokens for ${input.name}`
 
             const finalResult: TokenizationResult = {
                 status: 'success',
-                tokenId: `${currency}.${coldWallet.address}`,
+                tokenId: assetId,
+                tokenStandard: 'trustline',
                 currency: currency,
-                issuerAddress: coldWallet.address,
+                issuerAddress,
                 message: successMessage,
                 metadata: {
                     assetMetadata,
@@ -541,9 +3298,397 @@ export class RWAAgent {
                 status: 'error',
                 tokenId: '',
                 currency: '',
-                issuerAddress: this.wallet.address,
+                issuerAddress: this.address,
                 message: `Failed to tokenize asset: ${error.message}`
             };
         }
     }
+
+    // The transactions tokenizeAsset would submit, in order, for preparing or simulating a tokenization without
+    // signing. The issuer key is held elsewhere, so the issuer must be an existing address; while it is unfunded
+    // the plan is only its activation payment. Nothing is saved to the keystore or registry.
+    async planTokenization(input: TokenizeAssetInput): Promise<TokenizationPlan> {
+        const issuerAddress = input.issuerAddress || (input.issuerSeed ? Wallet.fromSeed(input.issuerSeed).address : undefined);
+        if (!issuerAddress) {
+            throw new Error('An issuer address is required: no issuer account can be generated without signing');
+        }
+
+        this.validateIssuerSigners(issuerAddress, input);
+
+        const currency = generateCurrencyCode(input.tokenSymbol);
+        const tokenStandard = input.tokenStandard || 'trustline';
+        const assetMetadata = this.buildAssetMetadata(input, issuerAddress);
+        const rwaMemo = createRWAMemo(assetMetadata);
+        const issuerSequence = await this.getAccountSequence(issuerAddress);
+
+        if (issuerSequence === null) {
+            const fundingXrp = this.getIssuerFundingXrp(input);
+
+            return {
+                ...(tokenStandard === 'trustline' && { assetId: `${currency}.${issuerAddress}` }),
+                tokenStandard,
+                issuerAddress,
+                issuerActive: false,
+                assetMetadata,
+                steps: [{
+                    type: 'issuer_activation',
+                    transaction: this.buildIssuerFunding(issuerAddress, fundingXrp),
+                    amount: fundingXrp,
+                    destination: issuerAddress,
+                    dependsOnEarlierSteps: false
+                }]
+            };
+        }
+
+        let assetId = `${currency}.${issuerAddress}`;
+        let steps: PlannedTransaction[];
+
+        if (tokenStandard === 'mpt') {
+            // The issuance is created by the issuer's next transaction, so its ID is known up front
+            assetId = computeMPTIssuanceId(issuerSequence, issuerAddress);
+            steps = [
+                {
+                    type: 'mpt_issuance_create',
+                    transaction: this.buildMPTIssuanceCreate(input, issuerAddress, assetMetadata, rwaMemo),
+                    amount: input.totalSupply,
+                    destination: issuerAddress,
+                    dependsOnEarlierSteps: false
+                },
+                ...this.buildMPTTokenizationSteps(input, issuerAddress, assetId)
+            ];
+        } else {
+            steps = this.buildTrustlineTokenizationSteps(input, issuerAddress, rwaMemo);
+        }
+
+        if (input.issuerSigners?.length && input.issuerSignerQuorum) {
+            const [signerListSet, disableMaster] = this.buildSignerListTransactions(issuerAddress, input.issuerSignerQuorum, input.issuerSigners, { disableMasterKey: true });
+            steps.push(
+                { type: 'signer_list', transaction: signerListSet, amount: 0, destination: issuerAddress, dependsOnEarlierSteps: false },
+                { type: 'disable_master_key', transaction: disableMaster, amount: 0, destination: issuerAddress, dependsOnEarlierSteps: true }
+            );
+        }
+
+        return { assetId, tokenStandard, issuerAddress, issuerActive: true, assetMetadata, steps };
+    }
+
+    private validateIssuerSigners(issuerAddress: string, input: TokenizeAssetInput): void {
+        if (input.issuerSigners?.length) {
+            const validation = validateSignerList(issuerAddress, input.issuerSignerQuorum || 0, input.issuerSigners);
+            if (!validation.valid) {
+                throw new Error(`Invalid issuer signer list: ${validation.error}`);
+            }
+        }
+    }
+
+    private getIssuerFundingXrp(input: TokenizeAssetInput): number {
+        return Math.max(input.issuerFundingXrp ?? ISSUER_ACCOUNT.DEFAULT_FUNDING_XRP, ISSUER_ACCOUNT.MIN_FUNDING_XRP);
+    }
+
+    private buildAssetMetadata(input: TokenizeAssetInput, issuerAddress: string) {
+        return {
+            version: "1.0",
+            timestamp: Date.now(),
+            assetDetails: {
+                name: input.name,
+                type: input.type,
+                totalValue: input.totalValue,
+                tokenSymbol: input.tokenSymbol,
+                totalSupply: input.totalSupply,
+                yieldRate: input.yieldRate || 0,
+                pricePerToken: input.totalValue / input.totalSupply
+            },
+            compliance: {
+                accreditedOnly: input.accreditedOnly || false,
+                requireAuth: input.requireAuth || false,
+                allowClawback: input.allowClawback || false,
+                jurisdiction: input.jurisdiction || JURISDICTION.DEFAULT,
+                holdingPeriodDays: input.holdingPeriodDays
+                    ?? getJurisdictionProfile(this.dataDir, input.jurisdiction || JURISDICTION.DEFAULT)?.minHoldingPeriodDays
+                    ?? DEFAULTS.HOLDING_PERIOD_DAYS,
+                ...(input.maxInvestors !== undefined && { maxInvestors: input.maxInvestors }),
+                ...(input.permissionedDomainId && { permissionedDomainId: input.permissionedDomainId }),
+                tokenizationDate: new Date().toISOString()
+            },
+            tokenStandard: input.tokenStandard || 'trustline',
+            issuer: {
+                address: issuerAddress,
+                operator: this.address,
+                network: this.network
+            }
+        };
+    }
+
+    // Issuer setup and issuance of a trustline asset. The first step carries the tokenization memo.
+    private buildTrustlineTokenizationSteps(input: TokenizeAssetInput, issuerAddress: string, rwaMemo: any): PlannedTransaction[] {
+        const currency = generateCurrencyCode(input.tokenSymbol);
+        const steps: PlannedTransaction[] = [];
+        const step = (type: string, transaction: SubmittableTransaction, amount: number, destination: string, dependsOnEarlierSteps = false) =>
+            steps.push({ type, transaction, amount, destination, dependsOnEarlierSteps });
+
+        step('issuer_setup', {
+            TransactionType: 'AccountSet',
+            Account: issuerAddress,
+            SetFlag: AccountSetAsfFlags.asfDefaultRipple,
+            Flags: (AccountSetTfFlags.tfDisallowXRP | AccountSetTfFlags.tfRequireDestTag),
+            Fee: '12',
+            Memos: [rwaMemo]
+        }, 0, issuerAddress);
+
+        // RequireAuth must be enabled while the issuer still has no trustlines
+        if (input.requireAuth) {
+            step('require_auth', {
+                TransactionType: 'AccountSet',
+                Account: issuerAddress,
+                SetFlag: AccountSetAsfFlags.asfRequireAuth,
+                Fee: '12'
+            }, 0, issuerAddress);
+        }
+
+        // Clawback can likewise only be enabled before the issuer owns any ledger objects
+        if (input.allowClawback) {
+            step('allow_clawback', {
+                TransactionType: 'AccountSet',
+                Account: issuerAddress,
+                SetFlag: AccountSetAsfFlags.asfAllowTrustLineClawback,
+                Fee: '12'
+            }, 0, issuerAddress);
+        }
+
+        // Create a trustline to treasury to hold all tokens initially
+        step('trustline_creation', {
+            TransactionType: 'TrustSet',
+            Account: this.address,
+            LimitAmount: {
+                currency: currency,
+                issuer: issuerAddress,
+                value: input.totalSupply.toString()
+            },
+            Fee: '12'
+        }, input.totalSupply, this.address);
+
+        // The treasury trustline needs issuer approval like any other holder's
+        if (input.requireAuth) {
+            step('trustline_authorization', this.buildTrustlineAuthorization(`${currency}.${issuerAddress}`, this.address), 0, this.address, true);
+        }
+
+        // Issue all tokens to the treasury (this creates the token supply)
+        step('token_issuance', {
+            TransactionType: 'Payment',
+            Account: issuerAddress,
+            Destination: this.address,
+            DestinationTag: 1,
+            Amount: {
+                currency: currency,
+                issuer: issuerAddress,
+                value: input.totalSupply.toString()
+            },
+            Fee: '12'
+        }, input.totalSupply, this.address, true);
+
+        return steps;
+    }
+
+    // Submit tokenization steps in order: issuer steps sign with the issuer key (or its signer list), treasury
+    // steps with the operator key
+    private async submitTokenizationSteps(
+        steps: PlannedTransaction[],
+        issuerAddress: string,
+        issuerWallet: Wallet | undefined
+    ): Promise<Array<{ step: PlannedTransaction; result: TxResponse }>> {
+        const results: Array<{ step: PlannedTransaction; result: TxResponse }> = [];
+
+        for (const step of steps) {
+            const result = await this.submitAs(step.transaction, step.transaction.Account === issuerAddress ? issuerWallet : undefined);
+            const meta = result.result.meta as any;
+
+            if (meta?.TransactionResult !== 'tesSUCCESS') {
+                throw new Error(`${step.type.replace(/_/g, ' ')} failed: ${meta?.TransactionResult}`);
+            }
+
+            console.error(`✅ ${step.type.replace(/_/g, ' ')}: ${result.result.hash}`);
+            results.push({ step, result });
+        }
+
+        return results;
+    }
+
+    // Put a newly tokenized asset's issuer under its signer list and disable the master key, so the issuer
+    // seed alone can no longer act for the asset
+    private async handOverIssuerToSigners(
+        issuer: string,
+        input: TokenizeAssetInput
+    ): Promise<Array<{ type: string, hash: string, amount: number, destination: string }>> {
+        if (!input.issuerSigners?.length || !input.issuerSignerQuorum) {
+            return [];
+        }
+
+        const { signerListHash, disableMasterHash } = await this.setSignerList(issuer, input.issuerSignerQuorum, input.issuerSigners, { disableMasterKey: true });
+
+        return [
+            { type: 'signer_list', hash: signerListHash, amount: 0, destination: issuer },
+            { type: 'disable_master_key', hash: disableMasterHash!, amount: 0, destination: issuer }
+        ];
+    }
+
+    // Issue an asset as an XLS-33 Multi-Purpose Token instead of a trustline IOU
+    private async tokenizeAssetAsMPT(
+        input: TokenizeAssetInput,
+        issuer: string,
+        issuerWallet: Wallet | undefined,
+        assetMetadata: any,
+        rwaMemo: any,
+        funding: { hash: string, amount: number } | null
+    ): Promise<TokenizationResult> {
+        const createResult = await this.submitAs(this.buildMPTIssuanceCreate(input, issuer, assetMetadata, rwaMemo), issuerWallet);
+        const createMeta = createResult.result.meta as any;
+
+        if (createMeta?.TransactionResult !== 'tesSUCCESS') {
+            throw new Error(`MPT issuance failed: ${createMeta?.TransactionResult}`);
+        }
+
+        const mptIssuanceId: string = createMeta.mpt_issuance_id;
+        console.error(`✅ MPT issuance created: ${mptIssuanceId} (${createResult.result.hash})`);
+
+        // Key the issuer seed by the issuance ID now that it is known
+        const provisionalId = `${generateCurrencyCode(input.tokenSymbol)}.${issuer}`;
+        if (findIssuerKey(this.dataDir, provisionalId)?.assetId === provisionalId) {
+            moveIssuerKey(this.dataDir, provisionalId, mptIssuanceId);
+        }
+
+        const issuanceSteps = await this.submitTokenizationSteps(this.buildMPTTokenizationSteps(input, issuer, mptIssuanceId), issuer, issuerWallet);
+
+        console.error(`✨ SUCCESS: ${input.totalSupply} ${input.tokenSymbol} MPTs now exist on XRPL!`);
+
+        const tokenizationMetadata = {
+            ...assetMetadata,
+            mptIssuanceId,
+            tokenizationTxHash: createResult.result.hash,
+            ledgerIndex: createResult.result.ledger_index
+        };
+        cacheMetadata(this.dataDir, mptIssuanceId, tokenizationMetadata);
+
+        registerAsset(this.dataDir, {
+            assetId: mptIssuanceId,
+            tokenStandard: 'mpt',
+            tokenSymbol: input.tokenSymbol,
+            currency: mptIssuanceId,
+            issuer: issuer,
+            operator: this.address,
+            network: this.network,
+            tokenizationTxHash: createResult.result.hash,
+            ledgerIndex: createResult.result.ledger_index,
+            metadata: assetMetadata,
+            history: [createInitialMetadataVersion(mptIssuanceId, tokenizationMetadata)],
+            status: 'active'
+        });
+        console.error(`📚 ${mptIssuanceId} added to the local asset registry`);
+
+        const issuanceResults: Array<{ type: string, hash: string, amount: number, destination: string }> = [];
+
+        if (funding) {
+            issuanceResults.push({
+                type: 'issuer_activation',
+                hash: funding.hash,
+                amount: funding.amount,
+                destination: issuer
+            });
+        }
+
+        issuanceResults.push({
+            type: 'mpt_issuance_create',
+            hash: createResult.result.hash,
+            amount: input.totalSupply,
+            destination: issuer
+        });
+
+        issuanceResults.push(...issuanceSteps.map(({ step, result }) => ({
+            type: step.type,
+            hash: result.result.hash,
+            amount: step.amount,
+            destination: step.destination
+        })));
+
+        issuanceResults.push(...await this.handOverIssuerToSigners(issuer, input));
+
+        return {
+            status: 'success',
+            tokenId: mptIssuanceId,
+            tokenStandard: 'mpt',
+            currency: input.tokenSymbol,
+            issuerAddress: issuer,
+            message: `Successfully tokenized and issued ${input.totalSupply} ${input.tokenSymbol} MPTs for ${input.name}`,
+            metadata: {
+                assetMetadata,
+                tokenizationTxHash: createResult.result.hash,
+                retrievalMethod: "mpt_issuance_metadata",
+                tokensIssued: true,
+                issuanceResults
+            }
+        };
+    }
+
+    // The issuance object carries the asset metadata on-ledger; the memo keeps parity with trustline assets
+    private buildMPTIssuanceCreate(input: TokenizeAssetInput, issuer: string, assetMetadata: any, rwaMemo: any): MPTokenIssuanceCreate {
+        let flags = MPTokenIssuanceCreateFlags.tfMPTCanTransfer
+            | MPTokenIssuanceCreateFlags.tfMPTCanTrade
+            | MPTokenIssuanceCreateFlags.tfMPTCanLock;
+        if (input.requireAuth) {
+            flags |= MPTokenIssuanceCreateFlags.tfMPTRequireAuth;
+        }
+        if (input.allowClawback) {
+            flags |= MPTokenIssuanceCreateFlags.tfMPTCanClawback;
+        }
+
+        return {
+            TransactionType: 'MPTokenIssuanceCreate',
+            Account: issuer,
+            AssetScale: input.assetScale ?? 0,
+            MaximumAmount: toMPTValue(input.totalSupply, input.assetScale ?? 0),
+            TransferFee: input.transferFee || 0,
+            MPTokenMetadata: createMPTMetadata(assetMetadata),
+            Flags: flags,
+            Fee: '12',
+            Memos: [rwaMemo]
+        };
+    }
+
+    // Treasury opt-in, issuer approval and issuance payment once the MPT issuance exists
+    private buildMPTTokenizationSteps(input: TokenizeAssetInput, issuer: string, mptIssuanceId: string): PlannedTransaction[] {
+        const steps: PlannedTransaction[] = [];
+
+        // The treasury opts in to holding the token
+        const holderAuthorize: MPTokenAuthorize = {
+            TransactionType: 'MPTokenAuthorize',
+            Account: this.address,
+            MPTokenIssuanceID: mptIssuanceId,
+            Fee: '12'
+        };
+        steps.push({ type: 'mpt_holder_authorization', transaction: holderAuthorize, amount: 0, destination: this.address, dependsOnEarlierSteps: true });
+
+        // With RequireAuth the issuer must also approve the treasury
+        if (input.requireAuth) {
+            const issuerAuthorize: MPTokenAuthorize = {
+                TransactionType: 'MPTokenAuthorize',
+                Account: issuer,
+                MPTokenIssuanceID: mptIssuanceId,
+                Holder: this.address,
+                Fee: '12'
+            };
+            steps.push({ type: 'mpt_issuer_authorization', transaction: issuerAuthorize, amount: 0, destination: this.address, dependsOnEarlierSteps: true });
+        }
+
+        const issuancePayment: Payment = {
+            TransactionType: 'Payment',
+            Account: issuer,
+            Destination: this.address,
+            Amount: {
+                mpt_issuance_id: mptIssuanceId,
+                value: toMPTValue(input.totalSupply, input.assetScale ?? 0)
+            },
+            Fee: '12'
+        };
+        steps.push({ type: 'token_issuance', transaction: issuancePayment, amount: input.totalSupply, destination: this.address, dependsOnEarlierSteps: true });
+
+        return steps;
+    }
 }
@@ -1,4 +1,6 @@
 import * as dotenv from 'dotenv';
+import * as os from 'os';
+import * as path from 'path';
 
 import { RWAConfig } from './types';
 
@@ -23,15 +25,33 @@ const getArgs = () =>
         return args;
     }, {});
 
+// Local state (keystore, issuer keys etc.) lives outside the package so upgrades keep it
+export function getDataDir(): string {
+    const args = getArgs();
+    return args?.rwa_data_dir || process.env.RWA_DATA_DIR || path.join(os.homedir(), '.rwa-build');
+}
+
 export function getRWAConfig(): RWAConfig {
 
     const args = getArgs();
  
     const hasPrivateKey = !!(args?.xrpl_private_key || process.env.XRPL_PRIVATE_KEY); 
+    const keystoreAccount = args?.xrpl_keystore_account || process.env.XRPL_KEYSTORE_ACCOUNT;
+    // Arguments show up in process listings and shell history, so the passphrase is only read from the environment
+    if (args?.xrpl_keystore_passphrase) {
+        throw new Error('--xrpl_keystore_passphrase is not accepted; provide the passphrase in XRPL_KEYSTORE_PASSPHRASE instead');
+    }
+    const keystorePassphrase = process.env.XRPL_KEYSTORE_PASSPHRASE;
+    const complianceAccount = args?.xrpl_compliance_account || process.env.XRPL_COMPLIANCE_ACCOUNT;
+    const account = args?.xrpl_account || process.env.XRPL_ACCOUNT;
     const network = ((args?.xrpl_network || process.env.XRPL_NETWORK) || 'testnet') as 'testnet' | 'mainnet' | 'devnet';
 
-    if (!hasPrivateKey) {
-        throw new Error('XRPL_PRIVATE_KEY environment variable is required');
+    if (!hasPrivateKey && !keystoreAccount && !account) {
+        throw new Error('XRPL_PRIVATE_KEY, XRPL_KEYSTORE_ACCOUNT or XRPL_ACCOUNT (prepare-only) environment variable is required');
+    }
+
+    if (!hasPrivateKey && keystoreAccount && !keystorePassphrase) {
+        throw new Error('XRPL_KEYSTORE_PASSPHRASE is required to unlock the keystore account');
     }
 
     const servers = {
@@ -40,10 +60,19 @@ export function getRWAConfig(): RWAConfig {
         mainnet: 'wss://xrplcluster.com'
     };
 
+    const dataDir = getDataDir();
+
     return {
         privateKey: args?.xrpl_private_key || process.env.XRPL_PRIVATE_KEY,
+        keystoreAccount,
+        keystorePassphrase,
+        complianceAccount,
+        account,
+        // Without a key nothing can be signed here, so every write is prepared for offline signing
+        prepareOnly: (!hasPrivateKey && !keystoreAccount) || String(args?.xrpl_prepare_only ?? process.env.XRPL_PREPARE_ONLY) === 'true',
         network,
-        server: servers[network]
+        server: servers[network],
+        dataDir
     };
 }
 
@@ -34,16 +34,110 @@ export const TRANSACTION_FEES = {
     OFFER: '12'
 } as const;
 
+// Asset values (total_value) are recorded in US dollars, so amounts derived from them can only be paid in dollars
+export const VALUATION = {
+    CURRENCY: 'USD',
+    PAYOUT_CURRENCY_CODES: ['USD', 'RLUSD'] // Issued currencies that pay out derived amounts one-for-one
+} as const;
+
+// Issuer Accounts
+export const ISSUER_ACCOUNT = {
+    DEFAULT_FUNDING_XRP: 10, // Covers the base reserve plus fees for setup transactions
+    MIN_FUNDING_XRP: 2
+} as const;
+
+// Asset metadata lookup in issuer transaction history
+export const METADATA_LOOKUP = {
+    PAGE_SIZE: 200,
+    MAX_PAGES: 50 // Stop after 10,000 transactions so non-RWA issuers don't trigger a full history scan
+} as const;
+
+// Parallel submission of large payment batches using Tickets
+export const BATCH_SUBMISSION = {
+    DEFAULT_WINDOW: 10, // Transactions in flight at once
+    MAX_WINDOW: 50,
+    MIN_BATCH_FOR_TICKETS: 3, // Smaller batches are submitted one by one on the account sequence
+    MAX_TICKETS_PER_ACCOUNT: 250, // Ledger limit, also the most one TicketCreate can reserve
+    MAX_ATTEMPTS: 3, // Submissions per transaction when it is rejected locally or expires unvalidated
+    RETRY_DELAY_MS: 4000
+} as const;
+
+// Multi-Purpose Tokens (XLS-33)
+export const MPT = {
+    ISSUANCE_ID_REGEX: /^[0-9A-Fa-f]{48}$/,
+    MAX_METADATA_BYTES: 1024,
+    MAX_ASSET_SCALE: 15,
+    MAX_TRANSFER_FEE: 50000, // 50% in units of 1/100,000
+    // MPTokenIssuance ledger flags
+    ISSUANCE_FLAGS: {
+        LOCKED: 0x00000001,
+        CAN_LOCK: 0x00000002,
+        REQUIRE_AUTH: 0x00000004,
+        CAN_ESCROW: 0x00000008,
+        CAN_TRADE: 0x00000010,
+        CAN_TRANSFER: 0x00000020,
+        CAN_CLAWBACK: 0x00000040
+    },
+    // MPToken (holder) ledger flags
+    TOKEN_FLAGS: {
+        LOCKED: 0x00000001,
+        AUTHORIZED: 0x00000002
+    }
+} as const;
+
+// Transactions prepared for offline signing
+export const OFFLINE_SIGNING = {
+    LEDGER_WINDOW: 1000 // Ledgers (~1 hour) the signer has before a prepared transaction expires
+} as const;
+
+// Multi-signing (SignerListSet)
+export const MULTISIG = {
+    MAX_SIGNERS: 32,
+    MAX_SIGNER_WEIGHT: 65535,
+    PROPOSAL_ID_REGEX: /^MS-[0-9A-F]{12}$/,
+    SUBMIT_WAIT_LEDGERS: 20 // Ledgers (~1 minute) to wait for a submitted proposal to be validated
+} as const;
+
+// Verifiable credentials (XLS-70) and permissioned domains
+export const CREDENTIALS = {
+    ACCREDITED_INVESTOR: 'AccreditedInvestor', // Default credential type required by accredited-only assets
+    KYC: 'KYC',
+    MAX_TYPE_BYTES: 64,
+    MAX_URI_BYTES: 256,
+    MAX_DOMAIN_CREDENTIALS: 10, // Accepted credentials per permissioned domain
+    MAX_PREAUTH_CREDENTIALS: 8, // Credentials in one DepositPreauth set
+    DOMAIN_ID_REGEX: /^[0-9A-Fa-f]{64}$/,
+    // Credential ledger flags
+    FLAGS: {
+        ACCEPTED: 0x00010000
+    }
+} as const;
+
 // Currency Code Constraints
 export const CURRENCY_CODE = {
     MIN_LENGTH: 3,
-    MAX_LENGTH: 3,
-    ALLOWED_CHARS: /^[A-Z0-9]{3}$/
+    MAX_LENGTH: 20, // Longer symbols are stored in the 160-bit hex currency format
+    STANDARD_LENGTH: 3,
+    ALLOWED_CHARS: /^[A-Z0-9]{3,20}$/,
+    HEX_FORMAT: /^[0-9A-Fa-f]{40}$/
+} as const;
+
+// Asset ID formats accepted by the tools: CURRENCY.ISSUER (ticker or 40-hex code), optionally an MPT issuance ID
+export const ASSET_ID = {
+    TRUSTLINE_REGEX: /^([A-Z0-9]{3,20}|[0-9A-Fa-f]{40})\.r[1-9A-HJ-NP-Za-km-z]{25,34}$/,
+    ANY_REGEX: /^(([A-Z0-9]{3,20}|[0-9A-Fa-f]{40})\.r[1-9A-HJ-NP-Za-km-z]{25,34}|[0-9A-Fa-f]{48})$/
+} as const;
+
+// Jurisdictions are ISO 3166-1 alpha-2 country codes
+export const JURISDICTION = {
+    DEFAULT: 'US', // Recorded for assets tokenized without a jurisdiction
+    CODE_REGEX: /^[A-Z]{2}$/
 } as const;
 
 // Compliance Limits
 export const COMPLIANCE_LIMITS = {
     MAX_INVESTORS_UNREGISTERED: 99, // SEC limit for unregistered securities
+    INVESTOR_CAP_WARNING_RATIO: 0.9, // Warn once an offering reaches 90% of its investor cap
     MIN_ACCREDITED_INVESTMENT: 200000, // Typical accredited investor minimum
     MAX_HOLDING_PERIOD_DAYS: 365 * 2 // 2 years max holding period
 } as const;
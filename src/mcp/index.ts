@@ -4,14 +4,51 @@ import { GetWalletInfoTool } from "./wallet/get_wallet_info_tool";
 import { GetAccountBalancesTool } from "./wallet/get_account_balances_tool";
 import { SendXRPTool } from "./wallet/send_xrp_tool";
 import { CreateTrustlineTool } from "./wallet/create_trustline_tool";
+import { FreezeTrustlineTool } from "./wallet/freeze_trustline_tool";
+import { GlobalFreezeTool } from "./wallet/global_freeze_tool";
+import { GetFreezeStatusTool } from "./wallet/get_freeze_status_tool";
 import { GetTransactionHistoryTool } from "./wallet/get_transaction_history_tool";
 import { ValidateAddressTool } from "./wallet/validate_address_tool";
+import { SetDepositAuthTool } from "./wallet/set_deposit_auth_tool";
+import { ListDepositPreauthsTool } from "./wallet/list_deposit_preauths_tool";
+import { SetSignerListTool } from "./wallet/set_signer_list_tool";
+import { GetSignerListTool } from "./wallet/get_signer_list_tool";
+import { CreateMultisigTransactionTool } from "./wallet/create_multisig_transaction_tool";
+import { SignMultisigTransactionTool } from "./wallet/sign_multisig_transaction_tool";
+import { ListMultisigTransactionsTool } from "./wallet/list_multisig_transactions_tool";
+import { PrepareTransactionTool } from "./wallet/prepare_transaction_tool";
+import { SubmitSignedTool } from "./wallet/submit_signed_tool";
+import { SimulateTransactionTool } from "./wallet/simulate_transaction_tool";
 
 // RWA Tools 
 import { TokenizeAssetTool } from "./rwa/tokenize_asset_tool"
 import { GetAssetInfoTool } from "./rwa/get_asset_info_tool";
+import { UpdateAssetMetadataTool } from "./rwa/update_asset_metadata_tool";
+import { ListAssetsTool } from "./rwa/list_assets_tool";
+import { GetAssetTool } from "./rwa/get_asset_tool";
 // import { GetRWABalancesTool } from "./rwa/get_rwa_balances_tool";
 import { SendRWATokenTool } from "./rwa/send_rwa_token_tool";
+import { GetLockedBalancesTool } from "./rwa/get_locked_balances_tool";
+import { IssueTokensBulkTool } from "./rwa/issue_tokens_bulk_tool";
+import { DistributeYieldTool } from "./rwa/distribute_yield_tool";
+import { CreateHolderSnapshotTool } from "./rwa/create_holder_snapshot_tool";
+import { ListHolderSnapshotsTool } from "./rwa/list_holder_snapshots_tool";
+import { GetHolderSnapshotTool } from "./rwa/get_holder_snapshot_tool";
+import { SetHolderTaxProfileTool } from "./rwa/set_holder_tax_profile_tool";
+import { SetWithholdingRulesTool } from "./rwa/set_withholding_rules_tool";
+import { GetWithholdingReportTool } from "./rwa/get_withholding_report_tool";
+import { ScheduleDistributionTool } from "./rwa/schedule_distribution_tool";
+import { ListDistributionSchedulesTool } from "./rwa/list_distribution_schedules_tool";
+import { RunScheduledDistributionsTool } from "./rwa/run_scheduled_distributions_tool";
+import { AuthorizeTrustlineTool } from "./rwa/authorize_trustline_tool";
+import { ListPendingTrustlinesTool } from "./rwa/list_pending_trustlines_tool";
+import { ClawbackTokensTool } from "./rwa/clawback_tokens_tool";
+import { IssueCredentialTool } from "./rwa/issue_credential_tool";
+import { AcceptCredentialTool } from "./rwa/accept_credential_tool";
+import { ListCredentialsTool } from "./rwa/list_credentials_tool";
+import { RevokeCredentialTool } from "./rwa/revoke_credential_tool";
+import { SetPermissionedDomainTool } from "./rwa/set_permissioned_domain_tool";
+import { ListPermissionedDomainsTool } from "./rwa/list_permissioned_domains_tool";
 import { CreateAMMTool } from "./rwa/create_amm_tool";
 import { SwapAMMTool } from "./rwa/swap_amm_tool";
 import { AddLiquidityAMMTool } from "./rwa/add_liquidity_amm_tool";
@@ -26,14 +63,51 @@ export const RWAMcpTools = {
     "GetAccountBalancesTool": GetAccountBalancesTool,// Real token balances 
     "SendXRPTool": SendXRPTool,                      // Real XRP payments
     "CreateTrustlineTool": CreateTrustlineTool,      // Real trustline creation
+    "FreezeTrustlineTool": FreezeTrustlineTool,      // Freeze/unfreeze a single holder
+    "GlobalFreezeTool": GlobalFreezeTool,            // Halt/resume trading for an issuer
+    "GetFreezeStatusTool": GetFreezeStatusTool,      // Global and per-holder freeze state
     "GetTransactionHistoryTool": GetTransactionHistoryTool, // Real transaction data
     "ValidateAddressTool": ValidateAddressTool,      // Real address validation
+    "SetDepositAuthTool": SetDepositAuthTool,        // Deposit Authorization and preauthorized senders
+    "ListDepositPreauthsTool": ListDepositPreauthsTool, // Who may send funds to an account
+    "SetSignerListTool": SetSignerListTool,          // Multi-signature quorum for issuer/treasury accounts
+    "GetSignerListTool": GetSignerListTool,          // Quorum, signers and locally held signer keys
+    "CreateMultisigTransactionTool": CreateMultisigTransactionTool, // Build and multi-sign a transaction
+    "SignMultisigTransactionTool": SignMultisigTransactionTool, // Add signatures and submit at quorum
+    "ListMultisigTransactionsTool": ListMultisigTransactionsTool, // Pending and submitted proposals
+    "PrepareTransactionTool": PrepareTransactionTool, // Unsigned transactions for offline signing
+    "SubmitSignedTool": SubmitSignedTool,            // Submit a blob signed offline
+    "SimulateTransactionTool": SimulateTransactionTool, // Dry-run any transaction
 
     // RWA operations
     "TokenizeAssetTool": TokenizeAssetTool,     // Real asset tokenization
     // "GetRWABalancesTool": GetRWABalancesTool,   // Comprehensive RWA portfolio analysis
     "GetAssetInfoTool": GetAssetInfoTool,    // Enhanced asset information with RWA balances
+    "UpdateAssetMetadataTool": UpdateAssetMetadataTool, // Versioned metadata amendments (revaluations)
+    "ListAssetsTool": ListAssetsTool,           // Assets in the local registry
+    "GetAssetTool": GetAssetTool,               // Registry record for one asset
     "SendRWATokenTool": SendRWATokenTool,       // Send RWA tokens to other addresses
+    "GetLockedBalancesTool": GetLockedBalancesTool, // Holding-period locked/unlocked balances
+    "IssueTokensBulkTool": IssueTokensBulkTool, // Resumable issuance to a CSV/JSON investor list
+    "DistributeYieldTool": DistributeYieldTool, // Pro-rata XRP yield payouts to holders
+    "CreateHolderSnapshotTool": CreateHolderSnapshotTool, // Record-date holder balances at a ledger
+    "ListHolderSnapshotsTool": ListHolderSnapshotsTool, // Saved holder snapshots
+    "GetHolderSnapshotTool": GetHolderSnapshotTool, // Holders in a snapshot, with payout preview
+    "SetHolderTaxProfileTool": SetHolderTaxProfileTool, // Holder tax residence, treaty rate, exemption
+    "SetWithholdingRulesTool": SetWithholdingRulesTool, // Withholding rates per source jurisdiction
+    "GetWithholdingReportTool": GetWithholdingReportTool, // Gross/withheld/net per distribution
+    "ScheduleDistributionTool": ScheduleDistributionTool, // Recurring monthly/quarterly payouts
+    "ListDistributionSchedulesTool": ListDistributionSchedulesTool, // Upcoming and past scheduled payouts
+    "RunScheduledDistributionsTool": RunScheduledDistributionsTool, // Pay due and missed periods
+    "AuthorizeTrustlineTool": AuthorizeTrustlineTool, // Approve investor trustlines (RequireAuth)
+    "ListPendingTrustlinesTool": ListPendingTrustlinesTool, // Trustlines awaiting issuer approval
+    "ClawbackTokensTool": ClawbackTokensTool,   // Audited token recovery from holders
+    "IssueCredentialTool": IssueCredentialTool, // XLS-70 accreditation/KYC credentials for investors
+    "AcceptCredentialTool": AcceptCredentialTool, // Accept a credential issued to this wallet
+    "ListCredentialsTool": ListCredentialsTool, // Issued/held credentials with acceptance and expiry
+    "RevokeCredentialTool": RevokeCredentialTool, // Delete a credential when accreditation lapses
+    "SetPermissionedDomainTool": SetPermissionedDomainTool, // Credential sets that qualify investors
+    "ListPermissionedDomainsTool": ListPermissionedDomainsTool, // Domains and their accepted credentials
     
     // AMM operations
     "CreateAMMTool": CreateAMMTool,             // Create Automated Market Maker pools
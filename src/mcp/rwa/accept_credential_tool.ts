@@ -0,0 +1,88 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { CREDENTIALS } from "../../constants";
+import { summarizePreparedTransaction } from "../../utils/offline_signing";
+import { summarizeSimulation } from "../../utils/simulation";
+
+export const AcceptCredentialTool: McpTool = {
+    name: "rwa_accept_credential",
+    description: "Accept an XLS-70 credential that was issued to this wallet, so it counts on-ledger",
+    schema: {
+        issuer: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .describe("XRPL address of the account that issued the credential"),
+        credential_type: z.string()
+            .min(1)
+            .max(CREDENTIALS.MAX_TYPE_BYTES)
+            .default(CREDENTIALS.ACCREDITED_INVESTOR)
+            .describe("Credential type to accept (e.g. 'AccreditedInvestor')"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transaction and return the expected result, balance changes and fee without submitting it"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transaction for offline signing instead of submitting it")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const pending = (await agent.getCredentials(agent.address)).find(credential =>
+                credential.subject === agent.address &&
+                credential.issuer === input.issuer &&
+                credential.credentialType === input.credential_type
+            );
+
+            if (!pending) {
+                return {
+                    status: "error",
+                    message: `❌ No ${input.credential_type} credential from ${input.issuer} has been issued to ${agent.address}`
+                };
+            }
+
+            if (pending.accepted) {
+                return {
+                    status: "info",
+                    message: `ℹ️ ${input.credential_type} credential from ${input.issuer} is already accepted`
+                };
+            }
+
+            if (input.dry_run) {
+                const simulation = await agent.simulateTransaction(agent.buildCredentialAccept(input.issuer, input.credential_type));
+                return summarizeSimulation(simulation, `acceptance of the ${input.credential_type} credential from ${input.issuer}`, agent.network, {
+                    credential_type: input.credential_type,
+                    issuer: input.issuer,
+                    expiration: pending.expiration || "Never"
+                });
+            }
+
+            if (input.prepare_only || agent.prepareOnly) {
+                const prepared = await agent.prepareTransaction(agent.buildCredentialAccept(input.issuer, input.credential_type));
+                return summarizePreparedTransaction(prepared, `Acceptance of the ${input.credential_type} credential from ${input.issuer}`, agent.network);
+            }
+
+            const hash = await agent.acceptCredential(input.issuer, input.credential_type);
+
+            return {
+                status: "success",
+                message: `✅ Accepted ${input.credential_type} credential from ${input.issuer}`,
+                credential: {
+                    issuer: input.issuer,
+                    subject: agent.address,
+                    credential_type: input.credential_type,
+                    expiration: pending.expiration || "Never"
+                },
+                transaction_info: {
+                    transaction_hash: hash,
+                    fee_paid: "0.000012 XRP",
+                    network: agent.network
+                }
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to accept credential: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
@@ -1,16 +1,19 @@
 import { z } from "zod";
 import { RWAAgent } from "../../agent";
 import { type McpTool } from "../../types";
-import { AMMDeposit, xrpToDrops } from 'xrpl';
-
-// NOT TESTED YET
+import { ASSET_ID } from "../../constants";
+import { AMMDeposit, AMMDepositFlags, xrpToDrops } from 'xrpl';
+import { splitAssetId } from "../../utils/xrpl_helpers";
+import { summarizePreparedTransaction } from "../../utils/offline_signing";
+import { summarizeSimulation } from "../../utils/simulation";
+import { describeComplianceFailures, formatComplianceChecks } from "../../utils/jurisdictions";
 
 export const AddLiquidityAMMTool: McpTool = {
     name: "rwa_add_liquidity_amm",
     description: "Add liquidity to an existing AMM pool and receive LP tokens",
     schema: {
         token_id: z.string()
-            .regex(/^[A-Z0-9]{3}\.r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .regex(ASSET_ID.TRUSTLINE_REGEX)
             .describe("Token ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw')"),
         deposit_type: z.enum(['both_assets', 'single_asset_token', 'single_asset_xrp'])
             .default('both_assets')
@@ -31,14 +34,20 @@ export const AddLiquidityAMMTool: McpTool = {
             .min(0.1)
             .max(50)
             .default(2.0)
-            .describe("Maximum acceptable slippage percentage (default: 2%)")
+            .describe("Maximum acceptable slippage percentage (default: 2%)"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transaction and return the expected result, balance changes and fee without submitting it"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transaction for offline signing instead of submitting it")
     },
     handler: async (agent: RWAAgent, input: Record<string, any>) => {
         try {
             await agent.connect();
 
             // Parse token ID
-            const [currency, issuer] = input.token_id.split('.');
+            const [currency, issuer] = splitAssetId(input.token_id);
 
             // Check if AMM exists for this pair
             let ammInfo: any;
@@ -100,6 +109,16 @@ export const AddLiquidityAMMTool: McpTool = {
                 }
             }
 
+            // Deposited tokens can be swapped out of the pool by anyone, so the asset's transfer rules
+            // (holding period, investor cap, restricted holders) must allow handing them to it
+            const compliance = input.deposit_type !== 'single_asset_xrp'
+                ? await agent.checkCompliance(input.token_id, 'transfer', { amount: input.token_amount, pool: { account: amm.account } })
+                : null;
+            if (compliance && !compliance.allowed) {
+                throw new Error(`Deposit blocked by ${describeComplianceFailures(compliance)}`);
+            }
+            const complianceChecks = compliance ? { compliance_checks: formatComplianceChecks(compliance) } : {};
+
             // Calculate expected LP tokens based on deposit type
             let expectedLPTokens = 0;
             let depositRatio = 0;
@@ -125,7 +144,7 @@ export const AddLiquidityAMMTool: McpTool = {
             // Prepare AMMDeposit transaction
             let ammDeposit: AMMDeposit = {
                 TransactionType: 'AMMDeposit',
-                Account: agent.wallet.address,
+                Account: agent.address,
                 Asset: {
                     currency: currency,
                     issuer: issuer
@@ -136,25 +155,25 @@ export const AddLiquidityAMMTool: McpTool = {
                 Fee: '12'
             };
 
-            // Set flags and amounts based on deposit type
+            // Set flags and amounts based on deposit type. A single-asset deposit always goes in Amount,
+            // whichever side of the pool it is; asking for an exact LP token amount switches to the LPToken modes
             if (input.deposit_type === 'both_assets') {
-                ammDeposit.Flags = 0x00100000; // tfTwoAsset
-                ammDeposit.Amount = {
-                    currency: currency,
-                    issuer: issuer,
-                    value: input.token_amount.toString()
-                };
-                ammDeposit.Amount2 = xrpToDrops(input.xrp_amount);
-            } else if (input.deposit_type === 'single_asset_token') {
-                ammDeposit.Flags = 0x00080000; // tfSingleAsset
+                ammDeposit.Flags = input.lp_tokens_out ? AMMDepositFlags.tfLPToken : AMMDepositFlags.tfTwoAsset;
                 ammDeposit.Amount = {
                     currency: currency,
                     issuer: issuer,
                     value: input.token_amount.toString()
                 };
-            } else if (input.deposit_type === 'single_asset_xrp') {
-                ammDeposit.Flags = 0x00080000; // tfSingleAsset
                 ammDeposit.Amount2 = xrpToDrops(input.xrp_amount);
+            } else {
+                ammDeposit.Flags = input.lp_tokens_out ? AMMDepositFlags.tfOneAssetLPToken : AMMDepositFlags.tfSingleAsset;
+                ammDeposit.Amount = input.deposit_type === 'single_asset_token'
+                    ? {
+                        currency: currency,
+                        issuer: issuer,
+                        value: input.token_amount.toString()
+                    }
+                    : xrpToDrops(input.xrp_amount);
             }
 
             // Add LP token expectation if specified
@@ -166,8 +185,27 @@ export const AddLiquidityAMMTool: McpTool = {
                 };
             }
 
+            if (input.dry_run) {
+                const simulation = await agent.simulateTransaction(ammDeposit);
+                return {
+                    ...summarizeSimulation(simulation, `AMM deposit to the ${input.token_id}/XRP pool`, agent.network, {
+                        expected_lp_tokens: expectedLPTokens.toFixed(6),
+                        expected_pool_share: `${((expectedLPTokens / (totalLPTokens + expectedLPTokens)) * 100).toFixed(4)}%`
+                    }),
+                    ...complianceChecks
+                };
+            }
+
+            if (input.prepare_only || agent.prepareOnly) {
+                const prepared = await agent.prepareTransaction(ammDeposit);
+                return {
+                    ...summarizePreparedTransaction(prepared, `AMM deposit to the ${input.token_id}/XRP pool`, agent.network),
+                    ...complianceChecks
+                };
+            }
+
             // Submit the transaction
-            const result: any = await agent.client.submitAndWait(ammDeposit, { wallet: agent.wallet });
+            const result: any = await agent.submitAs(ammDeposit);
 
             if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
                 throw new Error(`Liquidity addition failed: ${result.result.meta?.TransactionResult}`);
@@ -245,6 +283,7 @@ export const AddLiquidityAMMTool: McpTool = {
                     projected_yield: "Based on trading activity",
                     impermanent_loss_risk: input.deposit_type === 'both_assets' ? "Low (balanced)" : "Higher (single asset)"
                 },
+                ...complianceChecks,
                 next_steps: [
                     "Monitor your LP token balance and pool performance",
                     "Track trading fees earned from pool activity", 
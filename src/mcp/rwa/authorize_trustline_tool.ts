@@ -0,0 +1,132 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
+import { describeComplianceFailures, formatComplianceChecks } from "../../utils/jurisdictions";
+import { summarizePreparedTransactions } from "../../utils/offline_signing";
+import { summarizeSimulations } from "../../utils/simulation";
+import { splitAssetId } from "../../utils/xrpl_helpers";
+
+export const AuthorizeTrustlineTool: McpTool = {
+    name: "rwa_authorize_trustline",
+    description: "Approve investor trustlines for an RWA token whose issuer requires authorization (RequireAuth)",
+    schema: {
+        asset_id: z.string()
+            .regex(ASSET_ID.TRUSTLINE_REGEX)
+            .describe("Asset ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw')"),
+        holder_addresses: z.array(z.string().regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/))
+            .min(1)
+            .describe("XRPL addresses of KYC-approved investors whose trustlines should be authorized"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transactions and return the expected results, balance changes and fees without submitting them"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transactions for offline signing instead of submitting them")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const [currency, issuer] = splitAssetId(input.asset_id);
+
+            const issuerFlags = await agent.getIssuerFlags(issuer);
+            if (!issuerFlags.lsfRequireAuth) {
+                return {
+                    status: "info",
+                    message: `ℹ️ ${currency} issuer does not require authorization - any trustline can already hold this token`,
+                    recommendation: "Tokenize with require_auth enabled to restrict holders to approved investors"
+                };
+            }
+
+            const trustlines = await agent.getTrustlineAuthorizations(input.asset_id);
+            const pending = (input.holder_addresses as string[]).filter(
+                holder => !trustlines.find(line => line.address === holder)?.authorized
+            );
+
+            // Approved holders can be issued tokens right away, so the issuance rules apply to them now
+            const compliance = await agent.checkCompliance(input.asset_id, 'issue', { recipients: pending });
+            if (!compliance.allowed) {
+                return {
+                    status: "error",
+                    message: `❌ Authorizing these holders breaks ${compliance.jurisdiction} offering rules: ${describeComplianceFailures(compliance)}`,
+                    compliance_checks: formatComplianceChecks(compliance),
+                    suggestion: "Authorize fewer investors, or wait until existing holders have fully exited"
+                };
+            }
+
+            if ((input.dry_run || input.prepare_only || agent.prepareOnly) && pending.length === 0) {
+                return {
+                    status: "info",
+                    message: `ℹ️ All listed ${currency} trustlines are already authorized`
+                };
+            }
+
+            if (input.dry_run) {
+                const simulated = await agent.simulateTransactions(pending.map(holder => ({
+                    step: holder,
+                    transaction: agent.buildTrustlineAuthorization(input.asset_id, holder)
+                })));
+                return {
+                    ...summarizeSimulations(simulated, `authorization of ${pending.length} ${currency} trustline(s)`, agent.network, {
+                        to_authorize: pending.length,
+                        already_authorized: input.holder_addresses.length - pending.length,
+                        pre_authorizations: pending.filter(holder => !trustlines.some(line => line.address === holder)).length
+                    }),
+                    compliance_checks: formatComplianceChecks(compliance)
+                };
+            }
+
+            if (input.prepare_only || agent.prepareOnly) {
+                const prepared = await agent.prepareTransactions(pending.map(holder => agent.buildTrustlineAuthorization(input.asset_id, holder)));
+                return {
+                    ...summarizePreparedTransactions(prepared, `Authorization of ${pending.length} ${currency} trustline(s)`, agent.network),
+                    compliance_checks: formatComplianceChecks(compliance)
+                };
+            }
+
+            const results = [];
+
+            for (const holder of input.holder_addresses as string[]) {
+                const existing = trustlines.find(line => line.address === holder);
+
+                if (existing?.authorized) {
+                    results.push({ address: holder, status: "already_authorized" });
+                    continue;
+                }
+
+                try {
+                    const hash = await agent.authorizeTrustline(input.asset_id, holder);
+                    results.push({
+                        address: holder,
+                        status: "authorized",
+                        transaction_hash: hash,
+                        // Issuers may pre-authorize before the investor opens their trustline
+                        note: existing ? undefined : "Pre-authorized - investor still needs to create a trustline"
+                    });
+                } catch (error: any) {
+                    results.push({ address: holder, status: "failed", error: error.message });
+                }
+            }
+
+            const failed = results.filter(r => r.status === "failed").length;
+            const authorized = results.filter(r => r.status === "authorized").length;
+
+            return {
+                status: failed === 0 ? "success" : authorized > 0 ? "partial" : "error",
+                message: `${failed === 0 ? '✅' : '⚠️'} Authorized ${authorized} ${currency} trustline(s), ${failed} failed`,
+                asset_id: input.asset_id,
+                results,
+                compliance_checks: formatComplianceChecks(compliance),
+                next_steps: [
+                    "Authorized investors can now receive tokens via rwa_issue_tokens_bulk",
+                    "Review remaining requests with rwa_list_pending_trustlines"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to authorize trustlines: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
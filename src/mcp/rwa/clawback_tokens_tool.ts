@@ -0,0 +1,129 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
+import { summarizePreparedTransaction } from "../../utils/offline_signing";
+import { summarizeSimulation } from "../../utils/simulation";
+import { decodeCurrencyCode, isMPTokenId, splitAssetId } from "../../utils/xrpl_helpers";
+
+export const ClawbackTokensTool: McpTool = {
+    name: "rwa_clawback_tokens",
+    description: "Recover RWA tokens from a holder (court order or compliance action). Requires clawback to have been enabled at tokenization; every attempt is recorded in the local audit log",
+    schema: {
+        asset_id: z.string()
+            .regex(ASSET_ID.ANY_REGEX)
+            .describe("Asset ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw') or a 48-character MPT issuance ID"),
+        holder_address: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .describe("XRPL address of the holder to claw tokens back from"),
+        amount: z.number()
+            .positive()
+            .describe("Amount of tokens to claw back"),
+        reason: z.string()
+            .min(5)
+            .max(500)
+            .describe("Why the tokens are being recovered (recorded in the audit log)"),
+        reference: z.string()
+            .max(100)
+            .optional()
+            .describe("External reference such as a court order or compliance case number"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transaction and return the expected result, balance changes and fee without submitting it"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transaction for offline signing instead of submitting it")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const prepareOnly = input.prepare_only || agent.prepareOnly;
+            const currency = isMPTokenId(input.asset_id) ? 'MPT' : decodeCurrencyCode(splitAssetId(input.asset_id)[0]);
+
+            const holders = await agent.getTokenHolders(input.asset_id);
+            const holder = holders.find(h => h.address === input.holder_address);
+
+            if (!holder || holder.balance < input.amount) {
+                return {
+                    status: "error",
+                    message: "❌ Holder does not have enough tokens to claw back",
+                    error_details: {
+                        holder: input.holder_address,
+                        current_balance: `${holder?.balance || 0} ${currency}`,
+                        requested_amount: `${input.amount} ${currency}`
+                    }
+                };
+            }
+
+            try {
+                if (input.dry_run) {
+                    const simulation = await agent.simulateTransaction(await agent.buildClawback(input.asset_id, input.holder_address, input.amount));
+                    return {
+                        ...summarizeSimulation(simulation, `clawback of ${input.amount} ${currency} from ${input.holder_address}`, agent.network, {
+                            previous_balance: `${holder.balance} ${currency}`,
+                            expected_balance_after: `${holder.balance - input.amount} ${currency}`
+                        }),
+                        audit: { recorded: false }
+                    };
+                }
+
+                if (prepareOnly) {
+                    const prepared = await agent.prepareTransaction(await agent.buildClawback(input.asset_id, input.holder_address, input.amount));
+                    return {
+                        ...summarizePreparedTransaction(prepared, `Clawback of ${input.amount} ${currency} from ${input.holder_address}`, agent.network),
+                        audit: {
+                            recorded: false,
+                            note: "Only clawbacks this server submits are written to the audit log; record this one when its signed transaction is submitted"
+                        }
+                    };
+                }
+
+                const hash = await agent.clawbackTokens(input.asset_id, input.holder_address, input.amount, {
+                    reason: input.reason,
+                    reference: input.reference
+                });
+
+                return {
+                    status: "success",
+                    message: `⚖️ Clawed back ${input.amount} ${currency} from ${input.holder_address.substring(0, 8)}...`,
+                    clawback_details: {
+                        asset_id: input.asset_id,
+                        holder: input.holder_address,
+                        amount: input.amount,
+                        previous_balance: holder.balance,
+                        remaining_balance: holder.balance - input.amount,
+                        reason: input.reason,
+                        reference: input.reference || "None"
+                    },
+                    transaction_info: {
+                        transaction_hash: hash,
+                        fee_paid: "0.000012 XRP",
+                        network: agent.network
+                    },
+                    audit: {
+                        recorded: true,
+                        location: `${agent.dataDir}/audit-log.jsonl`
+                    }
+                };
+            } catch (error: any) {
+                if (error.message.includes('does not have trustline clawback enabled')) {
+                    return {
+                        status: "error",
+                        message: "❌ Clawback refused - issuer does not allow trustline clawback",
+                        error_details: {
+                            issue: error.message,
+                            solution: "Clawback must be enabled with allow_clawback when the asset is tokenized; it cannot be added later"
+                        },
+                        audit: { recorded: !input.dry_run && !prepareOnly }
+                    };
+                }
+                throw error;
+            }
+        } catch (error: any) {
+            throw new Error(`Failed to claw back tokens: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
@@ -1,14 +1,19 @@
 import { z } from "zod";
 import { RWAAgent } from "../../agent";
 import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
 import { AMMCreate, xrpToDrops } from 'xrpl';
+import { splitAssetId } from "../../utils/xrpl_helpers";
+import { summarizePreparedTransaction } from "../../utils/offline_signing";
+import { summarizeSimulation } from "../../utils/simulation";
+import { describeComplianceFailures, formatComplianceChecks } from "../../utils/jurisdictions";
 
 export const CreateAMMTool: McpTool = {
     name: "rwa_create_amm",
     description: "Create an Automated Market Maker (AMM) for trading RWA tokens with XRP",
     schema: {
         token_id: z.string()
-            .regex(/^[A-Z0-9]{3}\.r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .regex(ASSET_ID.TRUSTLINE_REGEX)
             .describe("Token ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw')"),
         token_amount: z.number()
             .positive()
@@ -20,14 +25,20 @@ export const CreateAMMTool: McpTool = {
             .min(0)
             .max(1000)
             .default(500)
-            .describe("Trading fee in 1/100,000 units (500 = 0.5%, max 1000 = 1%)")
+            .describe("Trading fee in 1/100,000 units (500 = 0.5%, max 1000 = 1%)"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transaction and return the expected result, balance changes and fee without submitting it"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transaction for offline signing instead of submitting it")
     },
     handler: async (agent: RWAAgent, input: Record<string, any>) => {
         try {
             await agent.connect();
 
             // Parse token ID to extract currency and issuer
-            const [currency, issuer] = input.token_id.split('.');
+            const [currency, issuer] = splitAssetId(input.token_id);
 
             // Validate that the user has sufficient tokens and XRP
             const balances = await agent.getRWATokenBalances();
@@ -41,6 +52,13 @@ export const CreateAMMTool: McpTool = {
                     `Insufficient token balance. Available: ${tokenBalance?.balance || 0} ${currency}, Required: ${input.token_amount}`
                 );
             }
+
+            // The new pool becomes a holder anyone can swap tokens out of, so the asset's transfer rules
+            // (holding period, investor cap, restricted holders) must allow handing them to it
+            const compliance = await agent.checkCompliance(input.token_id, 'transfer', { amount: input.token_amount, pool: {} });
+            if (!compliance.allowed) {
+                throw new Error(`Pool creation blocked by ${describeComplianceFailures(compliance)}`);
+            }
  
             // Check XRP balance (account for AMM creation cost + pool deposit + reserves)
             const ammCreationCost = 0.2; // Current AMM creation cost
@@ -88,7 +106,7 @@ export const CreateAMMTool: McpTool = {
             // Prepare the AMMCreate transaction
             const ammCreateTx: AMMCreate = {
                 TransactionType: 'AMMCreate',
-                Account: agent.wallet.address,
+                Account: agent.address,
                 Amount: {
                     currency: currency,
                     issuer: issuer,
@@ -99,12 +117,30 @@ export const CreateAMMTool: McpTool = {
                 Fee: actualCreationCost // Set the actual creation cost
             };
 
+            if (input.dry_run) {
+                const simulation = await agent.simulateTransaction(ammCreateTx);
+                return {
+                    ...summarizeSimulation(simulation, `AMM creation for ${input.token_id}/XRP`, agent.network, {
+                        token_deposit: `${input.token_amount} ${currency}`,
+                        xrp_deposit: `${input.xrp_amount} XRP`,
+                        initial_price: `${(input.xrp_amount / input.token_amount).toFixed(6)} XRP per token`,
+                        creation_fee: `${Number(actualCreationCost) / 1000000} XRP`,
+                        trading_fee: `${input.trading_fee / 1000}%`
+                    }),
+                    compliance_checks: formatComplianceChecks(compliance)
+                };
+            }
+
+            if (input.prepare_only || agent.prepareOnly) {
+                const prepared = await agent.prepareTransaction(ammCreateTx);
+                return {
+                    ...summarizePreparedTransaction(prepared, `AMM creation for ${input.token_id}/XRP`, agent.network),
+                    compliance_checks: formatComplianceChecks(compliance)
+                };
+            }
+
             // Submit the AMM creation transaction
-            const result: any = await agent.client.submitAndWait(ammCreateTx, {
-                wallet: agent.wallet,
-                autofill: true,
-                failHard: true
-            });
+            const result: any = await agent.submitAs(ammCreateTx);
  
             if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
                 throw new Error(`AMM creation failed: ${result.result.meta?.TransactionResult}`);
@@ -169,6 +205,7 @@ export const CreateAMMTool: McpTool = {
                     current_rate: `1 ${currency} = ${(xrpPoolValue / tokenPoolValue).toFixed(6)} XRP`,
                     slippage_tolerance: "Automatic based on pool depth"
                 },
+                compliance_checks: formatComplianceChecks(compliance),
                 next_steps: [
                     "Monitor AMM performance and trading activity",
                     "Consider adding more liquidity to reduce slippage",
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
+
+export const CreateHolderSnapshotTool: McpTool = {
+    name: "rwa_create_holder_snapshot",
+    description: "Capture an RWA token's holders and balances as of a record date (a ledger index or close time) and save it, so distributions and reports use the record-date positions instead of live balances",
+    schema: {
+        asset_id: z.string()
+            .regex(ASSET_ID.ANY_REGEX)
+            .describe("Asset ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw') or a 48-character MPT issuance ID"),
+        ledger_index: z.number()
+            .int()
+            .positive()
+            .optional()
+            .describe("Validated ledger to snapshot (defaults to the latest validated ledger)"),
+        record_date: z.string()
+            .datetime({ offset: true })
+            .optional()
+            .describe("Snapshot the last ledger closed at or before this time (ISO 8601, e.g. '2025-06-30T23:59:59Z'). Ignored when ledger_index is given"),
+        label: z.string()
+            .max(100)
+            .optional()
+            .describe("Note to keep with the snapshot (e.g., 'Q2 2025 dividend record date')")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const snapshot = await agent.createHolderSnapshot(input.asset_id, {
+                ledgerIndex: input.ledger_index,
+                closeTime: input.ledger_index === undefined && input.record_date ? new Date(input.record_date) : undefined,
+                label: input.label
+            });
+
+            return {
+                status: "success",
+                message: `✅ Snapshot ${snapshot.id} saved with ${snapshot.holders.length} holder(s)`,
+                snapshot: {
+                    snapshot_id: snapshot.id,
+                    asset_id: snapshot.assetId,
+                    ledger_index: snapshot.ledgerIndex,
+                    ledger_close_time: snapshot.ledgerCloseTime,
+                    label: snapshot.label,
+                    holder_count: snapshot.holders.length,
+                    total_balance: snapshot.totalBalance,
+                    network: snapshot.network
+                },
+                top_holders: snapshot.holders.slice(0, 10).map(holder => ({
+                    address: holder.address,
+                    balance: holder.balance,
+                    percentage: `${holder.percentage.toFixed(2)}%`,
+                    frozen: holder.frozen
+                })),
+                next_steps: [
+                    `Pay yield on record-date balances with rwa_distribute_yield and snapshot_id '${snapshot.id}'`,
+                    "Review the full holder list with rwa_get_holder_snapshot"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to create holder snapshot: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
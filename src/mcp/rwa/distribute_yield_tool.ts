@@ -0,0 +1,245 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { ASSET_ID, BATCH_SUBMISSION } from "../../constants";
+import { getSnapshot } from "../../utils/holder_snapshots";
+import { formatComplianceChecks } from "../../utils/jurisdictions";
+import { summarizePreparedTransactions } from "../../utils/offline_signing";
+import { summarizeSimulations } from "../../utils/simulation";
+import { decodeCurrencyCode, splitAssetId } from "../../utils/xrpl_helpers";
+
+export const DistributeYieldTool: McpTool = {
+    name: "rwa_distribute_yield",
+    description: "Distribute yield (e.g. rental income) to all holders of an RWA token, pro-rata to their token balances. Pays XRP or any issued currency such as a USD stablecoin",
+    schema: {
+        asset_id: z.string()
+            .regex(ASSET_ID.ANY_REGEX)
+            .describe("Asset ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw') or a 48-character MPT issuance ID"),
+        total_amount: z.number()
+            .positive()
+            .describe("Total amount to distribute across all holders, in the payout currency"),
+        payout_currency: z.union([
+            z.literal("XRP"),
+            z.string().regex(ASSET_ID.TRUSTLINE_REGEX)
+        ]).default("XRP")
+            .describe("Currency to pay yield in: 'XRP' or an issued currency in format 'CURRENCY.ISSUER' (e.g., a USD stablecoin)"),
+        exclude_addresses: z.array(z.string().regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/))
+            .optional()
+            .describe("Holder addresses to leave out of this distribution (the paying wallet and issuer are always excluded)"),
+        snapshot_id: z.string()
+            .min(1)
+            .optional()
+            .describe("Pay holders as of a saved record-date snapshot (from rwa_create_holder_snapshot) instead of live balances"),
+        concurrency: z.number()
+            .int()
+            .min(1)
+            .max(BATCH_SUBMISSION.MAX_WINDOW)
+            .default(BATCH_SUBMISSION.DEFAULT_WINDOW)
+            .describe("Payments in flight at once. Above 1, payments are signed against reserved Tickets and submitted in parallel; 1 sends them one by one"),
+        memo: z.string()
+            .max(200)
+            .optional()
+            .describe("Optional note attached to every payment (e.g., 'June 2025 rent')"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the payments and return the expected results, balance changes and fees without submitting them"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned payments for offline signing instead of submitting them")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const payInXRP = input.payout_currency === "XRP";
+            const payoutSymbol = payInXRP ? "XRP" : decodeCurrencyCode(splitAssetId(input.payout_currency)[0]);
+
+            // Make sure the paying wallet can cover the payout plus fees
+            const walletInfo = await agent.getWalletInfo();
+            const currentBalance = Number(walletInfo.account_data.Balance) / 1000000;
+            const snapshot = input.snapshot_id ? getSnapshot(agent.dataDir, input.snapshot_id) : null;
+
+            if (input.snapshot_id && !snapshot) {
+                return {
+                    status: "error",
+                    message: `❌ Holder snapshot ${input.snapshot_id} not found`,
+                    suggestion: "List saved snapshots with rwa_list_holder_snapshots"
+                };
+            }
+
+            const holders = snapshot ? snapshot.holders : await agent.getTokenHolders(input.asset_id);
+            const estimatedFees = holders.length * 0.000012;
+            const requiredXRP = (payInXRP ? input.total_amount : 0) + estimatedFees;
+
+            if (currentBalance < requiredXRP) {
+                return {
+                    status: "error",
+                    message: "❌ Insufficient XRP balance for distribution",
+                    error_details: {
+                        current_balance: `${currentBalance.toFixed(6)} XRP`,
+                        required_amount: `${requiredXRP.toFixed(6)} XRP`,
+                        note: `Includes ~${estimatedFees.toFixed(6)} XRP in transaction fees for up to ${holders.length} payments`
+                    }
+                };
+            }
+
+            // Issued-currency payouts also need enough of that currency (unless we are its issuer)
+            if (!payInXRP) {
+                const [payoutCode, payoutIssuer] = splitAssetId(input.payout_currency);
+
+                if (payoutIssuer !== agent.address) {
+                    const lines = await agent.client.request({
+                        command: 'account_lines',
+                        account: agent.address,
+                        peer: payoutIssuer,
+                        ledger_index: 'validated'
+                    });
+                    const payoutBalance = Number(lines.result.lines.find(line => line.currency === payoutCode)?.balance || 0);
+
+                    if (payoutBalance < input.total_amount) {
+                        return {
+                            status: "error",
+                            message: `❌ Insufficient ${payoutSymbol} balance for distribution`,
+                            error_details: {
+                                current_balance: `${payoutBalance} ${payoutSymbol}`,
+                                required_amount: `${input.total_amount} ${payoutSymbol}`,
+                                note: "Transfer fees charged by the currency issuer come on top of this amount"
+                            }
+                        };
+                    }
+                }
+            }
+
+            // Distributions are never blocked by offering rules, but anything unusual is reported
+            const compliance = await agent.checkCompliance(input.asset_id, 'distribute');
+
+            if (input.dry_run || input.prepare_only || agent.prepareOnly) {
+                const plan = await agent.planDistribution(input.asset_id, input.total_amount, {
+                    excludeAddresses: input.exclude_addresses,
+                    memo: input.memo,
+                    payoutAsset: input.payout_currency,
+                    snapshotId: input.snapshot_id
+                });
+                const skipped = plan.recipients.filter(r => r.status === 'skipped');
+
+                if (plan.payments.length === 0) {
+                    return {
+                        status: "error",
+                        message: plan.recipients.length === 0
+                            ? `❌ No eligible ${plan.symbol} holders found for distribution`
+                            : `❌ None of the ${plan.recipients.length} ${plan.symbol} holders can be paid`,
+                        skipped_holders: skipped.map(r => ({ address: r.address, amount: `${r.amount} ${payoutSymbol}`, reason: r.error }))
+                    };
+                }
+
+                if (input.dry_run) {
+                    const simulated = await agent.simulateTransactions(plan.payments.map(payment => ({
+                        step: payment.transaction.Destination,
+                        transaction: payment.transaction
+                    })));
+                    const paid = plan.recipients.filter(r => r.status !== 'skipped');
+
+                    return {
+                        ...summarizeSimulations(simulated, `distribution of ${input.total_amount} ${payoutSymbol} to ${plan.payments.length} ${plan.symbol} holders`, agent.network, {
+                            reference: plan.reference,
+                            payout_currency: plan.payoutAsset || 'XRP',
+                            holders_as_of: snapshot ? `Snapshot ${snapshot.id} (ledger ${snapshot.ledgerIndex}, ${snapshot.ledgerCloseTime})` : "Live balances",
+                            payments: plan.payments.length,
+                            total_to_pay: `${Number(paid.reduce((sum, r) => sum + r.amount, 0).toFixed(6))} ${payoutSymbol}`,
+                            ...(plan.applyWithholding && {
+                                tax_to_withhold: `${Number(paid.reduce((sum, r) => sum + (r.withheldAmount || 0), 0).toFixed(6))} ${payoutSymbol}`
+                            }),
+                            skipped_holders: skipped.length
+                        }),
+                        ...(skipped.length > 0 && {
+                            skipped_holders: skipped.map(r => ({ address: r.address, amount: `${r.amount} ${payoutSymbol}`, reason: r.error }))
+                        }),
+                        compliance_checks: formatComplianceChecks(compliance)
+                    };
+                }
+
+                const prepared = await agent.prepareTransactions(plan.payments.map(payment => payment.transaction));
+
+                return {
+                    ...summarizePreparedTransactions(prepared, `Distribution of ${input.total_amount} ${payoutSymbol} to ${plan.payments.length} ${plan.symbol} holders`, agent.network),
+                    summary: {
+                        reference: plan.reference,
+                        payout_currency: plan.payoutAsset || 'XRP',
+                        holders_as_of: snapshot ? `Snapshot ${snapshot.id} (ledger ${snapshot.ledgerIndex}, ${snapshot.ledgerCloseTime})` : "Live balances",
+                        payments: plan.payments.length,
+                        skipped_holders: skipped.length
+                    },
+                    ...(skipped.length > 0 && {
+                        skipped_holders: skipped.map(r => ({ address: r.address, amount: `${r.amount} ${payoutSymbol}`, reason: r.error }))
+                    }),
+                    compliance_checks: formatComplianceChecks(compliance),
+                    ...(plan.applyWithholding && {
+                        note: "Tax is withheld from the prepared amounts, but no withholding report is saved for distributions this server does not submit"
+                    })
+                };
+            }
+
+            const result = await agent.distributeYield(input.asset_id, input.total_amount, {
+                excludeAddresses: input.exclude_addresses,
+                memo: input.memo,
+                payoutAsset: input.payout_currency,
+                snapshotId: input.snapshot_id,
+                window: input.concurrency
+            });
+
+            const failed = (result.recipients || []).filter(r => r.status === 'failed');
+            const skipped = (result.recipients || []).filter(r => r.status === 'skipped');
+            const cannotReceive = skipped.filter(r => r.amount > 0);
+
+            return {
+                status: result.status,
+                message: result.status === 'error'
+                    ? `❌ ${result.message}`
+                    : result.status === 'partial'
+                        ? `⚠️ ${result.message}`
+                        : `✅ ${result.message}`,
+                distribution: result,
+                summary: {
+                    reference: result.reference,
+                    payout_currency: result.payoutCurrency,
+                    holders_as_of: snapshot ? `Snapshot ${snapshot.id} (ledger ${snapshot.ledgerIndex}, ${snapshot.ledgerCloseTime})` : "Live balances",
+                    requested_amount: `${input.total_amount} ${payoutSymbol}`,
+                    total_distributed: `${result.totalDistributed} ${payoutSymbol}`,
+                    successful_payments: result.recipientCount,
+                    failed_payments: failed.length,
+                    skipped_holders: skipped.length,
+                    network: agent.network
+                },
+                ...(result.withholding && {
+                    withholding: {
+                        source_jurisdiction: result.withholding.sourceJurisdiction,
+                        gross_paid: `${result.withholding.totalGross} ${payoutSymbol}`,
+                        tax_withheld: `${result.withholding.totalWithheld} ${payoutSymbol}`,
+                        net_paid: `${result.withholding.totalNet} ${payoutSymbol}`,
+                        holders_withheld: result.withholding.lines.filter(line => line.withheldAmount > 0).length,
+                        report: `Full per-holder report: rwa_get_withholding_report with reference '${result.reference}'`
+                    }
+                }),
+                compliance_checks: formatComplianceChecks(compliance),
+                ...(cannotReceive.length > 0 && {
+                    holders_unable_to_receive: cannotReceive.map(r => ({
+                        address: r.address,
+                        unpaid_amount: `${r.amount} ${payoutSymbol}`,
+                        reason: r.error
+                    }))
+                }),
+                next_steps: [
+                    ...(failed.length > 0 ? [`Retry the ${failed.length} failed payment(s) listed under distribution.recipients`] : []),
+                    ...(cannotReceive.length > 0 ? [`Ask the ${cannotReceive.length} holder(s) under holders_unable_to_receive to set up a ${payoutSymbol} trustline, then pay their share`] : []),
+                    ...(result.withholding && result.withholding.totalWithheld > 0 ? [`Remit the ${result.withholding.totalWithheld} ${payoutSymbol} withheld to the ${result.withholding.sourceJurisdiction} tax authority`] : []),
+                    "Share the distribution reference with investors for their records",
+                    "Check payment status with rwa_get_transaction_history"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to distribute yield: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
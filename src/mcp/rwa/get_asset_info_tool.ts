@@ -1,13 +1,14 @@
 import { z } from "zod";
 import { RWAAgent } from "../../agent";
 import { type McpTool } from "../../types";
+import { decodeCurrencyCode, getMPTIssuer, isMPTokenId, normalizeAssetId, splitAssetId } from "../../utils/xrpl_helpers";
 
 export const GetAssetInfoTool: McpTool = {
     name: "rwa_get_asset_info",
     description: "Retrieve detailed information about a tokenized RWA asset with comprehensive balance analysis",
     schema: {
         asset_id: z.string()
-            .describe("Asset ID in format 'CURRENCY.ISSUER'"),
+            .describe("Asset ID in format 'CURRENCY.ISSUER' or a 48-character MPT issuance ID"),
         include_holders: z.boolean()
             .optional()
             .describe("Include detailed holder information (default: false)")
@@ -16,7 +17,7 @@ export const GetAssetInfoTool: McpTool = {
         try {
             await agent.connect();
 
-            const assetId = input.asset_id;
+            const assetId = normalizeAssetId(input.asset_id);
             const includeHolders = input.include_holders || false;
             
             // Get basic asset info
@@ -33,7 +34,9 @@ export const GetAssetInfoTool: McpTool = {
             // Get issuer account info
             const walletInfo = await agent.getWalletInfo();
             
-            const [currency, issuer] = assetId.split('.');
+            const [currency, issuer] = isMPTokenId(assetId)
+                ? [assetInfo.tokenSymbol, getMPTIssuer(assetId)]
+                : splitAssetId(assetId);
 
             // Get actual token supply information from XRPL
             const supplyInfo = await agent.getActualTokenSupply(assetId);
@@ -73,9 +76,21 @@ export const GetAssetInfoTool: McpTool = {
                     planned_supply: assetInfo.totalSupply ? `${assetInfo.totalSupply.toLocaleString()} tokens` : "Not set",
                     yield_rate: assetInfo.yieldRate ? `${assetInfo.yieldRate}% annually` : "No yield configured",
                     price_per_token: assetInfo.totalValue && assetInfo.totalSupply ? 
-                        `$${(assetInfo.totalValue / assetInfo.totalSupply).toFixed(2)}` : "Not calculated"
+                        `$${(assetInfo.totalValue / assetInfo.totalSupply).toFixed(2)}` : "Not calculated",
+                    metadata_version: assetInfo.version || 1
                 },
 
+                // Metadata versions, oldest first (v1 is the tokenization memo)
+                ...(assetInfo.history && assetInfo.history.length > 1 && {
+                    version_history: assetInfo.history.map(entry => ({
+                        version: entry.version,
+                        date: new Date(entry.effectiveDate || entry.timestamp).toISOString().slice(0, 10),
+                        changes: entry.changes,
+                        reason: entry.reason,
+                        transaction_hash: entry.transactionHash
+                    }))
+                }),
+
                 // Live XRPL Token Supply Data (following XRPL dev portal patterns)
                 live_supply_data: {
                     actual_total_issued: `${supplyInfo.totalIssued.toLocaleString()} tokens`,
@@ -88,7 +103,7 @@ export const GetAssetInfoTool: McpTool = {
 
                 // Current Wallet Holdings for this Asset
                 wallet_holdings: thisAssetBalance ? {
-                    your_balance: `${thisAssetBalance.balance.toLocaleString()} ${currency}`,
+                    your_balance: `${thisAssetBalance.balance.toLocaleString()} ${decodeCurrencyCode(currency)}`,
                     estimated_value: thisAssetBalance.estimated_value ? 
                         `$${thisAssetBalance.estimated_value.toLocaleString()}` : "Not available",
                     ownership_percentage: supplyInfo.circulatingSupply > 0 ? 
@@ -103,6 +118,7 @@ export const GetAssetInfoTool: McpTool = {
                 // Technical XRPL Information
                 token_technical_info: {
                     currency_code: currency,
+                    token_standard: isMPTokenId(assetId) ? 'mpt' : 'trustline',
                     issuer_address: issuer,
                     issuer_xrp_balance: `${Number(walletInfo.account_data.Balance) / 1000000} XRP`,
                     account_sequence: walletInfo.account_data.Sequence,
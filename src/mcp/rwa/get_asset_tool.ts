@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
+import { getRegisteredAsset, registryEntryToAsset } from "../../utils/asset_registry";
+import { normalizeAssetId } from "../../utils/xrpl_helpers";
+
+export const GetAssetTool: McpTool = {
+    name: "rwa_get_asset",
+    description: "Get the local registry record for an asset this operator tokenized: issuer, tokenization transaction, metadata, version history and lifecycle status",
+    schema: {
+        asset_id: z.string()
+            .regex(ASSET_ID.ANY_REGEX)
+            .describe("Asset ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw') or a 48-character MPT issuance ID")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            const entry = getRegisteredAsset(agent.dataDir, normalizeAssetId(input.asset_id));
+
+            if (!entry) {
+                return {
+                    status: "error",
+                    message: `❌ ${input.asset_id} is not in the local asset registry`,
+                    suggestion: "Only assets tokenized by this server are registered. Use rwa_get_asset_info to look up other assets on-ledger"
+                };
+            }
+
+            const asset = registryEntryToAsset(entry);
+
+            return {
+                status: "success",
+                message: `✅ Registry record for ${asset.name} (${entry.tokenSymbol})`,
+                asset: {
+                    asset_id: entry.assetId,
+                    name: asset.name,
+                    type: asset.type,
+                    token_symbol: entry.tokenSymbol,
+                    total_value: `$${asset.totalValue.toLocaleString()}`,
+                    total_supply: asset.totalSupply,
+                    price_per_token: asset.totalSupply ? `$${(asset.totalValue / asset.totalSupply).toFixed(2)}` : "Not calculated",
+                    yield_rate: `${asset.yieldRate || 0}%`,
+                    status: entry.status
+                },
+                token_info: {
+                    token_standard: entry.tokenStandard,
+                    currency_code: entry.currency,
+                    issuer_address: entry.issuer,
+                    operator_address: entry.operator,
+                    network: entry.network
+                },
+                tokenization: {
+                    transaction_hash: entry.tokenizationTxHash,
+                    ledger_index: entry.ledgerIndex,
+                    tokenized_at: entry.createdAt,
+                    last_updated: entry.updatedAt
+                },
+                compliance: entry.metadata.compliance,
+                version_history: entry.history.map(version => ({
+                    version: version.version,
+                    date: new Date(version.effectiveDate || version.timestamp).toISOString().slice(0, 10),
+                    changes: version.changes,
+                    reason: version.reason,
+                    transaction_hash: version.transactionHash
+                }))
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to get asset: ${error.message}`);
+        }
+    }
+};
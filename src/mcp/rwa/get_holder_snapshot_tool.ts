@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { calculateProRataDistribution } from "../../utils/calculations";
+import { getSnapshot } from "../../utils/holder_snapshots";
+
+export const GetHolderSnapshotTool: McpTool = {
+    name: "rwa_get_holder_snapshot",
+    description: "Show the holders and balances recorded in a holder snapshot, optionally with each holder's share of a planned distribution",
+    schema: {
+        snapshot_id: z.string()
+            .min(1)
+            .describe("Snapshot ID returned by rwa_create_holder_snapshot (e.g., 'BLD-SNAP-95123456')"),
+        preview_amount: z.number()
+            .positive()
+            .optional()
+            .describe("Show how this total would be split between the snapshot's holders")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            const snapshot = getSnapshot(agent.dataDir, input.snapshot_id);
+
+            if (!snapshot) {
+                return {
+                    status: "error",
+                    message: `❌ Holder snapshot ${input.snapshot_id} not found`,
+                    suggestion: "List saved snapshots with rwa_list_holder_snapshots"
+                };
+            }
+
+            const shares = input.preview_amount
+                ? new Map(calculateProRataDistribution(snapshot.holders, input.preview_amount).map(share => [share.address, share.amount]))
+                : null;
+
+            return {
+                status: "success",
+                message: `✅ ${snapshot.assetId} holders at ledger ${snapshot.ledgerIndex}`,
+                snapshot: {
+                    snapshot_id: snapshot.id,
+                    asset_id: snapshot.assetId,
+                    ledger_index: snapshot.ledgerIndex,
+                    ledger_close_time: snapshot.ledgerCloseTime,
+                    label: snapshot.label,
+                    holder_count: snapshot.holders.length,
+                    total_balance: snapshot.totalBalance,
+                    network: snapshot.network,
+                    taken_at: snapshot.createdAt
+                },
+                holders: snapshot.holders.map(holder => ({
+                    address: holder.address,
+                    balance: holder.balance,
+                    percentage: `${holder.percentage.toFixed(4)}%`,
+                    frozen: holder.frozen,
+                    ...(shares && { preview_share: shares.get(holder.address) })
+                })),
+                ...(shares && {
+                    preview: {
+                        total_amount: input.preview_amount,
+                        note: "Shares are rounded down to 6 decimals with the remainder going to the largest holder; the paying wallet and issuer are excluded when the distribution runs"
+                    }
+                })
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to get holder snapshot: ${error.message}`);
+        }
+    }
+};
@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
+
+export const GetLockedBalancesTool: McpTool = {
+    name: "rwa_get_locked_balances",
+    description: "Show each holder's locked and transferable balance under an RWA token's holding-period lockup, built from their issuance and transfer history",
+    schema: {
+        asset_id: z.string()
+            .regex(ASSET_ID.ANY_REGEX)
+            .describe("Asset ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw') or a 48-character MPT issuance ID"),
+        address: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .optional()
+            .describe("Only check this holder, with a lot-by-lot breakdown (defaults to all current holders)")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const holders = input.address
+                ? [{ address: input.address, balance: undefined as number | undefined }]
+                : await agent.getTokenHolders(input.asset_id);
+
+            if (holders.length === 0) {
+                return {
+                    status: "success",
+                    message: "ℹ️ This asset has no holders yet",
+                    next_steps: ["Issue tokens with rwa_issue_tokens_bulk"]
+                };
+            }
+
+            const statuses = [];
+            for (const holder of holders) {
+                statuses.push(await agent.getLockupStatus(input.asset_id, holder.address, { balance: holder.balance }));
+            }
+
+            const holdingPeriodDays = statuses[0].holdingPeriodDays;
+            const totalLocked = statuses.reduce((sum, status) => sum + status.lockedBalance, 0);
+
+            return {
+                status: "success",
+                message: holdingPeriodDays > 0
+                    ? `✅ ${totalLocked} token(s) locked across ${statuses.filter(status => status.lockedBalance > 0).length} holder(s)`
+                    : "✅ This asset has no holding period; all balances are transferable",
+                asset_id: input.asset_id,
+                holding_period: holdingPeriodDays > 0 ? `${holdingPeriodDays} days from each acquisition` : "None",
+                holders: statuses.map(status => ({
+                    address: status.address,
+                    balance: status.balance,
+                    locked_balance: status.lockedBalance,
+                    unlocked_balance: status.unlockedBalance,
+                    next_unlock: status.nextUnlock,
+                    ...(status.exempt && { note: "Issuer account, not subject to the lockup" }),
+                    ...(input.address && {
+                        lots: status.lots.map(lot => ({
+                            amount: lot.amount,
+                            acquired_at: lot.acquiredAt,
+                            unlocks_at: lot.unlocksAt,
+                            locked: lot.locked,
+                            transaction_hash: lot.hash
+                        }))
+                    })
+                })),
+                next_steps: [
+                    ...(totalLocked > 0 ? ["Locked tokens cannot be sent or deposited into AMM pools until their unlock date"] : []),
+                    ...(!input.address ? ["Pass an address to see the acquisition lots behind a holder's balance"] : [])
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to get locked balances: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
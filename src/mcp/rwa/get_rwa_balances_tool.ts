@@ -21,10 +21,10 @@
 //         try {
 //             await agent.connect();
 
-//             const targetAddress = input.account_address || agent.wallet.address;
+//             const targetAddress = input.account_address || agent.address;
 //             const includeMetadata = input.include_metadata !== false; // Default true
 //             const rwaOnly = input.rwa_only || false;
-//             const isOwnWallet = targetAddress === agent.wallet.address;
+//             const isOwnWallet = targetAddress === agent.address;
 
 //             // Get comprehensive RWA token balances using the new method
 //             const rwaBalanceData = await agent.getRWATokenBalances(targetAddress);
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
+import { readWithholdingReports } from "../../utils/withholding";
+import { normalizeAssetId } from "../../utils/xrpl_helpers";
+
+export const GetWithholdingReportTool: McpTool = {
+    name: "rwa_get_withholding_report",
+    description: "Show the withholding tax report for a yield distribution (gross, withheld and net per holder), or list past reports for an asset",
+    schema: {
+        reference: z.string()
+            .optional()
+            .describe("Distribution reference (e.g., 'BLD-DIST-1719792000000') to show in full"),
+        asset_id: z.string()
+            .regex(ASSET_ID.ANY_REGEX)
+            .optional()
+            .describe("List report totals for this asset when no reference is given")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            if (input.reference) {
+                const [report] = readWithholdingReports(agent.dataDir, { reference: input.reference });
+
+                if (!report) {
+                    return {
+                        status: "error",
+                        message: `❌ No withholding report for ${input.reference}`,
+                        suggestion: "Reports are only produced when withholding rules or holder tax profiles applied to the distribution"
+                    };
+                }
+
+                return {
+                    status: "success",
+                    message: `✅ Withholding report for ${report.reference}`,
+                    summary: {
+                        reference: report.reference,
+                        asset_id: report.assetId,
+                        source_jurisdiction: report.sourceJurisdiction,
+                        payout_currency: report.payoutCurrency,
+                        total_gross: report.totalGross,
+                        total_withheld: report.totalWithheld,
+                        total_net: report.totalNet,
+                        rules_version: report.ruleSetUpdatedAt || "No rule set (holder profiles only)",
+                        created_at: report.createdAt
+                    },
+                    holders: report.lines.map(line => ({
+                        address: line.address,
+                        jurisdiction: line.jurisdiction || "Unknown",
+                        rate: `${line.rate}%`,
+                        rate_source: line.rateSource,
+                        gross: line.grossAmount,
+                        withheld: line.withheldAmount,
+                        net: line.netAmount,
+                        payment_status: line.paymentStatus
+                    })),
+                    note: "Totals include successful payments only"
+                };
+            }
+
+            const reports = readWithholdingReports(agent.dataDir, {
+                assetId: input.asset_id ? normalizeAssetId(input.asset_id) : undefined
+            });
+
+            return {
+                status: "success",
+                message: reports.length > 0 ? `✅ ${reports.length} withholding report(s)` : "ℹ️ No withholding reports found",
+                reports: reports.reverse().map(report => ({
+                    reference: report.reference,
+                    asset_id: report.assetId,
+                    source_jurisdiction: report.sourceJurisdiction,
+                    payout_currency: report.payoutCurrency,
+                    total_gross: report.totalGross,
+                    total_withheld: report.totalWithheld,
+                    total_net: report.totalNet,
+                    created_at: report.createdAt
+                })),
+                next_steps: [
+                    "Pass a reference to see the per-holder breakdown"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to get withholding report: ${error.message}`);
+        }
+    }
+};
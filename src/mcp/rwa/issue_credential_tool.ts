@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { CREDENTIALS } from "../../constants";
+import { encodeCredentialType } from "../../utils/credentials";
+import { summarizePreparedTransaction } from "../../utils/offline_signing";
+import { summarizeSimulation } from "../../utils/simulation";
+
+export const IssueCredentialTool: McpTool = {
+    name: "rwa_issue_credential",
+    description: "Issue an on-ledger XLS-70 credential (e.g. accredited investor or KYC) to an investor from the compliance issuer account",
+    schema: {
+        subject: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .describe("XRPL address of the investor receiving the credential"),
+        credential_type: z.string()
+            .min(1)
+            .max(CREDENTIALS.MAX_TYPE_BYTES)
+            .default(CREDENTIALS.ACCREDITED_INVESTOR)
+            .describe(`Credential type (e.g. '${CREDENTIALS.ACCREDITED_INVESTOR}' or '${CREDENTIALS.KYC}'). Accredited-only assets require '${CREDENTIALS.ACCREDITED_INVESTOR}' unless they use a permissioned domain`),
+        expiration: z.string()
+            .regex(/^\d{4}-\d{2}-\d{2}$/)
+            .optional()
+            .describe("Date the credential expires (YYYY-MM-DD), e.g. when the accreditation letter lapses"),
+        uri: z.string()
+            .max(CREDENTIALS.MAX_URI_BYTES)
+            .optional()
+            .describe("Optional link to the supporting evidence (kept off-ledger, e.g. a KYC provider reference)"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transaction and return the expected result, balance changes and fee without submitting it"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transaction for offline signing instead of submitting it")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            if (input.expiration && new Date(input.expiration) <= new Date()) {
+                return {
+                    status: "error",
+                    message: "❌ Expiration date must be in the future"
+                };
+            }
+
+            await agent.connect();
+
+            const complianceIssuer = agent.getComplianceAddress();
+
+            const credentialCreate = agent.buildCredentialCreate(input.subject, input.credential_type, {
+                expiration: input.expiration,
+                uri: input.uri
+            });
+
+            if (input.dry_run) {
+                const simulation = await agent.simulateTransaction(credentialCreate);
+                return summarizeSimulation(simulation, `${input.credential_type} credential for ${input.subject}`, agent.network, {
+                    issuer: complianceIssuer,
+                    subject: input.subject,
+                    credential_type: input.credential_type,
+                    expiration: input.expiration || "Never",
+                    counts_after: "Only once the investor accepts it"
+                });
+            }
+
+            if (input.prepare_only || agent.prepareOnly) {
+                const prepared = await agent.prepareTransaction(credentialCreate);
+                return summarizePreparedTransaction(prepared, `${input.credential_type} credential for ${input.subject}`, agent.network);
+            }
+
+            const hash = await agent.issueCredential(input.subject, input.credential_type, {
+                expiration: input.expiration,
+                uri: input.uri
+            });
+
+            return {
+                status: "success",
+                message: `✅ Issued ${input.credential_type} credential to ${input.subject}`,
+                credential: {
+                    issuer: complianceIssuer,
+                    subject: input.subject,
+                    credential_type: input.credential_type,
+                    expiration: input.expiration || "Never",
+                    accepted: false
+                },
+                transaction_info: {
+                    transaction_hash: hash,
+                    fee_paid: "0.000012 XRP",
+                    network: agent.network
+                },
+                // The investor signs this themselves; the credential does not count until they do
+                accept_transaction: {
+                    TransactionType: "CredentialAccept",
+                    Account: input.subject,
+                    Issuer: complianceIssuer,
+                    CredentialType: encodeCredentialType(input.credential_type)
+                },
+                next_steps: [
+                    "Ask the investor to sign and submit accept_transaction from their wallet",
+                    "Confirm acceptance with rwa_list_credentials"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to issue credential: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
@@ -0,0 +1,229 @@
+import { z } from "zod";
+import * as fs from "fs";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { ASSET_ID, BATCH_SUBMISSION } from "../../constants";
+import { generateBatchId, parseIssuanceCSV, parseIssuanceJSON, validateIssuanceList } from "../../utils/bulk_issuance";
+import { describeComplianceFailures, formatComplianceChecks } from "../../utils/jurisdictions";
+import { summarizePreparedTransactions } from "../../utils/offline_signing";
+import { isMPTokenId, normalizeAssetId } from "../../utils/xrpl_helpers";
+
+export const IssueTokensBulkTool: McpTool = {
+    name: "rwa_issue_tokens_bulk",
+    description: "Issue RWA tokens from the treasury to many investors at once from a CSV or JSON list of addresses and amounts. The whole list is validated before anything is sent, and progress is saved so resuming the same list after an interruption only pays investors who were not paid yet",
+    schema: {
+        asset_id: z.string()
+            .regex(ASSET_ID.ANY_REGEX)
+            .describe("Asset ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw') or a 48-character MPT issuance ID"),
+        data: z.string()
+            .optional()
+            .describe("The list itself: CSV lines of 'address,amount' (header optional) or a JSON array of { \"address\", \"amount\" }"),
+        file_path: z.string()
+            .optional()
+            .describe("Path to a local CSV or JSON file with the list, instead of data"),
+        format: z.enum(['auto', 'csv', 'json'])
+            .default('auto')
+            .describe("List format (auto-detected by default)"),
+        skip_not_ready: z.boolean()
+            .default(false)
+            .describe("Issue to everyone who can receive and report the rest, instead of stopping when any investor lacks a trustline"),
+        concurrency: z.number()
+            .int()
+            .min(1)
+            .max(BATCH_SUBMISSION.MAX_WINDOW)
+            .default(BATCH_SUBMISSION.DEFAULT_WINDOW)
+            .describe("Payments in flight at once. Above 1, payments are signed against reserved Tickets and submitted in parallel; 1 sends them one by one"),
+        validate_only: z.boolean()
+            .default(false)
+            .describe("Check the list and recipients' trustlines without sending anything"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Check the list as validate_only does, then simulate every payment and report expected results and fees without sending anything"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned payments for offline signing instead of submitting them"),
+        batch_label: z.string()
+            .min(1)
+            .max(64)
+            .optional()
+            .describe("Name for this issuance (e.g., 'series-a-tranche-2'). Needed to issue a list that was issued before again; resuming a labelled run needs the same label"),
+        resume: z.boolean()
+            .default(false)
+            .describe("Continue an interrupted run of the same list and label: in-flight payments are confirmed and only investors not yet paid are paid"),
+        memo: z.string()
+            .max(100)
+            .optional()
+            .describe("Note attached to every payment (e.g., 'Series A allocation')")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            if (!input.data === !input.file_path) {
+                return {
+                    status: "error",
+                    message: "❌ Provide exactly one of data or file_path"
+                };
+            }
+
+            const content: string = input.file_path ? fs.readFileSync(input.file_path, 'utf8') : input.data;
+            const isJSON = input.format === 'json' ||
+                (input.format === 'auto' && (input.file_path?.toLowerCase().endsWith('.json') || content.trim().startsWith('[')));
+            const parsed = isJSON ? parseIssuanceJSON(content) : parseIssuanceCSV(content);
+
+            if (parsed.errors.length > 0 || parsed.entries.length === 0) {
+                return {
+                    status: "error",
+                    message: parsed.entries.length === 0 && parsed.errors.length === 0
+                        ? "❌ The list is empty"
+                        : `❌ ${parsed.errors.length} line(s) could not be read; nothing was issued`,
+                    errors: parsed.errors
+                };
+            }
+
+            await agent.connect();
+
+            const assetId = normalizeAssetId(input.asset_id);
+            const assetInfo = await agent.getAssetInfo(assetId);
+            if (!assetInfo) {
+                throw new Error(`Token ${input.asset_id} not found or invalid`);
+            }
+
+            const validationErrors = validateIssuanceList(parsed.entries, assetInfo.totalSupply);
+            if (validationErrors.length > 0) {
+                return {
+                    status: "error",
+                    message: `❌ ${validationErrors.length} problem(s) found in the list; nothing was issued`,
+                    errors: validationErrors,
+                    suggestion: "Fix the listed rows and run the same list again"
+                };
+            }
+
+            const totalAmount = parsed.entries.reduce((sum, entry) => sum + entry.amount, 0);
+
+            if (input.validate_only || input.dry_run) {
+                const readiness = isMPTokenId(assetId)
+                    ? await agent.checkMPTRecipients(assetId, parsed.entries)
+                    : await agent.checkPayoutTrustlines(parsed.entries, assetId);
+                const notReady = parsed.entries.filter(entry => readiness.get(entry.address));
+                const compliance = await agent.checkCompliance(assetId, 'issue', { recipients: parsed.entries.map(entry => entry.address) });
+                const simulations = input.dry_run ? await agent.simulateIssuance(assetId, parsed.entries, input.memo, input.batch_label) : [];
+                const wouldFail = simulations.filter(({ simulation }) => simulation.engineResult && simulation.engineResult !== 'tesSUCCESS');
+
+                return {
+                    status: notReady.length > 0 || wouldFail.length > 0 || !compliance.allowed ? "partial" : "success",
+                    message: !compliance.allowed
+                        ? `⚠️ List is valid but breaks ${compliance.jurisdiction} offering rules: ${describeComplianceFailures(compliance)}`
+                        : notReady.length > 0
+                            ? `⚠️ List is valid but ${notReady.length} investor(s) cannot receive ${assetInfo.tokenSymbol} yet`
+                            : wouldFail.length > 0
+                                ? `⚠️ List is valid but ${wouldFail.length} payment(s) would fail in simulation`
+                                : `✅ List is valid and all ${parsed.entries.length} investors can receive ${assetInfo.tokenSymbol}`,
+                    summary: {
+                        batch_id: generateBatchId(assetId, parsed.entries, input.batch_label),
+                        investors: parsed.entries.length,
+                        total_tokens: totalAmount
+                    },
+                    compliance_checks: formatComplianceChecks(compliance),
+                    ...(input.dry_run && {
+                        simulation: {
+                            method: simulations.some(({ simulation }) => simulation.method === 'estimate')
+                                ? "Local estimate (this server cannot simulate)"
+                                : "Ledger simulate RPC",
+                            payments: simulations.length,
+                            expected_to_succeed: simulations.filter(({ simulation }) => simulation.engineResult === 'tesSUCCESS').length,
+                            total_fees: `${simulations.reduce((sum, { simulation }) => sum + Number(simulation.fee), 0) / 1000000} XRP`,
+                            note: "Each payment is simulated on its own against the current ledger; nothing was sent",
+                            ...(wouldFail.length > 0 && {
+                                would_fail: wouldFail.map(({ entry, simulation }) => ({
+                                    row: entry.row,
+                                    address: entry.address,
+                                    amount: entry.amount,
+                                    expected_result: simulation.engineResult,
+                                    reason: simulation.engineResultMessage
+                                }))
+                            })
+                        }
+                    }),
+                    ...(notReady.length > 0 && {
+                        not_ready: notReady.map(entry => ({
+                            row: entry.row,
+                            address: entry.address,
+                            amount: entry.amount,
+                            reason: readiness.get(entry.address)
+                        }))
+                    })
+                };
+            }
+
+            if (input.prepare_only || agent.prepareOnly) {
+                const compliance = await agent.checkCompliance(assetId, 'issue', { recipients: parsed.entries.map(entry => entry.address) });
+                if (!compliance.allowed) {
+                    return {
+                        status: "error",
+                        message: `❌ ${describeComplianceFailures(compliance)}; nothing was prepared`,
+                        compliance_checks: formatComplianceChecks(compliance)
+                    };
+                }
+
+                const prepared = await agent.prepareIssuance(assetId, parsed.entries, input.memo, input.batch_label);
+
+                return {
+                    ...summarizePreparedTransactions(prepared, `Issuance of ${totalAmount} ${assetInfo.tokenSymbol} to ${parsed.entries.length} investors`, agent.network),
+                    summary: {
+                        batch_id: generateBatchId(assetId, parsed.entries, input.batch_label),
+                        investors: parsed.entries.length,
+                        total_tokens: totalAmount
+                    },
+                    compliance_checks: formatComplianceChecks(compliance),
+                    note: "Prepared payments are not tracked in the batch progress file, so running this list again without prepare_only would pay the investors twice"
+                };
+            }
+
+            const result = await agent.issueTokensToInvestors(assetId, parsed.entries, {
+                skipNotReady: input.skip_not_ready,
+                memo: input.memo,
+                window: input.concurrency,
+                batchLabel: input.batch_label,
+                resume: input.resume
+            });
+
+            const byStatus = (status: string) => result.entries.filter(entry => entry.status === status);
+            const unpaid = result.entries.filter(entry => entry.status !== 'success');
+
+            return {
+                status: result.status,
+                message: result.status === 'success'
+                    ? `✅ ${result.message}`
+                    : result.status === 'partial' ? `⚠️ ${result.message}` : `❌ ${result.message}`,
+                summary: {
+                    batch_id: result.batchId,
+                    asset_id: assetId,
+                    investors: result.entries.length,
+                    issued_this_run: result.issuedThisRun,
+                    already_issued: result.previouslyIssued,
+                    failed: byStatus('failed').length,
+                    not_ready: byStatus('skipped').length,
+                    tokens_issued: `${result.totalIssued} of ${totalAmount} ${assetInfo.tokenSymbol}`,
+                    network: agent.network
+                },
+                ...(unpaid.length > 0 && {
+                    unpaid: unpaid.map(entry => ({
+                        row: entry.row,
+                        address: entry.address,
+                        amount: entry.amount,
+                        status: entry.status,
+                        reason: entry.error
+                    }))
+                }),
+                ...(result.compliance && { compliance_checks: formatComplianceChecks(result.compliance) }),
+                progress_file: `${agent.dataDir}/bulk-issuance-${result.batchId}.json`,
+                next_steps: unpaid.length > 0
+                    ? [`Resolve the unpaid entries, then run the same list again with resume${input.batch_label ? ` and batch_label '${input.batch_label}'` : ''} - investors already paid are skipped`]
+                    : ["Verify holdings with rwa_get_asset_info"]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to issue tokens: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
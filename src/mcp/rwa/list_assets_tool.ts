@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { listRegisteredAssets, registryEntryToAsset } from "../../utils/asset_registry";
+
+export const ListAssetsTool: McpTool = {
+    name: "rwa_list_assets",
+    description: "List every asset this operator has tokenized, from the local asset registry (no network lookups)",
+    schema: {
+        status: z.enum(['active', 'frozen', 'retired'])
+            .optional()
+            .describe("Only list assets with this lifecycle status"),
+        all_networks: z.boolean()
+            .default(false)
+            .describe("Include assets tokenized on other networks (default: current network only)")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            const entries = listRegisteredAssets(agent.dataDir, {
+                network: input.all_networks ? undefined : agent.network,
+                status: input.status
+            });
+
+            if (entries.length === 0) {
+                return {
+                    status: "success",
+                    message: "ℹ️ No tokenized assets in the local registry",
+                    registry_location: `${agent.dataDir}/asset-registry.json`,
+                    next_steps: ["Tokenize an asset with rwa_tokenize_asset"]
+                };
+            }
+
+            const assets = entries.map(entry => {
+                const asset = registryEntryToAsset(entry);
+                return {
+                    asset_id: entry.assetId,
+                    name: asset.name,
+                    type: asset.type,
+                    token_symbol: entry.tokenSymbol,
+                    token_standard: entry.tokenStandard,
+                    total_value: `$${asset.totalValue.toLocaleString()}`,
+                    total_supply: asset.totalSupply,
+                    yield_rate: `${asset.yieldRate || 0}%`,
+                    status: entry.status,
+                    network: entry.network,
+                    metadata_version: asset.version,
+                    tokenized_at: entry.createdAt
+                };
+            });
+
+            const totalValue = entries.reduce((sum, entry) => sum + registryEntryToAsset(entry).totalValue, 0);
+
+            return {
+                status: "success",
+                message: `✅ ${assets.length} tokenized asset(s) found`,
+                assets,
+                summary: {
+                    total_assets: assets.length,
+                    total_value: `$${totalValue.toLocaleString()}`,
+                    by_status: {
+                        active: entries.filter(e => e.status === 'active').length,
+                        frozen: entries.filter(e => e.status === 'frozen').length,
+                        retired: entries.filter(e => e.status === 'retired').length
+                    }
+                },
+                next_steps: [
+                    "Get full details for one asset with rwa_get_asset",
+                    "Check live supply and holders with rwa_get_asset_info"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to list assets: ${error.message}`);
+        }
+    }
+};
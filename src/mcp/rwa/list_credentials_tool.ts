@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+
+export const ListCredentialsTool: McpTool = {
+    name: "rwa_list_credentials",
+    description: "List XLS-70 credentials issued by or held by an account, with acceptance and expiry status",
+    schema: {
+        account: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .optional()
+            .describe("Investor or issuer address (defaults to the compliance issuer account)"),
+        credential_type: z.string()
+            .min(1)
+            .optional()
+            .describe("Only list credentials of this type (e.g. 'AccreditedInvestor')")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const account = input.account || agent.getComplianceAddress();
+            const credentials = (await agent.getCredentials(account))
+                .filter(credential => !input.credential_type || credential.credentialType === input.credential_type);
+
+            if (credentials.length === 0) {
+                return {
+                    status: "success",
+                    message: `ℹ️ No credentials found for ${account}`,
+                    next_steps: ["Issue one with rwa_issue_credential"]
+                };
+            }
+
+            const valid = credentials.filter(credential => credential.accepted && !credential.expired);
+
+            return {
+                status: "success",
+                message: `✅ ${credentials.length} credential(s), ${valid.length} valid`,
+                account,
+                credentials: credentials.map(credential => ({
+                    issuer: credential.issuer,
+                    subject: credential.subject,
+                    credential_type: credential.credentialType,
+                    status: credential.expired ? "expired" : credential.accepted ? "valid" : "awaiting acceptance",
+                    expiration: credential.expiration || "Never",
+                    uri: credential.uri,
+                    ledger_entry: credential.index
+                })),
+                next_steps: [
+                    ...(credentials.length > valid.length ? ["Expired or unaccepted credentials do not qualify investors for accredited-only assets"] : []),
+                    "Revoke a credential with rwa_revoke_credential"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to list credentials: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
+import { calculateDuePeriods } from "../../utils/calculations";
+import { loadSchedules, readDistributionRuns } from "../../utils/distribution_schedule";
+import { normalizeAssetId } from "../../utils/xrpl_helpers";
+
+export const ListDistributionSchedulesTool: McpTool = {
+    name: "rwa_list_distribution_schedules",
+    description: "List recurring yield distribution schedules with their next payment, overdue periods and recent runs",
+    schema: {
+        asset_id: z.string()
+            .regex(ASSET_ID.ANY_REGEX)
+            .optional()
+            .describe("Only show the schedule for this asset"),
+        recent_runs: z.number()
+            .int()
+            .min(0)
+            .max(50)
+            .default(5)
+            .describe("Number of recent runs to include per schedule")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            const now = new Date();
+            const schedules = Object.values(loadSchedules(agent.dataDir))
+                .filter(schedule => !input.asset_id || schedule.assetId === normalizeAssetId(input.asset_id));
+
+            if (schedules.length === 0) {
+                return {
+                    status: "success",
+                    message: "ℹ️ No distribution schedules found",
+                    next_steps: ["Create one with rwa_schedule_distribution"]
+                };
+            }
+
+            return {
+                status: "success",
+                message: `✅ ${schedules.length} distribution schedule(s)`,
+                schedules: schedules.map(schedule => {
+                    const overdue = calculateDuePeriods(new Date(schedule.startDate), schedule.frequency, schedule.nextPeriodIndex, now);
+                    const runs = readDistributionRuns(agent.dataDir, { assetId: schedule.assetId });
+
+                    return {
+                        asset_id: schedule.assetId,
+                        status: schedule.status,
+                        frequency: schedule.frequency,
+                        yield_type: schedule.type,
+                        annual_rate: `${schedule.rate}%`,
+                        amount_per_period: schedule.amountPerPeriod ?? "Derived from asset value",
+                        payout_currency: schedule.payoutCurrency,
+                        next_payment: schedule.nextPayment,
+                        periods_overdue: overdue.length,
+                        periods_paid: schedule.nextPeriodIndex,
+                        ...(schedule.outstandingPayments?.length && {
+                            outstanding_payments: schedule.outstandingPayments.map(entry => ({
+                                period: entry.periodDate.slice(0, 10),
+                                address: entry.address,
+                                amount: entry.amount,
+                                ...(entry.error && { last_error: entry.error })
+                            }))
+                        }),
+                        last_run: schedule.lastRunAt || "Never",
+                        recent_runs: runs.slice(-input.recent_runs).reverse().map(run => ({
+                            period: run.periodDate.slice(0, 10),
+                            executed_at: run.executedAt,
+                            status: run.status,
+                            total_distributed: run.totalDistributed,
+                            recipients: run.recipientCount,
+                            reference: run.reference,
+                            ...(run.retry && { retry: true }),
+                            ...(run.error && { error: run.error })
+                        }))
+                    };
+                }),
+                next_steps: [
+                    "Pay overdue periods with rwa_run_scheduled_distributions"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to list distribution schedules: ${error.message}`);
+        }
+    }
+};
@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
+import { listSnapshots } from "../../utils/holder_snapshots";
+import { normalizeAssetId } from "../../utils/xrpl_helpers";
+
+export const ListHolderSnapshotsTool: McpTool = {
+    name: "rwa_list_holder_snapshots",
+    description: "List saved record-date holder snapshots (no network lookups)",
+    schema: {
+        asset_id: z.string()
+            .regex(ASSET_ID.ANY_REGEX)
+            .optional()
+            .describe("Only list snapshots of this asset")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            const snapshots = listSnapshots(agent.dataDir, {
+                assetId: input.asset_id ? normalizeAssetId(input.asset_id) : undefined
+            });
+
+            if (snapshots.length === 0) {
+                return {
+                    status: "success",
+                    message: "ℹ️ No holder snapshots found",
+                    next_steps: ["Take one with rwa_create_holder_snapshot"]
+                };
+            }
+
+            return {
+                status: "success",
+                message: `✅ ${snapshots.length} holder snapshot(s)`,
+                snapshots: snapshots.map(snapshot => ({
+                    snapshot_id: snapshot.id,
+                    asset_id: snapshot.assetId,
+                    ledger_index: snapshot.ledgerIndex,
+                    ledger_close_time: snapshot.ledgerCloseTime,
+                    label: snapshot.label,
+                    holder_count: snapshot.holders.length,
+                    total_balance: snapshot.totalBalance,
+                    network: snapshot.network
+                })),
+                next_steps: [
+                    "Show the holders in a snapshot with rwa_get_holder_snapshot"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to list holder snapshots: ${error.message}`);
+        }
+    }
+};
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
+import { splitAssetId } from "../../utils/xrpl_helpers";
+
+export const ListPendingTrustlinesTool: McpTool = {
+    name: "rwa_list_pending_trustlines",
+    description: "List investor trustlines waiting for issuer authorization on a RequireAuth RWA token",
+    schema: {
+        asset_id: z.string()
+            .regex(ASSET_ID.TRUSTLINE_REGEX)
+            .describe("Asset ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw')"),
+        include_authorized: z.boolean()
+            .optional()
+            .describe("Also list trustlines that are already authorized (default: false)")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const [currency, issuer] = splitAssetId(input.asset_id);
+
+            const issuerFlags = await agent.getIssuerFlags(issuer);
+            const trustlines = await agent.getTrustlineAuthorizations(input.asset_id);
+
+            const pending = trustlines.filter(line => !line.authorized);
+            const authorized = trustlines.filter(line => line.authorized);
+
+            return {
+                status: "success",
+                message: pending.length > 0
+                    ? `📋 ${pending.length} ${currency} trustline(s) awaiting authorization`
+                    : `✅ No pending ${currency} trustlines`,
+                require_auth_enabled: !!issuerFlags.lsfRequireAuth,
+                pending_trustlines: pending.map(line => ({
+                    address: line.address,
+                    requested_limit: line.limit
+                })),
+                ...(input.include_authorized && {
+                    authorized_trustlines: authorized.map(line => ({
+                        address: line.address,
+                        balance: line.balance,
+                        limit: line.limit
+                    }))
+                }),
+                summary: {
+                    total_trustlines: trustlines.length,
+                    pending: pending.length,
+                    authorized: authorized.length
+                },
+                next_steps: [
+                    ...(!issuerFlags.lsfRequireAuth ? ["⚠️ RequireAuth is off for this issuer - trustlines do not need approval"] : []),
+                    ...(pending.length > 0 ? ["Complete KYC checks, then approve with rwa_authorize_trustline"] : [])
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to list pending trustlines: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+
+export const ListPermissionedDomainsTool: McpTool = {
+    name: "rwa_list_permissioned_domains",
+    description: "List the permissioned domains owned by an account and the credentials each accepts",
+    schema: {
+        owner: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .optional()
+            .describe("Domain owner address (defaults to the compliance issuer account)")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const owner = input.owner || agent.getComplianceAddress();
+            const domains = await agent.getPermissionedDomains(owner);
+
+            if (domains.length === 0) {
+                return {
+                    status: "success",
+                    message: `ℹ️ ${owner} owns no permissioned domains`,
+                    next_steps: ["Create one with rwa_set_permissioned_domain"]
+                };
+            }
+
+            return {
+                status: "success",
+                message: `✅ ${domains.length} permissioned domain(s)`,
+                owner,
+                domains: domains.map(domain => ({
+                    domain_id: domain.domainId,
+                    accepted_credentials: domain.acceptedCredentials.map(credential => `${credential.credentialType} from ${credential.issuer}`)
+                }))
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to list permissioned domains: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
@@ -1,16 +1,18 @@
 import { z } from "zod";
 import { RWAAgent } from "../../agent";
 import { type McpTool } from "../../types";
-import { AMMWithdraw, xrpToDrops } from 'xrpl';
-
-// NOT TESTED YET
+import { ASSET_ID } from "../../constants";
+import { AMMWithdraw, AMMWithdrawFlags, xrpToDrops } from 'xrpl';
+import { splitAssetId } from "../../utils/xrpl_helpers";
+import { summarizePreparedTransaction } from "../../utils/offline_signing";
+import { summarizeSimulation } from "../../utils/simulation";
 
 export const RemoveLiquidityAMMTool: McpTool = {
     name: "rwa_remove_liquidity_amm",
     description: "Remove liquidity from an AMM pool by redeeming LP tokens",
     schema: {
         token_id: z.string()
-            .regex(/^[A-Z0-9]{3}\.r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .regex(ASSET_ID.TRUSTLINE_REGEX)
             .describe("Token ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw')"),
         withdrawal_type: z.enum(['both_assets', 'single_asset_token', 'single_asset_xrp', 'lp_tokens_amount'])
             .default('both_assets')
@@ -36,14 +38,20 @@ export const RemoveLiquidityAMMTool: McpTool = {
             .min(0.1)
             .max(50)
             .default(2.0)
-            .describe("Maximum acceptable slippage percentage (default: 2%)")
+            .describe("Maximum acceptable slippage percentage (default: 2%)"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transaction and return the expected result, balance changes and fee without submitting it"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transaction for offline signing instead of submitting it")
     },
     handler: async (agent: RWAAgent, input: Record<string, any>) => {
         try {
             await agent.connect();
 
             // Parse token ID
-            const [currency, issuer] = input.token_id.split('.');
+            const [currency, issuer] = splitAssetId(input.token_id);
 
             // Check if AMM exists for this pair
             let ammInfo: any;
@@ -115,7 +123,7 @@ export const RemoveLiquidityAMMTool: McpTool = {
             // Prepare AMMWithdraw transaction
             let ammWithdraw: AMMWithdraw = {
                 TransactionType: 'AMMWithdraw',
-                Account: agent.wallet.address,
+                Account: agent.address,
                 Asset: {
                     currency: currency,
                     issuer: issuer
@@ -131,26 +139,38 @@ export const RemoveLiquidityAMMTool: McpTool = {
                 Fee: '12'
             };
 
-            // Set flags and amounts based on withdrawal type
-            if (input.withdrawal_type === 'both_assets') {
-                ammWithdraw.Flags = 0x00100000; // tfTwoAsset
-                // For proportional withdrawal, amounts are calculated automatically
+            // Set flags and amounts based on withdrawal type. Every withdrawal redeems LPTokenIn: proportional
+            // ones pay out both assets, single-asset ones pay out the asset in Amount (with Amount as the minimum)
+            if (input.withdrawal_type === 'both_assets' || input.withdrawal_type === 'lp_tokens_amount') {
+                ammWithdraw.Flags = AMMWithdrawFlags.tfLPToken;
             } else if (input.withdrawal_type === 'single_asset_token') {
-                ammWithdraw.Flags = 0x00080000; // tfSingleAsset
+                ammWithdraw.Flags = AMMWithdrawFlags.tfOneAssetLPToken;
                 ammWithdraw.Amount = {
                     currency: currency,
                     issuer: issuer,
                     value: (input.token_amount_out || expectedTokenOut).toString()
                 };
             } else if (input.withdrawal_type === 'single_asset_xrp') {
-                ammWithdraw.Flags = 0x00080000; // tfSingleAsset
-                ammWithdraw.Amount2 = xrpToDrops(input.xrp_amount_out || expectedXRPOut);
-            } else if (input.withdrawal_type === 'lp_tokens_amount') {
-                ammWithdraw.Flags = 0x00200000; // tfLPToken
+                ammWithdraw.Flags = AMMWithdrawFlags.tfOneAssetLPToken;
+                ammWithdraw.Amount = xrpToDrops((input.xrp_amount_out || expectedXRPOut).toFixed(6));
+            }
+
+            if (input.dry_run) {
+                const simulation = await agent.simulateTransaction(ammWithdraw);
+                return summarizeSimulation(simulation, `AMM withdrawal from the ${input.token_id}/XRP pool`, agent.network, {
+                    lp_tokens_redeemed: lpTokensToRedeem,
+                    expected_token_out: `${expectedTokenOut.toFixed(6)} ${currency}`,
+                    expected_xrp_out: `${expectedXRPOut.toFixed(6)} XRP`
+                });
+            }
+
+            if (input.prepare_only || agent.prepareOnly) {
+                const prepared = await agent.prepareTransaction(ammWithdraw);
+                return summarizePreparedTransaction(prepared, `AMM withdrawal from the ${input.token_id}/XRP pool`, agent.network);
             }
 
             // Submit the transaction
-            const result: any = await agent.client.submitAndWait(ammWithdraw, { wallet: agent.wallet });
+            const result: any = await agent.submitAs(ammWithdraw);
 
             if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
                 throw new Error(`Liquidity removal failed: ${result.result.meta?.TransactionResult}`);
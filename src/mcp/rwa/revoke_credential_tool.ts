@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { CREDENTIALS } from "../../constants";
+import { summarizePreparedTransaction } from "../../utils/offline_signing";
+import { summarizeSimulation } from "../../utils/simulation";
+
+export const RevokeCredentialTool: McpTool = {
+    name: "rwa_revoke_credential",
+    description: "Revoke an investor credential issued by the compliance issuer account (e.g. when accreditation lapses)",
+    schema: {
+        subject: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .describe("XRPL address of the investor holding the credential"),
+        credential_type: z.string()
+            .min(1)
+            .max(CREDENTIALS.MAX_TYPE_BYTES)
+            .default(CREDENTIALS.ACCREDITED_INVESTOR)
+            .describe("Credential type to revoke (e.g. 'AccreditedInvestor')"),
+        reason: z.string()
+            .max(200)
+            .optional()
+            .describe("Reason for revoking, echoed back for record keeping"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transaction and return the expected result, balance changes and fee without submitting it"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transaction for offline signing instead of submitting it")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const complianceIssuer = agent.getComplianceAddress();
+            const existing = (await agent.getCredentials(input.subject)).find(credential =>
+                credential.issuer === complianceIssuer && credential.credentialType === input.credential_type
+            );
+
+            if (!existing) {
+                return {
+                    status: "error",
+                    message: `❌ ${input.subject} holds no ${input.credential_type} credential from ${complianceIssuer}`
+                };
+            }
+
+            if (input.dry_run) {
+                const simulation = await agent.simulateTransaction(agent.buildCredentialDelete(input.subject, input.credential_type));
+                return summarizeSimulation(simulation, `revocation of the ${input.credential_type} credential of ${input.subject}`, agent.network, {
+                    was_accepted: existing.accepted,
+                    expiration: existing.expiration || "Never"
+                });
+            }
+
+            if (input.prepare_only || agent.prepareOnly) {
+                const prepared = await agent.prepareTransaction(agent.buildCredentialDelete(input.subject, input.credential_type));
+                return summarizePreparedTransaction(prepared, `Revocation of the ${input.credential_type} credential of ${input.subject}`, agent.network);
+            }
+
+            const hash = await agent.revokeCredential(input.subject, input.credential_type);
+
+            return {
+                status: "success",
+                message: `✅ Revoked ${input.credential_type} credential of ${input.subject}`,
+                revocation: {
+                    issuer: complianceIssuer,
+                    subject: input.subject,
+                    credential_type: input.credential_type,
+                    was_accepted: existing.accepted,
+                    reason: input.reason || "Not provided"
+                },
+                transaction_info: {
+                    transaction_hash: hash,
+                    fee_paid: "0.000012 XRP",
+                    network: agent.network
+                },
+                effect: "The investor can no longer receive accredited-only assets that rely on this credential"
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to revoke credential: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
+import { decodeCurrencyCode, normalizeAssetId, splitAssetId } from "../../utils/xrpl_helpers";
+
+export const RunScheduledDistributionsTool: McpTool = {
+    name: "rwa_run_scheduled_distributions",
+    description: "Pay every scheduled yield distribution that is due, catching up on missed periods and retrying failed ones",
+    schema: {
+        asset_id: z.string()
+            .regex(ASSET_ID.ANY_REGEX)
+            .optional()
+            .describe("Only run the schedule for this asset (defaults to all active schedules)")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const report = await agent.runScheduledDistributions({ assetId: input.asset_id && normalizeAssetId(input.asset_id), trigger: 'tool' });
+            const runs = report.flatMap(entry => entry.runs);
+            const failedRuns = runs.filter(run => run.status === 'error');
+            const partialRuns = runs.filter(run => run.status === 'partial');
+
+            return {
+                status: failedRuns.length > 0 ? "partial" : "success",
+                message: runs.length === 0
+                    ? "ℹ️ No scheduled distributions are due"
+                    : `${failedRuns.length > 0 ? '⚠️' : '✅'} Ran ${runs.length} scheduled distribution period(s) across ${report.filter(entry => entry.runs.length > 0).length} asset(s)`,
+                schedules: report.map(entry => ({
+                    asset_id: entry.assetId,
+                    periods_due: entry.duePeriods,
+                    periods_paid: entry.runs.filter(run => run.status !== 'error').length,
+                    next_payment: entry.nextPayment,
+                    runs: entry.runs.map(run => ({
+                        period: run.periodDate.slice(0, 10),
+                        status: run.status,
+                        amount: `${run.amount} ${run.payoutCurrency === 'XRP' ? 'XRP' : decodeCurrencyCode(splitAssetId(run.payoutCurrency)[0])}`,
+                        total_distributed: run.totalDistributed,
+                        recipients: run.recipientCount,
+                        reference: run.reference,
+                        ...(run.retry && { retry: "Outstanding holders from an earlier run" }),
+                        ...(run.unpaidRecipients && { unpaid_recipients: run.unpaidRecipients }),
+                        ...(run.error && { error: run.error })
+                    })),
+                    ...(entry.previousIssues.length > 0 && {
+                        issues_from_previous_run: entry.previousIssues.map(run => ({
+                            period: run.periodDate.slice(0, 10),
+                            status: run.status,
+                            error: run.error,
+                            unpaid_recipients: run.unpaidRecipients
+                        }))
+                    })
+                })),
+                next_steps: [
+                    ...(failedRuns.length > 0 ? ["Periods where nothing went out stay due and will be retried on the next run"] : []),
+                    ...(partialRuns.length > 0 || failedRuns.some(run => run.unpaidRecipients) ? ["unpaid_recipients stay on the schedule and are retried on every run - make sure they can receive the payout currency"] : []),
+                    "Review the schedule with rwa_list_distribution_schedules"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to run scheduled distributions: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
@@ -0,0 +1,139 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
+import { calculateYieldDistribution } from "../../utils/calculations";
+import { canDeriveAmountIn, deleteSchedule, getSchedule, saveSchedule } from "../../utils/distribution_schedule";
+import { decodeCurrencyCode, normalizeAssetId, splitAssetId } from "../../utils/xrpl_helpers";
+
+export const ScheduleDistributionTool: McpTool = {
+    name: "rwa_schedule_distribution",
+    description: "Create, pause, resume or cancel a recurring monthly or quarterly yield distribution for an RWA token. Due payments are made by rwa_run_scheduled_distributions or the long-running scheduler (npm run scheduler)",
+    schema: {
+        asset_id: z.string()
+            .regex(ASSET_ID.ANY_REGEX)
+            .describe("Asset ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw') or a 48-character MPT issuance ID"),
+        action: z.enum(['create', 'pause', 'resume', 'cancel'])
+            .default('create')
+            .describe("What to do with the schedule"),
+        frequency: z.enum(['monthly', 'quarterly'])
+            .optional()
+            .describe("How often to pay (required for create)"),
+        yield_type: z.enum(['rental', 'interest', 'dividend'])
+            .default('rental')
+            .describe("Kind of income being distributed"),
+        annual_rate: z.number()
+            .min(0)
+            .max(50)
+            .optional()
+            .describe("Annual yield percentage used to size each payment (defaults to the asset's yield rate)"),
+        amount_per_period: z.number()
+            .positive()
+            .optional()
+            .describe("Fixed amount to pay each period instead of deriving it from the asset value and rate. Required unless paying in a USD currency, since asset values are in USD"),
+        payout_currency: z.union([
+            z.literal("XRP"),
+            z.string().regex(ASSET_ID.TRUSTLINE_REGEX)
+        ]).default("XRP")
+            .describe("Currency to pay yield in: 'XRP' or 'CURRENCY.ISSUER' (e.g., a USD stablecoin)"),
+        start_date: z.string()
+            .regex(/^\d{4}-\d{2}-\d{2}$/)
+            .optional()
+            .describe("Due date of the first payment (YYYY-MM-DD, defaults to the 1st of next month)"),
+        memo: z.string()
+            .max(100)
+            .optional()
+            .describe("Note attached to every scheduled payment")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            const assetId = normalizeAssetId(input.asset_id);
+
+            if (input.action !== 'create') {
+                const existing = getSchedule(agent.dataDir, assetId);
+                if (!existing) {
+                    return {
+                        status: "error",
+                        message: `❌ No distribution schedule found for ${input.asset_id}`
+                    };
+                }
+
+                if (input.action === 'cancel') {
+                    deleteSchedule(agent.dataDir, assetId);
+                    return {
+                        status: "success",
+                        message: `✅ Distribution schedule for ${input.asset_id} cancelled`,
+                        note: "Past runs stay in the distribution run log"
+                    };
+                }
+
+                saveSchedule(agent.dataDir, { ...existing, status: input.action === 'pause' ? 'paused' : 'active' });
+                return {
+                    status: "success",
+                    message: `✅ Distribution schedule for ${input.asset_id} ${input.action === 'pause' ? 'paused' : 'resumed'}`,
+                    next_payment: existing.nextPayment,
+                    note: input.action === 'resume'
+                        ? "Periods that fell due while paused will be paid on the next run"
+                        : "No payments will be made until the schedule is resumed"
+                };
+            }
+
+            if (!input.frequency) {
+                return {
+                    status: "error",
+                    message: "❌ frequency is required to create a schedule",
+                    suggestion: "Use 'monthly' or 'quarterly'"
+                };
+            }
+
+            if (!input.amount_per_period && !canDeriveAmountIn(input.payout_currency)) {
+                return {
+                    status: "error",
+                    message: `❌ Asset values are in USD, so a payout in ${input.payout_currency} needs amount_per_period`,
+                    suggestion: "Set amount_per_period in the payout currency, or pay in a USD currency such as 'USD.ISSUER' to derive it from the asset value"
+                };
+            }
+
+            await agent.connect();
+
+            const schedule = await agent.scheduleDistribution(assetId, {
+                frequency: input.frequency,
+                type: input.yield_type,
+                rate: input.annual_rate,
+                amountPerPeriod: input.amount_per_period,
+                payoutCurrency: input.payout_currency,
+                startDate: input.start_date,
+                memo: input.memo
+            });
+
+            const asset = await agent.getAssetInfo(assetId);
+            const estimate = schedule.amountPerPeriod
+                ?? calculateYieldDistribution(asset?.totalValue || 0, schedule.rate, schedule.frequency).amountPerPeriod;
+            const payoutSymbol = schedule.payoutCurrency === 'XRP' ? 'XRP' : decodeCurrencyCode(splitAssetId(schedule.payoutCurrency)[0]);
+
+            return {
+                status: "success",
+                message: `✅ ${schedule.frequency} ${schedule.type} distribution scheduled for ${asset?.name || input.asset_id}`,
+                schedule: {
+                    asset_id: schedule.assetId,
+                    frequency: schedule.frequency,
+                    yield_type: schedule.type,
+                    annual_rate: `${schedule.rate}%`,
+                    amount_per_period: schedule.amountPerPeriod
+                        ? `${schedule.amountPerPeriod} ${payoutSymbol} (fixed)`
+                        : `~${estimate.toFixed(2)} ${payoutSymbol} (from current asset value)`,
+                    payout_currency: schedule.payoutCurrency,
+                    first_payment: schedule.nextPayment
+                },
+                next_steps: [
+                    "Run due payments with rwa_run_scheduled_distributions, or keep `npm run scheduler` running",
+                    "Check upcoming and past payments with rwa_list_distribution_schedules"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to schedule distribution: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
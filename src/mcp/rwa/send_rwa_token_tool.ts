@@ -1,15 +1,20 @@
 import { z } from "zod";
 import { RWAAgent } from "../../agent";
 import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
 import { Payment } from 'xrpl';
+import { describeComplianceFailures, formatComplianceChecks } from "../../utils/jurisdictions";
+import { decodeCurrencyCode, isMPTokenId, normalizeAssetId, splitAssetId, toMPTValue } from "../../utils/xrpl_helpers";
+import { summarizePreparedTransaction } from "../../utils/offline_signing";
+import { summarizeSimulation } from "../../utils/simulation";
 
 export const SendRWATokenTool: McpTool = {
     name: "rwa_send_rwa_token",
     description: "Send RWA tokens to another XRPL address using token format like PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw",
     schema: {
         token_id: z.string()
-            .regex(/^[A-Z0-9]{3}\.r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
-            .describe("Token ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw')"),
+            .regex(ASSET_ID.ANY_REGEX)
+            .describe("Token ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw') or a 48-character MPT issuance ID"),
         destination: z.string()
             .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
             .describe("Recipient's XRPL address"),
@@ -25,14 +30,23 @@ export const SendRWATokenTool: McpTool = {
         memo: z.string()
             .max(1000)
             .optional()
-            .describe("Optional memo for the transaction")
+            .describe("Optional memo for the transaction"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transaction and return the expected result, balance changes and fee without submitting it"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transaction for offline signing instead of submitting it")
     },
     handler: async (agent: RWAAgent, input: Record<string, any>) => {
         try {
             await agent.connect();
 
-            // Parse token ID to extract currency and issuer
-            const [currency, issuer] = input.token_id.split('.');
+            // MPT issuance IDs carry no currency code; trustline tokens are CURRENCY.ISSUER
+            const isMPT = isMPTokenId(input.token_id);
+            const tokenId = normalizeAssetId(input.token_id);
+            const [currency, issuer] = isMPT ? ['MPT', ''] : splitAssetId(tokenId);
+            const symbol = decodeCurrencyCode(currency);
 
             // Validate that the token exists and get metadata
             const assetInfo = await agent.getAssetInfo(input.token_id);
@@ -43,15 +57,24 @@ export const SendRWATokenTool: McpTool = {
             // Check sender's balance for the token
             const balances = await agent.getRWATokenBalances();
             const tokenBalance = balances.rwa_tokens.find(
-                token => token.currency === currency && token.issuer === issuer
+                token => token.asset_id === tokenId
             );
 
             if (!tokenBalance || tokenBalance.balance < input.amount) {
                 throw new Error(
-                    `Insufficient balance. Available: ${tokenBalance?.balance || 0} ${currency}, Requested: ${input.amount}`
+                    `Insufficient balance. Available: ${tokenBalance?.balance || 0} ${symbol}, Requested: ${input.amount}`
                 );
             }
 
+            // The asset's jurisdiction rules (holding period, investor cap, authorized holders) must allow the transfer
+            const compliance = await agent.checkCompliance(tokenId, 'transfer', {
+                recipients: [input.destination],
+                amount: input.amount
+            });
+            if (!compliance.allowed) {
+                throw new Error(`Transfer blocked by ${describeComplianceFailures(compliance)}`);
+            }
+
             // Validate destination address
             try {
                 const destInfo = await agent.client.request({
@@ -70,18 +93,39 @@ export const SendRWATokenTool: McpTool = {
                 throw error;
             }
 
-            // Check if destination has a trustline for this token
+            // Accounts with Deposit Authorization only accept tokens from senders they have preauthorized
+            const depositAuth = await agent.checkDepositAuthorization(input.destination);
+            if (!depositAuth.authorized) {
+                throw new Error(
+                    `Destination ${input.destination} requires deposit preauthorization and has not preauthorized ${agent.address}. ` +
+                    `Ask the recipient to preauthorize this wallet (or a credential it holds) with a DepositPreauth transaction`
+                );
+            }
+
+            // Check if destination has a trustline (or MPToken holding) for this token
             let hasTrustline = false;
             try {
-                const destLines = await agent.client.request({
-                    command: 'account_lines',
-                    account: input.destination,
-                    ledger_index: 'validated'
-                });
+                if (isMPT) {
+                    await agent.client.request({
+                        command: 'ledger_entry',
+                        mptoken: {
+                            mpt_issuance_id: input.token_id,
+                            account: input.destination
+                        },
+                        ledger_index: 'validated'
+                    });
+                    hasTrustline = true;
+                } else {
+                    const destLines = await agent.client.request({
+                        command: 'account_lines',
+                        account: input.destination,
+                        ledger_index: 'validated'
+                    });
 
-                hasTrustline = destLines.result.lines.some(
-                    line => line.currency === currency && line.account === issuer
-                );
+                    hasTrustline = destLines.result.lines.some(
+                        line => line.currency === currency && line.account === issuer
+                    );
+                }
             } catch (error) {
                 console.error('Could not check destination trustlines:', error);
             }
@@ -89,16 +133,26 @@ export const SendRWATokenTool: McpTool = {
             // Prepare the payment transaction
             const payment: Payment = {
                 TransactionType: 'Payment',
-                Account: agent.wallet.address,
+                Account: agent.address,
                 Destination: input.destination,
-                Amount: {
-                    currency: currency,
-                    issuer: issuer,
-                    value: input.amount.toString()
-                },
+                Amount: isMPT
+                    ? {
+                        mpt_issuance_id: input.token_id,
+                        value: toMPTValue(input.amount, (await agent.getMPTIssuance(input.token_id)).AssetScale || 0)
+                    }
+                    : {
+                        currency: currency,
+                        issuer: issuer,
+                        value: input.amount.toString()
+                    },
                 Fee: '12'
             };
 
+            // Present the credentials that satisfy the destination's preauthorization
+            if (depositAuth.credentialIds) {
+                payment.CredentialIDs = depositAuth.credentialIds;
+            }
+
             // Add destination tag if provided
             if (input.destination_tag !== undefined) {
                 payment.DestinationTag = input.destination_tag;
@@ -114,8 +168,26 @@ export const SendRWATokenTool: McpTool = {
                 }];
             }
 
+            if (input.dry_run) {
+                const simulation = await agent.simulateTransaction(payment);
+                return summarizeSimulation(simulation, `transfer of ${input.amount} ${symbol} to ${input.destination}`, agent.network, {
+                    balance_before: `${tokenBalance.balance} ${symbol}`,
+                    expected_balance_after: `${tokenBalance.balance - input.amount} ${symbol}`
+                });
+            }
+
+            if (input.prepare_only || agent.prepareOnly) {
+                const prepared = await agent.prepareTransaction(payment);
+                return summarizePreparedTransaction(prepared, `Transfer of ${input.amount} ${symbol} to ${input.destination}`, agent.network);
+            }
+
             // Submit the payment transaction
-            const result = await agent.client.submitAndWait(payment, { wallet: agent.wallet });
+            const result: any = await agent.submitAs(payment);
+
+            // tec results (unauthorized or frozen trustline, deposit authorization) are validated but move no tokens
+            if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
+                throw new Error(`Transfer failed: ${result.result.meta?.TransactionResult}`);
+            }
 
             // Calculate transaction cost and token value
             const fee = Number(payment.Fee) / 1000000; // Convert drops to XRP
@@ -125,12 +197,12 @@ export const SendRWATokenTool: McpTool = {
             // Get updated balances
             const updatedBalances = await agent.getRWATokenBalances();
             const updatedTokenBalance = updatedBalances.rwa_tokens.find(
-                token => token.currency === currency && token.issuer === issuer
+                token => token.asset_id === tokenId
             );
 
             return {
                 status: "success",
-                message: `✅ Successfully sent ${input.amount} ${currency} tokens to ${input.destination}`,
+                message: `✅ Successfully sent ${input.amount} ${decodeCurrencyCode(tokenBalance.currency)} tokens to ${input.destination}`,
                 transaction_details: {
                     hash: result.result.hash,
                     ledger_index: result.result.ledger_index,
@@ -139,20 +211,27 @@ export const SendRWATokenTool: McpTool = {
                 },
                 transfer_summary: {
                     token_id: input.token_id,
-                    currency: currency,
-                    issuer: issuer,
+                    token_standard: isMPT ? 'mpt' : 'trustline',
+                    currency: tokenBalance.currency,
+                    issuer: tokenBalance.issuer,
                     amount_sent: input.amount,
                     estimated_value: tokenValue > 0 ? `$${tokenValue.toLocaleString()}` : 'Not available',
-                    sender: agent.wallet.address,
+                    sender: agent.address,
                     recipient: input.destination,
                     destination_tag: input.destination_tag,
-                    memo: input.memo
+                    memo: input.memo,
+                    ...(depositAuth.required && {
+                        deposit_authorization: depositAuth.credentialIds
+                            ? `Authorized by ${depositAuth.credentialIds.length} credential(s)`
+                            : "Sender preauthorized by destination"
+                    })
                 },
                 balance_update: {
                     previous_balance: tokenBalance.balance,
                     new_balance: updatedTokenBalance?.balance || 0,
                     remaining_tokens: updatedTokenBalance?.balance || 0
                 },
+                compliance_checks: formatComplianceChecks(compliance),
                 asset_info: {
                     asset_name: assetInfo.name,
                     asset_type: assetInfo.type,
@@ -161,12 +240,15 @@ export const SendRWATokenTool: McpTool = {
                 },
                 warnings: [
                     ...(hasTrustline ? [] : ["⚠️ Recipient may not have a trustline for this token"]),
+                    ...compliance.checks.filter(check => !check.passed).map(check => `⚠️ ${check.rule}: ${check.detail}`),
                     ...(tokenValue === 0 ? ["⚠️ Token valuation data not available"] : [])
                 ],
                 next_steps: [
                     "Verify recipient received the tokens",
                     "Check transaction status on XRPL explorer",
-                    ...(hasTrustline ? [] : ["Ensure recipient creates trustline for this token"])
+                    ...(hasTrustline ? [] : [isMPT
+                        ? "Ensure recipient opts in to this MPT (MPTokenAuthorize)"
+                        : "Ensure recipient creates trustline for this token"])
                 ]
             };
 
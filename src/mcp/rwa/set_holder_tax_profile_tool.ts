@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { JURISDICTION } from "../../constants";
+import { deleteTaxProfile, saveTaxProfile } from "../../utils/withholding";
+
+export const SetHolderTaxProfileTool: McpTool = {
+    name: "rwa_set_holder_tax_profile",
+    description: "Record a holder's tax residence, treaty rate or exemption so yield distributions withhold the right amount of tax",
+    schema: {
+        address: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .describe("Holder's XRPL address"),
+        jurisdiction: z.string()
+            .regex(JURISDICTION.CODE_REGEX)
+            .optional()
+            .describe("Country of tax residence as an ISO 3166-1 alpha-2 code (e.g., 'SG', 'TH', 'DE'). Required unless remove is true"),
+        treaty_rate: z.number()
+            .min(0)
+            .max(100)
+            .optional()
+            .describe("Reduced treaty withholding rate in percent, overriding the rule set's rate for this holder"),
+        exempt: z.boolean()
+            .default(false)
+            .describe("Holder is exempt from withholding (e.g., a tax-exempt institution)"),
+        exemption_reason: z.string()
+            .max(200)
+            .optional()
+            .describe("Basis for the exemption"),
+        documentation: z.string()
+            .max(200)
+            .optional()
+            .describe("Supporting tax form on file (e.g., 'W-8BEN received 2025-03-01')"),
+        remove: z.boolean()
+            .default(false)
+            .describe("Delete the holder's tax profile instead")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            if (input.remove) {
+                const removed = deleteTaxProfile(agent.dataDir, input.address);
+                return {
+                    status: removed ? "success" : "error",
+                    message: removed
+                        ? `✅ Tax profile for ${input.address} removed`
+                        : `❌ No tax profile found for ${input.address}`
+                };
+            }
+
+            if (!input.jurisdiction) {
+                return {
+                    status: "error",
+                    message: "❌ jurisdiction is required",
+                    suggestion: "Provide the holder's country of tax residence, e.g. 'SG'"
+                };
+            }
+
+            if (input.exempt && !input.exemption_reason) {
+                return {
+                    status: "error",
+                    message: "❌ exemption_reason is required for exempt holders"
+                };
+            }
+
+            const profile = saveTaxProfile(agent.dataDir, {
+                address: input.address,
+                jurisdiction: input.jurisdiction,
+                treatyRate: input.treaty_rate,
+                exempt: input.exempt,
+                exemptionReason: input.exemption_reason,
+                documentation: input.documentation
+            });
+
+            return {
+                status: "success",
+                message: `✅ Tax profile saved for ${input.address}`,
+                profile: {
+                    address: profile.address,
+                    jurisdiction: profile.jurisdiction,
+                    treaty_rate: profile.treatyRate !== undefined ? `${profile.treatyRate}%` : "From withholding rules",
+                    exempt: profile.exempt,
+                    exemption_reason: profile.exemptionReason,
+                    documentation: profile.documentation,
+                    updated_at: profile.updatedAt
+                },
+                next_steps: [
+                    "Configure rates per source jurisdiction with rwa_set_withholding_rules",
+                    "The profile applies to every distribution from now on"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to set holder tax profile: ${error.message}`);
+        }
+    }
+};
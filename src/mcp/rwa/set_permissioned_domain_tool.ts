@@ -0,0 +1,136 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { CREDENTIALS } from "../../constants";
+import { summarizePreparedTransaction } from "../../utils/offline_signing";
+import { summarizeSimulation } from "../../utils/simulation";
+
+export const SetPermissionedDomainTool: McpTool = {
+    name: "rwa_set_permissioned_domain",
+    description: "Create, update or delete a permissioned domain: the set of credentials that qualifies investors for an asset",
+    schema: {
+        action: z.enum(['create', 'update', 'delete'])
+            .describe("Create a new domain, replace an existing domain's accepted credentials, or delete it"),
+        domain_id: z.string()
+            .regex(CREDENTIALS.DOMAIN_ID_REGEX)
+            .optional()
+            .describe("64-character domain ID (required for update and delete)"),
+        accepted_credentials: z.array(z.object({
+            issuer: z.string()
+                .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+                .optional()
+                .describe("Credential issuer (defaults to the compliance issuer account)"),
+            credential_type: z.string()
+                .min(1)
+                .max(CREDENTIALS.MAX_TYPE_BYTES)
+                .describe("Credential type, e.g. 'AccreditedInvestor'")
+        }))
+            .max(CREDENTIALS.MAX_DOMAIN_CREDENTIALS)
+            .optional()
+            .describe(`Credentials that grant membership, any one is enough (1-${CREDENTIALS.MAX_DOMAIN_CREDENTIALS}, required for create and update)`),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transaction and return the expected result, balance changes and fee without submitting it"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transaction for offline signing instead of submitting it")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            if (input.action !== 'create' && !input.domain_id) {
+                return {
+                    status: "error",
+                    message: `❌ domain_id is required to ${input.action} a domain`,
+                    suggestion: "Find domain IDs with rwa_list_permissioned_domains"
+                };
+            }
+
+            if (input.action !== 'delete' && !input.accepted_credentials?.length) {
+                return {
+                    status: "error",
+                    message: "❌ At least one accepted credential is required"
+                };
+            }
+
+            await agent.connect();
+
+            const owner = agent.getComplianceAddress();
+            const prepareOnly = input.prepare_only || agent.prepareOnly;
+
+            if (input.action === 'delete') {
+                if (input.dry_run) {
+                    const simulation = await agent.simulateTransaction(agent.buildPermissionedDomainDelete(input.domain_id));
+                    return summarizeSimulation(simulation, `deletion of permissioned domain ${input.domain_id}`, agent.network, {
+                        domain_id: input.domain_id,
+                        owner
+                    });
+                }
+
+                if (prepareOnly) {
+                    const prepared = await agent.prepareTransaction(agent.buildPermissionedDomainDelete(input.domain_id));
+                    return summarizePreparedTransaction(prepared, `Deletion of permissioned domain ${input.domain_id}`, agent.network);
+                }
+
+                const hash = await agent.deletePermissionedDomain(input.domain_id);
+
+                return {
+                    status: "success",
+                    message: `✅ Deleted permissioned domain ${input.domain_id}`,
+                    transaction_info: {
+                        transaction_hash: hash,
+                        fee_paid: "0.000012 XRP",
+                        network: agent.network
+                    },
+                    effect: "Accredited-only assets that referenced this domain will refuse new recipients until re-tokenized with another domain"
+                };
+            }
+
+            const accepted = (input.accepted_credentials as Array<{ issuer?: string; credential_type: string }>).map(credential => ({
+                issuer: credential.issuer || owner,
+                credentialType: credential.credential_type
+            }));
+
+            if (input.dry_run) {
+                const simulation = await agent.simulateTransaction(agent.buildPermissionedDomainSet(accepted, input.domain_id));
+                return summarizeSimulation(simulation, `${input.action} of a permissioned domain`, agent.network, {
+                    ...(input.domain_id && { domain_id: input.domain_id }),
+                    owner,
+                    accepted_credentials: accepted.map(credential => `${credential.credentialType} from ${credential.issuer}`)
+                });
+            }
+
+            if (prepareOnly) {
+                const prepared = await agent.prepareTransaction(agent.buildPermissionedDomainSet(accepted, input.domain_id));
+                const summary = summarizePreparedTransaction(prepared, `${input.action === 'create' ? 'Creation' : 'Update'} of a permissioned domain`, agent.network);
+                return input.action === 'create'
+                    ? { ...summary, next_steps: [...summary.next_steps, "Once it validates, find the new domain_id with rwa_list_permissioned_domains"] }
+                    : summary;
+            }
+
+            const result = await agent.setPermissionedDomain(accepted, input.domain_id);
+
+            return {
+                status: "success",
+                message: `✅ ${input.action === 'create' ? 'Created' : 'Updated'} permissioned domain ${result.domainId}`,
+                domain: {
+                    domain_id: result.domainId,
+                    owner,
+                    accepted_credentials: accepted.map(credential => `${credential.credentialType} from ${credential.issuer}`)
+                },
+                transaction_info: {
+                    transaction_hash: result.hash,
+                    fee_paid: "0.000012 XRP",
+                    network: agent.network
+                },
+                next_steps: [
+                    "Pass the domain_id as permissioned_domain_id to rwa_tokenize_asset for accredited-only assets",
+                    "Issue matching credentials to investors with rwa_issue_credential"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to ${input.action} permissioned domain: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
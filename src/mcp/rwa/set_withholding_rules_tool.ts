@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { JURISDICTION } from "../../constants";
+import { getWithholdingRules, saveWithholdingRules } from "../../utils/withholding";
+
+const rate = z.number().min(0).max(100);
+
+export const SetWithholdingRulesTool: McpTool = {
+    name: "rwa_set_withholding_rules",
+    description: "Configure the withholding tax rates applied to distributions from assets sourced in a jurisdiction, by holder residence. Omitted rates keep their current values",
+    schema: {
+        source_jurisdiction: z.string()
+            .regex(JURISDICTION.CODE_REGEX)
+            .describe("Jurisdiction the income is sourced in (the asset's jurisdiction), ISO 3166-1 alpha-2 (e.g., 'US')"),
+        domestic_rate: rate.optional()
+            .describe("Percent withheld from holders resident in the source jurisdiction (default 0)"),
+        default_rate: rate.optional()
+            .describe("Percent withheld from foreign holders without a specific rate (default 0)"),
+        jurisdiction_rates: z.record(z.string().regex(JURISDICTION.CODE_REGEX), rate)
+            .optional()
+            .describe("Rates by holder residence, merged into the existing ones (e.g., { \"SG\": 15, \"TH\": 15 })"),
+        undocumented_rate: rate.optional()
+            .describe("Percent withheld from holders with no tax profile (defaults to default_rate)")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            const existing = getWithholdingRules(agent.dataDir, input.source_jurisdiction);
+            const defaultRate = input.default_rate ?? existing?.defaultRate ?? 0;
+
+            const rules = saveWithholdingRules(agent.dataDir, {
+                sourceJurisdiction: input.source_jurisdiction,
+                domesticRate: input.domestic_rate ?? existing?.domesticRate ?? 0,
+                defaultRate,
+                jurisdictionRates: { ...existing?.jurisdictionRates, ...input.jurisdiction_rates },
+                undocumentedRate: input.undocumented_rate ?? existing?.undocumentedRate ?? defaultRate
+            });
+
+            return {
+                status: "success",
+                message: `✅ Withholding rules ${existing ? 'updated' : 'created'} for income sourced in ${rules.sourceJurisdiction}`,
+                rules: {
+                    source_jurisdiction: rules.sourceJurisdiction,
+                    domestic_rate: `${rules.domesticRate}%`,
+                    default_foreign_rate: `${rules.defaultRate}%`,
+                    undocumented_rate: `${rules.undocumentedRate}%`,
+                    jurisdiction_rates: Object.fromEntries(
+                        Object.entries(rules.jurisdictionRates).map(([code, value]) => [code, `${value}%`])
+                    ),
+                    updated_at: rules.updatedAt
+                },
+                note: "Holder exemptions and treaty rates from rwa_set_holder_tax_profile take precedence over these rates",
+                next_steps: [
+                    "Record holder residences with rwa_set_holder_tax_profile",
+                    "Rates apply to distributions from assets tokenized with this jurisdiction"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to set withholding rules: ${error.message}`);
+        }
+    }
+};
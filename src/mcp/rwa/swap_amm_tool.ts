@@ -1,8 +1,12 @@
 import { z } from "zod";
 import { RWAAgent } from "../../agent";
 import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
 import { Payment, xrpToDrops } from 'xrpl';
-import { dropsToXrp } from "../../utils/xrpl_helpers";
+import { dropsToXrp, splitAssetId } from "../../utils/xrpl_helpers";
+import { summarizePreparedTransaction } from "../../utils/offline_signing";
+import { summarizeSimulation } from "../../utils/simulation";
+import { describeComplianceFailures, formatComplianceChecks } from "../../utils/jurisdictions";
 
 export const SwapAMMTool: McpTool = {
     name: "rwa_swap_amm",
@@ -10,11 +14,11 @@ export const SwapAMMTool: McpTool = {
     schema: {
         from_asset: z.union([
             z.literal("XRP"),
-            z.string().regex(/^[A-Z0-9]{3}\.r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            z.string().regex(ASSET_ID.TRUSTLINE_REGEX)
         ]).describe("Asset to swap from: 'XRP' or token in format 'CURRENCY.ISSUER'"),
         to_asset: z.union([
             z.literal("XRP"),
-            z.string().regex(/^[A-Z0-9]{3}\.r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            z.string().regex(ASSET_ID.TRUSTLINE_REGEX)
         ]).describe("Asset to swap to: 'XRP' or token in format 'CURRENCY.ISSUER'"),
         amount: z.number()
             .positive()
@@ -27,7 +31,13 @@ export const SwapAMMTool: McpTool = {
         memo: z.string()
             .max(1000)
             .optional()
-            .describe("Optional memo for the swap transaction")
+            .describe("Optional memo for the swap transaction"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transaction and return the expected result, balance changes and fee without submitting it"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transaction for offline signing instead of submitting it")
     },
     handler: async (agent: RWAAgent, input: Record<string, any>) => {
         try {
@@ -46,14 +56,14 @@ export const SwapAMMTool: McpTool = {
                 fromCurrency = null; // XRP has no currency code
                 fromIssuer = undefined;
             } else {
-                [fromCurrency, fromIssuer] = input.from_asset.split('.');
+                [fromCurrency, fromIssuer] = splitAssetId(input.from_asset);
             }
 
             if (input.to_asset === "XRP") {
                 toCurrency = null; // XRP has no currency code
                 toIssuer = undefined;
             } else {
-                [toCurrency, toIssuer] = input.to_asset.split('.');
+                [toCurrency, toIssuer] = splitAssetId(input.to_asset);
             }
 
             // Check user's balance for the from_asset
@@ -101,6 +111,21 @@ export const SwapAMMTool: McpTool = {
                 console.warn("AMM not found, will try order book routing");
             }
 
+            // Sold tokens go to the pool (or to offer owners) and can be passed on to anyone, so an RWA's transfer
+            // rules (holding period, investor cap, restricted holders) must allow handing them over
+            const sellsRWA = input.from_asset !== "XRP" && !!await agent.getAssetInfo(input.from_asset);
+            const compliance = sellsRWA
+                ? await agent.checkCompliance(input.from_asset, 'transfer', { amount: input.amount, pool: { account: ammInfo?.result?.amm?.account } })
+                : null;
+            if (compliance && !compliance.allowed) {
+                throw new Error(`Swap blocked by ${describeComplianceFailures(compliance)}`);
+            }
+            if (input.from_asset !== "XRP" && !sellsRWA) {
+                // Tokens still inside the asset's holding period cannot be swapped away
+                await agent.assertTransferable(input.from_asset, input.amount);
+            }
+            const complianceChecks = compliance ? { compliance_checks: formatComplianceChecks(compliance) } : {};
+
             console.error("AMM exists about to swap...", ammInfo)
 
             // Estimate output amount with slippage protection
@@ -133,8 +158,8 @@ export const SwapAMMTool: McpTool = {
                 let pathFindRequest: any = {
                     command: 'path_find',
                     subcommand: 'create',
-                    source_account: agent.wallet.address,
-                    destination_account: agent.wallet.address
+                    source_account: agent.address,
+                    destination_account: agent.address
                 };
 
                 // Set source and destination amounts based on swap direction
@@ -181,8 +206,8 @@ export const SwapAMMTool: McpTool = {
                 // XRP -> Token
                 swapTxData = {
                     TransactionType: "Payment",
-                    Account: agent.wallet.address,
-                    Destination: agent.wallet.address,
+                    Account: agent.address,
+                    Destination: agent.address,
                     Amount: {
                         currency: toCurrency!,
                         value: minimumOutput.toString(),
@@ -202,8 +227,8 @@ export const SwapAMMTool: McpTool = {
                 // Token -> XRP
                 swapTxData = {
                     TransactionType: "Payment",
-                    Account: agent.wallet.address,
-                    Destination: agent.wallet.address,
+                    Account: agent.address,
+                    Destination: agent.address,
                     Amount: xrpToDrops(minimumOutput),
                     SendMax: {
                         currency: fromCurrency!,
@@ -222,8 +247,8 @@ export const SwapAMMTool: McpTool = {
                 // Token -> Token
                 swapTxData = {
                     TransactionType: "Payment",
-                    Account: agent.wallet.address,
-                    Destination: agent.wallet.address,
+                    Account: agent.address,
+                    Destination: agent.address,
                     Amount: {
                         currency: toCurrency!,
                         value: minimumOutput.toString(),
@@ -268,10 +293,29 @@ export const SwapAMMTool: McpTool = {
                 }];
             }
 
+            if (input.dry_run) {
+                const simulation = await agent.simulateTransaction(swapTxData);
+                return {
+                    ...summarizeSimulation(simulation, `swap of ${input.amount} ${input.from_asset} to ${input.to_asset}`, agent.network, {
+                        estimated_output: `${estimatedOutput.toFixed(6)} ${input.to_asset === "XRP" ? "XRP" : toCurrency}`,
+                        minimum_output: `${minimumOutput.toFixed(6)} ${input.to_asset === "XRP" ? "XRP" : toCurrency}`,
+                        max_slippage: `${input.max_slippage_percent}%`,
+                        routing: ammInfo?.result?.amm ? "AMM pool" : "Order book"
+                    }),
+                    ...complianceChecks
+                };
+            }
+
+            if (input.prepare_only || agent.prepareOnly) {
+                const prepared = await agent.prepareTransaction(swapTxData);
+                return {
+                    ...summarizePreparedTransaction(prepared, `Swap of ${input.amount} ${input.from_asset} to ${input.to_asset}`, agent.network),
+                    ...complianceChecks
+                };
+            }
+
             // Submit the transaction
-            const payPrepared = await agent.client.autofill(swapTxData);
-            const paySigned = agent.wallet.sign(payPrepared);
-            const payResult: any = await agent.client.submitAndWait(paySigned.tx_blob);
+            const payResult: any = await agent.submitAs(swapTxData);
 
             if (payResult.result.meta.TransactionResult !== "tesSUCCESS") {
                 throw new Error(`Swap failed: ${payResult.result.meta.TransactionResult}`);
@@ -302,7 +346,7 @@ export const SwapAMMTool: McpTool = {
             // Get updated balances
             const updatedBalances = await agent.client.request({
                 command: "account_lines",
-                account: agent.wallet.address,
+                account: agent.address,
                 ledger_index: "validated"
             });
  
@@ -318,7 +362,7 @@ export const SwapAMMTool: McpTool = {
                     swap_rate: `1 ${input.from_asset === "XRP" ? "XRP" : fromCurrency} = ${actualRate.toFixed(6)} ${input.to_asset === "XRP" ? "XRP" : toCurrency}`
                 },
                 transaction_info: {
-                    hash: paySigned.hash,
+                    hash: payResult.result.hash,
                     ledger_index: payResult.result.ledger_index,
                     fee_paid: `${Number(swapTxData.Fee) / 1000000} XRP`,
                     validated: payResult.result.validated,
@@ -339,6 +383,7 @@ export const SwapAMMTool: McpTool = {
                     amm_available: !!ammInfo?.result?.amm,
                     execution_method: "Payment with Paths"
                 },
+                ...complianceChecks,
                 updated_balances: {
                     account_lines: updatedBalances.result.lines,
                     balance_count: updatedBalances.result.lines.length
@@ -1,6 +1,11 @@
 import { z } from "zod";
+import { Wallet } from "xrpl";
 import { RWAAgent } from "../../agent";
-import { type McpTool } from "../../types";
+import { type McpTool, type TokenizeAssetInput } from "../../types";
+import { COMPLIANCE_LIMITS, CREDENTIALS, CURRENCY_CODE, JURISDICTION, MULTISIG } from "../../constants";
+import { describeComplianceFailures, evaluateCompliance, formatComplianceChecks, getJurisdictionProfile } from "../../utils/jurisdictions";
+import { summarizePreparedTransactions } from "../../utils/offline_signing";
+import { summarizeSimulations } from "../../utils/simulation";
 
 export const TokenizeAssetTool: McpTool = {
     name: "rwa_tokenize_asset",
@@ -16,9 +21,10 @@ export const TokenizeAssetTool: McpTool = {
             .positive()
             .describe("Total value of the asset in USD"),
         token_symbol: z.string()
-            .length(3)
-            .regex(/^[A-Z0-9]{3}$/)
-            .describe("3-letter token symbol (e.g., 'BLD', 'TBL', 'GLD')"),
+            .min(CURRENCY_CODE.MIN_LENGTH)
+            .max(CURRENCY_CODE.MAX_LENGTH)
+            .regex(CURRENCY_CODE.ALLOWED_CHARS)
+            .describe("Token symbol, 3-20 uppercase letters or digits (e.g., 'BLD', 'BKKCONDO', 'USTB2027'). Symbols longer than 3 characters are issued as a 40-hex currency code"),
         total_supply: z.number()
             .positive()
             .int()
@@ -30,27 +36,218 @@ export const TokenizeAssetTool: McpTool = {
             .describe("Annual yield percentage (e.g., 6.5 for 6.5%)"),
         accredited_only: z.boolean()
             .default(false)
-            .describe("Restrict to accredited investors only")
+            .describe("Restrict to accredited investors only"),
+        require_auth: z.boolean()
+            .default(false)
+            .describe("Enable RequireAuth so investors can only hold tokens after the issuer approves their trustline"),
+        allow_clawback: z.boolean()
+            .default(false)
+            .describe("Allow the issuer to claw back tokens from holders (court orders, compliance). Can only be set at tokenization"),
+        jurisdiction: z.string()
+            .regex(JURISDICTION.CODE_REGEX)
+            .default(JURISDICTION.DEFAULT)
+            .describe("Country where the asset and its income are sourced, as an ISO 3166-1 alpha-2 code (e.g., 'US', 'SG', 'TH'). Selects the offering rules (US, SG and TH built in) and the withholding rules for distributions"),
+        max_investors: z.number()
+            .int()
+            .min(1)
+            .optional()
+            .describe("Maximum number of investors who may hold the token (defaults to the jurisdiction's limit for the offering type, e.g. 99 for US offerings open to non-accredited investors)"),
+        permissioned_domain_id: z.string()
+            .regex(CREDENTIALS.DOMAIN_ID_REGEX)
+            .optional()
+            .describe("Accredited-only assets: permissioned domain whose credentials qualify holders (defaults to an AccreditedInvestor credential from the compliance issuer)"),
+        holding_period_days: z.number()
+            .int()
+            .min(0)
+            .max(COMPLIANCE_LIMITS.MAX_HOLDING_PERIOD_DAYS)
+            .optional()
+            .describe("Days each holder must keep newly acquired tokens before they can transfer them (defaults to the jurisdiction's minimum, 0 = no lockup)"),
+        issuer_seed: z.string()
+            .optional()
+            .describe("Seed of an existing issuer account to use (optional, a dedicated issuer account is generated by default)"),
+        issuer_funding_xrp: z.number()
+            .min(2)
+            .optional()
+            .describe("XRP sent from the operator wallet to activate a new issuer account (default: 10)"),
+        issuer_address: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .optional()
+            .describe("Existing issuer account controlled by a signer list (master key disabled). Issuer transactions are multi-signed with the signer keys held here. With prepare_only, any existing account whose key is held offline"),
+        issuer_signers: z.array(z.object({
+            address: z.string()
+                .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+                .describe("Signer account"),
+            weight: z.number()
+                .int()
+                .min(1)
+                .max(MULTISIG.MAX_SIGNER_WEIGHT)
+                .default(1)
+                .describe("Weight of this signer's signature")
+        }))
+            .min(1)
+            .max(MULTISIG.MAX_SIGNERS)
+            .optional()
+            .describe("Hand the new issuer over to these signers once the tokens are issued; its master key is then disabled"),
+        issuer_signer_quorum: z.number()
+            .int()
+            .min(1)
+            .optional()
+            .describe("Signer weight needed to act for the issuer (required with issuer_signers)"),
+        token_standard: z.enum(['trustline', 'mpt'])
+            .default('trustline')
+            .describe("Token standard: 'trustline' (classic issued currency) or 'mpt' (XLS-33 Multi-Purpose Token with on-ledger metadata)"),
+        asset_scale: z.number()
+            .int()
+            .min(0)
+            .max(15)
+            .optional()
+            .describe("MPT only: number of decimal places the token supports (default: 0)"),
+        transfer_fee: z.number()
+            .int()
+            .min(0)
+            .max(50000)
+            .optional()
+            .describe("MPT only: fee charged on secondary transfers in units of 0.001% (e.g., 500 = 0.5%, max 50000 = 50%)"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transactions and return the expected results, balance changes and fees without submitting them"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transactions for offline signing instead of submitting them (requires issuer_address)")
     },
     handler: async (agent: RWAAgent, input: Record<string, any>) => {
         try {
+            if (input.issuer_address && input.issuer_seed) {
+                return {
+                    status: "error",
+                    message: "❌ Pass either issuer_address or issuer_seed, not both"
+                };
+            }
+
+            if (input.issuer_signers?.length && !input.issuer_signer_quorum) {
+                return {
+                    status: "error",
+                    message: "❌ issuer_signer_quorum is required with issuer_signers"
+                };
+            }
+
+            const profile = getJurisdictionProfile(agent.dataDir, input.jurisdiction);
+            const holdingPeriodDays = input.holding_period_days ?? profile?.minHoldingPeriodDays ?? 0;
+            const compliance = evaluateCompliance(profile, input.jurisdiction, 'tokenize', {
+                compliance: {
+                    accreditedOnly: input.accredited_only,
+                    maxInvestors: input.max_investors,
+                    holdingPeriodDays,
+                    requireAuth: input.require_auth
+                }
+            });
+            if (!compliance.allowed) {
+                return {
+                    status: "error",
+                    message: `❌ Offering breaks ${input.jurisdiction} rules: ${describeComplianceFailures(compliance)}`,
+                    compliance_checks: formatComplianceChecks(compliance)
+                };
+            }
+
             await agent.connect();
 
-            const result = await agent.tokenizeAsset({
+            if (input.permissioned_domain_id && !(await agent.getPermissionedDomain(input.permissioned_domain_id))) {
+                return {
+                    status: "error",
+                    message: `❌ Permissioned domain ${input.permissioned_domain_id} not found`,
+                    suggestion: "List domains with rwa_list_permissioned_domains"
+                };
+            }
+
+            const tokenizeInput: TokenizeAssetInput = {
                 type: input.asset_type,
                 name: input.asset_name,
                 totalValue: input.total_value,
                 tokenSymbol: input.token_symbol,
                 totalSupply: input.total_supply,
                 yieldRate: input.yield_rate,
-                accreditedOnly: input.accredited_only
-            });
+                accreditedOnly: input.accredited_only,
+                requireAuth: input.require_auth,
+                allowClawback: input.allow_clawback,
+                jurisdiction: input.jurisdiction,
+                holdingPeriodDays,
+                maxInvestors: input.max_investors,
+                permissionedDomainId: input.permissioned_domain_id,
+                issuerSeed: input.issuer_seed,
+                issuerFundingXrp: input.issuer_funding_xrp,
+                issuerAddress: input.issuer_address,
+                issuerSigners: input.issuer_signers,
+                issuerSignerQuorum: input.issuer_signer_quorum,
+                tokenStandard: input.token_standard,
+                assetScale: input.asset_scale,
+                transferFee: input.transfer_fee
+            };
+
+            if (input.dry_run) {
+                // Without an issuer, a real run generates one, so a throwaway address stands in for it
+                const knownIssuer = !!(input.issuer_address || input.issuer_seed);
+                const plan = await agent.planTokenization({
+                    ...tokenizeInput,
+                    issuerAddress: knownIssuer ? tokenizeInput.issuerAddress : Wallet.generate().address
+                });
+                const simulated = await agent.simulateTransactions(plan.steps.map(step => ({ ...step, step: step.type })));
+
+                return {
+                    ...summarizeSimulations(simulated, `tokenization of ${input.asset_name} as ${input.token_symbol}`, agent.network, {
+                        ...(knownIssuer && plan.assetId && { token_id: plan.assetId }),
+                        token_standard: plan.tokenStandard,
+                        issuer_address: knownIssuer ? plan.issuerAddress : "Generated when tokenizing",
+                        total_supply: input.total_supply,
+                        price_per_token: `$${(input.total_value / input.total_supply).toFixed(2)}`,
+                        ...(!plan.issuerActive && {
+                            issuer_active: false,
+                            note: "The issuer account does not exist yet, so only its activation payment could be simulated"
+                        })
+                    }),
+                    compliance_checks: formatComplianceChecks(compliance)
+                };
+            }
+
+            if (input.prepare_only || agent.prepareOnly) {
+                const plan = await agent.planTokenization(tokenizeInput);
+                const prepared = await agent.prepareTransactions(plan.steps.map(step => step.transaction));
+                const summary = summarizePreparedTransactions(
+                    prepared.map((item, index) => ({ ...item, step: plan.steps[index].type })),
+                    `Tokenization of ${input.asset_name} as ${input.token_symbol}`,
+                    agent.network
+                );
+
+                if (!plan.issuerActive) {
+                    return {
+                        ...summary,
+                        message: `📝 Issuer ${plan.issuerAddress} does not exist yet, so only its activation payment was prepared - nothing was submitted`,
+                        next_steps: [
+                            ...summary.next_steps,
+                            "Once the payment validates, run rwa_tokenize_asset with prepare_only again to prepare the tokenization itself"
+                        ]
+                    };
+                }
+
+                return {
+                    ...summary,
+                    token_info: {
+                        token_id: plan.assetId,
+                        token_standard: plan.tokenStandard,
+                        issuer_address: plan.issuerAddress
+                    },
+                    note: "Nothing is saved locally; once the transactions validate the asset is found through its on-ledger tokenization memo"
+                };
+            }
+
+            const result = await agent.tokenizeAsset(tokenizeInput);
 
             const pricePerToken = input.total_value / input.total_supply;
 
             return {
                 status: result.status,
-                message: `✅ Successfully tokenized ${input.asset_name} as ${input.token_symbol}`,
+                message: result.status === 'error'
+                    ? `❌ ${result.message}`
+                    : `✅ Successfully tokenized ${input.asset_name} as ${input.token_symbol}`,
                 asset_details: {
                     name: input.asset_name,
                     type: input.asset_type,
@@ -61,21 +258,44 @@ export const TokenizeAssetTool: McpTool = {
                 },
                 token_info: {
                     token_id: result.tokenId,
+                    token_standard: result.tokenStandard || input.token_standard,
                     currency_code: result.currency,
-                    issuer_address: result.issuerAddress
+                    issuer_address: result.issuerAddress,
+                    issuer_key: result.status !== 'success'
+                        ? 'Not available'
+                        : input.issuer_address
+                            ? 'None - the issuer signs through its signer list'
+                            : `Stored in local keystore (${agent.dataDir}) under ${result.tokenId}`,
+                    ...(input.issuer_signers?.length && result.status === 'success' && {
+                        issuer_control: `Signer list of ${input.issuer_signers.length} (quorum ${input.issuer_signer_quorum}); master key disabled`
+                    })
                 },
                 next_steps: [
                     "Set up yield distribution (if income-generating asset)",
-                    "Create trustlines for investors",
+                    input.token_standard === 'mpt'
+                        ? "Have investors opt in to the MPT (MPTokenAuthorize) before receiving tokens"
+                        : "Create trustlines for investors",
+                    ...(input.require_auth && input.token_standard !== 'mpt' ? ["Approve investor trustlines with rwa_authorize_trustline"] : []),
                     "Configure secondary market trading",
                     "Begin investor onboarding"
                 ],
                 compliance: {
                     accredited_only: input.accredited_only,
-                    jurisdiction: "US (default for MVP)",
-                    regulatory_notes: input.accredited_only
-                        ? "⚖️ Restricted to accredited investors under Regulation D"
-                        : "⚖️ Consider SEC registration requirements for public offerings"
+                    require_auth: input.require_auth,
+                    clawback_enabled: input.allow_clawback,
+                    jurisdiction: input.jurisdiction,
+                    max_investors: input.max_investors
+                        ?? (input.accredited_only ? profile?.investorCap.accredited : profile?.investorCap.retail)
+                        ?? 'No cap',
+                    holding_period: holdingPeriodDays ? `${holdingPeriodDays} days from each acquisition` : 'None',
+                    ...(input.accredited_only && {
+                        required_credential: input.permissioned_domain_id
+                            ? `Any credential accepted by domain ${input.permissioned_domain_id}`
+                            : `${CREDENTIALS.ACCREDITED_INVESTOR} from ${agent.getComplianceAddress()}`
+                    }),
+                    offering_regime: profile ? `${profile.regime} (${profile.regulator})` : 'Not set',
+                    rule_checks: formatComplianceChecks(compliance),
+                    regulatory_notes: input.accredited_only ? profile?.notes.accredited : profile?.notes.retail
                 }
             };
         } catch (error: any) {
@@ -0,0 +1,146 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
+import { summarizePreparedTransaction } from "../../utils/offline_signing";
+import { summarizeSimulation } from "../../utils/simulation";
+
+export const UpdateAssetMetadataTool: McpTool = {
+    name: "rwa_update_asset_metadata",
+    description: "Record a versioned amendment to an RWA asset's metadata (e.g. a quarterly revaluation or new yield rate), anchored on-ledger by the issuer",
+    schema: {
+        asset_id: z.string()
+            .regex(ASSET_ID.ANY_REGEX)
+            .describe("Asset ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw') or a 48-character MPT issuance ID"),
+        total_value: z.number()
+            .positive()
+            .optional()
+            .describe("New total value of the asset in USD (e.g., after a revaluation)"),
+        yield_rate: z.number()
+            .min(0)
+            .max(50)
+            .optional()
+            .describe("New annual yield percentage"),
+        asset_name: z.string()
+            .min(1)
+            .max(50)
+            .optional()
+            .describe("New display name for the asset"),
+        reason: z.string()
+            .min(5)
+            .max(200)
+            .describe("Why the metadata is changing (e.g., 'Q3 2025 independent valuation')"),
+        effective_date: z.string()
+            .regex(/^\d{4}-\d{2}-\d{2}$/)
+            .optional()
+            .describe("Date the change takes effect (YYYY-MM-DD, defaults to now)"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transaction and return the expected result, balance changes and fee without submitting it"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transaction for offline signing instead of submitting it")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            const changes = {
+                ...(input.total_value !== undefined && { totalValue: input.total_value }),
+                ...(input.yield_rate !== undefined && { yieldRate: input.yield_rate }),
+                ...(input.asset_name !== undefined && { name: input.asset_name })
+            };
+
+            if (Object.keys(changes).length === 0) {
+                return {
+                    status: "error",
+                    message: "❌ Nothing to update",
+                    suggestion: "Provide at least one of total_value, yield_rate or asset_name"
+                };
+            }
+
+            await agent.connect();
+
+            if (input.dry_run) {
+                const { amendment, previous, transaction } = await agent.buildMetadataAmendment(input.asset_id, changes, {
+                    reason: input.reason,
+                    effectiveDate: input.effective_date
+                });
+                const simulation = await agent.simulateTransaction(transaction);
+                const after = { ...previous, ...changes };
+
+                return summarizeSimulation(simulation, `version ${amendment.version} of the ${input.asset_id} metadata`, agent.network, {
+                    version: `${previous.version} → ${amendment.version}`,
+                    total_value: `$${previous.totalValue.toLocaleString()} → $${after.totalValue.toLocaleString()}`,
+                    yield_rate: `${previous.yieldRate || 0}% → ${after.yieldRate || 0}%`,
+                    asset_name: `${previous.name} → ${after.name}`
+                });
+            }
+
+            if (input.prepare_only || agent.prepareOnly) {
+                const { amendment, transaction } = await agent.buildMetadataAmendment(input.asset_id, changes, {
+                    reason: input.reason,
+                    effectiveDate: input.effective_date
+                });
+                const prepared = await agent.prepareTransaction(transaction);
+
+                return {
+                    ...summarizePreparedTransaction(prepared, `Version ${amendment.version} of the ${input.asset_id} metadata`, agent.network),
+                    amendment: {
+                        asset_id: input.asset_id,
+                        version: amendment.version,
+                        reason: input.reason,
+                        effective_date: input.effective_date || new Date().toISOString().slice(0, 10),
+                        changes
+                    },
+                    note: "The local asset registry and audit log are only updated for amendments this server submits"
+                };
+            }
+
+            const result = await agent.updateAssetMetadata(input.asset_id, changes, {
+                reason: input.reason,
+                effectiveDate: input.effective_date
+            });
+
+            const pricePerToken = (asset: { totalValue: number; totalSupply: number }) =>
+                asset.totalSupply ? `$${(asset.totalValue / asset.totalSupply).toFixed(2)}` : "Not calculated";
+
+            return {
+                status: "success",
+                message: `✅ ${result.current.tokenSymbol} metadata amended to version ${result.version}`,
+                amendment: {
+                    asset_id: input.asset_id,
+                    version: result.version,
+                    reason: input.reason,
+                    effective_date: input.effective_date || new Date().toISOString().slice(0, 10),
+                    changes
+                },
+                before: {
+                    version: result.previous.version,
+                    asset_name: result.previous.name,
+                    total_value: `$${result.previous.totalValue.toLocaleString()}`,
+                    yield_rate: `${result.previous.yieldRate || 0}%`,
+                    price_per_token: pricePerToken(result.previous)
+                },
+                after: {
+                    version: result.current.version,
+                    asset_name: result.current.name,
+                    total_value: `$${result.current.totalValue.toLocaleString()}`,
+                    yield_rate: `${result.current.yieldRate || 0}%`,
+                    price_per_token: pricePerToken(result.current)
+                },
+                transaction_info: {
+                    transaction_hash: result.transactionHash,
+                    fee_paid: "0.000012 XRP",
+                    network: agent.network
+                },
+                next_steps: [
+                    "Review the full version history with rwa_get_asset_info",
+                    "Notify token holders of the updated valuation"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to update asset metadata: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
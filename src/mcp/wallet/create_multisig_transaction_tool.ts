@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { summarizeProposal } from "../../utils/multisig";
+
+export const CreateMultisigTransactionTool: McpTool = {
+    name: "rwa_create_multisig_transaction",
+    description: "Build a transaction for an account controlled by a signer list, sign it with the signer keys this server holds, and submit it once the quorum is met. Signatures from other signers can be added later",
+    schema: {
+        account: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .optional()
+            .describe("Account the transaction is for (defaults to the operator wallet)"),
+        transaction: z.record(z.any())
+            .describe("Transaction JSON, e.g. {\"TransactionType\": \"Payment\", \"Destination\": \"r...\", \"Amount\": \"1000000\"}. Account, Fee and Sequence are filled in"),
+        description: z.string()
+            .min(3)
+            .max(200)
+            .describe("What the transaction does, shown to the other signers"),
+        submit: z.boolean()
+            .default(true)
+            .describe("Submit as soon as the quorum is met (false to collect signatures only)")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const account = input.account || agent.address;
+            const proposal = await agent.proposeMultisigTransaction(
+                { ...input.transaction, Account: account } as any,
+                input.description,
+                { submit: input.submit }
+            );
+            const summary = summarizeProposal(proposal);
+
+            return {
+                status: proposal.status === 'failed' ? "error" : "success",
+                message: proposal.status === 'submitted'
+                    ? `✅ ${proposal.transaction.TransactionType} for ${account} multi-signed and validated`
+                    : proposal.status === 'failed'
+                        ? `❌ Multisig transaction ${proposal.id} failed: ${proposal.engineResult || proposal.error}`
+                        : `🖊️ Proposal ${proposal.id} created with ${summary.signatures}`,
+                proposal: summary,
+                ...(proposal.status === 'pending' && {
+                    // Signers elsewhere sign this exact JSON for multi-signing, e.g. wallet.sign(tx, true) in xrpl.js
+                    transaction_to_sign: proposal.transaction
+                }),
+                next_steps: proposal.status === 'pending'
+                    ? [
+                        "Have the remaining signers sign transaction_to_sign for multi-signing",
+                        `Add each signed blob with rwa_sign_multisig_transaction (proposal_id '${proposal.id}')`,
+                        "Other transactions from this account use up its sequence number; sign this one before sending them"
+                    ]
+                    : ["Check the result with rwa_get_transaction_history"]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to create multisig transaction: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
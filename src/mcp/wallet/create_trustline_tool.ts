@@ -1,36 +1,47 @@
 import { z } from "zod";
 import { RWAAgent } from "../../agent";
 import { type McpTool } from "../../types";
+import { encodeCurrencyCode } from "../../utils/xrpl_helpers";
+import { summarizePreparedTransaction } from "../../utils/offline_signing";
+import { summarizeSimulation } from "../../utils/simulation";
 
 export const CreateTrustlineTool: McpTool = {
     name: "rwa_create_trustline",
     description: "Create a trustline to hold RWA tokens from an issuer",
     schema: {
         currency: z.string()
-            .length(3)
-            .regex(/^[A-Z0-9]{3}$/)
-            .describe("3-letter currency code (e.g., 'BLD', 'TBL', 'GLD')"),
+            .regex(/^([A-Z0-9]{3,20}|[0-9A-Fa-f]{40})$/)
+            .describe("Currency code: a 3-20 character ticker (e.g., 'BLD', 'BKKCONDO') or a 40-hex currency code"),
         issuer: z.string()
             .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
             .describe("Issuer's XRPL address"),
         limit: z.number()
             .positive()
             .optional()
-            .describe("Maximum amount willing to hold (optional, defaults to 1000000000)")
+            .describe("Maximum amount willing to hold (optional, defaults to 1000000000)"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transaction and return the expected result, balance changes and fee without submitting it"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transaction for offline signing instead of submitting it")
     },
     handler: async (agent: RWAAgent, input: Record<string, any>) => {
         try {
             await agent.connect();
 
+            // Tickers longer than 3 characters live on-ledger as 40-hex codes
+            const currency = encodeCurrencyCode(input.currency);
+
             // Check if trustline already exists
             const existingLines = await agent.client.request({
                 command: 'account_lines',
-                account: agent.wallet.address,
+                account: agent.address,
                 ledger_index: 'validated'
             });
 
             const existingTrustline = existingLines.result.lines.find((line: any) => 
-                line.currency === input.currency && line.account === input.issuer
+                line.currency === currency && line.account === input.issuer
             );
 
             if (existingTrustline) {
@@ -52,25 +63,35 @@ export const CreateTrustlineTool: McpTool = {
             // Create new trustline
             const trustSet: any = {
                 TransactionType: 'TrustSet',
-                Account: agent.wallet.address,
+                Account: agent.address,
                 LimitAmount: {
-                    currency: input.currency,
+                    currency: currency,
                     issuer: input.issuer,
                     value: (input.limit || 1000000000).toString()
                 },
                 Fee: '12'
             };
 
-            const result = await agent.client.submitAndWait(trustSet, { wallet: agent.wallet });
+            if (input.dry_run) {
+                const simulation = await agent.simulateTransaction(trustSet);
+                return summarizeSimulation(simulation, `trustline to ${input.currency}.${input.issuer}`, agent.network);
+            }
+
+            if (input.prepare_only || agent.prepareOnly) {
+                const prepared = await agent.prepareTransaction(trustSet);
+                return summarizePreparedTransaction(prepared, `Trustline to ${input.currency}.${input.issuer}`, agent.network);
+            }
+
+            const result = await agent.submitAs(trustSet);
 
             return {
                 status: "success",
                 message: `✅ Trustline created for ${input.currency} tokens`,
                 trustline_details: {
-                    currency: input.currency,
+                    currency: currency,
                     issuer: input.issuer,
                     limit: input.limit || 1000000000,
-                    asset_id: `${input.currency}.${input.issuer}`,
+                    asset_id: `${currency}.${input.issuer}`,
                     current_balance: 0,
                     ready_to_receive: true
                 },
@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
+import { summarizePreparedTransaction } from "../../utils/offline_signing";
+import { summarizeSimulation } from "../../utils/simulation";
+import { parseAssetId } from "../../utils/xrpl_helpers";
+
+export const FreezeTrustlineTool: McpTool = {
+    name: "rwa_freeze_trustline",
+    description: "Freeze or unfreeze a single holder's position in an RWA token (issuer only)",
+    schema: {
+        token_id: z.string()
+            .regex(ASSET_ID.TRUSTLINE_REGEX)
+            .describe("Token ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw')"),
+        holder_address: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .describe("XRPL address of the holder whose trustline should be frozen or unfrozen"),
+        action: z.enum(['freeze', 'unfreeze'])
+            .describe("Whether to freeze or unfreeze the holder's trustline"),
+        reason: z.string()
+            .max(200)
+            .optional()
+            .describe("Reason for the action, echoed back for record keeping"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transaction and return the expected result, balance changes and fee without submitting it"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transaction for offline signing instead of submitting it")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const asset = parseAssetId(input.token_id);
+            if (!asset) {
+                throw new Error(`Invalid token ID: ${input.token_id}`);
+            }
+
+            const freeze = input.action === 'freeze';
+            const status = await agent.getFreezeStatus(input.token_id);
+
+            if (freeze && status.noFreeze) {
+                return {
+                    status: "error",
+                    message: "❌ Issuer has permanently given up the ability to freeze (NoFreeze is set)",
+                    error_details: {
+                        issuer: asset.issuer,
+                        solution: "Freezing is not possible for this token"
+                    }
+                };
+            }
+
+            const isFrozen = status.frozenHolders.some(holder => holder.address === input.holder_address);
+            if (isFrozen === freeze) {
+                return {
+                    status: "info",
+                    message: `ℹ️ ${asset.currency} trustline for ${input.holder_address.substring(0, 8)}... is already ${freeze ? 'frozen' : 'unfrozen'}`
+                };
+            }
+
+            if (input.dry_run) {
+                const simulation = await agent.simulateTransaction(agent.buildTrustlineFreeze(input.token_id, input.holder_address, freeze));
+                return summarizeSimulation(simulation, `${input.action} of the ${asset.currency} trustline for ${input.holder_address}`, agent.network, {
+                    trustline_frozen_after: freeze,
+                    global_freeze_active: status.globalFreeze,
+                    frozen_holders_after: status.frozenHolders.length + (freeze ? 1 : -1)
+                });
+            }
+
+            if (input.prepare_only || agent.prepareOnly) {
+                const prepared = await agent.prepareTransaction(agent.buildTrustlineFreeze(input.token_id, input.holder_address, freeze));
+                return summarizePreparedTransaction(prepared, `${freeze ? 'Freeze' : 'Unfreeze'} of the ${asset.currency} trustline for ${input.holder_address}`, agent.network);
+            }
+
+            const hash = await agent.setTrustlineFreeze(input.token_id, input.holder_address, freeze);
+
+            return {
+                status: "success",
+                message: `${freeze ? '🧊' : '✅'} ${freeze ? 'Froze' : 'Unfroze'} ${asset.currency} trustline for ${input.holder_address.substring(0, 8)}...`,
+                freeze_details: {
+                    token_id: input.token_id,
+                    holder: input.holder_address,
+                    action: input.action,
+                    reason: input.reason || "Not provided",
+                    global_freeze_active: status.globalFreeze
+                },
+                transaction_info: {
+                    transaction_hash: hash,
+                    fee_paid: "0.000012 XRP",
+                    network: agent.network
+                },
+                effect: freeze
+                    ? "Holder can only send tokens back to the issuer until unfrozen"
+                    : "Holder can transfer tokens normally again"
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to ${input.action} trustline: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
@@ -15,8 +15,8 @@ export const GetAccountBalancesTool: McpTool = {
         try {
             await agent.connect();
 
-            const targetAddress = input.account_address || agent.wallet.address;
-            const isOwnWallet = targetAddress === agent.wallet.address;
+            const targetAddress = input.account_address || agent.address;
+            const isOwnWallet = targetAddress === agent.address;
 
             // Get account info for XRP balance
             const accountInfo = await agent.client.request({
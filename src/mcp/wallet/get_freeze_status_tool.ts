@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
+import { parseAssetId } from "../../utils/xrpl_helpers";
+
+export const GetFreezeStatusTool: McpTool = {
+    name: "rwa_get_freeze_status",
+    description: "Report global and per-holder freeze state for an RWA token",
+    schema: {
+        token_id: z.string()
+            .regex(ASSET_ID.TRUSTLINE_REGEX)
+            .describe("Token ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw')")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const asset = parseAssetId(input.token_id);
+            if (!asset) {
+                throw new Error(`Invalid token ID: ${input.token_id}`);
+            }
+
+            const status = await agent.getFreezeStatus(input.token_id);
+
+            return {
+                status: "success",
+                message: status.globalFreeze
+                    ? `🧊 ${asset.currency} trading is halted (global freeze)`
+                    : `✅ ${asset.currency} is trading normally with ${status.frozenHolders.length} frozen holder(s)`,
+                freeze_state: {
+                    token_id: input.token_id,
+                    global_freeze: status.globalFreeze,
+                    no_freeze: status.noFreeze,
+                    frozen_holder_count: status.frozenHolders.length,
+                    total_trustlines: status.totalTrustlines
+                },
+                frozen_holders: status.frozenHolders,
+                notes: [
+                    ...(status.noFreeze ? ["Issuer has NoFreeze set and can no longer freeze this token"] : []),
+                    "Use rwa_freeze_trustline for a single holder or rwa_global_freeze for the whole issuer"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to get freeze status: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
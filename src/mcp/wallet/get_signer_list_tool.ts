@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { getSignedWeight, listMultisigProposals } from "../../utils/multisig";
+
+export const GetSignerListTool: McpTool = {
+    name: "rwa_get_signer_list",
+    description: "Show an account's multi-signature quorum, its signers, which signer keys this server holds and whether the master key can still sign alone",
+    schema: {
+        account: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .optional()
+            .describe("Account to inspect (defaults to the operator wallet)")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const account = input.account || agent.address;
+            const signerList = await agent.getSignerList(account);
+
+            if (signerList.quorum === 0) {
+                return {
+                    status: "success",
+                    message: `🔑 ${account} has no signer list; its own key signs alone`,
+                    account,
+                    master_key: signerList.masterDisabled ? "Disabled" : "Enabled",
+                    next_steps: ["Set up a quorum with rwa_set_signer_list"]
+                };
+            }
+
+            const heldHere = agent.getLocalSigners(signerList).map(signer => signer.address);
+            const localWeight = getSignedWeight(signerList.signers, heldHere);
+            const pending = listMultisigProposals(agent.dataDir, { account, status: 'pending' });
+
+            return {
+                status: "success",
+                message: `🖊️ ${account} needs signer weight ${signerList.quorum} from ${signerList.signers.length} signer(s)`,
+                signer_list: {
+                    account,
+                    quorum: signerList.quorum,
+                    signers: signerList.signers.map(signer => ({
+                        address: signer.address,
+                        weight: signer.weight,
+                        key_held_here: heldHere.includes(signer.address)
+                    })),
+                    master_key: signerList.masterDisabled ? "Disabled - only the signer list can sign" : "Enabled - can still sign alone"
+                },
+                local_signing: {
+                    weight_held_here: localWeight,
+                    can_sign_alone: localWeight >= signerList.quorum
+                },
+                pending_proposals: pending.length,
+                next_steps: [
+                    ...(localWeight < signerList.quorum ? ["Transactions need signatures from signers outside this server; see rwa_sign_multisig_transaction"] : []),
+                    ...(pending.length > 0 ? ["Review pending proposals with rwa_list_multisig_transactions"] : [])
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to get signer list: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
@@ -21,8 +21,8 @@ export const GetTransactionHistoryTool: McpTool = {
         try {
             await agent.connect();
 
-            const targetAddress = input.account_address || agent.wallet.address;
-            const isOwnWallet = targetAddress === agent.wallet.address;
+            const targetAddress = input.account_address || agent.address;
+            const isOwnWallet = targetAddress === agent.address;
 
             // Get transaction history
             const transactions = await agent.client.request({
@@ -17,7 +17,7 @@ export const GetWalletInfoTool: McpTool = {
                 status: "success",
                 message: "✅ Wallet information retrieved successfully",
                 wallet_details: {
-                    address: agent.wallet.address,
+                    address: agent.address,
                     network: agent.network,
                     balance: `${balanceInXRP.toFixed(6)} XRP`,
                     balance_in_drops: walletInfo.account_data.Balance,
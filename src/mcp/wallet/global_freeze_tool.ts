@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { ASSET_ID } from "../../constants";
+import { summarizePreparedTransaction } from "../../utils/offline_signing";
+import { summarizeSimulation } from "../../utils/simulation";
+import { parseAssetId } from "../../utils/xrpl_helpers";
+
+export const GlobalFreezeTool: McpTool = {
+    name: "rwa_global_freeze",
+    description: "Halt or resume trading of every token from an RWA issuer (global freeze)",
+    schema: {
+        token_id: z.string()
+            .regex(ASSET_ID.TRUSTLINE_REGEX)
+            .describe("Token ID in format 'CURRENCY.ISSUER' (e.g., 'PAT.rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw')"),
+        action: z.enum(['enable', 'disable'])
+            .describe("Enable to halt all trading of the issuer's tokens, disable to resume"),
+        reason: z.string()
+            .max(200)
+            .optional()
+            .describe("Reason for the action, echoed back for record keeping"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transaction and return the expected result, balance changes and fee without submitting it"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transaction for offline signing instead of submitting it")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const asset = parseAssetId(input.token_id);
+            if (!asset) {
+                throw new Error(`Invalid token ID: ${input.token_id}`);
+            }
+
+            const enable = input.action === 'enable';
+            const status = await agent.getFreezeStatus(input.token_id);
+
+            if (enable && status.noFreeze) {
+                return {
+                    status: "error",
+                    message: "❌ Issuer has permanently given up the ability to freeze (NoFreeze is set)",
+                    error_details: {
+                        issuer: asset.issuer,
+                        solution: "Global freeze is not possible for this issuer"
+                    }
+                };
+            }
+
+            if (status.globalFreeze === enable) {
+                return {
+                    status: "info",
+                    message: `ℹ️ Global freeze is already ${enable ? 'enabled' : 'disabled'} for ${asset.issuer.substring(0, 8)}...`
+                };
+            }
+
+            if (input.dry_run) {
+                const simulation = await agent.simulateTransaction(agent.buildGlobalFreeze(input.token_id, enable));
+                return summarizeSimulation(simulation, `global freeze ${enable ? 'enable' : 'disable'} for ${asset.issuer}`, agent.network, {
+                    global_freeze_after: enable,
+                    affected_trustlines: status.totalTrustlines,
+                    individually_frozen_trustlines: status.frozenHolders.length
+                });
+            }
+
+            if (input.prepare_only || agent.prepareOnly) {
+                const prepared = await agent.prepareTransaction(agent.buildGlobalFreeze(input.token_id, enable));
+                return {
+                    ...summarizePreparedTransaction(prepared, `Global freeze ${enable ? 'enable' : 'disable'} for ${asset.issuer}`, agent.network),
+                    note: "The local asset registry keeps the current status; it is only updated when this server submits the freeze itself"
+                };
+            }
+
+            const hash = await agent.setGlobalFreeze(input.token_id, enable);
+
+            return {
+                status: "success",
+                message: enable
+                    ? `🧊 Trading halted for all tokens issued by ${asset.issuer.substring(0, 8)}...`
+                    : `✅ Trading resumed for tokens issued by ${asset.issuer.substring(0, 8)}...`,
+                freeze_details: {
+                    issuer: asset.issuer,
+                    global_freeze: enable,
+                    reason: input.reason || "Not provided",
+                    affected_trustlines: status.totalTrustlines
+                },
+                transaction_info: {
+                    transaction_hash: hash,
+                    fee_paid: "0.000012 XRP",
+                    network: agent.network
+                },
+                effect: enable
+                    ? "Holders can only send tokens back to the issuer; DEX and AMM trading is halted"
+                    : "Holders can trade again (individually frozen trustlines stay frozen)"
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to update global freeze: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
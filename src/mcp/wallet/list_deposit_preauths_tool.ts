@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+
+export const ListDepositPreauthsTool: McpTool = {
+    name: "rwa_list_deposit_preauths",
+    description: "Show whether an account requires deposit preauthorization and which senders or credential sets it has preauthorized",
+    schema: {
+        account: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .optional()
+            .describe("Account to inspect (defaults to the operator wallet)")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const account = input.account || agent.address;
+            const { depositAuth, preauths } = await agent.getDepositPreauths(account);
+            const senders = preauths.filter(preauth => preauth.sender);
+            const credentialSets = preauths.filter(preauth => preauth.credentials);
+
+            return {
+                status: "success",
+                message: depositAuth
+                    ? `🔒 ${account} only accepts funds from ${preauths.length} preauthorized sender(s)/credential set(s)`
+                    : `🔓 ${account} accepts funds from anyone (Deposit Authorization is off)`,
+                account,
+                deposit_auth_enabled: depositAuth,
+                preauthorized_senders: senders.map(preauth => preauth.sender),
+                preauthorized_credentials: credentialSets.map(preauth =>
+                    preauth.credentials!.map(credential => `${credential.credentialType} from ${credential.issuer}`).join(' + ')
+                ),
+                next_steps: [
+                    depositAuth
+                        ? "Add or remove counterparties with rwa_set_deposit_auth"
+                        : "Restrict incoming funds with rwa_set_deposit_auth (action 'enable')"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to list deposit preauthorizations: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
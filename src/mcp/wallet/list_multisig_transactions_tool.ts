@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { listMultisigProposals, summarizeProposal } from "../../utils/multisig";
+
+export const ListMultisigTransactionsTool: McpTool = {
+    name: "rwa_list_multisig_transactions",
+    description: "List multisig proposals and the signatures they have collected",
+    schema: {
+        account: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .optional()
+            .describe("Only proposals for this account"),
+        status: z.enum(['pending', 'submitted', 'failed'])
+            .optional()
+            .describe("Only proposals with this status")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            const proposals = listMultisigProposals(agent.dataDir, {
+                account: input.account,
+                status: input.status
+            });
+
+            if (proposals.length === 0) {
+                return {
+                    status: "success",
+                    message: "ℹ️ No multisig proposals found",
+                    next_steps: ["Create one with rwa_create_multisig_transaction"]
+                };
+            }
+
+            return {
+                status: "success",
+                message: `✅ ${proposals.length} multisig proposal(s)`,
+                proposals: proposals.map(summarizeProposal),
+                next_steps: proposals.some(proposal => proposal.status === 'pending')
+                    ? ["Add signatures to pending proposals with rwa_sign_multisig_transaction"]
+                    : []
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to list multisig proposals: ${error.message}`);
+        }
+    }
+};
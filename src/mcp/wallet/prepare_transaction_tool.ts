@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { summarizePreparedTransaction } from "../../utils/offline_signing";
+
+export const PrepareTransactionTool: McpTool = {
+    name: "rwa_prepare_transaction",
+    description: "Autofill any transaction and return it unsigned, as JSON and as a binary blob, for signing offline. Use it for write operations that have no prepare_only option of their own",
+    schema: {
+        account: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .optional()
+            .describe("Account the transaction is for (defaults to the operator wallet)"),
+        transaction: z.record(z.any())
+            .describe("Transaction JSON, e.g. {\"TransactionType\": \"TrustSet\", \"LimitAmount\": {...}}. Account, Fee, Sequence and LastLedgerSequence are filled in"),
+        description: z.string()
+            .max(200)
+            .optional()
+            .describe("What the transaction does, repeated in the output for the signer")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const account = input.account || agent.address;
+            const prepared = await agent.prepareTransaction({ ...input.transaction, Account: account } as any);
+
+            return summarizePreparedTransaction(
+                prepared,
+                input.description || `${prepared.transaction.TransactionType} for ${account}`,
+                agent.network
+            );
+        } catch (error: any) {
+            throw new Error(`Failed to prepare transaction: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
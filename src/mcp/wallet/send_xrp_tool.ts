@@ -1,6 +1,8 @@
 import { z } from "zod";
 import { RWAAgent } from "../../agent";
 import { type McpTool } from "../../types";
+import { summarizePreparedTransaction } from "../../utils/offline_signing";
+import { summarizeSimulation } from "../../utils/simulation";
 
 export const SendXRPTool: McpTool = {
     name: "rwa_send_xrp",
@@ -20,7 +22,13 @@ export const SendXRPTool: McpTool = {
             .min(0)
             .max(4294967295)
             .optional()
-            .describe("Optional destination tag")
+            .describe("Optional destination tag"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transaction and return the expected result, balance changes and fee without submitting it"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transaction for offline signing instead of submitting it")
     },
     handler: async (agent: RWAAgent, input: Record<string, any>) => {
         try {
@@ -44,16 +52,33 @@ export const SendXRPTool: McpTool = {
                 };
             }
 
+            // Accounts with Deposit Authorization only accept funds from senders they have preauthorized
+            const depositAuth = await agent.checkDepositAuthorization(input.destination);
+            if (!depositAuth.authorized) {
+                return {
+                    status: "error",
+                    message: "❌ Destination requires deposit preauthorization",
+                    error_details: {
+                        issue: `${input.destination} has Deposit Authorization enabled and has not preauthorized ${agent.address}`,
+                        suggestion: `Ask the destination to preauthorize ${agent.address} (or a credential this wallet holds) with a DepositPreauth transaction`
+                    }
+                };
+            }
+
             // Prepare payment transaction
             const payment: any = {
                 TransactionType: 'Payment',
-                Account: agent.wallet.address,
+                Account: agent.address,
                 Destination: input.destination,
                 Amount: (input.amount * 1000000).toString(), // Convert to drops
                 Fee: '12' // Standard fee in drops
             };
 
             // Add optional fields
+            if (depositAuth.credentialIds) {
+                payment.CredentialIDs = depositAuth.credentialIds;
+            }
+
             if (input.destination_tag !== undefined) {
                 payment.DestinationTag = input.destination_tag;
             }
@@ -66,8 +91,25 @@ export const SendXRPTool: McpTool = {
                 }];
             }
 
+            if (input.dry_run) {
+                const simulation = await agent.simulateTransaction(payment);
+                return summarizeSimulation(simulation, `payment of ${input.amount} XRP to ${input.destination}`, agent.network, {
+                    balance_before: `${currentBalance.toFixed(6)} XRP`,
+                    expected_balance_after: `${(currentBalance - requiredAmount).toFixed(6)} XRP`
+                });
+            }
+
+            if (input.prepare_only || agent.prepareOnly) {
+                const prepared = await agent.prepareTransaction(payment);
+                return summarizePreparedTransaction(prepared, `Payment of ${input.amount} XRP to ${input.destination}`, agent.network);
+            }
+
             // Submit transaction
-            const result = await agent.client.submitAndWait(payment, { wallet: agent.wallet });
+            const result: any = await agent.submitAs(payment);
+
+            if (result.result.meta?.TransactionResult !== 'tesSUCCESS') {
+                throw new Error(`Payment failed: ${result.result.meta?.TransactionResult}`);
+            }
 
             // Get new balance
             const newWalletInfo = await agent.getWalletInfo();
@@ -80,11 +122,16 @@ export const SendXRPTool: McpTool = {
                     transaction_hash: result.result.hash,
                     ledger_index: result.result.ledger_index,
                     fee_paid: "0.000012 XRP",
-                    from_address: agent.wallet.address,
+                    from_address: agent.address,
                     to_address: input.destination,
                     amount_sent: `${input.amount} XRP`,
                     memo: input.memo || "None",
-                    destination_tag: input.destination_tag || "None"
+                    destination_tag: input.destination_tag || "None",
+                    ...(depositAuth.required && {
+                        deposit_authorization: depositAuth.credentialIds
+                            ? `Authorized by ${depositAuth.credentialIds.length} credential(s)`
+                            : "Sender preauthorized by destination"
+                    })
                 },
                 balance_changes: {
                     previous_balance: `${currentBalance.toFixed(6)} XRP`,
@@ -115,6 +162,17 @@ export const SendXRPTool: McpTool = {
                 };
             }
 
+            if (error.message.includes('tecNO_PERMISSION')) {
+                return {
+                    status: "error",
+                    message: "❌ Payment failed - destination requires deposit preauthorization",
+                    error_details: {
+                        issue: "Destination only accepts payments from preauthorized senders",
+                        suggestion: "Ask the destination to preauthorize this wallet, then retry"
+                    }
+                };
+            }
+
             throw new Error(`Failed to send XRP: ${error.message}`);
         } finally {
             await agent.disconnect();
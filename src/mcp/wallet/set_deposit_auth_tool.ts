@@ -0,0 +1,163 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { CREDENTIALS } from "../../constants";
+import { summarizePreparedTransaction, summarizePreparedTransactions } from "../../utils/offline_signing";
+import { summarizeSimulation, summarizeSimulations } from "../../utils/simulation";
+
+export const SetDepositAuthTool: McpTool = {
+    name: "rwa_set_deposit_auth",
+    description: "Restrict a managed account (treasury, escrow) to receiving funds only from preauthorized counterparties, and add or remove those preauthorizations",
+    schema: {
+        action: z.enum(['enable', 'disable', 'authorize', 'unauthorize'])
+            .describe("enable/disable Deposit Authorization on the account, or authorize/unauthorize senders or credentials"),
+        account: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .optional()
+            .describe("Managed account to configure (defaults to the operator wallet; issuer and keystore accounts also work)"),
+        senders: z.array(z.string().regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/))
+            .optional()
+            .describe("Counterparty addresses to authorize or unauthorize"),
+        credentials: z.array(z.object({
+            issuer: z.string()
+                .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+                .optional()
+                .describe("Credential issuer (defaults to the compliance issuer account)"),
+            credential_type: z.string()
+                .min(1)
+                .max(CREDENTIALS.MAX_TYPE_BYTES)
+                .describe("Credential type, e.g. 'KYC'")
+        }))
+            .max(CREDENTIALS.MAX_PREAUTH_CREDENTIALS)
+            .optional()
+            .describe("A credential set: any sender holding all of these credentials is authorized (requires the Credentials amendment)"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transactions and return the expected results, balance changes and fees without submitting them"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transactions for offline signing instead of submitting them")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            const changingPreauths = input.action === 'authorize' || input.action === 'unauthorize';
+
+            if (changingPreauths && !input.senders?.length && !input.credentials?.length) {
+                return {
+                    status: "error",
+                    message: `❌ Provide senders and/or credentials to ${input.action}`
+                };
+            }
+
+            await agent.connect();
+
+            // Without signing, the account's key is not needed here
+            const prepareOnly = input.prepare_only || agent.prepareOnly;
+            const account = input.dry_run || prepareOnly ? input.account || agent.address : agent.getManagedWallet(input.account).address;
+
+            if (!changingPreauths) {
+                const enable = input.action === 'enable';
+
+                if (input.dry_run) {
+                    const simulation = await agent.simulateTransaction(agent.buildDepositAuth(account, enable));
+                    const { preauths } = await agent.getDepositPreauths(account);
+                    return summarizeSimulation(simulation, `Deposit Authorization ${enable ? 'enable' : 'disable'} for ${account}`, agent.network, {
+                        deposit_auth_after: enable,
+                        preauthorizations: preauths.length
+                    });
+                }
+
+                if (prepareOnly) {
+                    const prepared = await agent.prepareTransaction(agent.buildDepositAuth(account, enable));
+                    return summarizePreparedTransaction(prepared, `Deposit Authorization ${enable ? 'enable' : 'disable'} for ${account}`, agent.network);
+                }
+
+                const hash = await agent.setDepositAuth(account, enable);
+                const { preauths } = await agent.getDepositPreauths(account);
+
+                return {
+                    status: "success",
+                    message: `${enable ? '🔒' : '🔓'} Deposit Authorization ${enable ? 'enabled' : 'disabled'} for ${account}`,
+                    transaction_info: {
+                        transaction_hash: hash,
+                        fee_paid: "0.000012 XRP",
+                        network: agent.network
+                    },
+                    effect: enable
+                        ? `Only the ${preauths.length} preauthorized sender(s)/credential set(s) can send funds to ${account}`
+                        : `${account} accepts funds from anyone again`,
+                    next_steps: enable && preauths.length === 0
+                        ? ["Authorize counterparties with action 'authorize' - until then, nobody can send funds to this account"]
+                        : ["Review preauthorizations with rwa_list_deposit_preauths"]
+                };
+            }
+
+            const remove = input.action === 'unauthorize';
+            const credentials = (input.credentials as Array<{ issuer?: string; credential_type: string }> | undefined)?.map(credential => ({
+                issuer: credential.issuer || agent.getComplianceAddress(),
+                credentialType: credential.credential_type
+            }));
+
+            const preauthChanges = [
+                ...((input.senders || []) as string[]).map(sender => agent.buildDepositPreauth(account, { sender }, remove)),
+                ...(credentials?.length ? [agent.buildDepositPreauth(account, { credentials }, remove)] : [])
+            ];
+
+            if (input.dry_run) {
+                const simulated = await agent.simulateTransactions(preauthChanges.map(transaction => ({ transaction })));
+                const { depositAuth, preauths } = await agent.getDepositPreauths(account);
+                return summarizeSimulations(simulated, `${remove ? 'removal' : 'addition'} of deposit preauthorizations on ${account}`, agent.network, {
+                    deposit_auth_enabled: depositAuth,
+                    preauthorizations_now: preauths.length,
+                    changes: preauthChanges.length
+                });
+            }
+
+            if (prepareOnly) {
+                const prepared = await agent.prepareTransactions(preauthChanges);
+                return summarizePreparedTransactions(prepared, `${remove ? 'Removal' : 'Addition'} of deposit preauthorizations on ${account}`, agent.network);
+            }
+
+            const results = [];
+
+            for (const sender of (input.senders || []) as string[]) {
+                try {
+                    const hash = await agent.setDepositPreauth(account, { sender }, remove);
+                    results.push({ preauthorization: sender, status: remove ? "removed" : "authorized", transaction_hash: hash });
+                } catch (error: any) {
+                    results.push({ preauthorization: sender, status: "failed", error: error.message });
+                }
+            }
+
+            if (credentials?.length) {
+                const label = credentials.map(credential => `${credential.credentialType} from ${credential.issuer}`).join(' + ');
+
+                try {
+                    const hash = await agent.setDepositPreauth(account, { credentials }, remove);
+                    results.push({ preauthorization: label, status: remove ? "removed" : "authorized", transaction_hash: hash });
+                } catch (error: any) {
+                    results.push({ preauthorization: label, status: "failed", error: error.message });
+                }
+            }
+
+            const failed = results.filter(r => r.status === "failed").length;
+            const { depositAuth } = await agent.getDepositPreauths(account);
+
+            return {
+                status: failed === 0 ? "success" : failed < results.length ? "partial" : "error",
+                message: `${failed === 0 ? '✅' : '⚠️'} ${remove ? 'Removed' : 'Added'} ${results.length - failed} preauthorization(s) on ${account}, ${failed} failed`,
+                account,
+                deposit_auth_enabled: depositAuth,
+                results,
+                next_steps: [
+                    ...(!depositAuth ? ["Preauthorizations only take effect once Deposit Authorization is enabled (action 'enable')"] : []),
+                    "Review preauthorizations with rwa_list_deposit_preauths"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to update deposit authorization: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
@@ -0,0 +1,140 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { MULTISIG } from "../../constants";
+import { summarizePreparedTransactions } from "../../utils/offline_signing";
+import { summarizeSimulations } from "../../utils/simulation";
+import { validateSignerList } from "../../utils/validation";
+
+export const SetSignerListTool: McpTool = {
+    name: "rwa_set_signer_list",
+    description: "Put an issuer or treasury account under a multi-signature quorum (SignerListSet), optionally disabling its master key so no single seed controls it",
+    schema: {
+        action: z.enum(['set', 'remove'])
+            .default('set')
+            .describe("'set' replaces the signer list, 'remove' deletes it (not possible while the master key is disabled)"),
+        account: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .optional()
+            .describe("Issuer or treasury account to configure (defaults to the operator wallet)"),
+        signers: z.array(z.object({
+            address: z.string()
+                .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+                .describe("Signer account"),
+            weight: z.number()
+                .int()
+                .min(1)
+                .max(MULTISIG.MAX_SIGNER_WEIGHT)
+                .default(1)
+                .describe("Weight of this signer's signature")
+        }))
+            .max(MULTISIG.MAX_SIGNERS)
+            .optional()
+            .describe("Signers that can act for the account"),
+        quorum: z.number()
+            .int()
+            .min(1)
+            .optional()
+            .describe("Total signer weight needed for a transaction (e.g., 2 for 2-of-3 with weight 1 each)"),
+        disable_master_key: z.boolean()
+            .default(false)
+            .describe("Disable the account's master key once the signer list is set, so only the signers can act for it"),
+        dry_run: z.boolean()
+            .default(false)
+            .describe("Simulate the transactions and return the expected results, balance changes and fees without submitting them"),
+        prepare_only: z.boolean()
+            .default(false)
+            .describe("Return the autofilled, unsigned transactions for offline signing instead of submitting them")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            const remove = input.action === 'remove';
+
+            if (!remove) {
+                const validation = validateSignerList(input.account || agent.address, input.quorum || 0, input.signers || []);
+                if (!validation.valid) {
+                    return {
+                        status: "error",
+                        message: `❌ ${validation.error}`
+                    };
+                }
+            }
+
+            await agent.connect();
+
+            const account = input.account || agent.address;
+
+            if (input.dry_run) {
+                const transactions = agent.buildSignerListTransactions(
+                    account,
+                    remove ? 0 : input.quorum,
+                    remove ? [] : input.signers,
+                    { disableMasterKey: input.disable_master_key }
+                );
+                // Disabling the master key is only allowed once the signer list exists
+                const simulated = await agent.simulateTransactions(transactions.map((transaction, index) => ({
+                    step: index === 0 ? (remove ? "signer_list_removal" : "signer_list") : "disable_master_key",
+                    transaction,
+                    dependsOnEarlierSteps: index > 0
+                })));
+                const current = await agent.getSignerList(account);
+
+                return summarizeSimulations(simulated, remove ? `signer list removal for ${account}` : `signer list for ${account}`, agent.network, {
+                    quorum: `${current.quorum || 'none'} → ${remove ? 'none' : input.quorum}`,
+                    signers: `${current.signers.length} → ${remove ? 0 : input.signers.length}`,
+                    master_key_after: input.disable_master_key || current.masterDisabled ? "Disabled" : "Enabled"
+                });
+            }
+
+            if (input.prepare_only || agent.prepareOnly) {
+                const prepared = await agent.prepareTransactions(agent.buildSignerListTransactions(
+                    account,
+                    remove ? 0 : input.quorum,
+                    remove ? [] : input.signers,
+                    { disableMasterKey: input.disable_master_key }
+                ));
+                return summarizePreparedTransactions(prepared, remove ? `Signer list removal for ${account}` : `Signer list for ${account}`, agent.network);
+            }
+
+            const result = await agent.setSignerList(
+                account,
+                remove ? 0 : input.quorum,
+                remove ? [] : input.signers,
+                { disableMasterKey: input.disable_master_key }
+            );
+            const signerList = await agent.getSignerList(account);
+            const heldHere = agent.getLocalSigners(signerList).map(signer => signer.address);
+
+            return {
+                status: "success",
+                message: remove
+                    ? `✅ Signer list removed from ${account}`
+                    : `✅ ${account} now needs signer weight ${signerList.quorum} from ${signerList.signers.length} signer(s)`,
+                signer_list: {
+                    account,
+                    quorum: signerList.quorum,
+                    signers: signerList.signers.map(signer => ({
+                        address: signer.address,
+                        weight: signer.weight,
+                        key_held_here: heldHere.includes(signer.address)
+                    })),
+                    master_key: signerList.masterDisabled ? "Disabled - only the signer list can sign" : "Enabled"
+                },
+                transaction_info: {
+                    transaction_hash: result.signerListHash,
+                    ...(result.disableMasterHash && { disable_master_key_hash: result.disableMasterHash }),
+                    network: agent.network
+                },
+                next_steps: remove ? [] : [
+                    ...(signerList.masterDisabled ? [] : ["The master key can still sign alone; set disable_master_key to enforce the quorum"]),
+                    "Import signer seeds with `npm run keystore import` so this server can sign with them, or collect signatures with rwa_sign_multisig_transaction",
+                    "Review the signer list with rwa_get_signer_list"
+                ]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to set signer list: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { MULTISIG } from "../../constants";
+import { summarizeProposal } from "../../utils/multisig";
+
+export const SignMultisigTransactionTool: McpTool = {
+    name: "rwa_sign_multisig_transaction",
+    description: "Add signatures to a pending multisig proposal, either a blob signed by an external signer or the signer keys this server holds, and submit it once the quorum is met",
+    schema: {
+        proposal_id: z.string()
+            .regex(MULTISIG.PROPOSAL_ID_REGEX)
+            .describe("Proposal ID (e.g., 'MS-1A2B3C4D5E6F')"),
+        signed_blob: z.string()
+            .regex(/^[0-9A-Fa-f]+$/)
+            .optional()
+            .describe("Transaction blob one external signer signed for multi-signing; without it, the signer keys held here sign"),
+        submit: z.boolean()
+            .default(true)
+            .describe("Submit as soon as the quorum is met")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const proposal = await agent.signMultisigProposal(input.proposal_id, {
+                signedBlob: input.signed_blob,
+                submit: input.submit
+            });
+            const summary = summarizeProposal(proposal);
+
+            return {
+                status: proposal.status === 'failed' ? "error" : "success",
+                message: proposal.status === 'submitted'
+                    ? `✅ Proposal ${proposal.id} reached quorum and was validated`
+                    : proposal.status === 'failed'
+                        ? `❌ Proposal ${proposal.id} failed: ${proposal.engineResult || proposal.error}`
+                        : proposal.transactionHash
+                            ? `⏳ Proposal ${proposal.id} was submitted but is not validated yet`
+                            : `🖊️ Proposal ${proposal.id} now has ${summary.signatures}`,
+                proposal: summary,
+                next_steps: proposal.status === 'pending'
+                    ? [proposal.transactionHash
+                        ? "Run this tool again for the proposal in a minute to check whether it was validated"
+                        : "Collect the remaining signatures and add them with this tool"]
+                    : proposal.status === 'failed'
+                        ? ["Create a new proposal with rwa_create_multisig_transaction"]
+                        : ["Check the result with rwa_get_transaction_history"]
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to sign multisig transaction: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+import { summarizeSimulation } from "../../utils/simulation";
+
+export const SimulateTransactionTool: McpTool = {
+    name: "rwa_simulate_transaction",
+    description: "Dry-run any transaction: autofill it and run it through the ledger's simulate RPC to see the expected result, balance changes and fee without submitting. Use it for write operations that have no dry_run option of their own",
+    schema: {
+        account: z.string()
+            .regex(/^r[1-9A-HJ-NP-Za-km-z]{25,34}$/)
+            .optional()
+            .describe("Account the transaction is for (defaults to the operator wallet)"),
+        transaction: z.record(z.any())
+            .describe("Transaction JSON, e.g. {\"TransactionType\": \"Clawback\", \"Amount\": {...}}. Account, Fee and Sequence are filled in"),
+        description: z.string()
+            .max(200)
+            .optional()
+            .describe("What the transaction does, repeated in the output")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const account = input.account || agent.address;
+            const simulation = await agent.simulateTransaction({ ...input.transaction, Account: account } as any);
+
+            return summarizeSimulation(
+                simulation,
+                input.description || `${simulation.transaction.TransactionType} for ${account}`,
+                agent.network
+            );
+        } catch (error: any) {
+            throw new Error(`Failed to simulate transaction: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { RWAAgent } from "../../agent";
+import { type McpTool } from "../../types";
+
+export const SubmitSignedTool: McpTool = {
+    name: "rwa_submit_signed",
+    description: "Submit a transaction that was signed offline and wait for it to be validated",
+    schema: {
+        tx_blob: z.string()
+            .regex(/^[0-9A-Fa-f]+$/)
+            .describe("Signed transaction blob (hex), e.g. the tx_blob returned by wallet.sign() in xrpl.js")
+    },
+    handler: async (agent: RWAAgent, input: Record<string, any>) => {
+        try {
+            await agent.connect();
+
+            const result: any = await agent.submitSigned(input.tx_blob);
+            const tx = result.result.tx_json || result.result;
+            const engineResult = result.result.meta?.TransactionResult;
+            const succeeded = engineResult === 'tesSUCCESS';
+
+            return {
+                status: succeeded ? "success" : "error",
+                message: succeeded
+                    ? `✅ ${tx.TransactionType} from ${tx.Account} validated`
+                    : `❌ ${tx.TransactionType} from ${tx.Account} failed: ${engineResult}`,
+                transaction_info: {
+                    transaction_hash: result.result.hash,
+                    transaction_type: tx.TransactionType,
+                    account: tx.Account,
+                    result: engineResult,
+                    ledger_index: result.result.ledger_index,
+                    fee_paid: tx.Fee ? `${Number(tx.Fee) / 1000000} XRP` : "Unknown",
+                    network: agent.network
+                },
+                next_steps: succeeded
+                    ? ["Check the result with rwa_get_transaction_history"]
+                    : ["Fix the cause shown in result, prepare the transaction again and sign the new version"]
+            };
+        } catch (error: any) {
+            if (/tefPAST_SEQ|tefMAX_LEDGER/.test(error.message)) {
+                return {
+                    status: "error",
+                    message: "❌ Signed transaction has expired",
+                    error_details: {
+                        issue: "Its sequence number was already used or its LastLedgerSequence has passed",
+                        suggestion: "Prepare the transaction again and sign the new version"
+                    }
+                };
+            }
+
+            throw new Error(`Failed to submit signed transaction: ${error.message}`);
+        } finally {
+            await agent.disconnect();
+        }
+    }
+};
@@ -1,3 +1,5 @@
+import type { SubmittableTransaction } from 'xrpl';
+
 // Core RWA Types
 
 // 🏢 Core Asset Representation
@@ -9,6 +11,20 @@ export interface RWAAsset {
   tokenSymbol: string;
   totalSupply: number;
   yieldRate?: number; // Annual yield percentage
+  version?: number; // Latest metadata version (1 = as tokenized)
+  history?: AssetAmendment[];
+}
+
+// 📈 Versioned change to an asset's metadata (e.g. a quarterly revaluation)
+export interface AssetAmendment {
+  assetId: string;
+  version: number;
+  timestamp: number;
+  changes: Partial<Pick<RWAAsset, 'name' | 'totalValue' | 'yieldRate'>>;
+  reason?: string;
+  effectiveDate?: string;
+  transactionHash?: string;
+  ledgerIndex?: number;
 }
 
 // 💰 Yield Distribution (for income-generating assets)
@@ -19,6 +35,246 @@ export interface YieldDistribution {
   nextPayment?: Date;
 }
 
+// ⏰ Recurring yield distribution for one asset
+export interface DistributionSchedule extends Omit<YieldDistribution, 'nextPayment'> {
+  assetId: string;
+  payoutCurrency: string; // 'XRP' or CURRENCY.ISSUER
+  amountPerPeriod?: number; // Fixed payout; otherwise derived from the asset value and rate
+  startDate: string; // Due date of the first period
+  nextPeriodIndex: number; // First period that has not been paid
+  nextPayment: string; // Due date of that period
+  status: 'active' | 'paused';
+  memo?: string;
+  outstandingPayments?: OutstandingDistributionPayment[]; // Holders a paid period still owes, retried on every run
+  lastRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 💸 A scheduled payment one holder has not received yet
+export interface OutstandingDistributionPayment {
+  periodIndex: number;
+  periodDate: string;
+  reference?: string; // Distribution the payment belongs to
+  address: string;
+  amount: number; // Net amount, after any withholding
+  hash?: string; // Last attempt; looked up before paying again
+  lastLedgerSequence?: number;
+  error?: string;
+}
+
+// 🧾 One scheduled period paid (or attempted)
+export interface DistributionRunRecord {
+  assetId: string;
+  periodIndex: number;
+  periodDate: string;
+  executedAt: string;
+  trigger: 'tool' | 'scheduler';
+  status: 'success' | 'partial' | 'error';
+  amount: number;
+  payoutCurrency: string;
+  totalDistributed: number;
+  recipientCount: number;
+  reference?: string;
+  retry?: boolean; // Only re-paid holders an earlier run of the period left unpaid
+  unpaidRecipients?: Array<{ address: string; amount: number; error?: string }>;
+  error?: string;
+}
+
+// 📸 Token holders and balances as of a specific ledger (record date)
+export interface HolderSnapshot {
+  id: string;
+  assetId: string;
+  network: string;
+  ledgerIndex: number;
+  ledgerCloseTime: string;
+  label?: string;
+  totalBalance: number; // Sum of holder balances (excludes the issuer)
+  holders: Array<{
+    address: string;
+    balance: number;
+    percentage: number;
+    frozen: boolean;
+  }>;
+  createdAt: string;
+}
+
+// 📦 One line of a bulk issuance and how far it got
+export interface BulkIssuanceEntry {
+  row: number; // Line in the CSV or 1-based position in the JSON list
+  address: string;
+  amount: number;
+  status: 'pending' | 'submitted' | 'success' | 'failed' | 'skipped';
+  hash?: string; // Recorded before submission so a crashed run can look the payment up
+  lastLedgerSequence?: number;
+  error?: string;
+  completedAt?: string;
+}
+
+// 📦 Persisted progress of a bulk issuance, keyed by a hash of the asset and list
+export interface BulkIssuanceProgress {
+  batchId: string;
+  label?: string;
+  assetId: string;
+  network: string;
+  entries: BulkIssuanceEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BulkIssuanceResult {
+  status: 'success' | 'partial' | 'error';
+  batchId: string;
+  message: string;
+  entries: BulkIssuanceEntry[];
+  issuedThisRun: number;
+  previouslyIssued: number; // Entries paid by an earlier run and skipped this time
+  totalIssued: number; // Tokens delivered across all runs
+  compliance?: ComplianceEvaluation; // Jurisdiction rules checked before issuing
+}
+
+// 🎟️ Outcome of one transaction sent through the batch submitter
+export interface BatchSubmissionOutcome {
+  id: string;
+  status: 'success' | 'failed' | 'unknown'; // unknown: submitted but the result could not be confirmed
+  hash?: string;
+  ticketSequence?: number; // Absent when the batch was submitted on the account sequence
+  engineResult?: string;
+  error?: string;
+  attempts: number;
+}
+
+// 🔒 Tokens a holder acquired in one transaction and still holds
+export interface AcquisitionLot {
+  amount: number;
+  acquiredAt: string;
+  hash: string;
+  ledgerIndex: number;
+}
+
+// 🔒 Acquisition history of one holder for one asset, rebuilt incrementally from their transactions
+export interface HolderAcquisitions {
+  assetId: string;
+  address: string;
+  lots: AcquisitionLot[]; // Oldest first; transfers out consume the oldest lots
+  scannedToLedger: number;
+  updatedAt: string;
+}
+
+export interface LockupStatus {
+  assetId: string;
+  address: string;
+  holdingPeriodDays: number;
+  exempt: boolean; // The issuer is never locked: its payments issue new tokens
+  balance: number;
+  lockedBalance: number;
+  unlockedBalance: number;
+  nextUnlock?: string;
+  lots: Array<AcquisitionLot & { unlocksAt: string; locked: boolean }>;
+}
+
+// 👥 Result of checking new holders against an asset's investor cap
+export interface InvestorCapCheck {
+  assetId: string;
+  cap?: number; // Undefined when no cap applies
+  rule: string; // Which limit applied, e.g. the asset's own maxInvestors or the unregistered-offering limit
+  currentHolders: number; // Investors holding a balance now (issuer and treasury excluded)
+  newHolders: string[]; // Addresses that do not hold the asset yet
+  projectedHolders: number;
+  allowed: boolean;
+  warning?: string;
+}
+
+// 🏛️ Offering rules for one jurisdiction, consulted before tokenizing, issuing, transferring and distributing
+export interface JurisdictionProfile {
+  code: string; // ISO 3166-1 alpha-2
+  name: string;
+  regulator: string;
+  regime: string; // Offering exemption the rules are based on
+  investorCap: { retail?: number; accredited?: number }; // Default caps by offering type (undefined = no cap)
+  accreditationRequired: boolean; // Offerings must be restricted to accredited investors
+  minHoldingPeriodDays: number; // Lockup applied to every asset; assets may set a longer one
+  authorizedRecipientsOnly: boolean; // Holders must be approved by the issuer (RequireAuth)
+  withholdingExpected: boolean; // Distributions normally have tax withheld at source
+  notes: { accredited: string; retail: string };
+}
+
+export type ComplianceAction = 'tokenize' | 'issue' | 'transfer' | 'distribute';
+
+export interface ComplianceCheck {
+  rule: string;
+  passed: boolean;
+  severity: 'block' | 'warn'; // A failed 'block' check stops the action; 'warn' is reported only
+  detail: string;
+}
+
+export interface ComplianceEvaluation {
+  jurisdiction: string;
+  action: ComplianceAction;
+  allowed: boolean;
+  checks: ComplianceCheck[];
+}
+
+// 🪪 A credential (issuer + type) that qualifies an account
+export interface AcceptedCredential {
+  issuer: string;
+  credentialType: string; // Plain text, e.g. 'AccreditedInvestor'
+}
+
+// 🪪 XLS-70 credential held by (or offered to) an investor
+export interface InvestorCredential extends AcceptedCredential {
+  subject: string;
+  accepted: boolean; // The subject has accepted it with CredentialAccept
+  expiration?: string; // ISO date
+  expired: boolean;
+  uri?: string;
+  index: string; // Ledger entry ID
+}
+
+// 🏛️ Permissioned domain: a set of credentials that grants membership
+export interface PermissionedDomainInfo {
+  domainId: string;
+  owner: string;
+  acceptedCredentials: AcceptedCredential[];
+}
+
+// 🖊️ One member of an account's signer list
+export interface SignerListEntry {
+  address: string;
+  weight: number;
+}
+
+// 🖊️ An account's signer list (SignerListSet) and whether transactions for it must be multi-signed
+export interface SignerListInfo {
+  account: string;
+  quorum: number; // 0 when the account has no signer list
+  signers: SignerListEntry[];
+  masterDisabled: boolean;
+  multisigRequired: boolean; // Signer list set and master key disabled
+}
+
+// 🖊️ A transaction collecting signatures from an account's signer list
+export interface MultisigProposal {
+  id: string;
+  account: string;
+  description: string;
+  transaction: Record<string, any>; // Autofilled and unsigned; no LastLedgerSequence, so signatures can be collected over time
+  quorum: number;
+  signatures: Array<{
+    signer: string;
+    weight: number;
+    txBlob: string; // Transaction signed by this signer alone
+    source: 'local' | 'imported';
+    signedAt: string;
+  }>;
+  status: 'pending' | 'submitted' | 'failed';
+  transactionHash?: string;
+  engineResult?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // 🛒 Simple Trading Configuration
 export interface TradingConfig {
   enableTrading: boolean;
@@ -37,6 +293,7 @@ export interface ComplianceConfig {
 export interface TokenizationResult {
   status: 'success' | 'error'; 
   tokenId: string;
+  tokenStandard?: 'trustline' | 'mpt';
   currency: string;
   issuerAddress: string;
   message: string;
@@ -54,12 +311,79 @@ export interface TokenizationResult {
   };
 }
 
+export interface DistributionRecipient {
+  address: string;
+  tokenBalance: number;
+  sharePercentage: number;
+  amount: number; // Net amount paid, after any withholding
+  grossAmount?: number; // Pro-rata share before withholding
+  withheldAmount?: number;
+  withholdingRate?: number; // Percent
+  status: 'success' | 'failed' | 'skipped';
+  hash?: string;
+  lastLedgerSequence?: number; // Of the last signed attempt, to look up payments whose outcome is unknown
+  error?: string;
+}
+
 export interface DistributionResult {
   status: 'success' | 'partial' | 'error';
   totalDistributed: number;
   recipientCount: number;
   transactionHashes: string[];
   message: string;
+  assetId?: string;
+  reference?: string;
+  payoutCurrency?: string; // 'XRP' or the CURRENCY.ISSUER of the IOU paid out
+  snapshotId?: string; // Holder snapshot the payout was based on (live balances otherwise)
+  recordLedgerIndex?: number;
+  recipients?: DistributionRecipient[];
+  withholding?: WithholdingReport; // Present when tax was withheld from any recipient
+}
+
+// 🧾 Tax residence of one holder, used to withhold tax on distributions
+export interface HolderTaxProfile {
+  address: string;
+  jurisdiction: string; // Country of tax residence (ISO 3166-1 alpha-2)
+  treatyRate?: number; // Percent; overrides the rule set's rate for the jurisdiction
+  exempt: boolean;
+  exemptionReason?: string;
+  documentation?: string; // e.g. 'W-8BEN received 2025-03-01'
+  updatedAt: string;
+}
+
+// ⚖️ Withholding rates for income sourced in one jurisdiction
+export interface WithholdingRuleSet {
+  sourceJurisdiction: string;
+  domesticRate: number; // Holders resident in the source jurisdiction
+  defaultRate: number; // Foreign holders without a more specific rate
+  jurisdictionRates: Record<string, number>; // Rates by country of residence (e.g. treaty rates)
+  undocumentedRate: number; // Holders without a tax profile
+  updatedAt: string;
+}
+
+export interface WithholdingReportLine {
+  address: string;
+  jurisdiction?: string;
+  rate: number;
+  rateSource: 'exempt' | 'treaty' | 'domestic' | 'jurisdiction' | 'default' | 'undocumented' | 'none';
+  grossAmount: number;
+  withheldAmount: number;
+  netAmount: number;
+  paymentStatus: DistributionRecipient['status'];
+}
+
+// 📑 Gross, withheld and net amounts for one distribution
+export interface WithholdingReport {
+  reference: string;
+  assetId: string;
+  sourceJurisdiction: string;
+  payoutCurrency: string;
+  ruleSetUpdatedAt?: string; // Version of the rule set applied (absent when none was configured)
+  totalGross: number; // Totals cover successful payments only
+  totalWithheld: number;
+  totalNet: number;
+  lines: WithholdingReportLine[];
+  createdAt: string;
 }
 
 export interface TradingResult {
@@ -79,9 +403,15 @@ export interface McpTool {
 
 // 🏗️ Agent Configuration
 export interface RWAConfig {
-  privateKey: string;
+  privateKey?: string;
+  keystoreAccount?: string; // Named keystore account used instead of a raw seed
+  keystorePassphrase?: string;
+  complianceAccount?: string; // Keystore account that issues investor credentials (defaults to the operator wallet)
+  account?: string; // Operator address when no key is held on this server
+  prepareOnly: boolean; // Return unsigned transactions for offline signing instead of submitting
   network: 'testnet' | 'mainnet' | 'devnet';
   server: string;
+  dataDir: string;
 }
 
 export interface TokenizeAssetInput { 
@@ -92,4 +422,139 @@ export interface TokenizeAssetInput {
   totalSupply: number;
   yieldRate?: number;
   accreditedOnly?: boolean;
+  requireAuth?: boolean; // Holders need issuer approval before they can receive tokens
+  allowClawback?: boolean; // Lets the issuer recover tokens from holders
+  tokenStandard?: 'trustline' | 'mpt'; // Trustline IOU (default) or XLS-33 Multi-Purpose Token
+  assetScale?: number; // MPT only: decimal places of the token
+  transferFee?: number; // MPT only: secondary transfer fee in units of 1/100,000 (e.g. 500 = 0.5%)
+  jurisdiction?: string; // Where the asset and its income are sourced (ISO 3166-1 alpha-2, default US)
+  holdingPeriodDays?: number; // Lockup on tokens after each holder acquires them (0 = none)
+  maxInvestors?: number; // Cap on distinct holders (defaults to the unregistered-offering limit unless accreditedOnly)
+  permissionedDomainId?: string; // Credentials accepted by this domain qualify holders of an accreditedOnly asset
+  issuerSeed?: string; // Use an existing issuer account instead of generating one
+  issuerAddress?: string; // Use an existing issuer controlled by a signer list; its transactions are multi-signed
+  issuerSigners?: SignerListEntry[]; // Hand the new issuer over to these signers and disable its master key
+  issuerSignerQuorum?: number; // Signer weight required once the issuer is handed over
+  issuerFundingXrp?: number; // XRP sent to activate a new issuer account
+}
+
+// 🗺️ One transaction of a multi-step operation, built without signing so it can be prepared or simulated
+export interface PlannedTransaction {
+  type: string; // e.g. 'trustline_creation', 'token_issuance'
+  transaction: SubmittableTransaction;
+  amount: number;
+  destination: string;
+  dependsOnEarlierSteps: boolean; // Only valid once the steps before it are applied, so it can't be simulated alone
+}
+
+export interface TokenizationPlan {
+  assetId?: string; // Unknown for an MPT until the issuer account exists
+  tokenStandard: 'trustline' | 'mpt';
+  issuerAddress: string;
+  issuerActive: boolean; // While false, the only step is the issuer's activation payment
+  assetMetadata: any;
+  steps: PlannedTransaction[];
+}
+
+// 🔎 Outcome of a dry run
+export interface SimulatedBalanceChange {
+  account: string;
+  currency: string; // 'XRP', a currency code or an MPT issuance ID
+  issuer?: string;
+  value: string; // Signed change, e.g. '-10.5'
+}
+
+export interface SimulationResult {
+  method: 'simulate' | 'estimate'; // 'estimate' when the server has no simulate RPC
+  engineResult?: string;
+  engineResultMessage?: string;
+  transaction: Record<string, any>;
+  fee: string; // Drops
+  balanceChanges: SimulatedBalanceChange[];
+  ledgerIndex?: number;
+}
+
+// ✍️ An autofilled, unsigned transaction for offline signing
+export interface PreparedTransaction {
+  transaction: Record<string, any>;
+  txBlob: string; // Unsigned transaction in binary form
+  account: string;
+  fee: string; // Drops
+  sequence: number;
+  lastLedgerSequence: number; // Must be signed and submitted before this ledger closes
+}
+
+// 🔑 Issuer key for a single tokenized asset
+export interface IssuerKeyEntry {
+  assetId: string;
+  address: string;
+  seed?: string; // Plaintext, only when no keystore passphrase is configured
+  encryptedSeed?: EncryptedSecret;
+  source: 'generated' | 'imported';
+  createdAt: string;
+}
+
+// 📚 Asset tokenized by this operator, kept in the local registry
+export interface AssetRegistryEntry {
+  assetId: string;
+  tokenStandard: 'trustline' | 'mpt';
+  tokenSymbol: string;
+  currency: string; // On-ledger currency code (the issuance ID for MPTs)
+  issuer: string;
+  operator: string;
+  network: string;
+  tokenizationTxHash: string;
+  ledgerIndex?: number;
+  metadata: any; // Metadata as tokenized
+  history: AssetAmendment[]; // Metadata versions, v1 = as tokenized, later entries are amendments
+  status: 'active' | 'frozen' | 'retired';
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 🗂️ Asset metadata found on-ledger, cached so it only has to be located once
+export interface CachedAssetMetadata {
+  assetId: string;
+  metadata: any;
+  ledgerIndex?: number; // Ledger of the tokenization transaction
+  amendments?: AssetAmendment[];
+  amendmentsScannedTo?: number; // Last ledger searched for amendment memos
+  cachedAt: string;
+}
+
+// 📝 Compliance Audit Trail
+export interface AuditRecord {
+  timestamp: string;
+  action: string;
+  assetId: string;
+  status: 'success' | 'failed';
+  operator: string; // Wallet that ran the action
+  target?: string; // Holder or account affected
+  amount?: number;
+  reason?: string;
+  reference?: string; // External reference such as a court order number
+  transactionHash?: string;
+  error?: string;
+}
+
+// 🔐 Encrypted Keystore
+export interface EncryptedSecret {
+  cipher: 'aes-256-gcm';
+  kdf: 'scrypt';
+  kdfParams: { N: number; r: number; p: number; keyLength: number };
+  salt: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+export interface KeystoreFile {
+  version: number;
+  createdAt: string;
+  check: EncryptedSecret; // Known value used to verify the passphrase
+  accounts: Record<string, {
+    address: string;
+    createdAt: string;
+    secret: EncryptedSecret;
+  }>;
 }
@@ -0,0 +1,75 @@
+import { AcquisitionLot, HolderAcquisitions, LockupStatus } from '../types';
+import { readJsonFile, writeJsonFile } from './storage';
+
+const ACQUISITIONS_FILE = 'holder-acquisitions.json';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const acquisitionKey = (assetId: string, address: string) => `${assetId}|${address}`;
+
+export function getHolderAcquisitions(dataDir: string, assetId: string, address: string): HolderAcquisitions | null {
+    const acquisitions = readJsonFile<Record<string, HolderAcquisitions>>(dataDir, ACQUISITIONS_FILE, {});
+    return acquisitions[acquisitionKey(assetId, address)] || null;
+}
+
+export function saveHolderAcquisitions(dataDir: string, record: HolderAcquisitions): void {
+    const acquisitions = readJsonFile<Record<string, HolderAcquisitions>>(dataDir, ACQUISITIONS_FILE, {});
+    acquisitions[acquisitionKey(record.assetId, record.address)] = { ...record, updatedAt: new Date().toISOString() };
+    writeJsonFile(dataDir, ACQUISITIONS_FILE, acquisitions);
+}
+
+// Apply one balance change to a holder's lots: gains open a new lot, losses use up the oldest lots first
+export function applyBalanceChange(
+    lots: AcquisitionLot[],
+    change: number,
+    acquisition: Omit<AcquisitionLot, 'amount'>
+): AcquisitionLot[] {
+    if (change > 0) {
+        return [...lots, { ...acquisition, amount: change }];
+    }
+
+    let remaining = -change;
+    const updated: AcquisitionLot[] = [];
+
+    for (const lot of lots) {
+        const used = Math.min(lot.amount, remaining);
+        remaining -= used;
+
+        if (lot.amount - used > 1e-12) {
+            updated.push({ ...lot, amount: lot.amount - used });
+        }
+    }
+
+    return updated;
+}
+
+// Split a holder's balance into locked and unlocked parts. Any balance not explained by the lots
+// (e.g. acquired before the history that was scanned) is treated as unlocked.
+export function summarizeLockup(
+    assetId: string,
+    address: string,
+    lots: AcquisitionLot[],
+    balance: number,
+    holdingPeriodDays: number,
+    now: Date = new Date()
+): Omit<LockupStatus, 'exempt'> {
+    const detailed = lots.map(lot => {
+        const unlocksAt = new Date(new Date(lot.acquiredAt).getTime() + holdingPeriodDays * DAY_MS);
+        return { ...lot, unlocksAt: unlocksAt.toISOString(), locked: unlocksAt > now };
+    });
+    const lockedBalance = Math.min(
+        balance,
+        detailed.filter(lot => lot.locked).reduce((sum, lot) => sum + lot.amount, 0)
+    );
+    const nextUnlock = detailed.filter(lot => lot.locked).map(lot => lot.unlocksAt).sort()[0];
+
+    return {
+        assetId,
+        address,
+        holdingPeriodDays,
+        balance,
+        lockedBalance,
+        unlockedBalance: Math.max(0, balance - lockedBalance),
+        nextUnlock,
+        lots: detailed
+    };
+}
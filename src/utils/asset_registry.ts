@@ -0,0 +1,73 @@
+import { AssetRegistryEntry, RWAAsset } from '../types';
+import { readJsonFile, writeJsonFile } from './storage';
+import { applyRWAAmendments } from './xrpl_helpers';
+
+const ASSET_REGISTRY_FILE = 'asset-registry.json';
+
+export function loadAssetRegistry(dataDir: string): Record<string, AssetRegistryEntry> {
+    return readJsonFile<Record<string, AssetRegistryEntry>>(dataDir, ASSET_REGISTRY_FILE, {});
+}
+
+export function registerAsset(dataDir: string, entry: Omit<AssetRegistryEntry, 'createdAt' | 'updatedAt'>): AssetRegistryEntry {
+    const registry = loadAssetRegistry(dataDir);
+    const now = new Date().toISOString();
+
+    const registered: AssetRegistryEntry = {
+        ...entry,
+        createdAt: registry[entry.assetId]?.createdAt || now,
+        updatedAt: now
+    };
+
+    registry[entry.assetId] = registered;
+    writeJsonFile(dataDir, ASSET_REGISTRY_FILE, registry);
+    return registered;
+}
+
+export function getRegisteredAsset(dataDir: string, assetId: string): AssetRegistryEntry | null {
+    return loadAssetRegistry(dataDir)[assetId] || null;
+}
+
+export function updateRegisteredAsset(
+    dataDir: string,
+    assetId: string,
+    update: Partial<Omit<AssetRegistryEntry, 'assetId' | 'createdAt'>>
+): AssetRegistryEntry | null {
+    const registry = loadAssetRegistry(dataDir);
+
+    if (!registry[assetId]) {
+        return null;
+    }
+
+    registry[assetId] = { ...registry[assetId], ...update, updatedAt: new Date().toISOString() };
+    writeJsonFile(dataDir, ASSET_REGISTRY_FILE, registry);
+    return registry[assetId];
+}
+
+export function listRegisteredAssets(
+    dataDir: string,
+    filter: { network?: string; status?: AssetRegistryEntry['status']; issuer?: string } = {}
+): AssetRegistryEntry[] {
+    return Object.values(loadAssetRegistry(dataDir))
+        .filter(entry =>
+            (!filter.network || entry.network === filter.network) &&
+            (!filter.status || entry.status === filter.status) &&
+            (!filter.issuer || entry.issuer === filter.issuer)
+        )
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function registryEntryToAsset(entry: AssetRegistryEntry): RWAAsset {
+    const details = applyRWAAmendments(entry.metadata, entry.history.slice(1)).assetDetails;
+
+    return {
+        id: entry.assetId,
+        type: details.type,
+        name: details.name,
+        totalValue: details.totalValue,
+        tokenSymbol: details.tokenSymbol,
+        totalSupply: details.totalSupply,
+        yieldRate: details.yieldRate,
+        version: entry.history.length,
+        history: entry.history
+    };
+}
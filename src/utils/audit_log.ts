@@ -0,0 +1,21 @@
+import { AuditRecord } from '../types';
+import { appendJsonLine, readJsonLines } from './storage';
+
+const AUDIT_LOG_FILE = 'audit-log.jsonl';
+
+export function writeAuditRecord(dataDir: string, record: Omit<AuditRecord, 'timestamp'>): AuditRecord {
+    const entry: AuditRecord = {
+        timestamp: new Date().toISOString(),
+        ...record
+    };
+
+    appendJsonLine(dataDir, AUDIT_LOG_FILE, entry);
+    return entry;
+}
+
+export function readAuditRecords(dataDir: string, filter: { action?: string; assetId?: string } = {}): AuditRecord[] {
+    return readJsonLines<AuditRecord>(dataDir, AUDIT_LOG_FILE).filter(record =>
+        (!filter.action || record.action === filter.action) &&
+        (!filter.assetId || record.assetId === filter.assetId)
+    );
+}
@@ -0,0 +1,125 @@
+import * as crypto from 'crypto';
+import { BulkIssuanceProgress } from '../types';
+import { readJsonFile, writeJsonFile } from './storage';
+import { validateDistributionAmount, validateXRPLAddress } from './validation';
+
+export type IssuanceListEntry = { row: number; address: string; amount: number };
+
+const progressFile = (batchId: string) => `bulk-issuance-${batchId}.json`;
+
+// Parse "address,amount" lines (comma, semicolon or tab separated). A header row naming
+// the address and amount columns is optional; blank lines and # comments are ignored.
+export function parseIssuanceCSV(content: string): { entries: IssuanceListEntry[]; errors: Array<{ row: number; error: string }> } {
+    const entries: IssuanceListEntry[] = [];
+    const errors: Array<{ row: number; error: string }> = [];
+    let columns = { address: 0, amount: 1 };
+    let headerChecked = false;
+
+    content.split(/\r?\n/).forEach((line, index) => {
+        const row = index + 1;
+        const trimmed = line.trim();
+
+        if (!trimmed || trimmed.startsWith('#')) {
+            return;
+        }
+
+        const cells = trimmed.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, ''));
+
+        if (!headerChecked) {
+            headerChecked = true;
+            const lower = cells.map(cell => cell.toLowerCase());
+            if (lower.includes('address') || lower.includes('amount')) {
+                columns = { address: lower.indexOf('address'), amount: lower.indexOf('amount') };
+                if (columns.address < 0 || columns.amount < 0) {
+                    errors.push({ row, error: 'Header must name both an address and an amount column' });
+                }
+                return;
+            }
+        }
+
+        const address = cells[columns.address];
+        const amount = Number(cells[columns.amount]);
+
+        if (!address || cells[columns.amount] === undefined || cells[columns.amount] === '' || isNaN(amount)) {
+            errors.push({ row, error: `Expected an address and a numeric amount, got "${trimmed}"` });
+            return;
+        }
+
+        entries.push({ row, address, amount });
+    });
+
+    return { entries, errors };
+}
+
+// Parse a JSON array of { address, amount } objects
+export function parseIssuanceJSON(content: string): { entries: IssuanceListEntry[]; errors: Array<{ row: number; error: string }> } {
+    let parsed: any;
+
+    try {
+        parsed = JSON.parse(content);
+    } catch (error: any) {
+        return { entries: [], errors: [{ row: 0, error: `Invalid JSON: ${error.message}` }] };
+    }
+
+    if (!Array.isArray(parsed)) {
+        return { entries: [], errors: [{ row: 0, error: 'Expected a JSON array of { address, amount } objects' }] };
+    }
+
+    const entries: IssuanceListEntry[] = [];
+    const errors: Array<{ row: number; error: string }> = [];
+
+    parsed.forEach((item, index) => {
+        const amount = Number(item?.amount);
+
+        if (typeof item?.address !== 'string' || item?.amount === undefined || isNaN(amount)) {
+            errors.push({ row: index + 1, error: 'Expected { "address": string, "amount": number }' });
+            return;
+        }
+
+        entries.push({ row: index + 1, address: item.address.trim(), amount });
+    });
+
+    return { entries, errors };
+}
+
+// Check every entry before anything is submitted
+export function validateIssuanceList(entries: IssuanceListEntry[], totalSupply: number): Array<{ row: number; address: string; error: string }> {
+    const errors: Array<{ row: number; address: string; error: string }> = [];
+    const seen = new Map<string, number>();
+
+    for (const entry of entries) {
+        const addressCheck = validateXRPLAddress(entry.address);
+        if (!addressCheck.valid) {
+            errors.push({ row: entry.row, address: entry.address, error: addressCheck.error! });
+            continue;
+        }
+
+        const amountCheck = validateDistributionAmount(entry.amount, totalSupply);
+        if (!amountCheck.valid) {
+            errors.push({ row: entry.row, address: entry.address, error: amountCheck.error! });
+        }
+
+        if (seen.has(entry.address)) {
+            errors.push({ row: entry.row, address: entry.address, error: `Duplicate of row ${seen.get(entry.address)}` });
+        } else {
+            seen.set(entry.address, entry.row);
+        }
+    }
+
+    return errors;
+}
+
+// The same asset, list and label always map to the same batch, so an interrupted run can be resumed.
+// A different label gives the same list a batch of its own, for issuing it again on purpose.
+export function generateBatchId(assetId: string, entries: IssuanceListEntry[], label?: string): string {
+    const canonical = [assetId, ...(label ? [`label:${label}`] : []), ...entries.map(entry => `${entry.address},${entry.amount}`)].join('\n');
+    return crypto.createHash('sha256').update(canonical).digest('hex').slice(0, 16).toUpperCase();
+}
+
+export function loadIssuanceProgress(dataDir: string, batchId: string): BulkIssuanceProgress | null {
+    return readJsonFile<BulkIssuanceProgress | null>(dataDir, progressFile(batchId), null);
+}
+
+export function saveIssuanceProgress(dataDir: string, progress: BulkIssuanceProgress): void {
+    writeJsonFile(dataDir, progressFile(progress.batchId), { ...progress, updatedAt: new Date().toISOString() });
+}
@@ -21,6 +21,39 @@ export function calculateYieldDistribution(
     };
 }
 
+// Due date of a distribution period, counted from the first one. Days past the end of a short month clamp to its last day.
+export function calculateDistributionPeriodDate(
+    startDate: Date,
+    frequency: 'monthly' | 'quarterly',
+    periodIndex: number
+): Date {
+    const monthsPerPeriod = frequency === 'monthly' ? 1 : 3;
+    const totalMonths = startDate.getUTCMonth() + periodIndex * monthsPerPeriod;
+    const year = startDate.getUTCFullYear() + Math.floor(totalMonths / 12);
+    const month = totalMonths % 12;
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+    const periodDate = new Date(startDate.getTime());
+    periodDate.setUTCFullYear(year, month, Math.min(startDate.getUTCDate(), daysInMonth));
+    return periodDate;
+}
+
+// Indexes of every period from nextPeriodIndex that is due by `now` (missed periods included)
+export function calculateDuePeriods(
+    startDate: Date,
+    frequency: 'monthly' | 'quarterly',
+    nextPeriodIndex: number,
+    now: Date
+): number[] {
+    const due: number[] = [];
+
+    for (let index = nextPeriodIndex; calculateDistributionPeriodDate(startDate, frequency, index) <= now; index++) {
+        due.push(index);
+    }
+
+    return due;
+}
+
 export function calculateTokenPrice(assetValue: number, tokenSupply: number): number {
     return assetValue / tokenSupply;
 }
@@ -151,3 +184,55 @@ export function calculateTransactionFees(
         feesInDrops
     };
 }
+
+// Whole smallest units for an amount, rounded to the nearest unit
+const toUnits = (value: number, decimals: number) => BigInt(value.toFixed(decimals).replace('.', ''));
+
+// Split the payout in whole smallest units (drops for XRP). Each share is rounded down and whatever
+// is left over goes to the largest holder, so the shares always add up to exactly the total.
+export function calculateProRataDistribution(
+    holders: Array<{ address: string; balance: number }>,
+    totalAmount: number,
+    decimals: number = 6
+): Array<{
+    address: string;
+    balance: number;
+    sharePercentage: number;
+    amount: number;
+}> {
+    const unit = Math.pow(10, decimals);
+    const totalUnits = toUnits(totalAmount, decimals);
+    const balanceUnits = holders.map(holder => toUnits(holder.balance, decimals));
+    const supplyUnits = balanceUnits.reduce((sum, units) => sum + units, 0n);
+    const eligibleSupply = holders.reduce((sum, holder) => sum + holder.balance, 0);
+
+    const amountUnits = balanceUnits.map(units => supplyUnits > 0n ? totalUnits * units / supplyUnits : 0n);
+    if (supplyUnits > 0n) {
+        const largest = balanceUnits.reduce((best, units, index) => units > balanceUnits[best] ? index : best, 0);
+        amountUnits[largest] += totalUnits - amountUnits.reduce((sum, units) => sum + units, 0n);
+    }
+
+    return holders.map((holder, index) => ({
+        address: holder.address,
+        balance: holder.balance,
+        sharePercentage: eligibleSupply > 0 ? holder.balance / eligibleSupply * 100 : 0,
+        amount: Number(amountUnits[index]) / unit
+    }));
+}
+
+// Split a gross payment into withheld tax and net amount. Tax is rounded up to the smallest
+// unit so withholding is never short.
+export function calculateWithholding(
+    grossAmount: number,
+    ratePercent: number,
+    decimals: number = 6
+): { withheldAmount: number; netAmount: number } {
+    const unit = Math.pow(10, decimals);
+    const grossUnits = Math.round(grossAmount * unit);
+    const withheldUnits = Math.min(grossUnits, Math.max(0, Math.ceil(grossUnits * ratePercent / 100 - 1e-9)));
+
+    return {
+        withheldAmount: withheldUnits / unit,
+        netAmount: (grossUnits - withheldUnits) / unit
+    };
+}
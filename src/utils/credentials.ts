@@ -0,0 +1,48 @@
+import { convertHexToString, convertStringToHex, rippleTimeToISOTime } from 'xrpl';
+import { CREDENTIALS } from '../constants';
+import { AcceptedCredential, InvestorCredential } from '../types';
+
+// Credential types are stored on-ledger as hex; the tools work with plain text like 'AccreditedInvestor'
+export function encodeCredentialType(credentialType: string): string {
+    const hex = convertStringToHex(credentialType);
+
+    if (!credentialType || hex.length / 2 > CREDENTIALS.MAX_TYPE_BYTES) {
+        throw new Error(`Credential type must be 1-${CREDENTIALS.MAX_TYPE_BYTES} bytes`);
+    }
+
+    return hex;
+}
+
+export function decodeCredentialType(hex: string): string {
+    const text = convertHexToString(hex);
+    // Types created by other tools may be arbitrary bytes; show those as hex
+    return /^[\x20-\x7E]+$/.test(text) ? text : hex;
+}
+
+// Convert a Credential ledger entry into the shape the tools report
+export function parseCredentialEntry(entry: any, now: Date = new Date()): InvestorCredential {
+    const expiration = entry.Expiration !== undefined ? rippleTimeToISOTime(entry.Expiration) : undefined;
+
+    return {
+        issuer: entry.Issuer,
+        subject: entry.Subject,
+        credentialType: decodeCredentialType(entry.CredentialType),
+        accepted: (Number(entry.Flags) & CREDENTIALS.FLAGS.ACCEPTED) !== 0,
+        expiration,
+        expired: expiration !== undefined && new Date(expiration) <= now,
+        uri: entry.URI ? convertHexToString(entry.URI) : undefined,
+        index: entry.index
+    };
+}
+
+// A credential only counts once the subject has accepted it and while it has not expired
+export function findQualifyingCredential(
+    credentials: InvestorCredential[],
+    accepted: AcceptedCredential[]
+): InvestorCredential | undefined {
+    return credentials.find(credential =>
+        credential.accepted &&
+        !credential.expired &&
+        accepted.some(a => a.issuer === credential.issuer && a.credentialType === credential.credentialType)
+    );
+}
@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import { VALUATION } from '../constants';
+import { DistributionRunRecord, DistributionSchedule } from '../types';
+import { appendJsonLine, getStoragePath, readJsonFile, readJsonLines, writeJsonFile } from './storage';
+import { decodeCurrencyCode, splitAssetId } from './xrpl_helpers';
+
+const SCHEDULES_FILE = 'distribution-schedules.json';
+const RUNS_FILE = 'distribution-runs.jsonl';
+const LOCK_FILE = 'distribution-scheduler.lock';
+
+// The lock holder refreshes its heartbeat as payments settle; a lock not refreshed for this long
+// belongs to a run that died without releasing it
+const STALE_LOCK_MS = 15 * 60 * 1000;
+
+interface SchedulerLock {
+    pid: number;
+    hostname: string;
+    acquiredAt: string;
+    heartbeatAt: string;
+}
+
+export function loadSchedules(dataDir: string): Record<string, DistributionSchedule> {
+    return readJsonFile<Record<string, DistributionSchedule>>(dataDir, SCHEDULES_FILE, {});
+}
+
+export function getSchedule(dataDir: string, assetId: string): DistributionSchedule | null {
+    return loadSchedules(dataDir)[assetId] || null;
+}
+
+export function saveSchedule(dataDir: string, schedule: DistributionSchedule): void {
+    const schedules = loadSchedules(dataDir);
+    schedules[schedule.assetId] = { ...schedule, updatedAt: new Date().toISOString() };
+    writeJsonFile(dataDir, SCHEDULES_FILE, schedules);
+}
+
+export function deleteSchedule(dataDir: string, assetId: string): boolean {
+    const schedules = loadSchedules(dataDir);
+
+    if (!schedules[assetId]) {
+        return false;
+    }
+
+    delete schedules[assetId];
+    writeJsonFile(dataDir, SCHEDULES_FILE, schedules);
+    return true;
+}
+
+// Amounts derived from the asset value are in its valuation currency, so they can't be paid in XRP or another currency
+export function canDeriveAmountIn(payoutCurrency: string): boolean {
+    return payoutCurrency !== 'XRP' &&
+        (VALUATION.PAYOUT_CURRENCY_CODES as readonly string[]).includes(decodeCurrencyCode(splitAssetId(payoutCurrency)[0]));
+}
+
+export function recordDistributionRun(dataDir: string, record: DistributionRunRecord): void {
+    appendJsonLine(dataDir, RUNS_FILE, record);
+}
+
+export function readDistributionRuns(dataDir: string, filter: { assetId?: string; since?: string } = {}): DistributionRunRecord[] {
+    return readJsonLines<DistributionRunRecord>(dataDir, RUNS_FILE).filter(run =>
+        (!filter.assetId || run.assetId === filter.assetId) &&
+        (!filter.since || run.executedAt >= filter.since)
+    );
+}
+
+const readLock = (lockPath: string): SchedulerLock | null => {
+    try {
+        return JSON.parse(fs.readFileSync(lockPath, 'utf8'));
+    } catch {
+        return null;
+    }
+};
+
+const isProcessAlive = (pid: number): boolean => {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error: any) {
+        return error.code === 'EPERM';
+    }
+};
+
+const isOwnLock = (lock: SchedulerLock): boolean => lock.pid === process.pid && lock.hostname === os.hostname();
+
+// A lock is stale once its owner on this machine has exited, or its heartbeat has stopped
+const isLockStale = (lockPath: string): boolean => {
+    const lock = readLock(lockPath);
+
+    if (lock?.hostname === os.hostname() && !isProcessAlive(lock.pid)) {
+        return true;
+    }
+
+    const heartbeat = lock ? Date.parse(lock.heartbeatAt) : fs.statSync(lockPath).mtimeMs;
+    return !Number.isFinite(heartbeat) || Date.now() - heartbeat > STALE_LOCK_MS;
+};
+
+// Prevents a tool call and the long-running scheduler from paying the same period twice
+export function acquireSchedulerLock(dataDir: string): boolean {
+    const lockPath = getStoragePath(dataDir, LOCK_FILE);
+    fs.mkdirSync(dataDir, { recursive: true, mode: 0o700 });
+
+    if (fs.existsSync(lockPath) && isLockStale(lockPath)) {
+        fs.rmSync(lockPath, { force: true });
+    }
+
+    const now = new Date().toISOString();
+    const lock: SchedulerLock = { pid: process.pid, hostname: os.hostname(), acquiredAt: now, heartbeatAt: now };
+
+    try {
+        fs.writeFileSync(lockPath, JSON.stringify(lock), { flag: 'wx' });
+        return true;
+    } catch (error: any) {
+        if (error.code === 'EEXIST') {
+            return false;
+        }
+        throw error;
+    }
+}
+
+// Called by the lock holder while it works, so a long run is never mistaken for a crashed one
+export function refreshSchedulerLock(dataDir: string): void {
+    const lockPath = getStoragePath(dataDir, LOCK_FILE);
+    const lock = readLock(lockPath);
+
+    if (lock && isOwnLock(lock)) {
+        fs.writeFileSync(lockPath, JSON.stringify({ ...lock, heartbeatAt: new Date().toISOString() }));
+    }
+}
+
+export function releaseSchedulerLock(dataDir: string): void {
+    const lockPath = getStoragePath(dataDir, LOCK_FILE);
+    const lock = readLock(lockPath);
+
+    // Never remove a lock another run took over
+    if (!lock || isOwnLock(lock)) {
+        fs.rmSync(lockPath, { force: true });
+    }
+}
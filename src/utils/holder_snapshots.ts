@@ -0,0 +1,31 @@
+import { HolderSnapshot } from '../types';
+import { readJsonFile, writeJsonFile } from './storage';
+import { decodeCurrencyCode, isMPTokenId, splitAssetId } from './xrpl_helpers';
+
+const SNAPSHOTS_FILE = 'holder-snapshots.json';
+
+// e.g. BLD-SNAP-95123456 (MPTs use the first 8 characters of the issuance ID)
+export function generateSnapshotId(assetId: string, ledgerIndex: number): string {
+    const symbol = isMPTokenId(assetId) ? `MPT${assetId.slice(0, 8)}` : decodeCurrencyCode(splitAssetId(assetId)[0]);
+    return `${symbol}-SNAP-${ledgerIndex}`;
+}
+
+export function loadSnapshots(dataDir: string): Record<string, HolderSnapshot> {
+    return readJsonFile<Record<string, HolderSnapshot>>(dataDir, SNAPSHOTS_FILE, {});
+}
+
+export function saveSnapshot(dataDir: string, snapshot: HolderSnapshot): void {
+    const snapshots = loadSnapshots(dataDir);
+    snapshots[snapshot.id] = snapshot;
+    writeJsonFile(dataDir, SNAPSHOTS_FILE, snapshots);
+}
+
+export function getSnapshot(dataDir: string, snapshotId: string): HolderSnapshot | null {
+    return loadSnapshots(dataDir)[snapshotId] || null;
+}
+
+export function listSnapshots(dataDir: string, filter: { assetId?: string } = {}): HolderSnapshot[] {
+    return Object.values(loadSnapshots(dataDir))
+        .filter(snapshot => !filter.assetId || snapshot.assetId === filter.assetId)
+        .sort((a, b) => a.ledgerIndex - b.ledgerIndex);
+}
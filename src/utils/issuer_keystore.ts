@@ -0,0 +1,114 @@
+import { Wallet } from 'xrpl';
+import { IssuerKeyEntry } from '../types';
+import { decryptSecret, encryptSecret } from './keystore';
+import { readJsonFile, writeJsonFile } from './storage';
+import { getMPTIssuer, isMPTokenId } from './xrpl_helpers';
+
+const ISSUER_KEYS_FILE = 'issuer-keys.json';
+
+export function loadIssuerKeys(dataDir: string): Record<string, IssuerKeyEntry> {
+    return readJsonFile<Record<string, IssuerKeyEntry>>(dataDir, ISSUER_KEYS_FILE, {});
+}
+
+export function saveIssuerKey(dataDir: string, entry: IssuerKeyEntry): void {
+    const keys = loadIssuerKeys(dataDir);
+    keys[entry.assetId] = entry;
+    writeJsonFile(dataDir, ISSUER_KEYS_FILE, keys, { secret: true });
+}
+
+// Re-key an entry once the final asset ID is known (e.g. an MPT issuance ID assigned on creation)
+export function moveIssuerKey(dataDir: string, fromAssetId: string, toAssetId: string): void {
+    const keys = loadIssuerKeys(dataDir);
+    const entry = keys[fromAssetId];
+
+    if (!entry) {
+        throw new Error(`No issuer key found for ${fromAssetId}`);
+    }
+
+    delete keys[fromAssetId];
+    keys[toAssetId] = { ...entry, assetId: toAssetId };
+    writeJsonFile(dataDir, ISSUER_KEYS_FILE, keys, { secret: true });
+}
+
+// Accepts an asset ID (CURRENCY.ISSUER or MPT issuance ID) or a bare issuer address
+export function findIssuerKey(dataDir: string, assetIdOrIssuer: string): IssuerKeyEntry | null {
+    const keys = loadIssuerKeys(dataDir);
+
+    if (keys[assetIdOrIssuer]) {
+        return keys[assetIdOrIssuer];
+    }
+
+    const issuer = isMPTokenId(assetIdOrIssuer)
+        ? getMPTIssuer(assetIdOrIssuer)
+        : assetIdOrIssuer.includes('.') ? assetIdOrIssuer.split('.')[1] : assetIdOrIssuer;
+    return Object.values(keys).find(entry => entry.address === issuer) || null;
+}
+
+export function listIssuerKeys(dataDir: string): Array<{ assetId: string; address: string; source: string; encrypted: boolean; createdAt: string }> {
+    return Object.values(loadIssuerKeys(dataDir)).map(entry => ({
+        assetId: entry.assetId,
+        address: entry.address,
+        source: entry.source,
+        encrypted: !!entry.encryptedSeed,
+        createdAt: entry.createdAt
+    }));
+}
+
+// New issuer seeds are only ever stored encrypted, so a keystore passphrase is required
+export function createIssuerKeyEntry(
+    assetId: string,
+    wallet: Wallet,
+    source: 'generated' | 'imported',
+    passphrase?: string
+): IssuerKeyEntry {
+    if (!wallet.seed) {
+        throw new Error('Issuer wallet has no seed to store');
+    }
+
+    if (!passphrase) {
+        throw new Error('Issuer seeds are stored encrypted; set XRPL_KEYSTORE_PASSPHRASE before tokenizing with a new issuer');
+    }
+
+    return {
+        assetId,
+        address: wallet.address,
+        encryptedSeed: encryptSecret(wallet.seed, passphrase),
+        source,
+        createdAt: new Date().toISOString()
+    };
+}
+
+export function issuerWalletFromEntry(entry: IssuerKeyEntry, passphrase?: string): Wallet {
+    if (entry.encryptedSeed) {
+        if (!passphrase) {
+            throw new Error(`Issuer key for ${entry.assetId} is encrypted. Set XRPL_KEYSTORE_PASSPHRASE to unlock it.`);
+        }
+        return Wallet.fromSeed(decryptSecret(entry.encryptedSeed, passphrase));
+    }
+
+    if (!entry.seed) {
+        throw new Error(`Issuer key for ${entry.assetId} has no seed`);
+    }
+
+    return Wallet.fromSeed(entry.seed);
+}
+
+// Encrypt any issuer seeds that were stored before a passphrase was configured
+export function encryptIssuerKeys(dataDir: string, passphrase: string): number {
+    const keys = loadIssuerKeys(dataDir);
+    let encrypted = 0;
+
+    for (const entry of Object.values(keys)) {
+        if (entry.seed && !entry.encryptedSeed) {
+            entry.encryptedSeed = encryptSecret(entry.seed, passphrase);
+            delete entry.seed;
+            encrypted++;
+        }
+    }
+
+    if (encrypted > 0) {
+        writeJsonFile(dataDir, ISSUER_KEYS_FILE, keys, { secret: true });
+    }
+
+    return encrypted;
+}
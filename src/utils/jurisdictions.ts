@@ -0,0 +1,216 @@
+import { COMPLIANCE_LIMITS } from '../constants';
+import { ComplianceAction, ComplianceCheck, ComplianceEvaluation, JurisdictionProfile } from '../types';
+import { readJsonFile } from './storage';
+import { evaluateInvestorCap } from './validation';
+
+const JURISDICTION_PROFILES_FILE = 'jurisdiction-profiles.json';
+
+// Simplified summaries of the offering exemptions we use in each market. They are a first line of
+// defence, not legal advice - override them in jurisdiction-profiles.json when counsel says otherwise.
+export const BUILT_IN_JURISDICTION_PROFILES: Record<string, JurisdictionProfile> = {
+    US: {
+        code: 'US',
+        name: 'United States',
+        regulator: 'SEC',
+        regime: 'SEC Rule 506(b)',
+        investorCap: { retail: COMPLIANCE_LIMITS.MAX_INVESTORS_UNREGISTERED },
+        accreditationRequired: false,
+        minHoldingPeriodDays: 0, // Rule 144 periods depend on the issuer; set holding_period_days per asset
+        authorizedRecipientsOnly: false,
+        withholdingExpected: true,
+        notes: {
+            accredited: '⚖️ Restricted to accredited investors under Regulation D',
+            retail: '⚖️ Consider SEC registration requirements for public offerings'
+        }
+    },
+    SG: {
+        code: 'SG',
+        name: 'Singapore',
+        regulator: 'MAS',
+        regime: 'SFA s272B private placement',
+        investorCap: { retail: 50 },
+        accreditationRequired: false,
+        minHoldingPeriodDays: 180, // SFA s276: resale within 6 months is limited to accredited investors
+        authorizedRecipientsOnly: true,
+        withholdingExpected: false,
+        notes: {
+            accredited: '⚖️ Offered to accredited investors under SFA s275; resale within 6 months is restricted',
+            retail: '⚖️ Private placement under SFA s272B (at most 50 offerees in 12 months); larger offerings need a MAS-registered prospectus'
+        }
+    },
+    TH: {
+        code: 'TH',
+        name: 'Thailand',
+        regulator: 'Thai SEC',
+        regime: 'Digital Asset Decree B.E. 2561 private placement',
+        investorCap: { retail: 10 },
+        accreditationRequired: false,
+        minHoldingPeriodDays: 0,
+        authorizedRecipientsOnly: true,
+        withholdingExpected: true,
+        notes: {
+            accredited: '⚖️ Offered to institutional and high net worth investors; public offerings need an SEC-approved ICO portal',
+            retail: '⚖️ Private placement to at most 10 investors in 12 months; wider offerings need an SEC-approved ICO portal'
+        }
+    }
+};
+
+export function loadJurisdictionProfiles(dataDir: string): Record<string, JurisdictionProfile> {
+    return {
+        ...BUILT_IN_JURISDICTION_PROFILES,
+        ...readJsonFile<Record<string, JurisdictionProfile>>(dataDir, JURISDICTION_PROFILES_FILE, {})
+    };
+}
+
+export function getJurisdictionProfile(dataDir: string, code: string): JurisdictionProfile | null {
+    return loadJurisdictionProfiles(dataDir)[code] || null;
+}
+
+// What the engine needs to know about an asset and the action being taken
+export interface ComplianceFacts {
+    compliance?: {
+        accreditedOnly?: boolean;
+        maxInvestors?: number;
+        holdingPeriodDays?: number;
+        requireAuth?: boolean;
+    };
+    currentHolders?: number;
+    newHolders?: number;
+    amount?: number; // Transfers: tokens being moved
+    unlockedBalance?: number; // Transfers: sender's balance outside the holding period
+    lockupExempt?: boolean; // Transfers: sender is the issuer, so the payment issues new tokens
+    poolDeposit?: boolean; // Transfers: tokens go into an AMM pool, which anyone can swap them out of
+    recipientsWithoutCredential?: string[]; // Accredited-only assets: recipients lacking a valid credential
+    withholdingConfigured?: boolean; // Distributions: withholding rules exist for the jurisdiction
+}
+
+// Run a jurisdiction's rules for one action. Every rule that applies is reported, passed or not, so
+// callers can show which rule allowed or stopped the action.
+export function evaluateCompliance(
+    profile: JurisdictionProfile | null,
+    jurisdiction: string,
+    action: ComplianceAction,
+    facts: ComplianceFacts
+): ComplianceEvaluation {
+    const compliance = facts.compliance || {};
+    const checks: ComplianceCheck[] = [];
+    const check = (rule: string, passed: boolean, severity: ComplianceCheck['severity'], detail: string) =>
+        checks.push({ rule, passed, severity, detail });
+
+    if (!profile) {
+        check('Jurisdiction profile', false, action === 'tokenize' ? 'block' : 'warn',
+            `No compliance profile for ${jurisdiction}; add one to ${JURISDICTION_PROFILES_FILE}`);
+    }
+
+    const limits = profile
+        ? { ...profile.investorCap, regime: profile.regime }
+        : { regime: `${jurisdiction} (no profile)` };
+    const holdingPeriodDays = Math.max(compliance.holdingPeriodDays || 0, profile?.minHoldingPeriodDays || 0);
+
+    if (action === 'tokenize') {
+        if (profile?.accreditationRequired) {
+            check('Accreditation', !!compliance.accreditedOnly, 'block', compliance.accreditedOnly
+                ? `${profile.regime} requires accredited investors; offering is accredited-only`
+                : `${profile.regime} requires an accredited-only offering`);
+        }
+
+        const defaultCap = compliance.accreditedOnly ? limits.accredited : limits.retail;
+        if (compliance.maxInvestors !== undefined && defaultCap !== undefined) {
+            check('Investor cap', compliance.maxInvestors <= defaultCap, 'block', compliance.maxInvestors <= defaultCap
+                ? `Cap of ${compliance.maxInvestors} is within the ${limits.regime} limit of ${defaultCap}`
+                : `Cap of ${compliance.maxInvestors} exceeds the ${limits.regime} limit of ${defaultCap}`);
+        }
+
+        if (profile && profile.minHoldingPeriodDays > 0) {
+            const days = compliance.holdingPeriodDays || 0;
+            check('Holding period', days >= profile.minHoldingPeriodDays, 'block', days >= profile.minHoldingPeriodDays
+                ? `${days}-day lockup meets the ${profile.minHoldingPeriodDays}-day minimum`
+                : `${profile.regime} requires a lockup of at least ${profile.minHoldingPeriodDays} days`);
+        }
+
+        if (profile?.authorizedRecipientsOnly) {
+            check('Authorized recipients', !!compliance.requireAuth, 'block', compliance.requireAuth
+                ? 'Holders need issuer approval (RequireAuth)'
+                : `${profile.regulator} rules require issuer-approved holders; enable require_auth`);
+        }
+    }
+
+    if (action === 'issue' || action === 'transfer') {
+        const cap = evaluateInvestorCap(compliance, facts.currentHolders || 0, facts.newHolders || 0, limits);
+        check('Investor cap', cap.allowed, 'block', !cap.allowed
+            ? `${facts.newHolders} new holder(s) would bring the offering to ${cap.projectedHolders} investors, above the ${cap.rule}`
+            : cap.warning || `${cap.projectedHolders} investor(s) after this ${action} (${cap.rule})`);
+
+        if (compliance.accreditedOnly && facts.recipientsWithoutCredential) {
+            const missing = facts.recipientsWithoutCredential;
+            check('Investor credential', missing.length === 0, 'block', missing.length === 0
+                ? 'Every recipient holds an accepted, unexpired accreditation credential'
+                : `No accepted, unexpired accreditation credential: ${missing.join(', ')}`);
+        }
+
+        if (profile?.authorizedRecipientsOnly) {
+            // The asset already exists, so a missing RequireAuth can only be flagged, not fixed here
+            check('Authorized recipients', !!compliance.requireAuth, 'warn', compliance.requireAuth
+                ? 'Recipients must hold an issuer-approved trustline, enforced on-ledger'
+                : `${profile.regulator} rules expect issuer-approved holders, but this asset does not require authorization`);
+        }
+    }
+
+    if (action === 'transfer' && facts.poolDeposit) {
+        // Only RequireAuth is enforced on swaps out of a pool; credentials and the other recipient checks are not
+        const restricted = compliance.accreditedOnly || (profile?.authorizedRecipientsOnly && !compliance.requireAuth);
+        check('Open pool', !restricted, 'block', compliance.accreditedOnly
+            ? 'Accredited-only tokens cannot go into an AMM pool, where anyone can swap them out'
+            : restricted
+                ? `${profile!.regulator} rules expect issuer-approved holders, and without require_auth anyone could swap this asset out of an AMM pool`
+                : compliance.requireAuth
+                    ? 'Only issuer-approved accounts can swap tokens out of the pool'
+                    : 'Anyone can swap tokens out of the pool');
+    }
+
+    if (action === 'transfer' && holdingPeriodDays > 0) {
+        const amount = facts.amount || 0;
+        const unlocked = facts.unlockedBalance || 0;
+        check('Holding period', !!facts.lockupExempt || amount <= unlocked + 1e-9, 'block', facts.lockupExempt
+            ? 'Payments from the issuer issue new tokens and are not subject to the lockup'
+            : amount <= unlocked + 1e-9
+                ? `${amount} of ${unlocked} unlocked token(s) transferred (${holdingPeriodDays}-day holding period)`
+                : `Only ${unlocked} token(s) are outside the ${holdingPeriodDays}-day holding period; ${amount} requested`);
+    }
+
+    if (action === 'distribute') {
+        const cap = evaluateInvestorCap(compliance, facts.currentHolders || 0, 0, limits);
+        const withinCap = cap.cap === undefined || cap.projectedHolders <= cap.cap;
+        check('Investor cap', withinCap, 'warn', withinCap
+            ? `${cap.projectedHolders} investor(s) (${cap.rule})`
+            : `${cap.projectedHolders} investors hold the asset, above the ${cap.rule}`);
+
+        if (profile?.withholdingExpected) {
+            check('Withholding', !!facts.withholdingConfigured, 'warn', facts.withholdingConfigured
+                ? `Withholding rules are set for ${profile.code}`
+                : `${profile.name} normally taxes distributions at source; set rules with rwa_set_withholding_rules`);
+        }
+    }
+
+    return {
+        jurisdiction,
+        action,
+        allowed: checks.every(c => c.passed || c.severity === 'warn'),
+        checks
+    };
+}
+
+// One line per rule for tool output, e.g. "✅ Investor cap: 12 investor(s) after this issue (...)"
+export function formatComplianceChecks(evaluation: ComplianceEvaluation): string[] {
+    return evaluation.checks.map(check =>
+        `${check.passed ? '✅' : check.severity === 'block' ? '❌' : '⚠️'} ${check.rule}: ${check.detail}`
+    );
+}
+
+// The blocking failures of an evaluation as a single sentence for error messages
+export function describeComplianceFailures(evaluation: ComplianceEvaluation): string {
+    return evaluation.checks
+        .filter(check => !check.passed && check.severity === 'block')
+        .map(check => `${check.rule} (${evaluation.jurisdiction}): ${check.detail}`)
+        .join('; ');
+}
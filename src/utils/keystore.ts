@@ -0,0 +1,141 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { Wallet } from 'xrpl';
+import { EncryptedSecret, KeystoreFile } from '../types';
+import { getStoragePath, readJsonFile, writeJsonFile } from './storage';
+
+const KEYSTORE_FILE = 'keystore.json';
+const KEYSTORE_CHECK_VALUE = 'rwa-build-keystore';
+
+// scrypt cost parameters (N = 2^15 needs ~32MB, so maxmem is raised above the Node default)
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1, keyLength: 32 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+
+function deriveKey(passphrase: string, salt: Buffer, params = SCRYPT_PARAMS): Buffer {
+    return crypto.scryptSync(passphrase, salt, params.keyLength, {
+        N: params.N,
+        r: params.r,
+        p: params.p,
+        maxmem: SCRYPT_MAXMEM
+    });
+}
+
+export function encryptSecret(secret: string, passphrase: string): EncryptedSecret {
+    if (!passphrase) {
+        throw new Error('Keystore passphrase is required');
+    }
+
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const key = deriveKey(passphrase, salt);
+
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    return {
+        cipher: 'aes-256-gcm',
+        kdf: 'scrypt',
+        kdfParams: { ...SCRYPT_PARAMS },
+        salt: salt.toString('hex'),
+        iv: iv.toString('hex'),
+        tag: cipher.getAuthTag().toString('hex'),
+        ciphertext: ciphertext.toString('hex')
+    };
+}
+
+export function decryptSecret(encrypted: EncryptedSecret, passphrase: string): string {
+    const key = deriveKey(passphrase, Buffer.from(encrypted.salt, 'hex'), encrypted.kdfParams);
+
+    try {
+        const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(encrypted.iv, 'hex'));
+        decipher.setAuthTag(Buffer.from(encrypted.tag, 'hex'));
+        return Buffer.concat([
+            decipher.update(Buffer.from(encrypted.ciphertext, 'hex')),
+            decipher.final()
+        ]).toString('utf8');
+    } catch (error) {
+        throw new Error('Invalid keystore passphrase');
+    }
+}
+
+export function keystoreExists(dataDir: string): boolean {
+    return fs.existsSync(getStoragePath(dataDir, KEYSTORE_FILE));
+}
+
+function loadKeystore(dataDir: string): KeystoreFile {
+    const keystore = readJsonFile<KeystoreFile | null>(dataDir, KEYSTORE_FILE, null);
+
+    if (!keystore) {
+        throw new Error(`No keystore found in ${dataDir}. Create one with: npm run keystore create`);
+    }
+
+    return keystore;
+}
+
+function unlockKeystore(dataDir: string, passphrase: string): KeystoreFile {
+    const keystore = loadKeystore(dataDir);
+    decryptSecret(keystore.check, passphrase); // Throws on a wrong passphrase
+    return keystore;
+}
+
+export function createKeystore(dataDir: string, passphrase: string): void {
+    if (keystoreExists(dataDir)) {
+        throw new Error(`A keystore already exists in ${dataDir}`);
+    }
+
+    const keystore: KeystoreFile = {
+        version: 1,
+        createdAt: new Date().toISOString(),
+        check: encryptSecret(KEYSTORE_CHECK_VALUE, passphrase),
+        accounts: {}
+    };
+
+    writeJsonFile(dataDir, KEYSTORE_FILE, keystore, { secret: true });
+}
+
+export function importAccount(dataDir: string, passphrase: string, name: string, seed: string): string {
+    const keystore = unlockKeystore(dataDir, passphrase);
+
+    if (keystore.accounts[name]) {
+        throw new Error(`Account '${name}' already exists in the keystore`);
+    }
+
+    // Validates the seed before anything is written
+    const wallet = Wallet.fromSeed(seed);
+
+    keystore.accounts[name] = {
+        address: wallet.address,
+        createdAt: new Date().toISOString(),
+        secret: encryptSecret(seed, passphrase)
+    };
+
+    writeJsonFile(dataDir, KEYSTORE_FILE, keystore, { secret: true });
+    return wallet.address;
+}
+
+export function listAccounts(dataDir: string): Array<{ name: string; address: string; createdAt: string }> {
+    const keystore = loadKeystore(dataDir);
+
+    return Object.entries(keystore.accounts).map(([name, account]) => ({
+        name,
+        address: account.address,
+        createdAt: account.createdAt
+    }));
+}
+
+export function unlockAccount(dataDir: string, passphrase: string, name: string): Wallet {
+    const keystore = loadKeystore(dataDir);
+    const account = keystore.accounts[name];
+
+    if (!account) {
+        throw new Error(`Account '${name}' not found in keystore`);
+    }
+
+    const wallet = Wallet.fromSeed(decryptSecret(account.secret, passphrase));
+
+    if (wallet.address !== account.address) {
+        throw new Error(`Keystore entry '${name}' does not match its recorded address`);
+    }
+
+    return wallet;
+}
@@ -0,0 +1,44 @@
+import { AssetAmendment, CachedAssetMetadata } from '../types';
+import { readJsonFile, writeJsonFile } from './storage';
+
+const METADATA_CACHE_FILE = 'asset-metadata-cache.json';
+
+export function getCachedMetadata(dataDir: string, assetId: string): CachedAssetMetadata | null {
+    const cache = readJsonFile<Record<string, CachedAssetMetadata>>(dataDir, METADATA_CACHE_FILE, {});
+    return cache[assetId] || null;
+}
+
+export function cacheMetadata(dataDir: string, assetId: string, metadata: any): CachedAssetMetadata {
+    const cache = readJsonFile<Record<string, CachedAssetMetadata>>(dataDir, METADATA_CACHE_FILE, {});
+
+    const entry: CachedAssetMetadata = {
+        assetId,
+        metadata,
+        ledgerIndex: metadata.ledgerIndex,
+        cachedAt: new Date().toISOString()
+    };
+
+    cache[assetId] = entry;
+    writeJsonFile(dataDir, METADATA_CACHE_FILE, cache);
+    return entry;
+}
+
+export function cacheAmendments(dataDir: string, assetId: string, amendments: AssetAmendment[], scannedTo: number): void {
+    const cache = readJsonFile<Record<string, CachedAssetMetadata>>(dataDir, METADATA_CACHE_FILE, {});
+
+    if (!cache[assetId]) {
+        throw new Error(`No cached metadata for ${assetId}`);
+    }
+
+    cache[assetId] = { ...cache[assetId], amendments, amendmentsScannedTo: scannedTo };
+    writeJsonFile(dataDir, METADATA_CACHE_FILE, cache);
+}
+
+export function clearCachedMetadata(dataDir: string, assetId: string): void {
+    const cache = readJsonFile<Record<string, CachedAssetMetadata>>(dataDir, METADATA_CACHE_FILE, {});
+
+    if (cache[assetId]) {
+        delete cache[assetId];
+        writeJsonFile(dataDir, METADATA_CACHE_FILE, cache);
+    }
+}
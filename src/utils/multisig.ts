@@ -0,0 +1,106 @@
+import * as crypto from 'crypto';
+import { decode, encode, encodeForMultiSigning, verifyKeypairSignature } from 'xrpl';
+import { MultisigProposal, SignerListEntry } from '../types';
+import { readJsonFile, writeJsonFile } from './storage';
+
+const MULTISIG_PROPOSALS_FILE = 'multisig-proposals.json';
+
+// e.g. MS-1A2B3C4D5E6F, derived from the unsigned transaction
+export function generateProposalId(transaction: Record<string, any>): string {
+    const hash = crypto.createHash('sha256').update(encode(transaction as any)).digest('hex');
+    return `MS-${hash.slice(0, 12).toUpperCase()}`;
+}
+
+export function loadMultisigProposals(dataDir: string): Record<string, MultisigProposal> {
+    return readJsonFile<Record<string, MultisigProposal>>(dataDir, MULTISIG_PROPOSALS_FILE, {});
+}
+
+export function saveMultisigProposal(dataDir: string, proposal: MultisigProposal): void {
+    const proposals = loadMultisigProposals(dataDir);
+    proposals[proposal.id] = { ...proposal, updatedAt: new Date().toISOString() };
+    writeJsonFile(dataDir, MULTISIG_PROPOSALS_FILE, proposals);
+}
+
+export function getMultisigProposal(dataDir: string, proposalId: string): MultisigProposal | null {
+    return loadMultisigProposals(dataDir)[proposalId] || null;
+}
+
+export function listMultisigProposals(
+    dataDir: string,
+    filter: { account?: string; status?: MultisigProposal['status'] } = {}
+): MultisigProposal[] {
+    return Object.values(loadMultisigProposals(dataDir))
+        .filter(proposal => !filter.account || proposal.account === filter.account)
+        .filter(proposal => !filter.status || proposal.status === filter.status)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// Total weight of the signer-list members among `signedBy`; anyone else counts for nothing
+export function getSignedWeight(signers: SignerListEntry[], signedBy: string[]): number {
+    return signers
+        .filter(signer => signedBy.includes(signer.address))
+        .reduce((sum, signer) => sum + signer.weight, 0);
+}
+
+// The fewest of `available` signers (heaviest first) that reach the quorum, or null when even all of them fall
+// short. Every signature adds to the fee, so no more are collected than needed.
+export function selectSigners<T extends SignerListEntry>(available: T[], quorum: number): T[] | null {
+    const selected: T[] = [];
+    let weight = 0;
+
+    for (const signer of [...available].sort((a, b) => b.weight - a.weight)) {
+        if (weight >= quorum) {
+            break;
+        }
+        selected.push(signer);
+        weight += signer.weight;
+    }
+
+    return weight >= quorum ? selected : null;
+}
+
+// Check a signature collected from an external signer: the blob must hold exactly the proposed transaction,
+// signed by one member of the signer list with a valid signature. Returns the signer's address.
+export function verifyMultisigBlob(transaction: Record<string, any>, txBlob: string, signers: SignerListEntry[]): string {
+    const { Signers, ...unsigned } = decode(txBlob) as any;
+
+    if (!Array.isArray(Signers) || Signers.length !== 1) {
+        throw new Error('Expected a transaction signed by exactly one signer (sign it for multi-signing)');
+    }
+
+    if (encode({ ...unsigned, SigningPubKey: '' }) !== encode({ ...transaction, SigningPubKey: '' } as any)) {
+        throw new Error('Signed transaction does not match the proposal');
+    }
+
+    const { Account, SigningPubKey, TxnSignature } = Signers[0].Signer;
+
+    if (!signers.some(signer => signer.address === Account)) {
+        throw new Error(`${Account} is not on the signer list`);
+    }
+
+    if (!verifyKeypairSignature(encodeForMultiSigning({ ...unsigned, SigningPubKey: '' }, Account), TxnSignature, SigningPubKey)) {
+        throw new Error(`Signature from ${Account} is invalid`);
+    }
+
+    return Account;
+}
+
+// Tool output for a proposal
+export function summarizeProposal(proposal: MultisigProposal) {
+    const signedWeight = proposal.signatures.reduce((sum, signature) => sum + signature.weight, 0);
+
+    return {
+        proposal_id: proposal.id,
+        account: proposal.account,
+        description: proposal.description,
+        transaction_type: proposal.transaction.TransactionType,
+        sequence: proposal.transaction.TicketSequence ?? proposal.transaction.Sequence,
+        status: proposal.status,
+        signatures: `${signedWeight} of ${proposal.quorum} required weight`,
+        signed_by: proposal.signatures.map(signature => `${signature.signer} (weight ${signature.weight}, ${signature.source})`),
+        ...(proposal.transactionHash && { transaction_hash: proposal.transactionHash }),
+        ...(proposal.engineResult && { result: proposal.engineResult }),
+        ...(proposal.error && { error: proposal.error }),
+        created_at: proposal.createdAt
+    };
+}
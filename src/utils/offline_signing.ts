@@ -0,0 +1,58 @@
+import { dropsToXrp } from 'xrpl';
+import { PreparedTransaction } from '../types';
+
+// Tool output for a transaction prepared for offline signing instead of being submitted
+export function summarizePreparedTransaction(prepared: PreparedTransaction, description: string, network: string) {
+    return {
+        status: "prepared",
+        message: `📝 ${description} prepared for offline signing - nothing was submitted`,
+        unsigned_transaction: {
+            account: prepared.account,
+            transaction_type: prepared.transaction.TransactionType,
+            sequence: prepared.sequence,
+            fee: `${dropsToXrp(prepared.fee)} XRP`,
+            last_ledger_sequence: prepared.lastLedgerSequence,
+            network,
+            transaction_json: prepared.transaction,
+            tx_blob: prepared.txBlob
+        },
+        next_steps: [
+            `Sign transaction_json (or decode tx_blob) offline with the key for ${prepared.account}`,
+            "Submit the signed blob with rwa_submit_signed",
+            `Submit before ledger ${prepared.lastLedgerSequence} closes; after that, prepare the transaction again`
+        ]
+    };
+}
+
+// Tool output for a sequence of prepared transactions that must be signed and submitted in order
+export function summarizePreparedTransactions(
+    prepared: Array<PreparedTransaction & { step?: string }>,
+    description: string,
+    network: string
+) {
+    const lastLedgerSequence = Math.min(...prepared.map(item => item.lastLedgerSequence));
+    const totalFee = prepared.reduce((sum, item) => sum + Number(item.fee), 0);
+
+    return {
+        status: "prepared",
+        message: `📝 ${description} prepared for offline signing as ${prepared.length} transaction(s) - nothing was submitted`,
+        unsigned_transactions: prepared.map((item, index) => ({
+            order: index + 1,
+            ...(item.step && { step: item.step }),
+            account: item.account,
+            transaction_type: item.transaction.TransactionType,
+            sequence: item.sequence,
+            fee: `${dropsToXrp(item.fee)} XRP`,
+            transaction_json: item.transaction,
+            tx_blob: item.txBlob
+        })),
+        total_fee: `${dropsToXrp(totalFee)} XRP`,
+        last_ledger_sequence: lastLedgerSequence,
+        network,
+        next_steps: [
+            "Sign each transaction_json (or decode its tx_blob) offline with the key for its account",
+            "Submit the signed blobs with rwa_submit_signed in the listed order, waiting for each to validate - transactions from one account use consecutive sequence numbers",
+            `Submit before ledger ${lastLedgerSequence} closes; after that, prepare the transactions again`
+        ]
+    };
+}
@@ -0,0 +1,130 @@
+import { dropsToXrp, getBalanceChanges, TransactionMetadata } from 'xrpl';
+import { SimulatedBalanceChange, SimulationResult } from '../types';
+
+// Balance changes in transaction metadata, one entry per account and currency. xrpl.js covers XRP
+// and trustlines; MPT holdings are read from the MPToken entries.
+export function extractBalanceChanges(meta: TransactionMetadata): SimulatedBalanceChange[] {
+    const changes: SimulatedBalanceChange[] = getBalanceChanges(meta).flatMap(({ account, balances }) =>
+        balances.map(balance => ({
+            account,
+            currency: balance.currency,
+            ...(balance.issuer && { issuer: balance.issuer }),
+            value: balance.value
+        }))
+    );
+
+    for (const node of meta.AffectedNodes) {
+        const entry: any = 'ModifiedNode' in node ? node.ModifiedNode : 'CreatedNode' in node ? node.CreatedNode : node.DeletedNode;
+        if (entry.LedgerEntryType !== 'MPToken') {
+            continue;
+        }
+
+        const fields = entry.FinalFields || entry.NewFields;
+        const before = BigInt(entry.PreviousFields?.MPTAmount ?? ('CreatedNode' in node ? 0 : fields.MPTAmount ?? 0));
+        const after = BigInt('DeletedNode' in node ? 0 : fields.MPTAmount ?? 0);
+
+        if (after !== before) {
+            changes.push({ account: fields.Account, currency: fields.MPTokenIssuanceID, value: (after - before).toString() });
+        }
+    }
+
+    return changes;
+}
+
+// Balance changes as signed amounts, grouped by account
+const groupBalanceChanges = (changes: SimulatedBalanceChange[]) => changes.reduce((byAccount: Record<string, string[]>, change) => {
+    const amount = `${change.value.startsWith('-') ? '' : '+'}${change.value} ${change.issuer ? `${change.currency}.${change.issuer}` : change.currency}`;
+    (byAccount[change.account] = byAccount[change.account] || []).push(amount);
+    return byAccount;
+}, {});
+
+// Tool output for a dry run. `estimate` carries the tool's own figures (e.g. expected swap output).
+export function summarizeSimulation(
+    simulation: SimulationResult,
+    description: string,
+    network: string,
+    estimate?: Record<string, any>
+) {
+    const succeeded = simulation.engineResult === 'tesSUCCESS';
+
+    return {
+        status: simulation.method === 'estimate' ? "estimated" : succeeded ? "simulated" : "error",
+        message: simulation.method === 'estimate'
+            ? `🔎 Dry run of ${description}: this server cannot simulate, so only a local estimate is shown - nothing was submitted`
+            : succeeded
+                ? `🔎 Dry run of ${description} would succeed - nothing was submitted`
+                : `❌ Dry run of ${description} would fail with ${simulation.engineResult} - nothing was submitted`,
+        simulation: {
+            method: simulation.method === 'simulate' ? "Ledger simulate RPC" : "Local estimate",
+            ...(simulation.engineResult && {
+                expected_result: simulation.engineResult,
+                result_message: simulation.engineResultMessage
+            }),
+            fee: `${dropsToXrp(simulation.fee)} XRP`,
+            ...(simulation.ledgerIndex !== undefined && { ledger_index: simulation.ledgerIndex }),
+            network
+        },
+        ...(simulation.method === 'simulate' && { balance_changes: groupBalanceChanges(simulation.balanceChanges) }),
+        ...(estimate && { estimate }),
+        transaction_json: simulation.transaction,
+        next_steps: simulation.method === 'estimate' || succeeded
+            ? ["Run the same request without dry_run to submit it", "Ledger state can change before then, so the outcome may differ"]
+            : ["Fix the cause shown in expected_result before submitting"]
+    };
+}
+
+// Tool output for a dry run of several transactions. Each is simulated on its own against the current ledger;
+// steps that need earlier ones applied first come without a simulation and are listed as not simulated.
+export function summarizeSimulations(
+    items: Array<{ step?: string; transaction: Record<string, any>; simulation: SimulationResult | null }>,
+    description: string,
+    network: string,
+    estimate?: Record<string, any>
+) {
+    const simulated = items.filter(item => item.simulation);
+    const estimated = simulated.some(item => item.simulation!.method === 'estimate');
+    const wouldFail = simulated.filter(item => item.simulation!.method === 'simulate' && item.simulation!.engineResult !== 'tesSUCCESS');
+    const skipped = items.length - simulated.length;
+    const totalFee = simulated.reduce((sum, item) => sum + Number(item.simulation!.fee), 0);
+
+    return {
+        status: wouldFail.length > 0 ? "error" : estimated ? "estimated" : "simulated",
+        message: wouldFail.length > 0
+            ? `❌ Dry run of ${description}: ${wouldFail.length} of ${items.length} transaction(s) would fail - nothing was submitted`
+            : estimated
+                ? `🔎 Dry run of ${description}: this server cannot simulate, so only a local estimate is shown - nothing was submitted`
+                : `🔎 Dry run of ${description} would succeed${skipped > 0 ? ` as far as it can be simulated` : ''} - nothing was submitted`,
+        simulation: {
+            method: estimated ? "Local estimate" : "Ledger simulate RPC",
+            transactions: items.length,
+            simulated: simulated.length,
+            ...(!estimated && { expected_to_succeed: simulated.length - wouldFail.length }),
+            total_fee: `${dropsToXrp(totalFee)} XRP`,
+            network
+        },
+        results: items.map((item, index) => ({
+            order: index + 1,
+            ...(item.step && { step: item.step }),
+            account: item.transaction.Account,
+            transaction_type: item.transaction.TransactionType,
+            ...(item.simulation
+                ? {
+                    ...(item.simulation.engineResult && {
+                        expected_result: item.simulation.engineResult,
+                        result_message: item.simulation.engineResultMessage
+                    }),
+                    fee: `${dropsToXrp(item.simulation.fee)} XRP`,
+                    ...(item.simulation.method === 'simulate' && { balance_changes: groupBalanceChanges(item.simulation.balanceChanges) })
+                }
+                : { not_simulated: "Only valid once the transactions before it are applied" })
+        })),
+        ...(estimate && { estimate }),
+        next_steps: wouldFail.length > 0
+            ? ["Fix the cause shown in each failing expected_result before submitting"]
+            : [
+                "Run the same request without dry_run to submit it",
+                ...(skipped > 0 ? [`${skipped} transaction(s) depend on earlier ones and could not be simulated on their own`] : []),
+                "Ledger state can change before then, so the outcome may differ"
+            ]
+    };
+}
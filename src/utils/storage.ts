@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export function getStoragePath(dataDir: string, fileName: string): string {
+    return path.join(dataDir, fileName);
+}
+
+export function readJsonFile<T>(dataDir: string, fileName: string, fallback: T): T {
+    const filePath = getStoragePath(dataDir, fileName);
+
+    if (!fs.existsSync(filePath)) {
+        return fallback;
+    }
+
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+    } catch (error: any) {
+        throw new Error(`Failed to read ${filePath}: ${error.message}`);
+    }
+}
+
+export function writeJsonFile(dataDir: string, fileName: string, data: any, options: { secret?: boolean } = {}): void {
+    const filePath = getStoragePath(dataDir, fileName);
+    const mode = options.secret ? 0o600 : 0o644;
+
+    fs.mkdirSync(dataDir, { recursive: true, mode: 0o700 });
+
+    // Write to a temp file first so a crash never leaves a half-written store
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), { mode });
+    fs.renameSync(tempPath, filePath);
+}
+
+// Append-only JSON Lines files are used for records that must never be rewritten
+export function appendJsonLine(dataDir: string, fileName: string, record: any): void {
+    fs.mkdirSync(dataDir, { recursive: true, mode: 0o700 });
+    fs.appendFileSync(getStoragePath(dataDir, fileName), JSON.stringify(record) + '\n', { mode: 0o600 });
+}
+
+export function readJsonLines<T>(dataDir: string, fileName: string): T[] {
+    const filePath = getStoragePath(dataDir, fileName);
+
+    if (!fs.existsSync(filePath)) {
+        return [];
+    }
+
+    return fs.readFileSync(filePath, 'utf8')
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line) as T);
+}
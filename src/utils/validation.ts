@@ -1,12 +1,13 @@
-import { CURRENCY_CODE, COMPLIANCE_LIMITS } from '../constants';
+import { CURRENCY_CODE, COMPLIANCE_LIMITS, MULTISIG } from '../constants';
+import { SignerListEntry } from '../types';
 
 export function validateTokenSymbol(symbol: string): { valid: boolean; error?: string } {
     if (!symbol) {
         return { valid: false, error: "Token symbol is required" };
     }
     
-    if (symbol.length !== CURRENCY_CODE.MAX_LENGTH) {
-        return { valid: false, error: `Token symbol must be exactly ${CURRENCY_CODE.MAX_LENGTH} characters` };
+    if (symbol.length < CURRENCY_CODE.MIN_LENGTH || symbol.length > CURRENCY_CODE.MAX_LENGTH) {
+        return { valid: false, error: `Token symbol must be between ${CURRENCY_CODE.MIN_LENGTH} and ${CURRENCY_CODE.MAX_LENGTH} characters` };
     }
     
     if (!CURRENCY_CODE.ALLOWED_CHARS.test(symbol)) {
@@ -107,6 +108,68 @@ export function validateComplianceSettings(accreditedOnly: boolean, maxInvestors
     return { valid: true };
 }
 
+// The ledger rejects signer lists that are empty, name the account itself, repeat a signer or set a
+// quorum the signers together cannot reach
+export function validateSignerList(account: string, quorum: number, signers: SignerListEntry[]): { valid: boolean; error?: string } {
+    if (signers.length === 0 || signers.length > MULTISIG.MAX_SIGNERS) {
+        return { valid: false, error: `A signer list needs 1-${MULTISIG.MAX_SIGNERS} signers` };
+    }
+
+    if (signers.some(signer => signer.address === account)) {
+        return { valid: false, error: "An account cannot be on its own signer list" };
+    }
+
+    if (new Set(signers.map(signer => signer.address)).size !== signers.length) {
+        return { valid: false, error: "Each signer can appear only once" };
+    }
+
+    if (signers.some(signer => !Number.isInteger(signer.weight) || signer.weight < 1 || signer.weight > MULTISIG.MAX_SIGNER_WEIGHT)) {
+        return { valid: false, error: `Signer weights must be whole numbers from 1 to ${MULTISIG.MAX_SIGNER_WEIGHT}` };
+    }
+
+    const totalWeight = signers.reduce((sum, signer) => sum + signer.weight, 0);
+    if (!Number.isInteger(quorum) || quorum < 1 || quorum > totalWeight) {
+        return { valid: false, error: `Quorum must be between 1 and the total signer weight (${totalWeight})` };
+    }
+
+    return { valid: true };
+}
+
+// Check whether adding new holders keeps an offering within its investor cap. An explicit maxInvestors
+// always applies; otherwise the jurisdiction's default cap for retail or accredited-only offerings does.
+export function evaluateInvestorCap(
+    compliance: { accreditedOnly?: boolean; maxInvestors?: number } | undefined,
+    currentHolders: number,
+    newHolders: number,
+    limits: { retail?: number; accredited?: number; regime: string } = {
+        retail: COMPLIANCE_LIMITS.MAX_INVESTORS_UNREGISTERED,
+        regime: 'SEC Rule 506(b)'
+    }
+): { cap?: number; rule: string; projectedHolders: number; allowed: boolean; warning?: string } {
+    const projectedHolders = currentHolders + newHolders;
+    const defaultCap = compliance?.accreditedOnly ? limits.accredited : limits.retail;
+    const cap = compliance?.maxInvestors ?? defaultCap;
+    const rule = compliance?.maxInvestors !== undefined
+        ? `Asset investor cap of ${compliance.maxInvestors}`
+        : defaultCap === undefined
+            ? `No investor cap (${compliance?.accreditedOnly ? 'accredited-only' : 'retail'} offering under ${limits.regime})`
+            : `${compliance?.accreditedOnly ? 'Accredited' : 'Unregistered'} offering limit of ${defaultCap} investors (${limits.regime})`;
+
+    if (cap === undefined) {
+        return { rule, projectedHolders, allowed: true };
+    }
+
+    if (newHolders > 0 && projectedHolders > cap) {
+        return { cap, rule, projectedHolders, allowed: false };
+    }
+
+    const warning = projectedHolders >= Math.ceil(cap * COMPLIANCE_LIMITS.INVESTOR_CAP_WARNING_RATIO)
+        ? `${projectedHolders} of ${cap} investor slots used (${rule})`
+        : undefined;
+
+    return { cap, rule, projectedHolders, allowed: true, warning };
+}
+
 export function validateDistributionAmount(amount: number, totalSupply: number): { valid: boolean; error?: string } {
     if (!amount || amount <= 0) {
         return { valid: false, error: "Distribution amount must be positive" };
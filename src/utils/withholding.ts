@@ -0,0 +1,96 @@
+import { HolderTaxProfile, WithholdingReport, WithholdingReportLine, WithholdingRuleSet } from '../types';
+import { appendJsonLine, readJsonFile, readJsonLines, writeJsonFile } from './storage';
+
+const TAX_PROFILES_FILE = 'holder-tax-profiles.json';
+const WITHHOLDING_RULES_FILE = 'withholding-rules.json';
+const WITHHOLDING_REPORTS_FILE = 'withholding-reports.jsonl';
+
+export function loadTaxProfiles(dataDir: string): Record<string, HolderTaxProfile> {
+    return readJsonFile<Record<string, HolderTaxProfile>>(dataDir, TAX_PROFILES_FILE, {});
+}
+
+export function getTaxProfile(dataDir: string, address: string): HolderTaxProfile | null {
+    return loadTaxProfiles(dataDir)[address] || null;
+}
+
+export function saveTaxProfile(dataDir: string, profile: Omit<HolderTaxProfile, 'updatedAt'>): HolderTaxProfile {
+    const profiles = loadTaxProfiles(dataDir);
+    profiles[profile.address] = { ...profile, updatedAt: new Date().toISOString() };
+    writeJsonFile(dataDir, TAX_PROFILES_FILE, profiles);
+    return profiles[profile.address];
+}
+
+export function deleteTaxProfile(dataDir: string, address: string): boolean {
+    const profiles = loadTaxProfiles(dataDir);
+
+    if (!profiles[address]) {
+        return false;
+    }
+
+    delete profiles[address];
+    writeJsonFile(dataDir, TAX_PROFILES_FILE, profiles);
+    return true;
+}
+
+export function loadWithholdingRules(dataDir: string): Record<string, WithholdingRuleSet> {
+    return readJsonFile<Record<string, WithholdingRuleSet>>(dataDir, WITHHOLDING_RULES_FILE, {});
+}
+
+export function getWithholdingRules(dataDir: string, sourceJurisdiction: string): WithholdingRuleSet | null {
+    return loadWithholdingRules(dataDir)[sourceJurisdiction] || null;
+}
+
+export function saveWithholdingRules(dataDir: string, rules: Omit<WithholdingRuleSet, 'updatedAt'>): WithholdingRuleSet {
+    const ruleSets = loadWithholdingRules(dataDir);
+    ruleSets[rules.sourceJurisdiction] = { ...rules, updatedAt: new Date().toISOString() };
+    writeJsonFile(dataDir, WITHHOLDING_RULES_FILE, ruleSets);
+    return ruleSets[rules.sourceJurisdiction];
+}
+
+// Pick the rate for one holder: exemption, then the holder's treaty rate, then the rule set.
+// Without a rule set only exemptions and treaty rates apply.
+export function resolveWithholdingRate(
+    profile: HolderTaxProfile | null,
+    rules: WithholdingRuleSet | null
+): { rate: number; source: WithholdingReportLine['rateSource'] } {
+    if (profile?.exempt) {
+        return { rate: 0, source: 'exempt' };
+    }
+
+    if (profile?.treatyRate !== undefined) {
+        return { rate: profile.treatyRate, source: 'treaty' };
+    }
+
+    if (!rules) {
+        return { rate: 0, source: 'none' };
+    }
+
+    if (!profile) {
+        return { rate: rules.undocumentedRate, source: 'undocumented' };
+    }
+
+    if (profile.jurisdiction === rules.sourceJurisdiction) {
+        return { rate: rules.domesticRate, source: 'domestic' };
+    }
+
+    if (rules.jurisdictionRates[profile.jurisdiction] !== undefined) {
+        return { rate: rules.jurisdictionRates[profile.jurisdiction], source: 'jurisdiction' };
+    }
+
+    return { rate: rules.defaultRate, source: 'default' };
+}
+
+export function recordWithholdingReport(dataDir: string, report: WithholdingReport): void {
+    appendJsonLine(dataDir, WITHHOLDING_REPORTS_FILE, report);
+}
+
+export function readWithholdingReports(
+    dataDir: string,
+    filter: { assetId?: string; reference?: string } = {}
+): WithholdingReport[] {
+    return readJsonLines<WithholdingReport>(dataDir, WITHHOLDING_REPORTS_FILE)
+        .filter(report =>
+            (!filter.assetId || report.assetId === filter.assetId) &&
+            (!filter.reference || report.reference === filter.reference)
+        );
+}
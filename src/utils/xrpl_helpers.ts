@@ -1,14 +1,49 @@
-import { convertStringToHex, convertHexToString } from 'xrpl';
-import { Wallet } from "xrpl"
+import { convertStringToHex, convertHexToString, decodeAccountID, encodeAccountID, getBalanceChanges } from 'xrpl';
+import { BigNumber } from 'bignumber.js';
+import { CURRENCY_CODE, MPT } from '../constants';
+import { AssetAmendment } from '../types';
 
 export function generateCurrencyCode(tokenSymbol: string): string {
-    // Ensure 3 characters, uppercase
-    return tokenSymbol.toUpperCase().padEnd(3, '0').substring(0, 3);
+    // Short symbols are padded to a 3-character standard code, longer ones use the hex format
+    return encodeCurrencyCode(tokenSymbol.toUpperCase().padEnd(CURRENCY_CODE.STANDARD_LENGTH, '0'));
 }
 
 export function formatCurrencyCode(currency: string): string {
     // Remove trailing zeros and format for display
-    return currency.replace(/0+$/, '');
+    return isHexCurrencyCode(currency) ? decodeCurrencyCode(currency) : currency.replace(/0+$/, '');
+}
+
+export function isHexCurrencyCode(currency: string): boolean {
+    return CURRENCY_CODE.HEX_FORMAT.test(currency);
+}
+
+// Encode a ticker as an XRPL currency code: 3 characters stay as-is, longer tickers become 40-hex (ASCII, zero-padded)
+export function encodeCurrencyCode(symbol: string): string {
+    if (isHexCurrencyCode(symbol)) {
+        return symbol.toUpperCase();
+    }
+
+    if (symbol.length === CURRENCY_CODE.STANDARD_LENGTH) {
+        return symbol;
+    }
+
+    if (symbol.length > CURRENCY_CODE.MAX_LENGTH) {
+        throw new Error(`Currency symbol '${symbol}' exceeds ${CURRENCY_CODE.MAX_LENGTH} characters`);
+    }
+
+    return Buffer.from(symbol, 'ascii').toString('hex').toUpperCase().padEnd(40, '0');
+}
+
+// Decode a 40-hex currency code back to its ticker; standard codes are returned unchanged
+export function decodeCurrencyCode(currency: string): string {
+    if (!isHexCurrencyCode(currency)) {
+        return currency;
+    }
+
+    const decoded = Buffer.from(currency, 'hex').toString('ascii').replace(/\0+$/, '');
+
+    // Codes that are not printable ASCII (e.g. demurrage or LP tokens) are shown as hex
+    return /^[\x20-\x7E]+$/.test(decoded) ? decoded : currency;
 }
 
 export function createMemo(text: string): any {
@@ -37,11 +72,120 @@ export function parseAssetId(assetId: string): { currency: string; issuer: strin
         return null;
     }
     return {
-        currency: parts[0],
+        currency: encodeCurrencyCode(parts[0]),
         issuer: parts[1]
     };
 }
 
+// Split CURRENCY.ISSUER into its on-ledger currency code and issuer, accepting tickers or 40-hex codes
+export function splitAssetId(assetId: string): [string, string] {
+    const parsed = parseAssetId(assetId);
+    if (!parsed) {
+        throw new Error(`Invalid asset ID: ${assetId}`);
+    }
+    return [parsed.currency, parsed.issuer];
+}
+
+// Canonical form of an asset ID, using the currency code exactly as it appears on-ledger
+export function normalizeAssetId(assetId: string): string {
+    if (isMPTokenId(assetId)) {
+        return assetId;
+    }
+    const [currency, issuer] = splitAssetId(assetId);
+    return generateAssetId(currency, issuer);
+}
+
+export function isMPTokenId(tokenId: string): boolean {
+    return MPT.ISSUANCE_ID_REGEX.test(tokenId);
+}
+
+// An MPTokenIssuanceID is the issuer's 4-byte sequence followed by its 20-byte account ID
+export function getMPTIssuer(mptIssuanceId: string): string {
+    return encodeAccountID(Buffer.from(mptIssuanceId.slice(8), 'hex'));
+}
+
+// Issuance ID that an MPTokenIssuanceCreate with this Sequence will create
+export function computeMPTIssuanceId(sequence: number, issuer: string): string {
+    return (sequence.toString(16).padStart(8, '0') + Buffer.from(decodeAccountID(issuer)).toString('hex')).toUpperCase();
+}
+
+// Issuer address of an asset ID (CURRENCY.ISSUER or MPT issuance ID); a bare address is returned as-is
+export function getAssetIssuer(assetIdOrIssuer: string): string {
+    if (isMPTokenId(assetIdOrIssuer)) {
+        return getMPTIssuer(assetIdOrIssuer);
+    }
+    return assetIdOrIssuer.includes('.') ? splitAssetId(assetIdOrIssuer)[1] : assetIdOrIssuer;
+}
+
+export function toMPTValue(amount: string | number, assetScale: number = 0): string {
+    const value = new BigNumber(amount).shiftedBy(assetScale);
+    if (!value.isInteger()) {
+        throw new Error(`Amount ${amount} has more than ${assetScale} decimal places`);
+    }
+    return value.toFixed(0);
+}
+
+export function fromMPTValue(value: string | number, assetScale: number = 0): number {
+    return new BigNumber(value).shiftedBy(-assetScale).toNumber();
+}
+
+// Net change in an account's holding of an asset caused by one transaction (from its metadata)
+export function getTokenBalanceChange(meta: any, address: string, assetId: string, assetScale: number = 0): number {
+    if (!meta || typeof meta === 'string') {
+        return 0;
+    }
+
+    if (isMPTokenId(assetId)) {
+        let change = new BigNumber(0);
+
+        for (const node of meta.AffectedNodes || []) {
+            const entry = node.CreatedNode || node.ModifiedNode || node.DeletedNode;
+            const fields = entry.NewFields || entry.FinalFields || {};
+
+            if (entry.LedgerEntryType !== 'MPToken' || fields.Account !== address ||
+                fields.MPTokenIssuanceID?.toUpperCase() !== assetId.toUpperCase()) {
+                continue;
+            }
+
+            const after = node.DeletedNode ? '0' : fields.MPTAmount || '0';
+            const before = node.CreatedNode ? '0' : entry.PreviousFields?.MPTAmount ?? (node.DeletedNode ? fields.MPTAmount || '0' : after);
+            change = change.plus(after).minus(before);
+        }
+
+        return change.shiftedBy(-assetScale).toNumber();
+    }
+
+    const [currency, issuer] = splitAssetId(assetId);
+    const accountChanges = getBalanceChanges(meta).find(changes => changes.account === address);
+
+    return (accountChanges?.balances || [])
+        .filter(balance => balance.currency === currency && balance.issuer === issuer)
+        .reduce((sum, balance) => sum.plus(balance.value), new BigNumber(0))
+        .toNumber();
+}
+
+export function createMPTMetadata(assetMetadata: any): string {
+    const metadataHex = convertStringToHex(JSON.stringify(assetMetadata));
+
+    if (metadataHex.length / 2 > MPT.MAX_METADATA_BYTES) {
+        throw new Error(`Asset metadata is ${metadataHex.length / 2} bytes, MPT metadata is limited to ${MPT.MAX_METADATA_BYTES} bytes`);
+    }
+
+    return metadataHex;
+}
+
+export function parseMPTMetadata(metadataHex?: string): any | null {
+    if (!metadataHex) {
+        return null;
+    }
+
+    try {
+        return JSON.parse(convertHexToString(metadataHex));
+    } catch (error) {
+        return null; // Not JSON metadata written by RWA.build
+    }
+}
+
 export function isValidXRPLAddress(address: string): boolean {
     const xrplAddressRegex = /^r[1-9A-HJ-NP-Za-km-z]{25,34}$/;
     return xrplAddressRegex.test(address);
@@ -94,7 +238,7 @@ export function calculateNetworkFee(transactionCount: number = 1): string {
 
 export function generateDistributionReference(assetId: string, timestamp?: number): string {
     const ts = timestamp || Date.now();
-    const [currency] = assetId.split('.');
+    const currency = isMPTokenId(assetId) ? 'MPT' : decodeCurrencyCode(assetId.split('.')[0]);
     return `${currency}-DIST-${ts}`;
 }
 
@@ -166,7 +310,7 @@ export function createRWAMemo(assetMetadata: any): any {
     };
 }
 
-export function parseRWAMemo(memo: any): any | null {
+export function parseRWAMemo(memo: any, expectedType: string = 'RWA_TOKENIZATION'): any | null {
     try {
         if (!memo.MemoType || !memo.MemoData) {
             return null;
@@ -174,7 +318,7 @@ export function parseRWAMemo(memo: any): any | null {
 
         const memoType = convertHexToString(memo.MemoType);
 
-        if (memoType !== 'RWA_TOKENIZATION') {
+        if (memoType !== expectedType) {
             return null;
         }
 
@@ -190,17 +334,18 @@ export function parseRWAMemo(memo: any): any | null {
 
 export function findRWATokenizationTx(transactions: any[], currency: string): any | null {
     for (const txWrapper of transactions) {
-        const tx = txWrapper.tx;
+        // API v2 responses use tx_json (with the hash on the wrapper); v1 responses use tx
+        const tx = txWrapper.tx_json || txWrapper.tx;
 
-        if (tx.TransactionType === 'AccountSet' && tx.Memos) {
+        if (tx?.TransactionType === 'AccountSet' && tx.Memos) {
             for (const memoWrapper of tx.Memos) {
                 const parsedMemo = parseRWAMemo(memoWrapper.Memo);
 
-                if (parsedMemo && parsedMemo.assetDetails?.tokenSymbol === currency) {
+                if (parsedMemo && parsedMemo.assetDetails?.tokenSymbol === decodeCurrencyCode(currency)) {
                     return {
                         ...parsedMemo,
-                        tokenizationTxHash: tx.hash,
-                        ledgerIndex: txWrapper.ledger_index
+                        tokenizationTxHash: txWrapper.hash || tx.hash,
+                        ledgerIndex: txWrapper.ledger_index ?? tx.ledger_index
                     };
                 }
             }
@@ -210,9 +355,82 @@ export function findRWATokenizationTx(transactions: any[], currency: string): an
     return null;
 }
 
-export function getColdWallet(): Wallet {
-    // FIXME: not safe to have it here
-    // rHJZf5qYxwH2Fnms1Uwmi61VfHqoTALgXw
-    const coldPKey = atob("c0VkN1FnTEhnSENya3NVZnhHSjg0cWpOdlZxM0VlWQ==")
-    return Wallet.fromSeed(coldPKey)
-}
\ No newline at end of file
+export function createRWAAmendmentMemo(amendment: Omit<AssetAmendment, 'transactionHash' | 'ledgerIndex'>): any {
+    const memoJson = JSON.stringify({
+        type: "RWA_AMENDMENT",
+        format: "application/json",
+        data: amendment
+    });
+
+    return {
+        Memo: {
+            MemoType: convertStringToHex("RWA_AMENDMENT"),
+            MemoFormat: convertStringToHex("application/json"),
+            MemoData: convertStringToHex(memoJson)
+        }
+    };
+}
+
+// Collect amendment memos for an asset, in ledger order. Only successful transactions sent by the issuer count.
+export function findRWAAmendments(transactions: any[], assetId: string, issuer: string): AssetAmendment[] {
+    const amendments: AssetAmendment[] = [];
+
+    for (const txWrapper of transactions) {
+        const tx = txWrapper.tx_json || txWrapper.tx;
+        const meta = txWrapper.meta;
+
+        if (!tx?.Memos || tx.Account !== issuer || (meta && meta.TransactionResult !== 'tesSUCCESS')) {
+            continue;
+        }
+
+        for (const memoWrapper of tx.Memos) {
+            const amendment = parseRWAMemo(memoWrapper.Memo, 'RWA_AMENDMENT');
+
+            if (amendment && amendment.assetId === assetId) {
+                amendments.push({
+                    ...amendment,
+                    transactionHash: txWrapper.hash || tx.hash,
+                    ledgerIndex: txWrapper.ledger_index ?? tx.ledger_index
+                });
+            }
+        }
+    }
+
+    return amendments;
+}
+
+// Fold amendments over the tokenization metadata to get the current view of an asset
+export function applyRWAAmendments(metadata: any, amendments: AssetAmendment[]): any {
+    const assetDetails = { ...metadata.assetDetails };
+
+    for (const amendment of amendments) {
+        Object.assign(assetDetails, amendment.changes);
+    }
+
+    if (assetDetails.totalSupply) {
+        assetDetails.pricePerToken = assetDetails.totalValue / assetDetails.totalSupply;
+    }
+
+    return {
+        ...metadata,
+        assetDetails,
+        version: 1 + amendments.length
+    };
+}
+
+// Version 1 of an asset's history: the metadata as written at tokenization
+export function createInitialMetadataVersion(assetId: string, metadata: any): AssetAmendment {
+    return {
+        assetId,
+        version: 1,
+        timestamp: metadata.timestamp,
+        changes: {
+            name: metadata.assetDetails.name,
+            totalValue: metadata.assetDetails.totalValue,
+            yieldRate: metadata.assetDetails.yieldRate
+        },
+        reason: 'Initial tokenization',
+        transactionHash: metadata.tokenizationTxHash,
+        ledgerIndex: metadata.ledgerIndex
+    };
+}
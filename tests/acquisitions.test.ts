@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Wallet } from 'xrpl';
+import { RWAAgent } from '../src/agent';
+import { applyBalanceChange, getHolderAcquisitions, saveHolderAcquisitions, summarizeLockup } from '../src/utils/acquisitions';
+import { AcquisitionLot } from '../src/types';
+
+describe('Holding-Period Acquisitions', () => {
+    const assetId = 'BLD.rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH';
+    const holder = 'rPT1Sjq2YGrBMTttX4GZHjKu9dyfQeEBUs';
+
+    const acquisition = (acquiredAt: string, ledgerIndex: number) => ({
+        acquiredAt,
+        hash: `HASH${ledgerIndex}`,
+        ledgerIndex
+    });
+
+    test('should open a lot for each acquisition', () => {
+        let lots: AcquisitionLot[] = [];
+        lots = applyBalanceChange(lots, 100, acquisition('2025-01-01T00:00:00.000Z', 1));
+        lots = applyBalanceChange(lots, 50, acquisition('2025-03-01T00:00:00.000Z', 2));
+
+        expect(lots.map(lot => lot.amount)).toEqual([100, 50]);
+        expect(lots[1].hash).toBe('HASH2');
+    });
+
+    test('should use up the oldest lots first when tokens leave', () => {
+        let lots: AcquisitionLot[] = [];
+        lots = applyBalanceChange(lots, 100, acquisition('2025-01-01T00:00:00.000Z', 1));
+        lots = applyBalanceChange(lots, 50, acquisition('2025-03-01T00:00:00.000Z', 2));
+        lots = applyBalanceChange(lots, -120, acquisition('2025-04-01T00:00:00.000Z', 3));
+
+        expect(lots).toHaveLength(1);
+        expect(lots[0]).toMatchObject({ amount: 30, ledgerIndex: 2 });
+    });
+
+    test('should split the balance into locked and unlocked parts', () => {
+        const lots = [
+            { amount: 100, ...acquisition('2025-01-01T00:00:00.000Z', 1) },
+            { amount: 40, ...acquisition('2025-06-01T00:00:00.000Z', 2) }
+        ];
+        const status = summarizeLockup(assetId, holder, lots, 140, 90, new Date('2025-06-15T00:00:00.000Z'));
+
+        expect(status.lockedBalance).toBe(40);
+        expect(status.unlockedBalance).toBe(100);
+        expect(status.nextUnlock).toBe('2025-08-30T00:00:00.000Z');
+        expect(status.lots.map(lot => lot.locked)).toEqual([false, true]);
+    });
+
+    test('should treat balance not explained by the history as unlocked', () => {
+        const lots = [{ amount: 40, ...acquisition('2025-06-01T00:00:00.000Z', 2) }];
+        const status = summarizeLockup(assetId, holder, lots, 100, 90, new Date('2025-06-15T00:00:00.000Z'));
+
+        expect(status.lockedBalance).toBe(40);
+        expect(status.unlockedBalance).toBe(60);
+    });
+
+    test('should unlock everything once the holding period has passed', () => {
+        const lots = [{ amount: 40, ...acquisition('2025-06-01T00:00:00.000Z', 2) }];
+        const status = summarizeLockup(assetId, holder, lots, 40, 30, new Date('2025-07-02T00:00:00.000Z'));
+
+        expect(status.lockedBalance).toBe(0);
+        expect(status.unlockedBalance).toBe(40);
+        expect(status.nextUnlock).toBeUndefined();
+    });
+
+    test('should persist acquisitions per asset and holder', () => {
+        const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rwa-build-'));
+
+        try {
+            expect(getHolderAcquisitions(dataDir, assetId, holder)).toBeNull();
+
+            saveHolderAcquisitions(dataDir, {
+                assetId,
+                address: holder,
+                lots: [{ amount: 10, ...acquisition('2025-06-01T00:00:00.000Z', 2) }],
+                scannedToLedger: 500,
+                updatedAt: '2025-06-01T00:00:00.000Z'
+            });
+
+            expect(getHolderAcquisitions(dataDir, assetId, holder)?.scannedToLedger).toBe(500);
+            expect(getHolderAcquisitions(dataDir, 'USD.rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH', holder)).toBeNull();
+        } finally {
+            fs.rmSync(dataDir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe('Holding-Period Lockups', () => {
+    const treasury = Wallet.generate();
+    const issuer = Wallet.generate().address;
+    const assetId = `BLD.${issuer}`;
+    let dataDir: string;
+    let agent: RWAAgent;
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rwa-build-'));
+        process.env.RWA_DATA_DIR = dataDir;
+        process.env.XRPL_ACCOUNT = treasury.address;
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        agent = new RWAAgent();
+        jest.spyOn(agent, 'getAssetMetadataFromMemos').mockResolvedValue({
+            compliance: { holdingPeriodDays: 30 },
+            issuer: { operator: treasury.address }
+        } as any);
+        jest.spyOn(agent as any, 'getHolderBalance').mockResolvedValue(100);
+        // The treasury received the whole supply from the issuer yesterday
+        jest.spyOn(agent, 'getHolderAcquisitionLots').mockResolvedValue([
+            { amount: 100, acquiredAt: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(), hash: 'HASH1', ledgerIndex: 1 }
+        ]);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        delete process.env.RWA_DATA_DIR;
+        delete process.env.XRPL_ACCOUNT;
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    test('should lock the treasury like any other holder', async () => {
+        await expect(agent.assertTransferable(assetId, 10)).rejects.toThrow('30-day holding period');
+    });
+
+    test('should only exempt the issuer, whose payments issue new tokens', async () => {
+        expect((await agent.getLockupStatus(assetId, issuer)).exempt).toBe(true);
+        expect((await agent.getLockupStatus(assetId, treasury.address)).exempt).toBe(false);
+    });
+});
@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AMMDepositFlags, AMMWithdrawFlags, validate, Wallet } from 'xrpl';
+import { RWAAgent } from '../src/agent';
+import { AddLiquidityAMMTool } from '../src/mcp/rwa/add_liquidity_amm_tool';
+import { RemoveLiquidityAMMTool } from '../src/mcp/rwa/remove_liquidity_amm_tool';
+import { ComplianceEvaluation } from '../src/types';
+
+describe('AMM Liquidity', () => {
+    const treasury = Wallet.generate();
+    const issuer = Wallet.generate().address;
+    const pool = Wallet.generate().address;
+    const tokenId = `BLD.${issuer}`;
+    const lpToken = { currency: '03930D02208264E2E40EC1B0C09E4DB96EE197B1', issuer: pool };
+    let dataDir: string;
+    let agent: RWAAgent;
+    let submitted: any[];
+
+    const compliance = (allowed: boolean): ComplianceEvaluation => ({
+        jurisdiction: 'SG',
+        action: 'transfer',
+        allowed,
+        checks: [{
+            rule: 'Holding period',
+            passed: allowed,
+            severity: 'block',
+            detail: allowed ? 'Tokens are unlocked' : 'Only 20 of 50 tokens are unlocked'
+        }]
+    });
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rwa-amm-'));
+        process.env.RWA_DATA_DIR = dataDir;
+        process.env.XRPL_ACCOUNT = treasury.address;
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        agent = new RWAAgent();
+        submitted = [];
+        jest.spyOn(agent, 'connect').mockResolvedValue();
+        jest.spyOn(agent, 'disconnect').mockResolvedValue();
+        agent.client = {
+            request: async () => ({
+                result: {
+                    amm: {
+                        account: pool,
+                        amount: { currency: 'BLD', issuer, value: '1000' },
+                        amount2: '500000000',
+                        lp_token: { ...lpToken, value: '20000' },
+                        trading_fee: 500
+                    }
+                }
+            })
+        } as any;
+        jest.spyOn(agent, 'getRWATokenBalances').mockResolvedValue({
+            account: treasury.address,
+            xrp_balance: 1000,
+            rwa_tokens: [
+                { currency: 'BLD', issuer, balance: 100 },
+                { ...lpToken, balance: 400 }
+            ]
+        } as any);
+        jest.spyOn(agent, 'simulateTransaction').mockImplementation(async (tx: any) => {
+            submitted.push(tx);
+            return { method: 'simulate', engineResult: 'tesSUCCESS', transaction: tx, fee: '12', balanceChanges: [] };
+        });
+        jest.spyOn(agent, 'prepareTransaction').mockImplementation(async (tx: any) => {
+            submitted.push(tx);
+            return { transaction: tx, txBlob: '', account: tx.Account, fee: tx.Fee, sequence: 1, lastLedgerSequence: 100 };
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        delete process.env.RWA_DATA_DIR;
+        delete process.env.XRPL_ACCOUNT;
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    test('should check deposited tokens against the transfer rules with the pool as recipient', async () => {
+        const checkCompliance = jest.spyOn(agent, 'checkCompliance').mockResolvedValue(compliance(true));
+
+        const output: any = await AddLiquidityAMMTool.handler(agent, {
+            token_id: tokenId, deposit_type: 'both_assets', token_amount: 50, xrp_amount: 25, dry_run: true
+        });
+
+        expect(checkCompliance).toHaveBeenCalledWith(tokenId, 'transfer', { amount: 50, pool: { account: pool } });
+        expect(output.status).toBe('simulated');
+        expect(output.compliance_checks).toEqual(['✅ Holding period: Tokens are unlocked']);
+        expect(submitted[0].Flags).toBe(AMMDepositFlags.tfTwoAsset);
+        expect(() => validate(submitted[0])).not.toThrow();
+    });
+
+    test('should block deposits of tokens the transfer rules hold back', async () => {
+        jest.spyOn(agent, 'checkCompliance').mockResolvedValue(compliance(false));
+
+        await expect(AddLiquidityAMMTool.handler(agent, {
+            token_id: tokenId, deposit_type: 'single_asset_token', token_amount: 50, prepare_only: true
+        })).rejects.toThrow('Deposit blocked by Holding period (SG): Only 20 of 50 tokens are unlocked');
+        expect(submitted).toHaveLength(0);
+    });
+
+    test('should deposit XRP alone without a token compliance check', async () => {
+        const checkCompliance = jest.spyOn(agent, 'checkCompliance');
+
+        const output: any = await AddLiquidityAMMTool.handler(agent, {
+            token_id: tokenId, deposit_type: 'single_asset_xrp', xrp_amount: 10, prepare_only: true
+        });
+
+        expect(checkCompliance).not.toHaveBeenCalled();
+        expect(output.status).toBe('prepared');
+        expect(output.compliance_checks).toBeUndefined();
+        expect(submitted[0]).toMatchObject({ Flags: AMMDepositFlags.tfSingleAsset, Amount: '10000000' });
+        expect(() => validate(submitted[0])).not.toThrow();
+    });
+
+    test('should ask for an exact LP token amount with the LPToken deposit modes', async () => {
+        jest.spyOn(agent, 'checkCompliance').mockResolvedValue(compliance(true));
+
+        await AddLiquidityAMMTool.handler(agent, {
+            token_id: tokenId, deposit_type: 'single_asset_token', token_amount: 50, lp_tokens_out: 100, prepare_only: true
+        });
+
+        expect(submitted[0].Flags).toBe(AMMDepositFlags.tfOneAssetLPToken);
+        expect(submitted[0].LPTokenOut).toEqual({ ...lpToken, value: '100' });
+        expect(() => validate(submitted[0])).not.toThrow();
+    });
+
+    test('should redeem LP tokens for both assets proportionally', async () => {
+        const output: any = await RemoveLiquidityAMMTool.handler(agent, {
+            token_id: tokenId, withdrawal_type: 'both_assets', percentage_to_withdraw: 50, dry_run: true
+        });
+
+        expect(output.status).toBe('simulated');
+        expect(submitted[0].Flags).toBe(AMMWithdrawFlags.tfLPToken);
+        expect(submitted[0].LPTokenIn).toEqual({ ...lpToken, value: '200' });
+        expect(() => validate(submitted[0])).not.toThrow();
+    });
+
+    test('should redeem LP tokens for XRP alone', async () => {
+        const output: any = await RemoveLiquidityAMMTool.handler(agent, {
+            token_id: tokenId, withdrawal_type: 'single_asset_xrp', percentage_to_withdraw: 3, prepare_only: true
+        });
+
+        expect(output.status).toBe('prepared');
+        expect(submitted[0]).toMatchObject({ Flags: AMMWithdrawFlags.tfOneAssetLPToken, Amount: '300000' });
+        expect(() => validate(submitted[0])).not.toThrow();
+    });
+
+    test('should refuse to withdraw more LP tokens than the account holds', async () => {
+        await expect(RemoveLiquidityAMMTool.handler(agent, {
+            token_id: tokenId, withdrawal_type: 'lp_tokens_amount', lp_tokens_amount: 500, prepare_only: true
+        })).rejects.toThrow('Insufficient LP tokens. Available: 400, Requested: 500');
+        expect(submitted).toHaveLength(0);
+    });
+});
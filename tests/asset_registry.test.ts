@@ -0,0 +1,62 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getRegisteredAsset, listRegisteredAssets, registerAsset, registryEntryToAsset, updateRegisteredAsset } from '../src/utils/asset_registry';
+import { createInitialMetadataVersion } from '../src/utils/xrpl_helpers';
+
+describe('Asset Registry', () => {
+    const issuer = 'rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH';
+    const assetId = `BLD.${issuer}`;
+    const metadata = {
+        timestamp: 1700000000000,
+        assetDetails: { name: 'Main St Building', type: 'real_estate', totalValue: 2000000, tokenSymbol: 'BLD', totalSupply: 1000, yieldRate: 5 },
+        tokenizationTxHash: 'ABC',
+        ledgerIndex: 100
+    };
+    let dataDir: string;
+
+    const register = (id: string, network: string) => registerAsset(dataDir, {
+        assetId: id,
+        tokenStandard: 'trustline',
+        tokenSymbol: 'BLD',
+        currency: 'BLD',
+        issuer,
+        operator: 'rPT1Sjq2YGrBMTttX4GZHjKu9dyfQeEBUs',
+        network,
+        tokenizationTxHash: 'ABC',
+        ledgerIndex: 100,
+        metadata,
+        history: [createInitialMetadataVersion(id, metadata)],
+        status: 'active'
+    });
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rwa-build-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    test('should register assets and list them by network and status', () => {
+        register(assetId, 'testnet');
+        register(`TBL.${issuer}`, 'mainnet');
+        updateRegisteredAsset(dataDir, `TBL.${issuer}`, { status: 'frozen' });
+
+        expect(getRegisteredAsset(dataDir, assetId)?.tokenizationTxHash).toBe('ABC');
+        expect(listRegisteredAssets(dataDir, { network: 'testnet' }).map(a => a.assetId)).toEqual([assetId]);
+        expect(listRegisteredAssets(dataDir, { status: 'frozen' }).map(a => a.assetId)).toEqual([`TBL.${issuer}`]);
+        expect(updateRegisteredAsset(dataDir, 'XYZ.rUnknown', { status: 'retired' })).toBeNull();
+    });
+
+    test('should fold amendments from the history into the asset view', () => {
+        const entry = register(assetId, 'testnet');
+        updateRegisteredAsset(dataDir, assetId, {
+            history: [...entry.history, { assetId, version: 2, timestamp: 1, changes: { totalValue: 2400000 }, reason: 'Q3 valuation' }]
+        });
+
+        const asset = registryEntryToAsset(getRegisteredAsset(dataDir, assetId)!);
+        expect(asset).toMatchObject({ id: assetId, totalValue: 2400000, yieldRate: 5, version: 2 });
+        expect(asset.history).toHaveLength(2);
+    });
+});
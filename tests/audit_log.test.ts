@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readAuditRecords, writeAuditRecord } from '../src/utils/audit_log';
+
+describe('Audit Log', () => {
+    let dataDir: string;
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rwa-build-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    test('should append records and filter them by action and asset', () => {
+        writeAuditRecord(dataDir, {
+            action: 'clawback',
+            assetId: 'BLD.rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH',
+            status: 'success',
+            operator: 'rPT1Sjq2YGrBMTttX4GZHjKu9dyfQeEBUs',
+            target: 'rHolder',
+            amount: 10,
+            reason: 'Court order'
+        });
+        writeAuditRecord(dataDir, {
+            action: 'clawback',
+            assetId: 'TBL.rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH',
+            status: 'failed',
+            operator: 'rPT1Sjq2YGrBMTttX4GZHjKu9dyfQeEBUs',
+            error: 'Clawback not enabled'
+        });
+
+        expect(readAuditRecords(dataDir)).toHaveLength(2);
+
+        const bld = readAuditRecords(dataDir, { assetId: 'BLD.rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH' });
+        expect(bld).toHaveLength(1);
+        expect(bld[0].reason).toBe('Court order');
+        expect(bld[0].timestamp).toBeDefined();
+    });
+
+    test('should return nothing when no log exists', () => {
+        expect(readAuditRecords(dataDir, { action: 'clawback' })).toEqual([]);
+    });
+});
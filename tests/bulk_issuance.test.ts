@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Wallet } from 'xrpl';
+import { RWAAgent } from '../src/agent';
+import { generateBatchId, parseIssuanceCSV, parseIssuanceJSON, saveIssuanceProgress, validateIssuanceList } from '../src/utils/bulk_issuance';
+
+describe('Bulk Issuance Lists', () => {
+    const alice = 'rPT1Sjq2YGrBMTttX4GZHjKu9dyfQeEBUs';
+    const bob = 'rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH';
+
+    test('should parse CSV with or without a header', () => {
+        const withHeader = parseIssuanceCSV(`amount,address\n100,${alice}\n\n# reserved\n250.5,${bob}\n`);
+        expect(withHeader.errors).toEqual([]);
+        expect(withHeader.entries).toEqual([
+            { row: 2, address: alice, amount: 100 },
+            { row: 5, address: bob, amount: 250.5 }
+        ]);
+
+        const bare = parseIssuanceCSV(`${alice};10\n${bob}\tabc`);
+        expect(bare.entries).toEqual([{ row: 1, address: alice, amount: 10 }]);
+        expect(bare.errors.map(e => e.row)).toEqual([2]);
+    });
+
+    test('should parse a JSON array and report malformed items', () => {
+        const parsed = parseIssuanceJSON(JSON.stringify([{ address: alice, amount: '5' }, { address: bob }]));
+        expect(parsed.entries).toEqual([{ row: 1, address: alice, amount: 5 }]);
+        expect(parsed.errors).toHaveLength(1);
+        expect(parseIssuanceJSON('{"address":"x"}').errors).toHaveLength(1);
+    });
+
+    test('should reject invalid addresses, bad amounts and duplicates up front', () => {
+        const errors = validateIssuanceList([
+            { row: 1, address: alice, amount: 10 },
+            { row: 2, address: 'not-an-address', amount: 10 },
+            { row: 3, address: bob, amount: 0 },
+            { row: 4, address: alice, amount: 5 }
+        ], 1000);
+
+        expect(errors.map(e => e.row)).toEqual([2, 3, 4]);
+        expect(errors[2].error).toBe('Duplicate of row 1');
+    });
+
+    test('should derive the same batch ID for the same asset and list', () => {
+        const entries = [{ row: 1, address: alice, amount: 10 }];
+        expect(generateBatchId(`BLD.${bob}`, entries)).toBe(generateBatchId(`BLD.${bob}`, [{ row: 7, address: alice, amount: 10 }]));
+        expect(generateBatchId(`BLD.${bob}`, entries)).not.toBe(generateBatchId(`TBL.${bob}`, entries));
+    });
+
+    test('should give the same list a separate batch under a new label', () => {
+        const entries = [{ row: 1, address: alice, amount: 10 }];
+        expect(generateBatchId(`BLD.${bob}`, entries, 'tranche-2')).toBe(generateBatchId(`BLD.${bob}`, entries, 'tranche-2'));
+        expect(generateBatchId(`BLD.${bob}`, entries, 'tranche-2')).not.toBe(generateBatchId(`BLD.${bob}`, entries));
+        expect(generateBatchId(`BLD.${bob}`, entries, 'tranche-2')).not.toBe(generateBatchId(`BLD.${bob}`, entries, 'tranche-3'));
+    });
+});
+
+describe('Bulk Issuance Runs', () => {
+    const treasury = Wallet.generate();
+    const alice = 'rPT1Sjq2YGrBMTttX4GZHjKu9dyfQeEBUs';
+    const bob = 'rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH';
+    const assetId = `BLD.${Wallet.generate().address}`;
+    const entries = [{ row: 1, address: alice, amount: 10 }, { row: 2, address: bob, amount: 20 }];
+    let dataDir: string;
+    let agent: RWAAgent;
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rwa-build-'));
+        process.env.RWA_DATA_DIR = dataDir;
+        process.env.XRPL_ACCOUNT = treasury.address;
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        agent = new RWAAgent();
+        // Alice's payment was in flight when the previous run stopped
+        saveIssuanceProgress(dataDir, {
+            batchId: generateBatchId(assetId, entries),
+            assetId,
+            network: 'testnet',
+            entries: [
+                { ...entries[0], status: 'submitted', hash: 'A', lastLedgerSequence: 100 },
+                { ...entries[1], status: 'pending' }
+            ],
+            createdAt: '2026-01-01T00:00:00.000Z',
+            updatedAt: '2026-01-01T00:00:00.000Z'
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        delete process.env.RWA_DATA_DIR;
+        delete process.env.XRPL_ACCOUNT;
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    test('should refuse to run a list with saved progress unless resuming', async () => {
+        await expect(agent.issueTokensToInvestors(assetId, entries)).rejects.toThrow('already has saved progress');
+        await expect(agent.issueTokensToInvestors(assetId, entries, { batchLabel: 'tranche-2', resume: true })).rejects.toThrow('No saved progress');
+    });
+
+    test('should count payments confirmed from the previous run as already issued', async () => {
+        jest.spyOn(agent as any, 'lookupSubmittedTransaction').mockResolvedValue('tesSUCCESS');
+        jest.spyOn(agent, 'checkPayoutTrustlines').mockResolvedValue(new Map([[bob, null]]));
+        jest.spyOn(agent, 'checkCompliance').mockResolvedValue({ allowed: true } as any);
+        jest.spyOn(agent, 'getRWATokenBalances').mockResolvedValue({ rwa_tokens: [{ asset_id: assetId, balance: 1000 }] } as any);
+        jest.spyOn(agent, 'submitBatch').mockImplementation(async (items, options) => {
+            items.forEach(item => options?.onOutcome?.({ id: item.id, status: 'success', hash: 'B', attempts: 1 }));
+            return new Map();
+        });
+
+        const result = await agent.issueTokensToInvestors(assetId, entries, { resume: true });
+
+        expect(result.status).toBe('success');
+        expect(result.previouslyIssued).toBe(1);
+        expect(result.issuedThisRun).toBe(1);
+    });
+});
@@ -1,4 +1,4 @@
-import { calculateYieldDistribution, calculateTokenPrice, calculateYieldOnInvestment } from '../src/utils/calculations';
+import { calculateYieldDistribution, calculateTokenPrice, calculateYieldOnInvestment, calculateProRataDistribution, calculateDistributionPeriodDate, calculateDuePeriods, calculateWithholding } from '../src/utils/calculations';
 
 describe('Financial Calculations', () => {
     describe('calculateYieldDistribution', () => {
@@ -46,4 +46,83 @@ describe('Financial Calculations', () => {
             expect(result.periodsPerYear).toBe(12);
         });
     });
+
+    describe('calculateProRataDistribution', () => {
+        test('should split the payout by token balance', () => {
+            const result = calculateProRataDistribution([
+                { address: 'rA', balance: 750 },
+                { address: 'rB', balance: 250 }
+            ], 100);
+
+            expect(result[0].amount).toBe(75);
+            expect(result[0].sharePercentage).toBe(75);
+            expect(result[1].amount).toBe(25);
+            expect(result[1].sharePercentage).toBe(25);
+        });
+
+        test('should give the rounding remainder to the largest holder', () => {
+            const result = calculateProRataDistribution([
+                { address: 'rA', balance: 1 },
+                { address: 'rB', balance: 2 },
+                { address: 'rC', balance: 1 }
+            ], 1, 0);
+
+            expect(result.map(share => share.amount)).toEqual([0, 1, 0]);
+        });
+
+        test('should pay out exactly the total in whole drops', () => {
+            const result = calculateProRataDistribution([
+                { address: 'rA', balance: 1 },
+                { address: 'rB', balance: 1.5 },
+                { address: 'rC', balance: 1 }
+            ], 0.1);
+
+            expect(result.map(share => share.amount)).toEqual([0.028571, 0.042858, 0.028571]);
+            expect(result.reduce((sum, share) => sum + Math.round(share.amount * 1e6), 0)).toBe(100000);
+        });
+
+        test('should return zero shares when there is no supply', () => {
+            const result = calculateProRataDistribution([{ address: 'rA', balance: 0 }], 100);
+            expect(result[0].amount).toBe(0);
+        });
+    });
+
+    describe('calculateDistributionPeriodDate', () => {
+        test('should step monthly and quarterly across year ends', () => {
+            const start = new Date('2025-11-15T00:00:00Z');
+            expect(calculateDistributionPeriodDate(start, 'monthly', 2).toISOString()).toBe('2026-01-15T00:00:00.000Z');
+            expect(calculateDistributionPeriodDate(start, 'quarterly', 1).toISOString()).toBe('2026-02-15T00:00:00.000Z');
+        });
+
+        test('should clamp to the last day of shorter months', () => {
+            const start = new Date('2025-01-31T00:00:00Z');
+            expect(calculateDistributionPeriodDate(start, 'monthly', 1).toISOString()).toBe('2025-02-28T00:00:00.000Z');
+            expect(calculateDistributionPeriodDate(start, 'monthly', 2).toISOString()).toBe('2025-03-31T00:00:00.000Z');
+        });
+    });
+
+    describe('calculateDuePeriods', () => {
+        const start = new Date('2025-01-01T00:00:00Z');
+
+        test('should include every missed period up to now', () => {
+            expect(calculateDuePeriods(start, 'monthly', 0, new Date('2025-03-10T00:00:00Z'))).toEqual([0, 1, 2]);
+            expect(calculateDuePeriods(start, 'monthly', 2, new Date('2025-03-10T00:00:00Z'))).toEqual([2]);
+        });
+
+        test('should return nothing before the first payment date', () => {
+            expect(calculateDuePeriods(start, 'quarterly', 0, new Date('2024-12-31T23:59:59Z'))).toEqual([]);
+        });
+    });
+
+    describe('calculateWithholding', () => {
+        test('should split gross into withheld and net amounts', () => {
+            expect(calculateWithholding(100, 30)).toEqual({ withheldAmount: 30, netAmount: 70 });
+            expect(calculateWithholding(100, 0)).toEqual({ withheldAmount: 0, netAmount: 100 });
+        });
+
+        test('should round withholding up to the smallest unit', () => {
+            expect(calculateWithholding(0.333333, 15)).toEqual({ withheldAmount: 0.05, netAmount: 0.283333 });
+            expect(calculateWithholding(1, 100)).toEqual({ withheldAmount: 1, netAmount: 0 });
+        });
+    });
 });
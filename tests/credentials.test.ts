@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { unixTimeToRippleTime, Wallet } from 'xrpl';
+import { RWAAgent } from '../src/agent';
+import { decodeCredentialType, encodeCredentialType, findQualifyingCredential, parseCredentialEntry } from '../src/utils/credentials';
+import { CREDENTIALS } from '../src/constants';
+
+describe('Investor Credentials', () => {
+    const issuer = 'rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH';
+    const subject = 'rPT1Sjq2YGrBMTttX4GZHjKu9dyfQeEBUs';
+
+    const entry = (overrides: Record<string, any> = {}) => ({
+        LedgerEntryType: 'Credential',
+        Issuer: issuer,
+        Subject: subject,
+        CredentialType: encodeCredentialType('AccreditedInvestor'),
+        Flags: CREDENTIALS.FLAGS.ACCEPTED,
+        index: 'ABC',
+        ...overrides
+    });
+
+    test('should round-trip credential types through hex', () => {
+        expect(encodeCredentialType('KYC')).toBe('4B5943');
+        expect(decodeCredentialType('4B5943')).toBe('KYC');
+        expect(decodeCredentialType('00FF')).toBe('00FF');
+    });
+
+    test('should reject empty or oversized credential types', () => {
+        expect(() => encodeCredentialType('')).toThrow();
+        expect(() => encodeCredentialType('x'.repeat(CREDENTIALS.MAX_TYPE_BYTES + 1))).toThrow();
+    });
+
+    test('should read acceptance and expiry from a ledger entry', () => {
+        const now = new Date('2025-06-01T00:00:00.000Z');
+        const expiration = unixTimeToRippleTime(new Date('2025-05-01T00:00:00.000Z').getTime());
+
+        expect(parseCredentialEntry(entry(), now)).toMatchObject({ accepted: true, expired: false, credentialType: 'AccreditedInvestor' });
+        expect(parseCredentialEntry(entry({ Flags: 0 }), now).accepted).toBe(false);
+        expect(parseCredentialEntry(entry({ Expiration: expiration }), now)).toMatchObject({
+            expired: true,
+            expiration: '2025-05-01T00:00:00.000Z'
+        });
+    });
+
+    test('should only qualify accepted, unexpired credentials of an accepted type and issuer', () => {
+        const now = new Date('2025-06-01T00:00:00.000Z');
+        const required = [{ issuer, credentialType: 'AccreditedInvestor' }];
+        const expired = unixTimeToRippleTime(new Date('2025-05-01T00:00:00.000Z').getTime());
+
+        expect(findQualifyingCredential([parseCredentialEntry(entry(), now)], required)).toBeDefined();
+        expect(findQualifyingCredential([parseCredentialEntry(entry({ Flags: 0 }), now)], required)).toBeUndefined();
+        expect(findQualifyingCredential([parseCredentialEntry(entry({ Expiration: expired }), now)], required)).toBeUndefined();
+        expect(findQualifyingCredential([parseCredentialEntry(entry({ CredentialType: encodeCredentialType('KYC') }), now)], required)).toBeUndefined();
+        expect(findQualifyingCredential([parseCredentialEntry(entry({ Issuer: subject }), now)], required)).toBeUndefined();
+    });
+});
+
+describe('Deposit Preauthorizations', () => {
+    const treasury = Wallet.generate();
+    const senders = Array.from({ length: 3 }, () => Wallet.generate().address);
+    let dataDir: string;
+    let agent: RWAAgent;
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rwa-build-'));
+        process.env.RWA_DATA_DIR = dataDir;
+        process.env.XRPL_ACCOUNT = treasury.address;
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        agent = new RWAAgent();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        delete process.env.RWA_DATA_DIR;
+        delete process.env.XRPL_ACCOUNT;
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    test('should list preauthorized senders from every page', async () => {
+        // account_objects returns one preauthorization per page
+        agent.client = {
+            request: async (request: any) => {
+                if (request.command === 'account_info') {
+                    return { result: { account_data: { Flags: 0x01000000 } } };
+                }
+                const page = Number(request.marker || 0);
+                return { result: { account_objects: [{ Authorize: senders[page] }], ...(page + 1 < senders.length && { marker: String(page + 1) }) } };
+            }
+        } as any;
+
+        const { depositAuth, preauths } = await agent.getDepositPreauths(treasury.address);
+
+        expect(depositAuth).toBe(true);
+        expect(preauths).toEqual(senders.map(sender => ({ sender })));
+    });
+});
@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Wallet } from 'xrpl';
+import { RWAAgent } from '../src/agent';
+import { DistributionRecipient } from '../src/types';
+import { acquireSchedulerLock, canDeriveAmountIn, getSchedule, refreshSchedulerLock, releaseSchedulerLock, saveSchedule } from '../src/utils/distribution_schedule';
+
+describe('Distribution scheduler lock', () => {
+    let dataDir: string;
+
+    const lockPath = () => path.join(dataDir, 'distribution-scheduler.lock');
+    const writeLock = (pid: number, heartbeatAt: Date) => fs.writeFileSync(lockPath(), JSON.stringify({
+        pid,
+        hostname: os.hostname(),
+        acquiredAt: heartbeatAt.toISOString(),
+        heartbeatAt: heartbeatAt.toISOString()
+    }));
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rwa-build-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    test('should refuse a lock held by a live run', () => {
+        expect(acquireSchedulerLock(dataDir)).toBe(true);
+        expect(acquireSchedulerLock(dataDir)).toBe(false);
+
+        releaseSchedulerLock(dataDir);
+        expect(acquireSchedulerLock(dataDir)).toBe(true);
+    });
+
+    test('should take over a lock whose heartbeat stopped', () => {
+        // The parent process stays alive, so only the heartbeat marks this lock as stale
+        writeLock(process.ppid, new Date(Date.now() - 60 * 60 * 1000));
+
+        expect(acquireSchedulerLock(dataDir)).toBe(true);
+    });
+
+    test('should refresh the heartbeat of its own lock', () => {
+        writeLock(process.pid, new Date(Date.now() - 60 * 60 * 1000));
+
+        refreshSchedulerLock(dataDir);
+
+        const { heartbeatAt } = JSON.parse(fs.readFileSync(lockPath(), 'utf8'));
+        expect(Date.now() - Date.parse(heartbeatAt)).toBeLessThan(60 * 1000);
+    });
+
+    test('should take over a lock whose owner has exited', () => {
+        writeLock(999999999, new Date());
+
+        expect(acquireSchedulerLock(dataDir)).toBe(true);
+        expect(JSON.parse(fs.readFileSync(lockPath(), 'utf8')).pid).toBe(process.pid);
+    });
+
+    test('should not release a lock another run took over', () => {
+        writeLock(process.ppid, new Date());
+
+        releaseSchedulerLock(dataDir);
+        expect(fs.existsSync(lockPath())).toBe(true);
+    });
+});
+
+describe('Scheduled distribution amounts', () => {
+    const issuer = 'rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH';
+
+    test('should only derive amounts from the asset value for USD payouts', () => {
+        expect(canDeriveAmountIn(`USD.${issuer}`)).toBe(true);
+        expect(canDeriveAmountIn(`524C555344000000000000000000000000000000.${issuer}`)).toBe(true); // RLUSD
+        expect(canDeriveAmountIn('XRP')).toBe(false);
+        expect(canDeriveAmountIn(`EUR.${issuer}`)).toBe(false);
+    });
+});
+
+describe('Scheduled distribution runs', () => {
+    const treasury = Wallet.generate();
+    const paidHolder = Wallet.generate().address;
+    const unpaidHolder = Wallet.generate().address;
+    const assetId = `BLD.${Wallet.generate().address}`;
+    let dataDir: string;
+    let agent: RWAAgent;
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rwa-build-'));
+        process.env.RWA_DATA_DIR = dataDir;
+        process.env.XRPL_ACCOUNT = treasury.address;
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        agent = new RWAAgent();
+        saveSchedule(dataDir, {
+            assetId,
+            type: 'rental',
+            frequency: 'monthly',
+            rate: 6,
+            amountPerPeriod: 100,
+            payoutCurrency: 'XRP',
+            startDate: '2026-01-01T00:00:00.000Z',
+            nextPeriodIndex: 0,
+            nextPayment: '2026-01-01T00:00:00.000Z',
+            status: 'active',
+            createdAt: '2025-12-01T00:00:00.000Z',
+            updatedAt: '2025-12-01T00:00:00.000Z'
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        delete process.env.RWA_DATA_DIR;
+        delete process.env.XRPL_ACCOUNT;
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    test('should keep holders a period left unpaid and pay them on the next run', async () => {
+        jest.spyOn(agent, 'distributeYield').mockImplementation(async (_assetId, _amount, options) => {
+            const recipients: DistributionRecipient[] = [
+                { address: paidHolder, tokenBalance: 60, sharePercentage: 60, amount: 60, status: 'skipped', hash: 'A', lastLedgerSequence: 100 },
+                { address: unpaidHolder, tokenBalance: 40, sharePercentage: 40, amount: 40, status: 'skipped', error: 'tecPATH_DRY' }
+            ];
+            options?.onSigned?.(recipients[0], recipients);
+            recipients[0].status = 'success';
+            options?.onPayment?.(recipients[0]);
+
+            return {
+                status: 'partial',
+                totalDistributed: 60,
+                recipientCount: 1,
+                transactionHashes: ['A'],
+                message: 'Distributed 60 XRP to 1/2 BLD holders',
+                reference: 'DIST-1',
+                recipients
+            };
+        });
+
+        const [first] = await agent.runScheduledDistributions({ now: new Date('2026-01-15T00:00:00.000Z') });
+
+        expect(first.runs.map(run => run.status)).toEqual(['partial']);
+        expect(getSchedule(dataDir, assetId)!.nextPeriodIndex).toBe(1);
+        expect(getSchedule(dataDir, assetId)!.outstandingPayments).toMatchObject([{ periodIndex: 0, address: unpaidHolder, amount: 40 }]);
+
+        const submitBatch = jest.spyOn(agent, 'submitBatch').mockImplementation(async (items, options) => {
+            items.forEach(item => options?.onOutcome?.({ id: item.id, status: 'success', hash: 'B', attempts: 1 }));
+            return new Map();
+        });
+
+        const [second] = await agent.runScheduledDistributions({ now: new Date('2026-01-20T00:00:00.000Z') });
+
+        expect(submitBatch.mock.calls[0][0].map(item => item.transaction)).toMatchObject([{ Destination: unpaidHolder, Amount: '40000000' }]);
+        expect(second.runs).toMatchObject([{ periodIndex: 0, status: 'success', retry: true, totalDistributed: 40 }]);
+        expect(getSchedule(dataDir, assetId)!.outstandingPayments).toEqual([]);
+    });
+
+    test('should not pay a period twice when its run fails partway through', async () => {
+        const recipients: DistributionRecipient[] = [paidHolder, unpaidHolder].map(address => ({
+            address, tokenBalance: 50, sharePercentage: 50, amount: 50, status: 'skipped'
+        }));
+        const planDistribution = jest.spyOn(agent as any, 'planDistribution').mockResolvedValue({
+            reference: 'DIST-1',
+            payoutAsset: null,
+            symbol: 'BLD',
+            snapshot: null,
+            applyWithholding: false,
+            shares: [],
+            recipients,
+            payments: recipients.map((recipient, index) => ({
+                id: String(index),
+                transaction: { TransactionType: 'Payment', Account: treasury.address, Destination: recipient.address, Amount: '50000000' }
+            }))
+        });
+
+        // Both payments are signed, the first settles and then the connection drops
+        jest.spyOn(agent, 'submitBatch').mockImplementationOnce(async (items, options) => {
+            options?.onSigned?.('0', 'A', 100);
+            options?.onSigned?.('1', 'B', 100);
+            options?.onOutcome?.({ id: '0', status: 'success', hash: 'A', attempts: 1 });
+            throw new Error('Disconnected');
+        });
+
+        const [first] = await agent.runScheduledDistributions({ now: new Date('2026-01-15T00:00:00.000Z') });
+
+        expect(first.runs).toMatchObject([{ periodIndex: 0, status: 'partial', totalDistributed: 50 }]);
+        expect(getSchedule(dataDir, assetId)!.nextPeriodIndex).toBe(1);
+        expect(getSchedule(dataDir, assetId)!.outstandingPayments).toMatchObject([{ periodIndex: 0, address: unpaidHolder, hash: 'B', lastLedgerSequence: 100 }]);
+
+        // The second payment expired unvalidated, so only that holder is paid again
+        jest.spyOn(agent as any, 'lookupSubmittedTransaction').mockResolvedValue(null);
+        const submitBatch = jest.spyOn(agent, 'submitBatch').mockImplementation(async (items, options) => {
+            items.forEach(item => options?.onOutcome?.({ id: item.id, status: 'success', hash: 'C', attempts: 1 }));
+            return new Map();
+        });
+        submitBatch.mockClear();
+
+        const [second] = await agent.runScheduledDistributions({ now: new Date('2026-01-20T00:00:00.000Z') });
+
+        expect(planDistribution).toHaveBeenCalledTimes(1);
+        expect(submitBatch.mock.calls[0][0].map(item => item.transaction)).toMatchObject([{ Destination: unpaidHolder, Amount: '50000000' }]);
+        expect(second.runs).toMatchObject([{ periodIndex: 0, status: 'success', retry: true }]);
+        expect(getSchedule(dataDir, assetId)!.outstandingPayments).toEqual([]);
+    });
+});
@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { generateSnapshotId, getSnapshot, listSnapshots, saveSnapshot } from '../src/utils/holder_snapshots';
+import { HolderSnapshot } from '../src/types';
+
+describe('Holder Snapshots', () => {
+    const issuer = 'rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH';
+    let dataDir: string;
+
+    const snapshot = (assetId: string, ledgerIndex: number): HolderSnapshot => ({
+        id: generateSnapshotId(assetId, ledgerIndex),
+        assetId,
+        network: 'testnet',
+        ledgerIndex,
+        ledgerCloseTime: '2025-06-30T23:59:50.000Z',
+        totalBalance: 100,
+        holders: [{ address: 'rPT1Sjq2YGrBMTttX4GZHjKu9dyfQeEBUs', balance: 100, percentage: 100, frozen: false }],
+        createdAt: new Date().toISOString()
+    });
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rwa-build-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    test('should build readable snapshot IDs for trustline and MPT assets', () => {
+        expect(generateSnapshotId(`BLD.${issuer}`, 95123456)).toBe('BLD-SNAP-95123456');
+        expect(generateSnapshotId(`424B4B434F4E444F000000000000000000000000.${issuer}`, 7)).toBe('BKKCONDO-SNAP-7');
+        expect(generateSnapshotId('00000004A407AF5856CCF3C42619DAA925813FC955C72983', 7)).toBe('MPT00000004-SNAP-7');
+    });
+
+    test('should save snapshots and list them by asset in ledger order', () => {
+        saveSnapshot(dataDir, snapshot(`BLD.${issuer}`, 200));
+        saveSnapshot(dataDir, snapshot(`BLD.${issuer}`, 100));
+        saveSnapshot(dataDir, snapshot(`TBL.${issuer}`, 150));
+
+        expect(getSnapshot(dataDir, 'BLD-SNAP-200')?.holders).toHaveLength(1);
+        expect(getSnapshot(dataDir, 'BLD-SNAP-999')).toBeNull();
+        expect(listSnapshots(dataDir, { assetId: `BLD.${issuer}` }).map(s => s.ledgerIndex)).toEqual([100, 200]);
+        expect(listSnapshots(dataDir)).toHaveLength(3);
+    });
+});
@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Wallet } from "xrpl"
+import { createIssuerKeyEntry, findIssuerKey, issuerWalletFromEntry, listIssuerKeys, saveIssuerKey } from '../src/utils/issuer_keystore';
+
+describe('Issuer Keystore', () => {
+    const passphrase = 'correct horse battery staple';
+    let dataDir: string;
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rwa-build-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    test('should store and find issuer keys by asset ID or issuer address', () => {
+        const wallet = Wallet.generate();
+        const assetId = `BLD.${wallet.address}`;
+
+        saveIssuerKey(dataDir, createIssuerKeyEntry(assetId, wallet, 'generated', passphrase));
+
+        expect(issuerWalletFromEntry(findIssuerKey(dataDir, assetId)!, passphrase).address).toBe(wallet.address);
+        expect(findIssuerKey(dataDir, wallet.address)?.assetId).toBe(assetId);
+        expect(findIssuerKey(dataDir, 'TBL.rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH')).toBeNull();
+    });
+
+    test('should keep a separate issuer per asset', () => {
+        const first = Wallet.generate();
+        const second = Wallet.generate();
+
+        saveIssuerKey(dataDir, createIssuerKeyEntry(`BLD.${first.address}`, first, 'generated', passphrase));
+        saveIssuerKey(dataDir, createIssuerKeyEntry(`TBL.${second.address}`, second, 'imported', passphrase));
+
+        const keys = listIssuerKeys(dataDir);
+        expect(keys).toHaveLength(2);
+        expect(keys.map(k => k.address)).toEqual([first.address, second.address]);
+        expect(keys[0]).not.toHaveProperty('seed');
+    });
+
+    test('should only store issuer seeds encrypted', () => {
+        const wallet = Wallet.generate();
+        const entry = createIssuerKeyEntry(`BLD.${wallet.address}`, wallet, 'generated', passphrase);
+
+        expect(entry.seed).toBeUndefined();
+        expect(JSON.stringify(entry)).not.toContain(wallet.seed);
+        expect(() => createIssuerKeyEntry(`BLD.${wallet.address}`, wallet, 'generated')).toThrow('XRPL_KEYSTORE_PASSPHRASE');
+    });
+});
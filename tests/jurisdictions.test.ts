@@ -0,0 +1,172 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Wallet } from 'xrpl';
+import { RWAAgent } from '../src/agent';
+import { BUILT_IN_JURISDICTION_PROFILES, evaluateCompliance, getJurisdictionProfile } from '../src/utils/jurisdictions';
+
+describe('Jurisdiction Rule Engine', () => {
+    const { US, SG, TH } = BUILT_IN_JURISDICTION_PROFILES;
+    const failed = (checks: Array<{ rule: string; passed: boolean }>) => checks.filter(c => !c.passed).map(c => c.rule);
+
+    test('should accept a default US retail offering', () => {
+        const result = evaluateCompliance(US, 'US', 'tokenize', { compliance: { accreditedOnly: false } });
+        expect(result.allowed).toBe(true);
+    });
+
+    test('should require RequireAuth and the minimum lockup for Singapore offerings', () => {
+        const result = evaluateCompliance(SG, 'SG', 'tokenize', {
+            compliance: { accreditedOnly: false, holdingPeriodDays: 30, requireAuth: false }
+        });
+
+        expect(result.allowed).toBe(false);
+        expect(failed(result.checks)).toEqual(['Holding period', 'Authorized recipients']);
+    });
+
+    test('should reject an investor cap above the jurisdiction limit', () => {
+        const result = evaluateCompliance(TH, 'TH', 'tokenize', {
+            compliance: { maxInvestors: 20, requireAuth: true }
+        });
+
+        expect(result.allowed).toBe(false);
+        expect(result.checks.find(c => c.rule === 'Investor cap')?.detail).toContain('limit of 10');
+    });
+
+    test('should block issuance past the jurisdiction cap and name the rule', () => {
+        const result = evaluateCompliance(TH, 'TH', 'issue', {
+            compliance: { requireAuth: true },
+            currentHolders: 9,
+            newHolders: 2
+        });
+
+        expect(result.allowed).toBe(false);
+        expect(result.checks[0].detail).toContain('Digital Asset Decree');
+    });
+
+    test('should block transfers of tokens still in the holding period', () => {
+        const facts = { compliance: { requireAuth: true }, currentHolders: 3, newHolders: 0, amount: 50, unlockedBalance: 20 };
+
+        expect(evaluateCompliance(SG, 'SG', 'transfer', facts).allowed).toBe(false);
+        expect(evaluateCompliance(SG, 'SG', 'transfer', { ...facts, lockupExempt: true }).allowed).toBe(true);
+        expect(evaluateCompliance(US, 'US', 'transfer', facts).allowed).toBe(true);
+    });
+
+    test('should block accredited-only transfers to recipients without a credential', () => {
+        const facts = {
+            compliance: { accreditedOnly: true },
+            currentHolders: 3,
+            newHolders: 1,
+            recipientsWithoutCredential: ['rPT1Sjq2YGrBMTttX4GZHjKu9dyfQeEBUs']
+        };
+
+        expect(failed(evaluateCompliance(US, 'US', 'issue', facts).checks)).toEqual(['Investor credential']);
+        expect(evaluateCompliance(US, 'US', 'issue', { ...facts, recipientsWithoutCredential: [] }).allowed).toBe(true);
+    });
+
+    test('should only let unrestricted assets into AMM pools', () => {
+        const facts = { compliance: {}, currentHolders: 3, newHolders: 1, amount: 10, unlockedBalance: 10, poolDeposit: true };
+
+        expect(evaluateCompliance(US, 'US', 'transfer', facts).allowed).toBe(true);
+        expect(failed(evaluateCompliance(US, 'US', 'transfer', { ...facts, compliance: { accreditedOnly: true } }).checks)).toEqual(['Open pool']);
+        expect(failed(evaluateCompliance(TH, 'TH', 'transfer', facts).checks)).toEqual(['Authorized recipients', 'Open pool']);
+        expect(evaluateCompliance(TH, 'TH', 'transfer', { ...facts, compliance: { requireAuth: true } }).allowed).toBe(true);
+    });
+
+    test('should only warn on distributions', () => {
+        const result = evaluateCompliance(US, 'US', 'distribute', { compliance: {}, currentHolders: 120 });
+
+        expect(result.allowed).toBe(true);
+        expect(failed(result.checks)).toEqual(['Investor cap', 'Withholding']);
+    });
+
+    test('should block tokenizing in a jurisdiction without a profile', () => {
+        expect(evaluateCompliance(null, 'GB', 'tokenize', { compliance: {} }).allowed).toBe(false);
+        expect(evaluateCompliance(null, 'GB', 'distribute', { compliance: {} }).allowed).toBe(true);
+    });
+
+    test('should let local profiles override the built-in ones', () => {
+        const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rwa-build-'));
+
+        try {
+            fs.writeFileSync(path.join(dataDir, 'jurisdiction-profiles.json'), JSON.stringify({
+                SG: { ...SG, minHoldingPeriodDays: 365 },
+                GB: { ...US, code: 'GB', name: 'United Kingdom', regulator: 'FCA' }
+            }));
+
+            expect(getJurisdictionProfile(dataDir, 'SG')?.minHoldingPeriodDays).toBe(365);
+            expect(getJurisdictionProfile(dataDir, 'GB')?.regulator).toBe('FCA');
+            expect(getJurisdictionProfile(dataDir, 'TH')).toEqual(TH);
+            expect(getJurisdictionProfile(dataDir, 'FR')).toBeNull();
+        } finally {
+            fs.rmSync(dataDir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe('Investor Cap Holder Count', () => {
+    const treasury = Wallet.generate();
+    const issuer = Wallet.generate().address;
+    const assetId = `BLD.${issuer}`;
+    const holders = Array.from({ length: 5 }, () => Wallet.generate().address);
+    let dataDir: string;
+    let agent: RWAAgent;
+
+    // account_lines in pages of two holders
+    const pagedLines = (request: any) => {
+        const start = Number(request.marker || 0);
+        const lines = holders.slice(start, start + 2).map(account => ({ account, currency: 'BLD', balance: '-10' }));
+        return { result: { lines, ...(start + 2 < holders.length && { marker: String(start + 2) }) } };
+    };
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rwa-build-'));
+        process.env.RWA_DATA_DIR = dataDir;
+        process.env.XRPL_ACCOUNT = treasury.address;
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        agent = new RWAAgent();
+        jest.spyOn(agent, 'getAssetMetadataFromMemos').mockResolvedValue({
+            compliance: { jurisdiction: 'US', maxInvestors: 5 },
+            issuer: { operator: treasury.address }
+        } as any);
+        jest.spyOn(agent, 'getHolderBalance').mockResolvedValue(0);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        delete process.env.RWA_DATA_DIR;
+        delete process.env.XRPL_ACCOUNT;
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    test('should count holders on every page of trustlines', async () => {
+        agent.client = { request: async (request: any) => pagedLines(request) } as any;
+
+        const check = await agent.checkInvestorCap(assetId, [Wallet.generate().address]);
+
+        expect(check.currentHolders).toBe(5);
+        expect(check.allowed).toBe(false);
+    });
+
+    test('should list trustline authorizations from every page', async () => {
+        agent.client = { request: async (request: any) => pagedLines(request) } as any;
+
+        expect((await agent.getTrustlineAuthorizations(assetId)).map(line => line.address)).toEqual(holders);
+    });
+
+    test('should count a new AMM pool as one more holder', async () => {
+        agent.client = { request: async (request: any) => pagedLines(request) } as any;
+        jest.spyOn(agent, 'getLockupStatus').mockResolvedValue({ unlockedBalance: 10, exempt: false } as any);
+
+        const compliance = await agent.checkCompliance(assetId, 'transfer', { amount: 10, pool: {} });
+
+        expect(compliance.allowed).toBe(false);
+        expect(compliance.checks.filter(check => !check.passed).map(check => check.rule)).toEqual(['Investor cap']);
+    });
+
+    test('should block issuance when the holder count cannot be read', async () => {
+        agent.client = { request: async () => { throw new Error('Connection lost'); } } as any;
+
+        await expect(agent.checkCompliance(assetId, 'issue', { recipients: [Wallet.generate().address] })).rejects.toThrow('Connection lost');
+    });
+});
@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Wallet } from "xrpl"
+import { createKeystore, decryptSecret, encryptSecret, importAccount, listAccounts, unlockAccount } from '../src/utils/keystore';
+
+describe('Encrypted Keystore', () => {
+    let dataDir: string;
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rwa-build-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    describe('encryptSecret', () => {
+        test('should round-trip a secret with the right passphrase', () => {
+            const encrypted = encryptSecret('sEdTestSeed', 'correct horse');
+
+            expect(encrypted.ciphertext).not.toContain('sEdTestSeed');
+            expect(decryptSecret(encrypted, 'correct horse')).toBe('sEdTestSeed');
+        });
+
+        test('should reject a wrong passphrase', () => {
+            const encrypted = encryptSecret('sEdTestSeed', 'correct horse');
+            expect(() => decryptSecret(encrypted, 'wrong')).toThrow('Invalid keystore passphrase');
+        });
+    });
+
+    describe('keystore accounts', () => {
+        test('should import, list and unlock named accounts', () => {
+            const operator = Wallet.generate();
+            const treasury = Wallet.generate();
+
+            createKeystore(dataDir, 'passphrase');
+            importAccount(dataDir, 'passphrase', 'operator', operator.seed!);
+            importAccount(dataDir, 'passphrase', 'treasury', treasury.seed!);
+
+            expect(listAccounts(dataDir).map(a => a.name)).toEqual(['operator', 'treasury']);
+            expect(unlockAccount(dataDir, 'passphrase', 'treasury').address).toBe(treasury.address);
+            expect(fs.readFileSync(path.join(dataDir, 'keystore.json'), 'utf8')).not.toContain(operator.seed!);
+        });
+
+        test('should refuse imports with the wrong passphrase', () => {
+            createKeystore(dataDir, 'passphrase');
+            expect(() => importAccount(dataDir, 'nope', 'operator', Wallet.generate().seed!))
+                .toThrow('Invalid keystore passphrase');
+        });
+    });
+});
@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { hashes, Payment, Wallet } from 'xrpl';
+import { RWAAgent } from '../src/agent';
+import { generateProposalId, getSignedWeight, selectSigners, verifyMultisigBlob } from '../src/utils/multisig';
+
+describe('Multi-signing', () => {
+    const alice = Wallet.generate();
+    const bob = Wallet.generate();
+    const issuer = Wallet.generate();
+    const outsider = Wallet.generate();
+    const signers = [
+        { address: alice.address, weight: 1 },
+        { address: bob.address, weight: 2 }
+    ];
+
+    const transaction: Payment = {
+        TransactionType: 'Payment',
+        Account: issuer.address,
+        Destination: outsider.address,
+        Amount: '1000000',
+        Fee: '36',
+        Sequence: 7
+    };
+
+    test('should count only signer-list members towards the quorum', () => {
+        expect(getSignedWeight(signers, [alice.address, bob.address])).toBe(3);
+        expect(getSignedWeight(signers, [alice.address, outsider.address])).toBe(1);
+    });
+
+    test('should pick the fewest signers that meet the quorum', () => {
+        expect(selectSigners(signers, 2)).toEqual([signers[1]]);
+        expect(selectSigners(signers, 3)).toHaveLength(2);
+        expect(selectSigners(signers, 4)).toBeNull();
+    });
+
+    test('should accept a valid signature from a listed signer', () => {
+        const { tx_blob } = alice.sign(transaction, true);
+        expect(verifyMultisigBlob(transaction, tx_blob, signers)).toBe(alice.address);
+    });
+
+    test('should reject signatures for a different transaction', () => {
+        const { tx_blob } = alice.sign({ ...transaction, Amount: '2000000' }, true);
+        expect(() => verifyMultisigBlob(transaction, tx_blob, signers)).toThrow('does not match');
+    });
+
+    test('should reject signers outside the list and single-signed blobs', () => {
+        expect(() => verifyMultisigBlob(transaction, outsider.sign(transaction, true).tx_blob, signers)).toThrow('not on the signer list');
+        expect(() => verifyMultisigBlob(transaction, alice.sign(transaction).tx_blob, signers)).toThrow('exactly one signer');
+    });
+
+    test('should derive stable proposal IDs from the transaction', () => {
+        expect(generateProposalId(transaction)).toMatch(/^MS-[0-9A-F]{12}$/);
+        expect(generateProposalId(transaction)).toBe(generateProposalId({ ...transaction }));
+        expect(generateProposalId(transaction)).not.toBe(generateProposalId({ ...transaction, Sequence: 8 }));
+    });
+});
+
+describe('Multisig proposals', () => {
+    const operator = Wallet.generate();
+    const cosigner = Wallet.generate();
+    const treasury = Wallet.generate();
+    const vendor = Wallet.generate();
+    let dataDir: string;
+    let agent: RWAAgent;
+    let submitted: string[];
+
+    // Just enough of xrpl.Client for a treasury with a 2-of-2 signer list (operator and an outside cosigner)
+    const mockClient = () => ({
+        autofill: async (tx: any) => ({ ...tx, Fee: '36', Sequence: 7, LastLedgerSequence: 120 }),
+        getLedgerIndex: async () => 100,
+        submit: async (txBlob: string) => {
+            submitted.push(txBlob);
+            return { result: { engine_result: 'tesSUCCESS', engine_result_message: 'The transaction was applied.' } };
+        },
+        request: async (request: any) => {
+            if (request.command === 'account_info') {
+                return {
+                    result: {
+                        account_data: { Flags: 0x00100000 }, // lsfDisableMaster
+                        signer_lists: [{
+                            SignerQuorum: 2,
+                            SignerEntries: [operator, cosigner].map(wallet => ({ SignerEntry: { Account: wallet.address, SignerWeight: 1 } }))
+                        }]
+                    }
+                };
+            }
+            if (request.command === 'tx') {
+                return { result: { validated: true, meta: { TransactionResult: 'tesSUCCESS' } } };
+            }
+            throw new Error(`Unexpected request ${request.command}`);
+        }
+    });
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rwa-build-'));
+        process.env.RWA_DATA_DIR = dataDir;
+        process.env.XRPL_PRIVATE_KEY = operator.seed;
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        agent = new RWAAgent();
+        agent.client = mockClient() as any;
+        submitted = [];
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        delete process.env.RWA_DATA_DIR;
+        delete process.env.XRPL_PRIVATE_KEY;
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    test('should collect signatures over time and submit at quorum', async () => {
+        const payment: Payment = { TransactionType: 'Payment', Account: treasury.address, Destination: vendor.address, Amount: '1000000' };
+
+        const proposal = await agent.proposeMultisigTransaction(payment, 'Pay vendor');
+        expect(proposal.status).toBe('pending');
+        expect(proposal.signatures.map(signature => signature.signer)).toEqual([operator.address]);
+        expect(proposal.transaction.LastLedgerSequence).toBeUndefined();
+        expect(submitted).toHaveLength(0);
+
+        const signedBlob = cosigner.sign(proposal.transaction as Payment, true).tx_blob;
+        const result = await agent.signMultisigProposal(proposal.id, { signedBlob });
+
+        expect(submitted).toHaveLength(1);
+        expect(result.status).toBe('submitted');
+        expect(result.engineResult).toBe('tesSUCCESS');
+        expect(result.transactionHash).toBe(hashes.hashSignedTx(submitted[0]));
+    });
+
+    test('should mark a proposal whose sequence was used up as failed', async () => {
+        agent.client = {
+            ...mockClient(),
+            submit: async () => ({ result: { engine_result: 'tefPAST_SEQ', engine_result_message: 'This sequence number has already passed.' } }),
+            request: async (request: any) => {
+                if (request.command === 'tx') {
+                    throw Object.assign(new Error('txnNotFound'), { data: { error: 'txnNotFound' } });
+                }
+                return mockClient().request(request);
+            }
+        } as any;
+
+        const proposal = await agent.proposeMultisigTransaction(
+            { TransactionType: 'Payment', Account: treasury.address, Destination: vendor.address, Amount: '1000000' },
+            'Pay vendor'
+        );
+        const result = await agent.signMultisigProposal(proposal.id, {
+            signedBlob: cosigner.sign(proposal.transaction as Payment, true).tx_blob
+        });
+
+        expect(result.status).toBe('failed');
+        expect(result.error).toContain('tefPAST_SEQ');
+    });
+});
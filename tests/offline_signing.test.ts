@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AccountSet, Payment, TrustSet, Wallet } from 'xrpl';
+import { RWAAgent } from '../src/agent';
+import { summarizePreparedTransactions } from '../src/utils/offline_signing';
+import { computeMPTIssuanceId, getMPTIssuer, isMPTokenId } from '../src/utils/xrpl_helpers';
+
+describe('Offline signing', () => {
+    const treasury = Wallet.generate();
+    const issuer = Wallet.generate();
+    let dataDir: string;
+    let agent: RWAAgent;
+
+    // Autofill hands out the account's next Sequence (7) unless one is already set
+    const mockClient = () => ({
+        autofill: async (tx: any) => ({ Sequence: 7, ...tx, Fee: '12' }),
+        getLedgerIndex: async () => 100
+    });
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rwa-build-'));
+        process.env.RWA_DATA_DIR = dataDir;
+        process.env.XRPL_ACCOUNT = treasury.address;
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        agent = new RWAAgent();
+        agent.client = mockClient() as any;
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        delete process.env.RWA_DATA_DIR;
+        delete process.env.XRPL_ACCOUNT;
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    test('should run in prepare-only mode without a signing key', () => {
+        expect(agent.prepareOnly).toBe(true);
+        expect(agent.address).toBe(treasury.address);
+        expect(() => agent.wallet).toThrow('No signing key');
+    });
+
+    test('should give transactions from the same account consecutive sequences', async () => {
+        const issuerSetup: AccountSet = { TransactionType: 'AccountSet', Account: issuer.address };
+        const trustline: TrustSet = {
+            TransactionType: 'TrustSet',
+            Account: treasury.address,
+            LimitAmount: { currency: 'BLD', issuer: issuer.address, value: '1000' }
+        };
+        const issuance: Payment = {
+            TransactionType: 'Payment',
+            Account: issuer.address,
+            Destination: treasury.address,
+            Amount: { currency: 'BLD', issuer: issuer.address, value: '1000' }
+        };
+
+        const prepared = await agent.prepareTransactions([issuerSetup, trustline, issuance]);
+
+        expect(prepared.map(item => [item.account, item.sequence])).toEqual([
+            [issuer.address, 7],
+            [treasury.address, 7],
+            [issuer.address, 8]
+        ]);
+        expect(prepared.every(item => item.lastLedgerSequence === 1100)).toBe(true);
+    });
+
+    test('should summarize prepared transactions in submission order', async () => {
+        const payments: Payment[] = [1, 2].map(amount => ({
+            TransactionType: 'Payment',
+            Account: treasury.address,
+            Destination: issuer.address,
+            Amount: String(amount * 1000000)
+        }));
+        const prepared = await agent.prepareTransactions(payments);
+
+        const summary = summarizePreparedTransactions(
+            prepared.map((item, index) => ({ ...item, step: `payment_${index + 1}` })),
+            'Two payments',
+            'testnet'
+        );
+
+        expect(summary.status).toBe('prepared');
+        expect(summary.unsigned_transactions.map(item => [item.order, item.step, item.sequence])).toEqual([
+            [1, 'payment_1', 7],
+            [2, 'payment_2', 8]
+        ]);
+        expect(summary.total_fee).toBe('0.000024 XRP');
+        expect(summary.last_ledger_sequence).toBe(1100);
+    });
+
+    test('should derive the MPT issuance ID from the creating sequence', () => {
+        const mptIssuanceId = computeMPTIssuanceId(42, issuer.address);
+
+        expect(isMPTokenId(mptIssuanceId)).toBe(true);
+        expect(mptIssuanceId.startsWith('0000002A')).toBe(true);
+        expect(getMPTIssuer(mptIssuanceId)).toBe(issuer.address);
+    });
+});
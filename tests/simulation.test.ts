@@ -0,0 +1,119 @@
+import { extractBalanceChanges, summarizeSimulation, summarizeSimulations } from '../src/utils/simulation';
+import { SimulationResult } from '../src/types';
+
+describe('Dry-run simulation', () => {
+    const sender = 'rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH';
+    const receiver = 'rPT1Sjq2YGrBMTttX4GZHjKu9dyfQeEBUs';
+    const mptIssuanceId = '0000012FFD9EE5DA93AC614B4DB94D7E0FCE415CA51BED47';
+
+    const meta: any = {
+        TransactionIndex: 0,
+        TransactionResult: 'tesSUCCESS',
+        AffectedNodes: [
+            {
+                ModifiedNode: {
+                    LedgerEntryType: 'AccountRoot',
+                    LedgerIndex: 'A',
+                    FinalFields: { Account: sender, Balance: '99999988' },
+                    PreviousFields: { Balance: '100000000' }
+                }
+            },
+            {
+                ModifiedNode: {
+                    LedgerEntryType: 'MPToken',
+                    LedgerIndex: 'B',
+                    FinalFields: { Account: receiver, MPTokenIssuanceID: mptIssuanceId, MPTAmount: '1500' },
+                    PreviousFields: { MPTAmount: '500' }
+                }
+            },
+            {
+                CreatedNode: {
+                    LedgerEntryType: 'MPToken',
+                    LedgerIndex: 'C',
+                    NewFields: { Account: sender, MPTokenIssuanceID: mptIssuanceId }
+                }
+            }
+        ]
+    };
+
+    const simulation = (overrides: Partial<SimulationResult> = {}): SimulationResult => ({
+        method: 'simulate',
+        engineResult: 'tesSUCCESS',
+        engineResultMessage: 'The simulated transaction would have been applied.',
+        transaction: { TransactionType: 'Payment', Account: sender },
+        fee: '12',
+        balanceChanges: extractBalanceChanges(meta),
+        ledgerIndex: 100,
+        ...overrides
+    });
+
+    test('should read XRP and MPT balance changes from metadata', () => {
+        expect(extractBalanceChanges(meta)).toEqual([
+            { account: sender, currency: 'XRP', value: '-0.000012' },
+            { account: receiver, currency: mptIssuanceId, value: '1000' }
+        ]);
+    });
+
+    test('should group balance changes by account', () => {
+        const output = summarizeSimulation(simulation(), 'test payment', 'testnet');
+
+        expect(output.status).toBe('simulated');
+        expect(output.simulation.fee).toBe('0.000012 XRP');
+        expect(output.balance_changes).toEqual({
+            [sender]: ['-0.000012 XRP'],
+            [receiver]: [`+1000 ${mptIssuanceId}`]
+        });
+    });
+
+    test('should report a failing engine result as an error', () => {
+        const output = summarizeSimulation(simulation({ engineResult: 'tecPATH_DRY', balanceChanges: [] }), 'test payment', 'testnet');
+
+        expect(output.status).toBe('error');
+        expect(output.message).toContain('tecPATH_DRY');
+    });
+
+    test('should fall back to the local estimate when the server cannot simulate', () => {
+        const output = summarizeSimulation(
+            simulation({ method: 'estimate', engineResult: undefined, balanceChanges: [] }),
+            'test payment',
+            'testnet',
+            { expected_output: '10 BLD' }
+        );
+
+        expect(output.status).toBe('estimated');
+        expect(output.balance_changes).toBeUndefined();
+        expect(output.estimate).toEqual({ expected_output: '10 BLD' });
+    });
+
+    test('should list dependent steps of a multi-step dry run as not simulated', () => {
+        const transaction = { TransactionType: 'AccountSet', Account: sender };
+        const output = summarizeSimulations(
+            [
+                { step: 'signer_list', transaction, simulation: simulation() },
+                { step: 'disable_master_key', transaction, simulation: null }
+            ],
+            'signer list',
+            'testnet'
+        );
+
+        expect(output.status).toBe('simulated');
+        expect(output.simulation).toMatchObject({ transactions: 2, simulated: 1, expected_to_succeed: 1, total_fee: '0.000012 XRP' });
+        expect(output.results[1]).toMatchObject({ order: 2, step: 'disable_master_key', not_simulated: expect.any(String) });
+    });
+
+    test('should report a multi-step dry run as an error when any step would fail', () => {
+        const transaction = { TransactionType: 'Payment', Account: sender };
+        const output = summarizeSimulations(
+            [
+                { transaction, simulation: simulation() },
+                { transaction, simulation: simulation({ engineResult: 'tecNO_LINE', balanceChanges: [] }) }
+            ],
+            'two payments',
+            'testnet'
+        );
+
+        expect(output.status).toBe('error');
+        expect(output.message).toContain('1 of 2');
+        expect(output.results[1]).toMatchObject({ expected_result: 'tecNO_LINE' });
+    });
+});
@@ -1,4 +1,4 @@
-import { validateTokenSymbol, validateAssetValue, validateTokenSupply, validateYieldRate } from '../src/utils/validation';
+import { validateTokenSymbol, validateAssetValue, validateTokenSupply, validateYieldRate, evaluateInvestorCap, validateSignerList } from '../src/utils/validation';
 
 describe('Validation Utils', () => {
     describe('validateTokenSymbol', () => {
@@ -6,11 +6,13 @@ describe('Validation Utils', () => {
             expect(validateTokenSymbol('BLD')).toEqual({ valid: true });
             expect(validateTokenSymbol('ABC')).toEqual({ valid: true });
             expect(validateTokenSymbol('123')).toEqual({ valid: true });
+            expect(validateTokenSymbol('BKKCONDO')).toEqual({ valid: true });
+            expect(validateTokenSymbol('USTB2027')).toEqual({ valid: true });
         });
 
         test('should reject invalid token symbols', () => {
-            expect(validateTokenSymbol('BL')).toEqual({ valid: false, error: 'Token symbol must be exactly 3 characters' });
-            expect(validateTokenSymbol('BLDG')).toEqual({ valid: false, error: 'Token symbol must be exactly 3 characters' });
+            expect(validateTokenSymbol('BL')).toEqual({ valid: false, error: 'Token symbol must be between 3 and 20 characters' });
+            expect(validateTokenSymbol('ABCDEFGHIJKLMNOPQRSTU')).toEqual({ valid: false, error: 'Token symbol must be between 3 and 20 characters' });
             expect(validateTokenSymbol('bl1')).toEqual({ valid: false, error: 'Token symbol must contain only uppercase letters and numbers' });
         });
 
@@ -64,4 +66,50 @@ describe('Validation Utils', () => {
             expect(validateYieldRate(51)).toEqual({ valid: false, error: 'Yield rate cannot exceed 50% annually' });
         });
     });
+    describe('evaluateInvestorCap', () => {
+        test('should apply the unregistered limit when no cap is set', () => {
+            const check = evaluateInvestorCap({ accreditedOnly: false }, 99, 1);
+            expect(check).toMatchObject({ cap: 99, projectedHolders: 100, allowed: false });
+            expect(check.rule).toContain('506(b)');
+        });
+
+        test('should prefer the asset cap and warn when nearly full', () => {
+            const check = evaluateInvestorCap({ accreditedOnly: true, maxInvestors: 10 }, 8, 1);
+            expect(check).toMatchObject({ cap: 10, projectedHolders: 9, allowed: true });
+            expect(check.rule).toBe('Asset investor cap of 10');
+            expect(check.warning).toBeDefined();
+        });
+
+        test('should not cap accredited-only offerings without maxInvestors', () => {
+            const check = evaluateInvestorCap({ accreditedOnly: true }, 500, 10);
+            expect(check.cap).toBeUndefined();
+            expect(check.allowed).toBe(true);
+        });
+
+        test('should allow transfers between existing holders of a full offering', () => {
+            expect(evaluateInvestorCap({ maxInvestors: 5 }, 6, 0).allowed).toBe(true);
+        });
+    });
+    describe('validateSignerList', () => {
+        const account = 'rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH';
+        const signers = [
+            { address: 'rPT1Sjq2YGrBMTttX4GZHjKu9dyfQeEBUs', weight: 1 },
+            { address: 'rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn', weight: 2 }
+        ];
+
+        test('should accept a reachable quorum', () => {
+            expect(validateSignerList(account, 3, signers)).toEqual({ valid: true });
+        });
+
+        test('should reject quorums the signers cannot reach', () => {
+            expect(validateSignerList(account, 4, signers).valid).toBe(false);
+            expect(validateSignerList(account, 0, signers).valid).toBe(false);
+        });
+
+        test('should reject the account itself and duplicate signers', () => {
+            expect(validateSignerList(account, 1, [...signers, { address: account, weight: 1 }]).valid).toBe(false);
+            expect(validateSignerList(account, 1, [...signers, signers[0]]).valid).toBe(false);
+            expect(validateSignerList(account, 1, []).valid).toBe(false);
+        });
+    });
 });
@@ -1,5 +1,6 @@
 import { validateXRPLAddress } from '../src/utils/validation';
-import { isValidXRPLAddress, generateAssetId, parseAssetId } from '../src/utils/xrpl_helpers';
+import { isValidXRPLAddress, generateAssetId, parseAssetId, encodeCurrencyCode, decodeCurrencyCode, generateCurrencyCode, createRWAMemo, findRWATokenizationTx, createRWAAmendmentMemo, findRWAAmendments, applyRWAAmendments, isMPTokenId, getMPTIssuer, toMPTValue, fromMPTValue } from '../src/utils/xrpl_helpers';
+import { decodeAccountID } from 'xrpl';
 import { Wallet } from "xrpl"
 
 describe('XRPL Wallet Utils', () => {
@@ -57,10 +58,97 @@ describe('XRPL Wallet Utils', () => {
             });
         });
 
+        test('should encode long tickers in asset IDs', () => {
+            expect(parseAssetId('BKKCONDO.rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH')).toEqual({
+                currency: '424B4B434F4E444F000000000000000000000000',
+                issuer: 'rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH'
+            });
+        });
+
         test('should return null for invalid asset IDs', () => {
             expect(parseAssetId('invalid')).toBeNull();
             expect(parseAssetId('BLD')).toBeNull();
             expect(parseAssetId('BLD.rN7n7otQ.extra')).toBeNull();
         });
     });
+
+    describe('currency codes', () => {
+        test('should keep 3-character codes as standard codes', () => {
+            expect(encodeCurrencyCode('BLD')).toBe('BLD');
+            expect(generateCurrencyCode('bl')).toBe('BL0');
+        });
+
+        test('should round-trip long tickers through the hex format', () => {
+            const code = generateCurrencyCode('USTB2027');
+            expect(code).toBe('5553544232303237000000000000000000000000');
+            expect(decodeCurrencyCode(code)).toBe('USTB2027');
+            expect(decodeCurrencyCode('BLD')).toBe('BLD');
+        });
+    });
+
+    describe('MPT helpers', () => {
+        const issuer = 'rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH';
+        const mptId = '00000001' + Buffer.from(decodeAccountID(issuer)).toString('hex').toUpperCase();
+
+        test('should recognise MPT issuance IDs', () => {
+            expect(isMPTokenId(mptId)).toBe(true);
+            expect(isMPTokenId('BLD.rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH')).toBe(false);
+        });
+
+        test('should derive the issuer from an issuance ID', () => {
+            expect(getMPTIssuer(mptId)).toBe(issuer);
+        });
+
+        test('should convert between token amounts and scaled MPT values', () => {
+            expect(toMPTValue(12.5, 2)).toBe('1250');
+            expect(fromMPTValue('1250', 2)).toBe(12.5);
+            expect(() => toMPTValue(0.001, 2)).toThrow();
+        });
+    });
+
+    describe('findRWATokenizationTx', () => {
+        const memo = createRWAMemo({ assetDetails: { tokenSymbol: 'BKKCONDO', name: 'Bangkok Condo' } });
+        const tx = { TransactionType: 'AccountSet', Memos: [memo] };
+
+        test('should read API v2 entries (tx_json)', () => {
+            const found = findRWATokenizationTx([{ tx_json: tx, hash: 'ABC', ledger_index: 42 }], generateCurrencyCode('BKKCONDO'));
+            expect(found).toMatchObject({ tokenizationTxHash: 'ABC', ledgerIndex: 42 });
+            expect(found.assetDetails.name).toBe('Bangkok Condo');
+        });
+
+        test('should read API v1 entries (tx)', () => {
+            const found = findRWATokenizationTx([{ tx: { ...tx, hash: 'DEF', ledger_index: 7 } }], 'BKKCONDO');
+            expect(found).toMatchObject({ tokenizationTxHash: 'DEF', ledgerIndex: 7 });
+        });
+
+        test('should return null when no memo matches', () => {
+            expect(findRWATokenizationTx([{ tx_json: tx, hash: 'ABC' }], 'BLD')).toBeNull();
+        });
+    });
+
+    describe('metadata amendments', () => {
+        const issuer = 'rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH';
+        const assetId = `BLD.${issuer}`;
+        const amendment = { assetId, version: 2, timestamp: 1, changes: { totalValue: 2400000 }, reason: 'Q3 valuation' };
+        const wrap = (account: string, result = 'tesSUCCESS') => ({
+            tx_json: { TransactionType: 'AccountSet', Account: account, Memos: [createRWAAmendmentMemo(amendment)] },
+            meta: { TransactionResult: result },
+            hash: 'H1',
+            ledger_index: 10
+        });
+
+        test('should only accept successful amendments sent by the issuer', () => {
+            const found = findRWAAmendments([wrap(issuer), wrap('rPT1Sjq2YGrBMTttX4GZHjKu9dyfQeEBUs'), wrap(issuer, 'tecNO_PERMISSION')], assetId, issuer);
+            expect(found).toHaveLength(1);
+            expect(found[0]).toMatchObject({ version: 2, transactionHash: 'H1', ledgerIndex: 10 });
+        });
+
+        test('should fold amendments into the current view', () => {
+            const metadata = { assetDetails: { totalValue: 2000000, totalSupply: 1000, yieldRate: 5 } };
+            const current = applyRWAAmendments(metadata, [amendment, { ...amendment, version: 3, changes: { yieldRate: 6 } }]);
+            expect(current.version).toBe(3);
+            expect(current.assetDetails).toMatchObject({ totalValue: 2400000, yieldRate: 6, pricePerToken: 2400 });
+            expect(metadata.assetDetails.totalValue).toBe(2000000);
+        });
+    });
 });
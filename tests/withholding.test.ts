@@ -0,0 +1,39 @@
+import { resolveWithholdingRate } from '../src/utils/withholding';
+import { HolderTaxProfile, WithholdingRuleSet } from '../src/types';
+
+describe('Withholding Rules', () => {
+    const rules: WithholdingRuleSet = {
+        sourceJurisdiction: 'US',
+        domesticRate: 0,
+        defaultRate: 30,
+        jurisdictionRates: { TH: 15 },
+        undocumentedRate: 24,
+        updatedAt: '2025-01-01T00:00:00.000Z'
+    };
+
+    const profile = (jurisdiction: string, extra: Partial<HolderTaxProfile> = {}): HolderTaxProfile => ({
+        address: 'rPT1Sjq2YGrBMTttX4GZHjKu9dyfQeEBUs',
+        jurisdiction,
+        exempt: false,
+        updatedAt: '2025-01-01T00:00:00.000Z',
+        ...extra
+    });
+
+    test('should apply exemptions and treaty rates before the rule set', () => {
+        expect(resolveWithholdingRate(profile('SG', { exempt: true, treatyRate: 10 }), rules)).toEqual({ rate: 0, source: 'exempt' });
+        expect(resolveWithholdingRate(profile('SG', { treatyRate: 10 }), rules)).toEqual({ rate: 10, source: 'treaty' });
+    });
+
+    test('should pick domestic, per-jurisdiction, default and undocumented rates', () => {
+        expect(resolveWithholdingRate(profile('US'), rules)).toEqual({ rate: 0, source: 'domestic' });
+        expect(resolveWithholdingRate(profile('TH'), rules)).toEqual({ rate: 15, source: 'jurisdiction' });
+        expect(resolveWithholdingRate(profile('SG'), rules)).toEqual({ rate: 30, source: 'default' });
+        expect(resolveWithholdingRate(null, rules)).toEqual({ rate: 24, source: 'undocumented' });
+    });
+
+    test('should withhold nothing without a rule set unless the holder has a treaty rate', () => {
+        expect(resolveWithholdingRate(null, null)).toEqual({ rate: 0, source: 'none' });
+        expect(resolveWithholdingRate(profile('SG'), null)).toEqual({ rate: 0, source: 'none' });
+        expect(resolveWithholdingRate(profile('SG', { treatyRate: 15 }), null)).toEqual({ rate: 15, source: 'treaty' });
+    });
+});